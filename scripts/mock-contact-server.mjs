@@ -0,0 +1,60 @@
+/**
+ * Mock Contact Endpoint
+ * Local stand-in for the HTTP contact transport. Run it, then start the dev
+ * server with:
+ *
+ *   VITE_CONTACT_TRANSPORT=http VITE_CONTACT_ENDPOINT=http://localhost:8787/contact npm run dev
+ *
+ * MOCK_STATUS=500 forces failures and MOCK_DELAY_MS slows responses down, so
+ * the error toast and submitting state can be exercised.
+ */
+
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 8787);
+const status = Number(process.env.MOCK_STATUS ?? 200);
+const delayMs = Number(process.env.MOCK_DELAY_MS ?? 300);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  if (req.method !== "POST" || req.url !== "/contact") {
+    res.writeHead(404, corsHeaders).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      res.writeHead(400, corsHeaders).end("Invalid JSON");
+      return;
+    }
+
+    const missing = ["name", "phone", "message"].filter((key) => !message[key]);
+    const responseStatus = missing.length > 0 ? 422 : status;
+    console.log(`[mock-contact] ${responseStatus}`, message);
+
+    setTimeout(() => {
+      res
+        .writeHead(responseStatus, { ...corsHeaders, "Content-Type": "application/json" })
+        .end(JSON.stringify(missing.length > 0 ? { missing } : { ok: responseStatus < 400 }));
+    }, delayMs);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[mock-contact] listening on http://localhost:${port}/contact (status ${status})`);
+});
@@ -0,0 +1,54 @@
+/**
+ * Prerender
+ * Renders every route (home, sections, menu categories and dishes) in every
+ * locale to static HTML after `vite build`, so crawlers get real markup plus per-page titles,
+ * descriptions, canonical URLs, Open Graph tags and JSON-LD. The browser then
+ * hydrates it. Run through `npm run build`, which first builds the client and
+ * the SSR entry (src/entry-server.tsx) into dist/server.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+// React's server renderer is picked by NODE_ENV when the SSR bundle loads
+process.env.NODE_ENV ??= "production";
+
+const distDir = path.resolve("dist");
+const serverDir = path.join(distDir, "server");
+const rootPlaceholder = '<div id="root"></div>';
+const htmlLangPattern = /<html lang="[^"]*">/;
+
+const { getPrerenderPages, render, replaceHeadTags } = await import(
+  pathToFileURL(path.join(serverDir, "entry-server.js")).href
+);
+
+const template = await fs.readFile(path.join(distDir, "index.html"), "utf8");
+if (!template.includes(rootPlaceholder)) {
+  throw new Error(`dist/index.html is missing ${rootPlaceholder}`);
+}
+if (!htmlLangPattern.test(template)) {
+  throw new Error('dist/index.html is missing <html lang="...">');
+}
+
+// Unknown URLs fall back to the plain client-rendered shell
+await fs.writeFile(
+  path.join(distDir, "404.html"),
+  template.replace("</head>", '  <meta name="robots" content="noindex" />\n  </head>')
+);
+
+const pages = getPrerenderPages();
+for (const page of pages) {
+  const appHtml = await render(page.path);
+  const html = replaceHeadTags(template, page.head)
+    .replace(htmlLangPattern, `<html lang="${page.lang}">`)
+    .replace(rootPlaceholder, `<div id="root">${appHtml}</div>`);
+
+  const file = path.join(distDir, page.path, "index.html");
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, html);
+  console.log(`  ${page.path}`);
+}
+
+await fs.rm(serverDir, { recursive: true, force: true });
+console.log(`Prerendered ${pages.length} pages into dist/`);
@@ -0,0 +1,82 @@
+/**
+ * Local Web Vitals Collector
+ * Receives the real-user reports from src/utils/webVitals.ts. Run it, then
+ * start the dev server with:
+ *
+ *   VITE_RUM_ENDPOINT=http://localhost:8788/rum VITE_RUM_SAMPLE_RATE=100 npm run dev
+ *
+ * Each report is logged as it arrives, followed by the 75th percentile of
+ * every metric so far, which is the figure Core Web Vitals are judged by.
+ * Reports arrive as text/plain JSON from navigator.sendBeacon.
+ */
+
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 8788);
+const SCHEMA_VERSION = 1;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// Latest value per page view and metric; a tab hidden twice reports twice
+const latest = new Map();
+
+const percentile = (values, p) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const summarise = () => {
+  const samples = new Map();
+  latest.forEach((value, key) => {
+    const name = key.slice(key.lastIndexOf(":") + 1);
+    samples.set(name, [...(samples.get(name) ?? []), value]);
+  });
+  return [...samples.entries()]
+    .map(([name, values]) => `${name} p75 ${+percentile(values, 75).toFixed(3)} (n=${values.length})`)
+    .join(", ");
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  if (req.method !== "POST" || req.url !== "/rum") {
+    res.writeHead(404, corsHeaders).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    let report;
+    try {
+      report = JSON.parse(body);
+    } catch {
+      res.writeHead(400, corsHeaders).end("Invalid JSON");
+      return;
+    }
+
+    if (report.schemaVersion !== SCHEMA_VERSION || !Array.isArray(report.metrics)) {
+      console.warn(`[rum] ignored a report with schema version ${report.schemaVersion}`);
+      res.writeHead(422, corsHeaders).end();
+      return;
+    }
+
+    const metrics = report.metrics.map((metric) => `${metric.name}=${metric.value} (${metric.rating})`).join(" ");
+    console.log(`[rum] ${report.route} ${report.navigationType} ${report.connection} ${metrics}`);
+    report.metrics.forEach((metric) => latest.set(`${report.pageViewId}:${metric.name}`, metric.value));
+    console.log(`[rum] ${summarise()}`);
+
+    res.writeHead(204, corsHeaders).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[rum] collecting on http://localhost:${port}/rum (schema version ${SCHEMA_VERSION})`);
+});
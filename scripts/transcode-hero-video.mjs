@@ -0,0 +1,308 @@
+/**
+ * Hero Video Transcoder
+ * Encodes a source clip into the hero video renditions listed in
+ * src/data/heroVideoManifest.ts: WebM (VP9) and MP4 (H.264) at each quality,
+ * a poster frame per resolution and a tiny placeholder the hero blurs while
+ * the poster loads. Resolutions, bitrates and the H.264 profile come from
+ * VIDEO_OPTIMIZATION_GUIDELINES. Writes the files to public/video/, rewrites
+ * the manifest and checks every output against the guidelines. Needs ffmpeg
+ * and ffprobe on the PATH:
+ *
+ *   npm run video:transcode -- path/to/master.mov
+ *   npm run video:transcode -- path/to/master.mov --dry-run   # print the commands and manifest only
+ *   npm run video:transcode -- --report                       # check the files already in public/video
+ *
+ * Exits non-zero when an output breaks a guideline.
+ */
+
+import { spawnSync } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createServer } from "vite";
+
+const publicDir = path.resolve("public");
+const outDir = path.join(publicDir, "video");
+const manifestPath = path.resolve("src/data/heroVideoManifest.ts");
+
+// Seconds into the clip for the poster; the first frame is often a fade-in
+const POSTER_AT = 1;
+// Width of the blur placeholder, inlined into the manifest as a data URI
+const PLACEHOLDER_WIDTH = 32;
+// VP9 matches H.264's picture at roughly this share of the bitrate
+const WEBM_BITRATE_SHARE = 0.7;
+// H.264 peaks are capped at this multiple of the target (-maxrate); the check
+// allows any rendition's average up to the same ceiling
+const MAXRATE_FACTOR = 1.5;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    report: { type: "boolean", default: false },
+  },
+});
+const [source] = positionals;
+const isDryRun = options["dry-run"];
+
+if (!options.report && !source) {
+  console.error("Usage: npm run video:transcode -- <source clip> [--dry-run] | --report");
+  process.exit(1);
+}
+
+// The guidelines and manifest schema are TypeScript; Vite loads them as it
+// does for the SSR build, without this project's plugins
+const loadModules = async () => {
+  const vite = await createServer({
+    configFile: false,
+    appType: "custom",
+    logLevel: "error",
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+  try {
+    const { VIDEO_OPTIMIZATION_GUIDELINES } = await vite.ssrLoadModule("/src/data/videoGuidelines.ts");
+    const { heroVideo, heroVideoSchema } = await vite.ssrLoadModule("/src/data/heroVideo.ts");
+    return { guidelines: VIDEO_OPTIMIZATION_GUIDELINES, heroVideo, heroVideoSchema };
+  } finally {
+    await vite.close();
+  }
+};
+
+const { guidelines, heroVideo, heroVideoSchema } = await loadModules();
+
+const parseHeight = (resolution) => Number.parseInt(resolution, 10); // "720p" → 720
+
+// Quality ladder: desktops get the desktop resolution, phones the mobile one,
+// and "low" is the step down for stalling connections
+const ladder = [
+  { quality: "high", height: parseHeight(guidelines.resolution.desktop), mbps: guidelines.bitrate.high },
+  { quality: "medium", height: parseHeight(guidelines.resolution.mobile), mbps: guidelines.bitrate.medium },
+  { quality: "low", height: 480, mbps: guidelines.bitrate.low },
+];
+
+// Listed WebM first: the hero takes the first format a browser can play
+const formats = [
+  {
+    extension: "webm",
+    type: 'video/webm; codecs="vp9"',
+    kbps: (mbps) => Math.round(mbps * 1000 * WEBM_BITRATE_SHARE),
+    args: (kbps) => ["-c:v", "libvpx-vp9", "-b:v", `${kbps}k`, "-deadline", "good", "-cpu-used", "2", "-row-mt", "1"],
+  },
+  {
+    // avc1.640028 is High profile, level 4.0, as guidelines.compression asks
+    extension: "mp4",
+    type: 'video/mp4; codecs="avc1.640028"',
+    kbps: (mbps) => Math.round(mbps * 1000),
+    args: (kbps) => [
+      "-c:v", "libx264", "-preset", "slow",
+      "-profile:v", guidelines.compression.profile.toLowerCase(), "-level:v", guidelines.compression.level,
+      "-pix_fmt", "yuv420p", "-b:v", `${kbps}k`, "-maxrate", `${Math.round(kbps * MAXRATE_FACTOR)}k`, "-bufsize", `${kbps * 2}k`,
+      "-movflags", "+faststart",
+    ],
+  },
+];
+
+const renditionFile = (height, extension) => `hero-${height}p.${extension}`;
+const posterFile = (height) => `hero-poster-${height}p.jpg`;
+const publicUrl = (file) => `/${path.relative(publicDir, file).split(path.sep).join("/")}`;
+
+// Even width for `height` at the source's aspect ratio, as scale=-2 picks it
+const widthFor = (height, aspect) => Math.round((height * aspect) / 2) * 2;
+
+const run = (command, args, { capture = false } = {}) => {
+  const result = spawnSync(command, args, { stdio: capture ? ["ignore", "pipe", "inherit"] : "inherit" });
+  if (result.error?.code === "ENOENT") {
+    console.error(`${command} isn't installed or isn't on the PATH; see video-optimization-guide.md`);
+    process.exit(1);
+  }
+  if (result.status !== 0) throw new Error(`${command} ${args.join(" ")} exited with ${result.status}`);
+  return result.stdout;
+};
+
+const probe = (file) => {
+  const output = run(
+    "ffprobe",
+    ["-v", "error", "-show_entries", "format=duration,size,bit_rate:stream=codec_name,profile,level,width,height",
+      "-select_streams", "v:0", "-of", "json", file],
+    { capture: true }
+  );
+  const { format, streams } = JSON.parse(output.toString());
+  return { ...format, ...streams[0] };
+};
+
+const fileExists = (file) => fs.access(file).then(() => true, () => false);
+
+const formatMb = (bytes) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+// What the ladder encodes `quality` at in this container, in kbps
+const targetKbps = (quality, extension) => {
+  const { mbps } = ladder.find((step) => step.quality === quality);
+  return formats.find((format) => format.extension === extension).kbps(mbps);
+};
+
+// Guideline problems with one encoded rendition; warnings don't fail the run
+const checkRendition = (info, { quality, extension }) => {
+  const errors = [];
+  const warnings = [];
+  const size = Number(info.size);
+  const duration = Number(info.duration);
+  const kbps = Number(info.bit_rate) / 1000;
+  const target = targetKbps(quality, extension);
+
+  if (size > guidelines.fileSize.mobile * 1024 * 1024) {
+    errors.push(`${formatMb(size)} is over the ${guidelines.fileSize.mobile} MB mobile limit`);
+  }
+  if (duration > guidelines.duration.maximum) {
+    errors.push(`${duration.toFixed(1)} s is longer than the ${guidelines.duration.maximum} s maximum`);
+  } else if (duration > guidelines.duration.recommended) {
+    warnings.push(`${duration.toFixed(1)} s is longer than the recommended ${guidelines.duration.recommended} s`);
+  }
+  if (info.height > parseHeight(guidelines.resolution.maximum)) {
+    errors.push(`${info.height}p is above the ${guidelines.resolution.maximum} maximum`);
+  }
+  if (kbps > target * MAXRATE_FACTOR) {
+    errors.push(
+      `${(kbps / 1000).toFixed(2)} Mbps is more than ${MAXRATE_FACTOR}× the ` +
+        `${(target / 1000).toFixed(2)} Mbps ${quality} ${extension} target`
+    );
+  }
+  if (extension === "mp4") {
+    const level = (Number(info.level) / 10).toFixed(1);
+    if (info.codec_name !== "h264" || info.profile !== guidelines.compression.profile || level !== guidelines.compression.level) {
+      errors.push(
+        `${info.codec_name} ${info.profile} ${level} isn't ${guidelines.compression.codec} ` +
+          `${guidelines.compression.profile} ${guidelines.compression.level}`
+      );
+    }
+  }
+  return { errors, warnings };
+};
+
+// Checks the files the manifest lists; returns whether all passed
+const report = async (manifest) => {
+  let failures = 0;
+  console.log("Hero video against VIDEO_OPTIMIZATION_GUIDELINES:");
+  for (const rendition of manifest.renditions) {
+    const file = path.join(publicDir, rendition.src);
+    if (!(await fileExists(file))) {
+      failures += 1;
+      console.log(`  ✗ ${rendition.src}  missing`);
+      continue;
+    }
+    const info = probe(file);
+    const { errors, warnings } = checkRendition(info, { quality: rendition.quality, extension: path.extname(file).slice(1) });
+    failures += errors.length > 0 ? 1 : 0;
+    const summary = [
+      `${info.width}x${info.height}`,
+      `${(Number(info.bit_rate) / 1_000_000).toFixed(2)} Mbps`,
+      `${Number(info.duration).toFixed(1)} s`,
+      formatMb(Number(info.size)),
+    ].join(", ");
+    console.log(`  ${errors.length > 0 ? "✗" : "✓"} ${rendition.src}  ${summary}`);
+    [...errors, ...warnings.map((warning) => `warning: ${warning}`)].forEach((issue) => console.log(`      ${issue}`));
+  }
+  for (const poster of manifest.posters) {
+    const exists = await fileExists(path.join(publicDir, poster.src));
+    failures += exists ? 0 : 1;
+    console.log(`  ${exists ? "✓" : "✗"} ${poster.src}${exists ? "" : "  missing"}`);
+  }
+  console.log(failures === 0 ? "All outputs meet the guidelines." : `${failures} output(s) fail the guidelines.`);
+  return failures === 0;
+};
+
+// Strings with double quotes (the codecs) are written single-quoted
+const literal = (value) =>
+  typeof value === "string" && value.includes('"') && !value.includes("'") ? `'${value}'` : JSON.stringify(value);
+
+const serializeEntry = (entry) =>
+  `{ ${Object.entries(entry).map(([key, value]) => `${key}: ${literal(value)}`).join(", ")} }`;
+
+const serializeManifest = (manifest) => `/**
+ * Hero Video Manifest
+ * The encoded hero video files in public/video/: one WebM (VP9) and one MP4
+ * (H.264) per quality, a poster frame per resolution and an optional blur
+ * placeholder. Written by scripts/transcode-hero-video.mjs; rerun it rather
+ * than editing by hand. Validated by src/data/heroVideo.ts.
+ */
+
+export const heroVideoManifest = {
+  renditions: [
+${manifest.renditions.map((entry) => `    ${serializeEntry(entry)},`).join("\n")}
+  ],
+  posters: [
+${manifest.posters.map((entry) => `    ${serializeEntry(entry)},`).join("\n")}
+  ],${manifest.placeholder ? `\n  placeholder: ${literal(manifest.placeholder)},` : ""}
+};
+`;
+
+if (options.report) {
+  process.exit((await report(heroVideo)) ? 0 : 1);
+}
+
+if (!(await fileExists(source)) && !isDryRun) {
+  console.error(`Source clip not found: ${source}`);
+  process.exit(1);
+}
+
+// Aspect ratio of the source; a dry run without ffprobe or the clip assumes 16:9
+const hasFfprobe = spawnSync("ffprobe", ["-version"], { stdio: "ignore" }).error?.code !== "ENOENT";
+let aspect = 16 / 9;
+if (!isDryRun || (hasFfprobe && (await fileExists(source)))) {
+  const info = probe(source);
+  aspect = info.width / info.height;
+} else {
+  console.log(`# ${hasFfprobe ? `${source} not found` : "ffprobe not found"}; assuming a 16:9 source`);
+}
+
+const inputArgs = ["-hide_banner", "-loglevel", "error", "-stats", "-y"];
+const manifest = { renditions: [], posters: [] };
+
+const step = (args, capture) => {
+  if (isDryRun) {
+    console.log(["ffmpeg", ...args.map((arg) => (/[\s"';]/.test(arg) ? `'${arg}'` : arg))].join(" "));
+    return undefined;
+  }
+  return run("ffmpeg", args, { capture });
+};
+
+if (!isDryRun) await fs.mkdir(outDir, { recursive: true });
+
+for (const { quality, height, mbps } of ladder) {
+  for (const format of formats) {
+    const file = path.join(outDir, renditionFile(height, format.extension));
+    const kbps = format.kbps(mbps);
+    // The hero plays muted, so the audio track is dropped
+    step([...inputArgs, "-i", source, "-vf", `scale=-2:${height}`, ...format.args(kbps), "-an", file]);
+    const width = isDryRun ? widthFor(height, aspect) : probe(file).width;
+    manifest.renditions.push({ quality, type: format.type, width, height, bitrateKbps: kbps, src: publicUrl(file) });
+  }
+
+  const poster = path.join(outDir, posterFile(height));
+  step([...inputArgs, "-ss", String(POSTER_AT), "-i", source, "-frames:v", "1", "-vf", `scale=-2:${height}`, "-q:v", "3", poster]);
+  const posterWidth = isDryRun ? widthFor(height, aspect) : probe(poster).width;
+  manifest.posters.push({ quality, width: posterWidth, height, src: publicUrl(poster) });
+}
+
+const placeholder = step(
+  [...inputArgs, "-ss", String(POSTER_AT), "-i", source, "-frames:v", "1",
+    "-vf", `scale=${PLACEHOLDER_WIDTH}:-2`, "-q:v", "8", "-f", "image2pipe", "-c:v", "mjpeg", "-"],
+  true
+);
+if (placeholder) manifest.placeholder = `data:image/jpeg;base64,${placeholder.toString("base64")}`;
+
+const parsed = heroVideoSchema.safeParse(manifest);
+if (!parsed.success) {
+  console.error("The generated manifest doesn't match src/data/heroVideo.ts:", parsed.error.issues);
+  process.exit(1);
+}
+
+if (isDryRun) {
+  console.log(`\n# ${path.relative(process.cwd(), manifestPath)} would become:\n`);
+  console.log(serializeManifest(manifest));
+  process.exit(0);
+}
+
+await fs.writeFile(manifestPath, serializeManifest(manifest));
+console.log(`Wrote ${path.relative(process.cwd(), manifestPath)}\n`);
+process.exit((await report(manifest)) ? 0 : 1);
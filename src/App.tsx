@@ -1,21 +1,60 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
+import { lazy, Suspense, useEffect } from "react";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import AnalyticsConsentBanner from "./components/AnalyticsConsentBanner";
+import AppUpdatePrompts from "./components/AppUpdatePrompts";
+import ContentPreviewBanner from "./components/ContentPreviewBanner";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { loadSiteContent } from "./hooks/useSiteContent";
+import { ROUTE_PATTERNS } from "./utils/routes";
 
-const App = () => (
+// Staff-only; kept out of the main bundle and never prerendered
+const Admin = lazy(() => import("./pages/Admin"));
+
+// Shared by the browser entry and the prerender entry (entry-server.tsx),
+// which supply their own router
+export const AppRoutes = () => (
   <>
     <Toaster />
     <Sonner />
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Index />} />
-        {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-        <Route path="*" element={<NotFound />} />
-      </Routes>
-    </BrowserRouter>
+    <AppUpdatePrompts />
+    <AnalyticsConsentBanner />
+    <ContentPreviewBanner />
+    <Routes>
+      {/* Every section, category and dish route renders the single-page layout */}
+      {ROUTE_PATTERNS.map((path) => (
+        <Route key={path} path={path} element={<Index />} />
+      ))}
+      <Route
+        path="/admin"
+        element={
+          <Suspense fallback={null}>
+            <Admin />
+          </Suspense>
+        }
+      />
+      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+      <Route path="*" element={<NotFound />} />
+    </Routes>
   </>
 );
 
+const App = () => {
+  // Published admin edits (or a draft being previewed) replace the built-in
+  // content. Loaded once hydration has committed: switching the menu and
+  // hours modules while React is still matching the prerendered markup
+  // would hydrate against content the markup wasn't built from.
+  useEffect(() => {
+    loadSiteContent();
+  }, []);
+
+  return (
+    <BrowserRouter>
+      <AppRoutes />
+    </BrowserRouter>
+  );
+};
+
 export default App;
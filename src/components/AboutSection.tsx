@@ -1,53 +1,54 @@
-import { useState, useEffect, memo, useRef } from "react";
+import { Fragment, useState, useEffect, useMemo, memo, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Clock, MapPin, Phone, Award, Users, Calendar, ChefHat, Star } from "lucide-react";
 import { motion, useInView, useAnimation } from "framer-motion";
 import { useResponsiveBreakpoints } from "@/hooks/useResponsiveBreakpoints";
 import { useDevicePerformance } from "@/hooks/usePerformanceOptimization";
-
-// Heritage images
-const heritageImages = [
-  {
-    url: "https://lh3.googleusercontent.com/gps-cs-s/AC9h4np7WfWWAzLPVI-qN90NeIEwIksgM0z-YxIAS0Ew58CoALnSgqzON4Bt1dr4sZ4M0Jn6dD70gpdAXuJGKe0c50BBI0fSajgluhN7Nh2uagksDKCdKd1Um0Zbo_gwgqlWV-Jr_cCU=s1360-w1360-h1020",
-    alt: "Original Ambur Briyani Restaurant Interior",
-    caption: "Our Heritage Since 1967"
-  },
-  {
-    url: "https://img.restaurantguru.com/r126-ORIGINAL-AMBUR-BRIYANI-Deluxe-A-C-since-1967-photo.jpg",
-    alt: "Authentic Ambur Biryani Preparation",
-    caption: "Traditional Cooking Methods"
-  },
-  {
-    url: "https://img.restaurantguru.com/r355-ORIGINAL-AMBUR-BRIYANI-Deluxe-A-C-since-1967-image.jpg",
-    alt: "Original Ambur Briyani Dining Experience",
-    caption: "Family Dining Tradition"
-  },
-  {
-    url: "https://img.restaurantguru.com/r50e-AMBUR-BRIYANI-Deluxe-A-C-since-1967-design-2022-09.jpg",
-    alt: "Original Ambur Briyani Restaurant Facade",
-    caption: "MC Road Landmark"
-  },
-  {
-    url: "https://lh3.googleusercontent.com/gps-cs-s/AC9h4nphdobrRDbNuUgVIey8mnYNTxWuqSy8YSsSEhSTJOwWN0_iCYOm0VuY7QQ0wcA0H6fcu53_vztMcOgb-V1VfYfaZj23XI1bgPcAbCMoniL1vuaNTa1iPBwoJNXYv7bNsEe7skZm=s1360-w1360-h1020",
-    alt: "Deluxe AC Dining Hall",
-    caption: "Modern Comfort, Traditional Taste"
-  }
-];
+import { useLocale } from "@/hooks/useLocale";
+import { useReviews } from "@/hooks/useReviews";
+import { useSiteContent } from "@/hooks/useSiteContent";
+import { localizeHeritagePhoto, splitRichText } from "@/utils/i18n";
+import { formatRating } from "@/utils/reviews";
 
 // Timeline data
 const timelineData = [
-  { year: "1967", event: "Founded on MC Road", icon: Calendar, description: "Our journey began with a simple mission - authentic Ambur biryani" },
-  { year: "1980s", event: "Family Recipe Perfected", icon: ChefHat, description: "Refined our signature blend of spices and dum cooking technique" },
-  { year: "2000s", event: "Deluxe A/C Upgrade", icon: Award, description: "Enhanced dining comfort while preserving traditional flavors" },
-  { year: "Today", event: "1800+ Happy Reviews", icon: Star, description: "Serving thousands of satisfied customers with the same authentic taste" }
-];
+  { id: "founded", icon: Calendar },
+  { id: "recipe", icon: ChefHat },
+  { id: "upgrade", icon: Award },
+  { id: "today", icon: Star }
+] as const;
+
+const richTextClass = {
+  hl: "text-primary font-semibold",
+  strong: "text-white",
+};
+
+// Renders a message's <hl>/<strong> emphasis as styled spans
+const RichText = ({ message }: { message: string }) => (
+  <>
+    {splitRichText(message).map((segment, index) => {
+      if (segment.tag === "strong") return <strong key={index} className={richTextClass.strong}>{segment.text}</strong>;
+      if (segment.tag === "hl") return <span key={index} className={richTextClass.hl}>{segment.text}</span>;
+      return <Fragment key={index}>{segment.text}</Fragment>;
+    })}
+  </>
+);
 
 const AboutSection = memo(() => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isImageLoading, setIsImageLoading] = useState(true);
   const responsive = useResponsiveBreakpoints();
   const { shouldReduceAnimations } = useDevicePerformance();
+  const { locale, t } = useLocale();
+  const { content } = useSiteContent();
+  const { overall: overallRating } = useReviews();
+  const heritageImages = useMemo(
+    () => content.heritagePhotos.map((photo) => localizeHeritagePhoto(photo, locale)),
+    [content, locale]
+  );
+  // Photos can be removed from the admin panel while one of them is showing
+  const activeImageIndex = currentImageIndex % heritageImages.length;
 
   // Auto-rotate images
   useEffect(() => {
@@ -58,7 +59,7 @@ const AboutSection = memo(() => {
     }, 4000);
 
     return () => clearInterval(interval);
-  }, [shouldReduceAnimations]);
+  }, [shouldReduceAnimations, heritageImages.length]);
 
   return (
     <section id="about" className="py-20 bg-gradient-to-b from-dark via-dark/95 to-dark/90 relative overflow-hidden">
@@ -74,20 +75,20 @@ const AboutSection = memo(() => {
         {/* Section Header */}
         <div className="text-center mb-16 fade-in-up">
           <h2 className="font-poppins text-4xl md:text-5xl text-white mb-4">
-            The Legacy of Original Ambur Briyani
+            {t("about.title")}
           </h2>
           <div className="flex items-center justify-center gap-4 mb-4">
             <Badge className="bg-primary/20 text-primary border-primary/30 font-poppins">
               <Calendar className="w-3 h-3 mr-1" />
-              Since 1967
+              {t("about.since")}
             </Badge>
             <Badge className="bg-primary/20 text-primary border-primary/30 font-poppins">
               <Award className="w-3 h-3 mr-1" />
-              5+ Decades of Excellence
+              {t("about.decades")}
             </Badge>
           </div>
           <p className="font-poppins text-lg text-gray-300 max-w-3xl mx-auto">
-            An Authentic Taste Rooted in Tradition
+            {t("about.subtitle")}
           </p>
         </div>
 
@@ -97,9 +98,9 @@ const AboutSection = memo(() => {
           <div className="relative h-[400px] lg:h-[500px] rounded-xl overflow-hidden group">
             {heritageImages.map((image, index) => (
               <div
-                key={index}
+                key={image.id}
                 className={`absolute inset-0 transition-all duration-1000 ${
-                  index === currentImageIndex ? 'opacity-100 scale-100' : 'opacity-0 scale-105'
+                  index === activeImageIndex ? 'opacity-100 scale-100' : 'opacity-0 scale-105'
                 }`}
               >
                 <img
@@ -128,11 +129,11 @@ const AboutSection = memo(() => {
                   key={index}
                   onClick={() => setCurrentImageIndex(index)}
                   className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                    index === currentImageIndex 
+                    index === activeImageIndex 
                       ? 'w-8 bg-primary' 
                       : 'bg-white/50 hover:bg-white/70'
                   }`}
-                  aria-label={`Go to image ${index + 1}`}
+                  aria-label={t("about.goToImage", { index: index + 1 })}
                 />
               ))}
             </div>
@@ -142,30 +143,32 @@ const AboutSection = memo(() => {
           <div className="flex flex-col justify-center space-y-6">
             <div className="prose prose-invert max-w-none">
               <p className="text-gray-300 font-poppins leading-relaxed text-lg">
-                In the heart of Ambur, nestled along MC Road, stands a culinary landmark that has carried forward the timeless legacy of Tamil Nadu's most beloved dish — <span className="text-primary font-semibold">Ambur Biryani</span>.
+                <RichText message={t("about.story1")} />
               </p>
               <p className="text-gray-300 font-poppins leading-relaxed">
-                Established in <span className="text-primary font-semibold">1967</span>, <strong className="text-white">ORIGINAL AMBUR BRIYANI (Deluxe A/C)</strong> is more than just a restaurant — it's a living tradition, steeped in flavor, heritage, and the warmth of family cooking.
+                <RichText message={t("about.story2")} />
               </p>
               <p className="text-gray-300 font-poppins leading-relaxed">
-                For over <span className="text-primary font-semibold">five decades</span>, this humble kitchen has perfected the art of biryani, drawing on age-old recipes passed down through generations. From the unmistakable aroma of fragrant seeraga samba rice to the tender, slow-cooked cuts of chicken and mutton, every plate tells a story of craftsmanship and devotion.
+                <RichText message={t("about.story3")} />
               </p>
             </div>
 
             {/* Quick Stats */}
             <div className="grid grid-cols-2 gap-4 mt-6">
-              <Card className="bg-dark/50 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300">
-                <CardContent className="p-4 text-center">
-                  <Users className="w-8 h-8 text-primary mx-auto mb-2" />
-                  <p className="text-2xl font-bold text-white">1800+</p>
-                  <p className="text-sm text-gray-400">Happy Reviews</p>
-                </CardContent>
-              </Card>
+              {overallRating && (
+                <Card className="bg-dark/50 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300">
+                  <CardContent className="p-4 text-center">
+                    <Users className="w-8 h-8 text-primary mx-auto mb-2" />
+                    <p className="text-2xl font-bold text-white">{formatRating(overallRating.average)} ★</p>
+                    <p className="text-sm text-gray-400">{t("about.averageRating")}</p>
+                  </CardContent>
+                </Card>
+              )}
               <Card className="bg-dark/50 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300">
                 <CardContent className="p-4 text-center">
                   <Award className="w-8 h-8 text-primary mx-auto mb-2" />
                   <p className="text-2xl font-bold text-white">57+</p>
-                  <p className="text-sm text-gray-400">Years of Excellence</p>
+                  <p className="text-sm text-gray-400">{t("about.yearsOfExcellence")}</p>
                 </CardContent>
               </Card>
             </div>
@@ -180,8 +183,8 @@ const AboutSection = memo(() => {
             transition={{ duration: 0.8 }}
             className="text-3xl md:text-4xl font-cormorant text-white text-center mb-16"
           >
-            <span className="font-light italic">Our Journey</span>
-            <span className="block text-primary font-playfair mt-2">Through Time</span>
+            <span className="font-light italic">{t("about.journey")}</span>
+            <span className="block text-primary font-playfair mt-2">{t("about.throughTime")}</span>
           </motion.h3>
           
           <div className="relative max-w-6xl mx-auto">
@@ -268,18 +271,18 @@ const AboutSection = memo(() => {
                               <Icon className="w-6 h-6 text-primary" />
                             </motion.div>
                             <div>
-                              <h4 className="text-2xl font-playfair text-primary">{item.year}</h4>
+                              <h4 className="text-2xl font-playfair text-primary">{t(`about.timeline.${item.id}.year`)}</h4>
                             </div>
                           </div>
                           
                           {/* Event Title */}
                           <h5 className="text-xl font-cormorant font-semibold text-white mb-3 italic">
-                            {item.event}
+                            {t(`about.timeline.${item.id}.event`)}
                           </h5>
                           
                           {/* Description */}
                           <p className="text-gray-300 font-poppins text-sm leading-relaxed">
-                            {item.description}
+                            {t(`about.timeline.${item.id}.description`)}
                           </p>
                           
                           {/* Decorative Line */}
@@ -307,9 +310,9 @@ const AboutSection = memo(() => {
           <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300 group">
             <CardContent className="p-6">
               <ChefHat className="w-10 h-10 text-primary mb-4 group-hover:scale-110 transition-transform" />
-              <h3 className="text-xl font-semibold text-white mb-2">Time-Honored Recipes</h3>
+              <h3 className="text-xl font-semibold text-white mb-2">{t("about.feature.recipes.title")}</h3>
               <p className="text-gray-400">
-                Cooked with a unique blend of hand-ground spices, traditional dum techniques, and love.
+                {t("about.feature.recipes.text")}
               </p>
             </CardContent>
           </Card>
@@ -317,9 +320,9 @@ const AboutSection = memo(() => {
           <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300 group">
             <CardContent className="p-6">
               <Award className="w-10 h-10 text-primary mb-4 group-hover:scale-110 transition-transform" />
-              <h3 className="text-xl font-semibold text-white mb-2">Deluxe A/C Comfort</h3>
+              <h3 className="text-xl font-semibold text-white mb-2">{t("about.feature.comfort.title")}</h3>
               <p className="text-gray-400">
-                We blend heritage cooking with the comfort of a deluxe air-conditioned dining space.
+                {t("about.feature.comfort.text")}
               </p>
             </CardContent>
           </Card>
@@ -327,82 +330,48 @@ const AboutSection = memo(() => {
           <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm hover:border-primary/40 transition-all duration-300 group">
             <CardContent className="p-6">
               <Users className="w-10 h-10 text-primary mb-4 group-hover:scale-110 transition-transform" />
-              <h3 className="text-xl font-semibold text-white mb-2">Warm Hospitality</h3>
+              <h3 className="text-xl font-semibold text-white mb-2">{t("about.feature.hospitality.title")}</h3>
               <p className="text-gray-400">
-                Every guest is welcomed like family — always with a smile, always with care.
+                {t("about.feature.hospitality.text")}
               </p>
             </CardContent>
           </Card>
         </div>
 
-        {/* Customer Testimonials */}
-        <div className="mb-16">
-          <h3 className="text-2xl font-poppins text-white text-center mb-8">What Our Guests Say</h3>
-          <div className="grid md:grid-cols-2 gap-6">
-            <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm">
-              <CardContent className="p-6">
-                <div className="flex gap-1 mb-3">
-                  {[...Array(5)].map((_, i) => (
-                    <Star key={i} className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                  ))}
-                </div>
-                <p className="text-gray-300 italic mb-3">
-                  "Good tasty food. Quantity and quality is good."
-                </p>
-                <p className="text-primary font-semibold">— Chandrakala Sri</p>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm">
-              <CardContent className="p-6">
-                <div className="flex gap-1 mb-3">
-                  {[...Array(5)].map((_, i) => (
-                    <Star key={i} className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                  ))}
-                </div>
-                <p className="text-gray-300 italic mb-3">
-                  "Peaceful ambience and the biryani was spot on."
-                </p>
-                <p className="text-primary font-semibold">— Regular Customer</p>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
-
         {/* Contact Info */}
         <Card className="bg-dark/80 border-primary/20 backdrop-blur-sm">
           <CardContent className="p-8">
-            <h3 className="text-2xl font-poppins text-white text-center mb-8">Visit Us</h3>
+            <h3 className="text-2xl font-poppins text-white text-center mb-8">{t("about.visitUs")}</h3>
             <div className="grid md:grid-cols-3 gap-6 text-center">
               <div className="flex flex-col items-center">
                 <Clock className="w-8 h-8 text-primary mb-3" />
-                <p className="text-white font-semibold mb-1">Open Daily</p>
-                <p className="text-gray-400">10 AM – 12 Midnight</p>
+                <p className="text-white font-semibold mb-1">{t("about.openDaily")}</p>
+                <p className="text-gray-400">{t("about.openDailyHours")}</p>
               </div>
               <div className="flex flex-col items-center">
                 <MapPin className="w-8 h-8 text-primary mb-3" />
-                <p className="text-white font-semibold mb-1">Location</p>
-                <p className="text-gray-400">12, MC Road, Ambur, Tamil Nadu</p>
+                <p className="text-white font-semibold mb-1">{t("about.location")}</p>
+                <p className="text-gray-400">{t("about.address")}</p>
               </div>
               <div className="flex flex-col items-center">
                 <Phone className="w-8 h-8 text-primary mb-3" />
-                <p className="text-white font-semibold mb-1">Contact</p>
+                <p className="text-white font-semibold mb-1">{t("about.contact")}</p>
                 <p className="text-gray-400">+91 96779 38393</p>
               </div>
             </div>
             
             <div className="flex flex-wrap justify-center gap-3 mt-8">
               <Badge className="bg-primary/20 text-primary border-primary/30">
-                ✓ Delivery Available
+                ✓ {t("about.badge.delivery")}
               </Badge>
               <Badge className="bg-primary/20 text-primary border-primary/30">
-                ✓ Credit Cards Accepted
+                ✓ {t("about.badge.cards")}
               </Badge>
               <Badge className="bg-primary/20 text-primary border-primary/30">
-                ✓ Wheelchair Accessible
+                ✓ {t("about.badge.wheelchair")}
               </Badge>
               <Badge className="bg-primary/20 text-primary border-primary/30">
-                ✓ Family Friendly
+                ✓ {t("about.badge.family")}
               </Badge>
             </div>
           </CardContent>
@@ -0,0 +1,44 @@
+import { BarChart3 } from "lucide-react";
+import { useAnalyticsConsent } from "@/hooks/useAnalyticsConsent";
+import { useLocale } from "@/hooks/useLocale";
+import { isAnalyticsEnabled } from "@/utils/analytics";
+import { isRumEnabled } from "@/utils/webVitals";
+
+// Asks once whether anonymous usage events and page speed reports may be
+// sent. Only shown when either is configured; see src/utils/analytics.ts
+// and src/utils/webVitals.ts.
+const AnalyticsConsentBanner = () => {
+  const { t } = useLocale();
+  const { consent, allow, decline } = useAnalyticsConsent();
+
+  if ((!isAnalyticsEnabled() && !isRumEnabled()) || consent !== "unset") return null;
+
+  return (
+    <div
+      role="region"
+      aria-labelledby="analytics-consent-message"
+      className="fixed bottom-4 left-4 right-4 sm:right-auto sm:max-w-sm z-50 bg-dark-card border border-dark-border rounded-2xl p-4 shadow-xl font-poppins"
+    >
+      <p id="analytics-consent-message" className="flex gap-3 text-white-off text-sm mb-3">
+        <BarChart3 className="w-5 h-5 text-red-primary flex-shrink-0" />
+        {t("consent.message")}
+      </p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={decline}
+          className="px-4 py-2 rounded-full text-white-muted hover:text-white-off text-sm transition-colors"
+        >
+          {t("consent.decline")}
+        </button>
+        <button
+          onClick={allow}
+          className="px-4 py-2 rounded-full bg-red-primary hover:bg-red-dark text-white text-sm font-medium transition-colors"
+        >
+          {t("consent.allow")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsConsentBanner;
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import { useQueuedOrder } from '@/hooks/useQueuedOrder';
+import { registerServiceWorker } from '@/utils/serviceWorker';
+
+// Toasts for the installable app: a new version waiting to take over, and an
+// order queued while offline that can go to WhatsApp now that we're online.
+// Renders nothing itself; mounted once next to the toaster.
+const AppUpdatePrompts = () => {
+  const { t } = useLocale();
+  const { order, send } = useQueuedOrder();
+
+  // Registration runs once; prompts read the language current when they show
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  useEffect(() => {
+    // The dev server has no built worker; see pwaPlugin in vite.config.ts
+    if (!import.meta.env.PROD) return;
+    registerServiceWorker((applyUpdate) => {
+      const t = tRef.current;
+      toast({
+        title: t('app.updateTitle'),
+        description: t('app.updateDescription'),
+        duration: Infinity,
+        action: (
+          <ToastAction altText={t('app.reload')} onClick={applyUpdate}>
+            {t('app.reload')}
+          </ToastAction>
+        ),
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!order) return;
+    const prompt = () => {
+      const t = tRef.current;
+      toast({
+        title: t('app.orderReadyTitle'),
+        description: t('app.orderReadyDescription'),
+        duration: Infinity,
+        action: (
+          <ToastAction altText={t('app.sendOrder')} onClick={send}>
+            {t('app.sendOrder')}
+          </ToastAction>
+        ),
+      });
+    };
+
+    if (navigator.onLine) prompt();
+    window.addEventListener('online', prompt);
+    return () => window.removeEventListener('online', prompt);
+  }, [order, send]);
+
+  return null;
+};
+
+export default AppUpdatePrompts;
@@ -0,0 +1,423 @@
+import { memo, useEffect, useState } from "react";
+import { MessageCircle, Receipt, ShoppingBag, Smartphone, Store, Bike, Tag, Trash2, Wallet, X } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
+import QuantityStepper from "@/components/ui/quantity-stepper";
+import DeliveryChecker from "@/components/DeliveryChecker";
+import RecentOrdersDialog from "@/components/RecentOrdersDialog";
+import UpiPayment from "@/components/UpiPayment";
+import { toast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/useCart";
+import { useDishAvailability } from "@/hooks/useDishAvailability";
+import { useLocale } from "@/hooks/useLocale";
+import { useOrderPricing } from "@/hooks/useOrderPricing";
+import { queuedOrderActions } from "@/hooks/useQueuedOrder";
+import { useRecentOrders } from "@/hooks/useRecentOrders";
+import { useSectionNavigation } from "@/hooks/useSiteRoute";
+import { track } from "@/utils/analytics";
+import {
+  buildWhatsAppLink,
+  composeOrderMessage,
+  describeFulfilment,
+  describeLineItem,
+  formatPrice,
+  getAddOnNames,
+  getCartLines,
+  getItemCount,
+  type Fulfilment,
+  type PaymentMethod,
+} from "@/utils/order";
+import { checkDelivery, describeDeliveryLocation, getDeliveryCharges } from "@/utils/delivery";
+import { calculateOrderCharges, describeTaxLines, formatExactPrice, formatRoundOff } from "@/utils/pricing";
+import type { Locale } from "@/data/locales";
+import type { MessageKey } from "@/data/messages/en";
+import { formatLocalePrice, localizePromotion, translate } from "@/utils/i18n";
+import { describeAppliedPromotion, normalizeCouponCode, type CouponStatus } from "@/utils/promotions";
+import { createReceipt } from "@/utils/receipt";
+
+const fulfilmentOptions: { id: Fulfilment; icon: typeof Store }[] = [
+  { id: "pickup", icon: Store },
+  { id: "delivery", icon: Bike },
+];
+
+const paymentOptions: { id: PaymentMethod; labelKey: (fulfilment: Fulfilment) => MessageKey; icon: typeof Store }[] = [
+  { id: "later", labelKey: (fulfilment) => (fulfilment === "delivery" ? "cart.payOnDelivery" : "cart.payAtPickup"), icon: Wallet },
+  { id: "upi", labelKey: () => "cart.payNow", icon: Smartphone },
+];
+
+const describeCouponStatus = (coupon: CouponStatus, locale: Locale) => {
+  switch (coupon.status) {
+    case "applied":
+      return translate(locale, "promo.couponApplied", { code: coupon.code });
+    case "unknown":
+      return translate(locale, "promo.couponUnknown", { code: coupon.code });
+    case "not-eligible":
+      return coupon.shortBy
+        ? translate(locale, "promo.couponShortBy", { code: coupon.code, amount: formatLocalePrice(coupon.shortBy, locale) })
+        : translate(locale, "promo.couponNotNow", { code: coupon.code });
+    default:
+      return null;
+  }
+};
+
+// Persistent cart drawer that composes a single itemised WhatsApp order
+const CartDrawer = memo(() => {
+  const cart = useCart();
+  const goToSection = useSectionNavigation();
+  const { locale, t } = useLocale();
+  const getOrderability = useDishAvailability();
+  const lines = getCartLines(cart.entries);
+  const pricing = useOrderPricing(lines, cart.couponCode);
+  const [codeInput, setCodeInput] = useState(cart.couponCode);
+  const couponMessage = describeCouponStatus(pricing.coupon, locale);
+  const { orders: recentOrders, record: recordOrder } = useRecentOrders();
+  // null while closed; the reference opens straight on that order's receipt
+  const [recentOrdersView, setRecentOrdersView] = useState<{ reference: string | null } | null>(null);
+
+  // Follow the stored code when it's removed or replaced
+  useEffect(() => setCodeInput(cart.couponCode), [cart.couponCode]);
+
+  // Delivery needs a checked pincode or location inside a ring, and the
+  // ring's minimum order
+  const isDelivery = cart.fulfilment === "delivery";
+  const deliveryCheck = cart.deliveryLocation ? checkDelivery(cart.deliveryLocation) : null;
+  const deliveryRing = deliveryCheck?.status === "available" ? deliveryCheck.ring : null;
+  const deliveryCharges = deliveryRing ? getDeliveryCharges(deliveryRing, pricing.total) : null;
+  const canDeliver = Boolean(deliveryCharges && deliveryCharges.shortBy === 0);
+  const deliveryFee = isDelivery && deliveryCharges ? deliveryCharges.fee : 0;
+  const charges = calculateOrderCharges(lines, { discounts: pricing.discounts, deliveryFee });
+
+  // Dishes can sell out or stop being served while they sit in the cart
+  const hasUnavailableLines = lines.some((line) => !getOrderability(line.item).canOrder);
+  const canSend =
+    lines.length > 0 && cart.customerName.trim().length > 0 && !hasUnavailableLines && (!isDelivery || canDeliver);
+
+  // Paying up front needs the order's reference for the UPI note
+  const isPayingNow = cart.paymentMethod === "upi";
+  const { ensureOrderReference } = cart;
+  useEffect(() => {
+    if (isPayingNow && lines.length > 0) ensureOrderReference();
+  }, [isPayingNow, lines.length, ensureOrderReference]);
+
+  const handleSend = () => {
+    if (!canSend) return;
+    const details = {
+      customerName: cart.customerName,
+      fulfilment: cart.fulfilment,
+      reference: cart.ensureOrderReference(),
+      payment: cart.paymentMethod,
+      delivery: isDelivery && cart.deliveryLocation && deliveryCheck
+        ? { location: describeDeliveryLocation(cart.deliveryLocation, deliveryCheck), fee: deliveryFee }
+        : undefined,
+    };
+    const message = composeOrderMessage(lines, details, pricing, locale);
+    recordOrder(createReceipt(lines, details, pricing, new Date(), locale));
+    // The receipt is waiting when the customer comes back from WhatsApp
+    setRecentOrdersView({ reference: details.reference });
+    track("cart_checkout", {
+      lineCount: lines.length,
+      itemCount: getItemCount(cart.entries),
+      total: charges.total,
+      fulfilment: cart.fulfilment,
+      payment: cart.paymentMethod,
+      queued: !navigator.onLine,
+    });
+    // WhatsApp can't be reached offline; keep the order for when we're back
+    if (!navigator.onLine) {
+      queuedOrderActions.queue(message);
+      toast({ title: t("app.orderQueuedTitle"), description: t("app.orderQueuedDescription") });
+      return;
+    }
+    window.open(buildWhatsAppLink(message), "_blank", "noopener,noreferrer");
+  };
+
+  const applyCode = () => cart.setDetails({ couponCode: normalizeCouponCode(codeInput) });
+
+  const handleBrowseMenu = () => {
+    cart.closeCart();
+    goToSection("menu");
+  };
+
+  return (
+    <Sheet open={cart.isOpen} onOpenChange={(open) => (open ? cart.openCart() : cart.closeCart())}>
+      <SheetContent className="w-full sm:max-w-md bg-dark-light border-dark-border text-white-off flex flex-col p-0">
+        <SheetHeader className="p-6 pb-4 border-b border-dark-border">
+          <SheetTitle className="text-white-off font-playfair text-2xl flex items-center gap-2">
+            <ShoppingBag className="w-6 h-6 text-red-primary" />
+            {t("cart.title")}
+          </SheetTitle>
+          <SheetDescription className="text-white-muted font-poppins text-xs">
+            {t("cart.description")}
+          </SheetDescription>
+          {recentOrders.length > 0 && (
+            <button
+              onClick={() => setRecentOrdersView({ reference: null })}
+              className="self-center sm:self-start inline-flex items-center gap-1 text-white-muted hover:text-white-off font-poppins text-xs transition-colors"
+            >
+              <Receipt className="w-3 h-3" />
+              {t("cart.recentOrders", { count: recentOrders.length })}
+            </button>
+          )}
+        </SheetHeader>
+
+        {lines.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6">
+            <ShoppingBag className="w-12 h-12 text-white-muted mb-4" />
+            <p className="text-white-off font-poppins font-medium mb-1">{t("cart.empty")}</p>
+            <p className="text-white-muted font-poppins text-sm mb-6">{t("cart.emptyHint")}</p>
+            <button
+              onClick={handleBrowseMenu}
+              className="bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-3 px-8 rounded-full transition-all duration-300"
+            >
+              {t("cart.browseMenu")}
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Line items */}
+            <ul className="flex-1 overflow-y-auto p-6 space-y-4">
+              {lines.map((line) => {
+                const { key, item, addOns, quantity, unitPrice, lineTotal } = line;
+                const title = describeLineItem(line, locale);
+                const orderability = getOrderability(item);
+                const lineOffers = pricing.discounts.filter((discount) => discount.lineKeys.includes(key));
+                return (
+                  <li key={key} className="flex gap-3 bg-dark-card border border-dark-border rounded-2xl p-3">
+                    <img
+                      src={item.image}
+                      alt={title}
+                      className="w-16 h-16 rounded-xl object-cover flex-shrink-0"
+                      loading="lazy"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-white-off font-poppins font-medium text-sm line-clamp-1">{title}</p>
+                        <button
+                          onClick={() => cart.setQuantity(key, 0)}
+                          className="text-white-muted hover:text-red-primary transition-colors"
+                          aria-label={t("cart.remove", { dish: title })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {addOns.length > 0 && (
+                        <p className="text-white-muted font-poppins text-xs line-clamp-2">
+                          + {getAddOnNames(addOns, locale).join(", ")}
+                        </p>
+                      )}
+                      <p className="text-white-muted font-poppins text-xs mb-2">{t("order.each", { price: formatPrice(unitPrice) })}</p>
+                      {lineOffers.length > 0 && (
+                        <p className="text-green-whatsapp font-poppins text-xs mb-2 flex items-center gap-1">
+                          <Tag className="w-3 h-3 flex-shrink-0" />
+                          {lineOffers.map((discount) => localizePromotion(discount.promotion, locale).title).join(", ")}
+                        </p>
+                      )}
+                      {!orderability.canOrder && (
+                        <p className="text-red-primary font-poppins text-xs mb-2">{orderability.label}</p>
+                      )}
+                      <div className="flex items-center justify-between gap-2">
+                        <QuantityStepper
+                          size="sm"
+                          label={title}
+                          quantity={quantity}
+                          max={orderability.maxQuantity}
+                          onChange={(next) => cart.setQuantity(key, next)}
+                        />
+                        <span className="text-red-primary font-playfair text-lg font-bold">{formatPrice(lineTotal)}</span>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Order details and checkout */}
+            <div className="border-t border-dark-border p-6 space-y-4">
+              <div className="space-y-1 font-poppins">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white-muted">{t("order.subtotal")}</span>
+                  <span className="text-white-off">{formatPrice(pricing.subtotal)}</span>
+                </div>
+                {pricing.discounts.map((discount) => (
+                  <div key={discount.promotion.id} className="flex items-center justify-between gap-3 text-sm text-green-whatsapp">
+                    <span className="line-clamp-1">{describeAppliedPromotion(discount, locale)}</span>
+                    <span className="flex-shrink-0">-{formatPrice(discount.amount)}</span>
+                  </div>
+                ))}
+                {charges.packaging > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-white-muted">{t("order.packaging")}</span>
+                    <span className="text-white-off">{formatPrice(charges.packaging)}</span>
+                  </div>
+                )}
+                {isDelivery && deliveryCharges && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-white-muted">{t("order.deliveryFee")}</span>
+                    <span className="text-white-off">{deliveryFee > 0 ? formatPrice(deliveryFee) : t("order.free")}</span>
+                  </div>
+                )}
+                {describeTaxLines(charges, locale).map((tax) => (
+                  <div key={tax.label} className="flex items-center justify-between text-xs text-white-muted">
+                    <span>{tax.label}</span>
+                    <span>{formatExactPrice(tax.amount)}</span>
+                  </div>
+                ))}
+                {charges.roundOff !== 0 && (
+                  <div className="flex items-center justify-between text-xs text-white-muted">
+                    <span>{t("order.roundOff")}</span>
+                    <span>{formatRoundOff(charges.roundOff)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between pt-1">
+                  <span className="text-white-muted text-sm">{t("order.total")}</span>
+                  <span className="text-white-off text-xl font-semibold">{formatPrice(charges.total)}</span>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex gap-2">
+                  <Input
+                    value={codeInput}
+                    onChange={(e) => setCodeInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && applyCode()}
+                    placeholder={t("cart.couponPlaceholder")}
+                    aria-label={t("cart.couponPlaceholder")}
+                    maxLength={20}
+                    className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg font-poppins uppercase"
+                  />
+                  {cart.couponCode && normalizeCouponCode(codeInput) === cart.couponCode ? (
+                    <button
+                      onClick={() => cart.setDetails({ couponCode: "" })}
+                      className="px-3 rounded-lg bg-dark-card border border-dark-border text-white-muted hover:text-white-off transition-colors"
+                      aria-label={t("cart.removeCoupon", { code: cart.couponCode })}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={applyCode}
+                      disabled={!codeInput.trim()}
+                      className="px-4 rounded-lg bg-dark-card border border-dark-border text-white-off font-poppins text-sm hover:border-red-primary/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {t("cart.apply")}
+                    </button>
+                  )}
+                </div>
+                {couponMessage && (
+                  <p
+                    role="status"
+                    className={`font-poppins text-xs mt-1 ${pricing.coupon.status === "applied" ? "text-green-whatsapp" : "text-red-primary"}`}
+                  >
+                    {couponMessage}
+                  </p>
+                )}
+              </div>
+
+              <Input
+                value={cart.customerName}
+                onChange={(e) => cart.setDetails({ customerName: e.target.value })}
+                placeholder={t("cart.namePlaceholder")}
+                aria-label={t("cart.nameLabel")}
+                maxLength={60}
+                className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg py-3 font-poppins"
+              />
+
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={t("cart.orderType")}>
+                {fulfilmentOptions.map(({ id, icon: Icon }) => (
+                  <button
+                    key={id}
+                    role="radio"
+                    aria-checked={cart.fulfilment === id}
+                    onClick={() => cart.setDetails({ fulfilment: id })}
+                    className={`
+                      flex items-center justify-center gap-2 py-3 rounded-full font-poppins text-sm transition-all duration-300
+                      ${cart.fulfilment === id
+                        ? 'bg-red-primary text-white shadow-lg shadow-red-primary/30'
+                        : 'bg-dark-card border border-dark-border text-white-muted hover:text-white-off'
+                      }
+                    `}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {describeFulfilment(id, locale)}
+                  </button>
+                ))}
+              </div>
+
+              {isDelivery && (
+                <DeliveryChecker
+                  location={cart.deliveryLocation}
+                  check={deliveryCheck}
+                  charges={deliveryCharges}
+                  onLocationChange={(deliveryLocation) => cart.setDetails({ deliveryLocation })}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={t("cart.payment")}>
+                {paymentOptions.map(({ id, labelKey, icon: Icon }) => (
+                  <button
+                    key={id}
+                    role="radio"
+                    aria-checked={cart.paymentMethod === id}
+                    onClick={() => cart.setDetails({ paymentMethod: id })}
+                    className={`
+                      flex items-center justify-center gap-2 py-3 rounded-full font-poppins text-sm transition-all duration-300
+                      ${cart.paymentMethod === id
+                        ? 'bg-red-primary text-white shadow-lg shadow-red-primary/30'
+                        : 'bg-dark-card border border-dark-border text-white-muted hover:text-white-off'
+                      }
+                    `}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {t(labelKey(cart.fulfilment))}
+                  </button>
+                ))}
+              </div>
+
+              {isPayingNow && (
+                canSend && cart.orderReference ? (
+                  <UpiPayment amount={charges.total} reference={cart.orderReference} />
+                ) : (
+                  <p className="text-white-muted font-poppins text-xs text-center">
+                    {t(isDelivery ? "cart.upiNeedsNameAndAddress" : "cart.upiNeedsName")}
+                  </p>
+                )
+              )}
+
+              {hasUnavailableLines && (
+                <p role="alert" className="text-red-primary font-poppins text-xs text-center">
+                  {t("cart.unavailable")}
+                </p>
+              )}
+
+              <button
+                onClick={handleSend}
+                disabled={!canSend}
+                className="w-full bg-gradient-to-r from-green-whatsapp to-green-dark hover:from-green-dark hover:to-green-whatsapp text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 hover:shadow-lg hover:shadow-green-whatsapp/30 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <MessageCircle className="w-5 h-5" />
+                {t("cart.send")}
+              </button>
+
+              <button
+                onClick={cart.clear}
+                className="w-full text-white-muted hover:text-white-off font-poppins text-xs transition-colors"
+              >
+                {t("cart.clear")}
+              </button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+
+      <RecentOrdersDialog
+        open={recentOrdersView !== null}
+        onOpenChange={(open) => !open && setRecentOrdersView(null)}
+        reference={recentOrdersView?.reference}
+      />
+    </Sheet>
+  );
+});
+
+CartDrawer.displayName = 'CartDrawer';
+
+export default CartDrawer;
@@ -4,8 +4,18 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Phone, MapPin, Clock, Mail, MessageCircle, ArrowUp } from "lucide-react";
+import { useContactForm } from "@/hooks/useContactForm";
+import { MESSAGE_MAX_LENGTH } from "@/utils/contact";
+import { useWeeklyHours } from "@/hooks/useWeeklyHours";
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-xs text-destructive font-poppins">{message}</p> : null;
 
 const Contact = () => {
+  const { form, onSubmit, isSubmitting } = useContactForm();
+  const { register, formState: { errors } } = form;
+  const weeklyHours = useWeeklyHours();
+
   // Scroll to top function
   const scrollToTop = () => {
     window.scrollTo({
@@ -49,7 +59,7 @@ const Contact = () => {
     {
       icon: <Clock className="w-6 h-6" />,
       title: "Hours",
-      details: ["Every day: 10:00 AM - 12:00 AM", "Open 365 days a year"],
+      details: [...weeklyHours, "Open 365 days a year"],
       action: "View Schedule"
     },
     {
@@ -150,7 +160,7 @@ const Contact = () => {
                   Send us a Message
                 </h3>
                 
-                <form className="space-y-6">
+                <form onSubmit={onSubmit} noValidate className="space-y-6">
                   <div className="grid sm:grid-cols-2 gap-4">
                     <div>
                       <label htmlFor="name" className="block text-sm font-poppins-medium text-foreground mb-2">
@@ -159,8 +169,12 @@ const Contact = () => {
                       <Input
                         id="name"
                         placeholder="Enter your name"
+                        autoComplete="name"
+                        aria-invalid={!!errors.name}
                         className="bg-background/50 font-poppins"
+                        {...register("name")}
                       />
+                      <FieldError message={errors.name?.message} />
                     </div>
                     <div>
                       <label htmlFor="phone" className="block text-sm font-poppins-medium text-foreground mb-2">
@@ -168,9 +182,15 @@ const Contact = () => {
                       </label>
                       <Input
                         id="phone"
+                        type="tel"
+                        inputMode="tel"
                         placeholder="Enter your phone"
+                        autoComplete="tel"
+                        aria-invalid={!!errors.phone}
                         className="bg-background/50 font-poppins"
+                        {...register("phone")}
                       />
+                      <FieldError message={errors.phone?.message} />
                     </div>
                   </div>
 
@@ -181,9 +201,13 @@ const Contact = () => {
                     <Input
                       id="email"
                       type="email"
-                      placeholder="Enter your email"
+                      placeholder="Enter your email (optional)"
+                      autoComplete="email"
+                      aria-invalid={!!errors.email}
                       className="bg-background/50 font-poppins"
+                      {...register("email")}
                     />
+                    <FieldError message={errors.email?.message} />
                   </div>
 
                   <div>
@@ -193,8 +217,11 @@ const Contact = () => {
                     <Input
                       id="subject"
                       placeholder="What is this about?"
+                      aria-invalid={!!errors.subject}
                       className="bg-background/50 font-poppins"
+                      {...register("subject")}
                     />
+                    <FieldError message={errors.subject?.message} />
                   </div>
 
                   <div>
@@ -205,12 +232,16 @@ const Contact = () => {
                       id="message"
                       placeholder="Tell us how we can help you..."
                       rows={5}
+                      maxLength={MESSAGE_MAX_LENGTH}
+                      aria-invalid={!!errors.message}
                       className="bg-background/50 font-poppins"
+                      {...register("message")}
                     />
+                    <FieldError message={errors.message?.message} />
                   </div>
 
-                  <Button variant="hero" size="lg" className="w-full glow-on-hover font-poppins-medium">
-                    Send Message
+                  <Button type="submit" variant="hero" size="lg" disabled={isSubmitting} className="w-full glow-on-hover font-poppins-medium">
+                    {isSubmitting ? "Sending..." : "Send Message"}
                   </Button>
                 </form>
               </CardContent>
@@ -0,0 +1,23 @@
+import { Eye } from "lucide-react";
+import { exitContentPreview, useSiteContent } from "@/hooks/useSiteContent";
+
+// Shown while the site renders an unpublished draft from the admin panel
+const ContentPreviewBanner = () => {
+  const { isPreview } = useSiteContent();
+  if (!isPreview) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-3 px-4 py-2 rounded-full bg-dark-light/95 backdrop-blur border border-red-primary/50 shadow-lg font-poppins text-xs text-white-off"
+    >
+      <Eye size={14} className="text-red-primary" />
+      Previewing unpublished changes
+      <button type="button" onClick={exitContentPreview} className="underline text-white-muted hover:text-white-off">
+        Exit preview
+      </button>
+    </div>
+  );
+};
+
+export default ContentPreviewBanner;
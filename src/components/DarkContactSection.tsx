@@ -1,23 +1,41 @@
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { Phone, MapPin, Clock, CreditCard, MessageCircle, Mail, Send } from "lucide-react";
+import { Phone, MapPin, Clock, CreditCard, MessageCircle, Mail, Send, CalendarCheck } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { useCart } from "@/hooks/useCart";
+import { useContactForm } from "@/hooks/useContactForm";
+import { useLocale } from "@/hooks/useLocale";
+import { useWeeklyHours } from "@/hooks/useWeeklyHours";
+import { track, type ButtonPlacement } from "@/utils/analytics";
+import { MESSAGE_MAX_LENGTH } from "@/utils/contact";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import ReservationDialog from "@/components/ReservationDialog";
+import { buildWhatsAppLink, getItemCount } from "@/utils/order";
 
 const DarkContactSection = () => {
-  const phoneNumber = "919677938393";
-  const phoneNumber2 = "918667287022";
   const whatsappMessage = "Hello! I would like to place an order at Original Ambur Briyani.";
-  const whatsappLink = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(whatsappMessage)}`;
+  const whatsappLink = buildWhatsAppLink(whatsappMessage);
+  const { entries, openCart } = useCart();
+  const cartItemCount = getItemCount(entries);
+  const { form, onSubmit, isSubmitting } = useContactForm();
+  const [isReservationOpen, setIsReservationOpen] = useState(false);
+  const { t, tp } = useLocale();
+  const weeklyHours = useWeeklyHours();
 
-  const handlePhoneCall = () => {
+  const handlePhoneCall = (placement: ButtonPlacement = 'contact-card') => {
+    track('phone_call_clicked', { placement, line: 'primary' });
     window.open('tel:+919677938393', '_self');
   };
 
   const handlePhoneCall2 = () => {
+    track('phone_call_clicked', { placement: 'quick-order', line: 'secondary' });
     window.open('tel:+918667287022', '_self');
   };
 
   const handleMapClick = () => {
+    track('directions_clicked', { placement: 'contact-card' });
     // Updated with the new Google Maps link
     window.open('https://maps.app.goo.gl/aNoYVgmRWQVsgYdE9?g_st=iwb', '_blank');
   };
@@ -25,31 +43,38 @@ const DarkContactSection = () => {
   const contactInfo = [
     {
       icon: <Phone className="w-5 h-5" />,
-      title: "Call Us",
+      title: t("contact.callUs"),
       detail: (
         <>
           <p className="text-white-muted font-poppins text-xs">+91 96779 38393</p>
           <p className="text-white-muted font-poppins text-xs">+91 86672 87022</p>
         </>
       ),
-      action: handlePhoneCall
+      action: () => handlePhoneCall()
     },
     {
       icon: <MapPin className="w-5 h-5" />,
-      title: "Location",
-      detail: "Ambur, Tamil Nadu",
+      title: t("contact.location"),
+      detail: t("contact.locationValue"),
       action: handleMapClick
     },
     {
       icon: <Clock className="w-5 h-5" />,
-      title: "Open Hours",
-      detail: "10:00 AM - 12:00 AM",
+      title: t("contact.openHours"),
+      detail: (
+        <>
+          <OpeningStatusBadge variant="text" className="justify-center mb-1" />
+          {weeklyHours.map(line => (
+            <p key={line} className="text-white-muted font-poppins text-xs">{line}</p>
+          ))}
+        </>
+      ),
       action: null
     },
     {
       icon: <CreditCard className="w-5 h-5" />,
-      title: "Payment",
-      detail: "Cards, Cash, UPI",
+      title: t("contact.payment"),
+      detail: t("contact.paymentMethods"),
       action: null
     }
   ];
@@ -68,10 +93,10 @@ const DarkContactSection = () => {
           className="text-center mb-16"
         >
           <h2 className="font-playfair text-5xl md:text-6xl text-white-off mb-4">
-            Get In Touch
+            {t("contact.title")}
           </h2>
           <p className="text-white-muted font-poppins text-lg max-w-2xl mx-auto">
-            Contact us for reservations, special orders, or any questions you may have
+            {t("contact.subtitle")}
           </p>
         </motion.div>
 
@@ -125,34 +150,42 @@ const DarkContactSection = () => {
           >
             <div className="bg-dark-card border border-dark-border rounded-2xl p-8 backdrop-blur-md bg-opacity-50 h-full transition-all duration-300 hover:border-red-primary hover:shadow-lg hover:shadow-red-primary/20">
               <h3 className="text-white-off font-playfair text-2xl mb-6">
-                Quick Order
+                {t("contact.quickOrder")}
               </h3>
               <div className="space-y-4">
                 <button 
-                  onClick={handlePhoneCall}
+                  onClick={() => handlePhoneCall('quick-order')}
                   className="w-full bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 hover:shadow-lg hover:shadow-red-primary/30"
                 >
                   <Phone className="w-5 h-5" />
-                  Call +91 96779 38393
+                  {t("contact.call", { phone: "+91 96779 38393" })}
                 </button>
                 <button 
                   onClick={handlePhoneCall2}
                   className="w-full bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 hover:shadow-lg hover:shadow-red-primary/30"
                 >
                   <Phone className="w-5 h-5" />
-                  Call +91 86672 87022
+                  {t("contact.call", { phone: "+91 86672 87022" })}
                 </button>
                 <a 
                   href={whatsappLink}
                   target="_blank"
                   rel="noopener noreferrer"
+                  onClick={() => track('whatsapp_clicked', { placement: 'quick-order' })}
                   className="block w-full"
                 >
                   <button className="w-full bg-gradient-to-r from-green-whatsapp to-green-dark hover:from-green-dark hover:to-green-whatsapp text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 hover:shadow-lg hover:shadow-green-whatsapp/30">
                     <MessageCircle className="w-5 h-5" />
-                    WhatsApp Order
+                    {t("contact.whatsappOrder")}
                   </button>
                 </a>
+                <button
+                  onClick={() => setIsReservationOpen(true)}
+                  className="w-full bg-dark border border-dark-border hover:border-red-primary text-white-off font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 hover:shadow-lg hover:shadow-red-primary/20"
+                >
+                  <CalendarCheck className="w-5 h-5 text-red-primary" />
+                  {t("contact.reserveTable")}
+                </button>
               </div>
             </div>
           </motion.div>
@@ -165,49 +198,98 @@ const DarkContactSection = () => {
           >
             <div className="bg-dark-card border border-dark-border rounded-2xl p-8 backdrop-blur-md bg-opacity-50 h-full transition-all duration-300 hover:border-red-primary hover:shadow-lg hover:shadow-red-primary/20">
               <h3 className="text-white-off font-playfair text-2xl mb-6">
-                Send us a Message
+                {t("contact.sendMessageTitle")}
               </h3>
               
-              <form className="space-y-4">
-                <div className="grid sm:grid-cols-2 gap-4">
-                  <div className="group">
-                    <Input
-                      placeholder="Your Name"
-                      className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+              <Form {...form}>
+                <form onSubmit={onSubmit} noValidate className="space-y-4">
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem className="group space-y-1">
+                          <FormControl>
+                            <Input
+                              placeholder={t("contact.namePlaceholder")}
+                              autoComplete="name"
+                              className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage className="text-red-light font-poppins text-xs" />
+                        </FormItem>
+                      )}
                     />
-                  </div>
-                  <div className="group">
-                    <Input
-                      placeholder="Phone Number"
-                      className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+                    <FormField
+                      control={form.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem className="group space-y-1">
+                          <FormControl>
+                            <Input
+                              type="tel"
+                              inputMode="tel"
+                              placeholder={t("contact.phonePlaceholder")}
+                              autoComplete="tel"
+                              className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage className="text-red-light font-poppins text-xs" />
+                        </FormItem>
+                      )}
                     />
                   </div>
-                </div>
 
-                <div className="group">
-                  <Input
-                    type="email"
-                    placeholder="Email Address"
-                    className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem className="group space-y-1">
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder={t("contact.emailPlaceholder")}
+                            autoComplete="email"
+                            className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage className="text-red-light font-poppins text-xs" />
+                      </FormItem>
+                    )}
                   />
-                </div>
 
-                <div className="group">
-                  <Textarea
-                    placeholder="Your Message..."
-                    rows={4}
-                    className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins resize-none"
+                  <FormField
+                    control={form.control}
+                    name="message"
+                    render={({ field }) => (
+                      <FormItem className="group space-y-1">
+                        <FormControl>
+                          <Textarea
+                            placeholder={t("contact.messagePlaceholder")}
+                            rows={4}
+                            maxLength={MESSAGE_MAX_LENGTH}
+                            className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 transition-all duration-300 rounded-lg py-3 font-poppins resize-none"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage className="text-red-light font-poppins text-xs" />
+                      </FormItem>
+                    )}
                   />
-                </div>
 
-                <button 
-                  type="submit"
-                  className="w-full bg-gradient-to-r from-red-primary to-red-dark hover:from-red-dark hover:to-red-primary text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 hover:shadow-lg hover:shadow-red-primary/30 group"
-                >
-                  <span>Send Message</span>
-                  <Send className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
-                </button>
-              </form>
+                  <button 
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full bg-gradient-to-r from-red-primary to-red-dark hover:from-red-dark hover:to-red-primary text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300 transform hover:scale-105 hover:shadow-lg hover:shadow-red-primary/30 group disabled:opacity-60 disabled:cursor-not-allowed disabled:hover:scale-100"
+                  >
+                    <span>{isSubmitting ? t("contact.sending") : t("contact.send")}</span>
+                    <Send className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+                  </button>
+                </form>
+              </Form>
             </div>
           </motion.div>
         </div>
@@ -223,36 +305,55 @@ const DarkContactSection = () => {
             <div className="text-center">
               <MapPin className="w-12 h-12 text-red-primary mx-auto mb-4" />
               <h3 className="text-white-off font-playfair text-2xl mb-2">
-                Visit Our Restaurant
+                {t("contact.visitTitle")}
               </h3>
               <p className="text-white-muted font-poppins mb-6">
-                Ambur, Tamil Nadu, India
+                {t("contact.visitAddress")}
               </p>
               <button 
                 onClick={handleMapClick}
                 className="bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-3 px-8 rounded-full transition-all duration-300 hover:shadow-lg hover:shadow-red-primary/30"
               >
-                Get Directions
+                {t("contact.directions")}
               </button>
             </div>
           </div>
         </motion.div>
       </div>
 
-      {/* Fixed WhatsApp Button */}
-      <motion.a
-        href={whatsappLink}
-        target="_blank"
-        rel="noopener noreferrer"
-        initial={{ scale: 0 }}
-        animate={{ scale: 1 }}
-        transition={{ delay: 1, duration: 0.5, type: "spring" }}
-        className="fixed bottom-20 md:bottom-8 right-4 md:right-8 z-50"
-      >
-        <button className="bg-green-whatsapp hover:bg-green-dark text-white p-4 rounded-full shadow-xl hover:shadow-2xl hover:shadow-green-whatsapp/30 transition-all duration-300 hover:scale-110">
+      {/* Fixed WhatsApp Button - opens the cart once dishes have been added */}
+      {cartItemCount > 0 ? (
+        <motion.button
+          onClick={openCart}
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ duration: 0.5, type: "spring" }}
+          className="fixed bottom-20 md:bottom-8 right-4 md:right-8 z-50 bg-green-whatsapp hover:bg-green-dark text-white p-4 rounded-full shadow-xl hover:shadow-2xl hover:shadow-green-whatsapp/30 transition-all duration-300 hover:scale-110"
+          aria-label={tp("contact.viewOrder", cartItemCount)}
+        >
           <MessageCircle className="w-6 h-6" />
-        </button>
-      </motion.a>
+          <span className="absolute -top-1 -right-1 min-w-[1.5rem] h-6 px-1 flex items-center justify-center rounded-full bg-red-primary text-white font-poppins text-xs font-semibold border-2 border-dark">
+            {cartItemCount}
+          </span>
+        </motion.button>
+      ) : (
+        <motion.a
+          href={whatsappLink}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={() => track('whatsapp_clicked', { placement: 'floating' })}
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ delay: 1, duration: 0.5, type: "spring" }}
+          className="fixed bottom-20 md:bottom-8 right-4 md:right-8 z-50"
+        >
+          <button className="bg-green-whatsapp hover:bg-green-dark text-white p-4 rounded-full shadow-xl hover:shadow-2xl hover:shadow-green-whatsapp/30 transition-all duration-300 hover:scale-110">
+            <MessageCircle className="w-6 h-6" />
+          </button>
+        </motion.a>
+      )}
+
+      <ReservationDialog open={isReservationOpen} onOpenChange={setIsReservationOpen} />
     </section>
   );
 };
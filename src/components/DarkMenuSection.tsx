@@ -1,25 +1,69 @@
-import { useState, memo } from "react";
+import { useState, useMemo, memo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { MessageCircle, Star, ChevronDown } from "lucide-react";
+import { Star, ChevronDown, Clock, Plus, ShoppingBag, Search, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import QuantityStepper from "@/components/ui/quantity-stepper";
+import HighlightedText from "@/components/ui/highlighted-text";
+import SpiceLevel from "@/components/ui/spice-level";
+import DishDetailSheet from "@/components/DishDetailSheet";
+import MenuFacetBar from "@/components/MenuFacetBar";
+import PromoBanners from "@/components/PromoBanners";
+import { getDefaultVariant, hasMenuOptions, type MenuItem } from "@/data/menu";
+import { taxSettings } from "@/data/tax";
+import { cartActions, useCart } from "@/hooks/useCart";
+import { useDishAvailability, type DishOrderability } from "@/hooks/useDishAvailability";
+import { useLocale } from "@/hooks/useLocale";
+import { useMenuSearchParams } from "@/hooks/useMenuSearchParams";
+import { useOrderPricing } from "@/hooks/useOrderPricing";
+import { useReviews } from "@/hooks/useReviews";
+import { useSiteContent } from "@/hooks/useSiteContent";
+import { track } from "@/utils/analytics";
+import { localizeMenuCategory, localizeMenuItem } from "@/utils/i18n";
+import { normalizeSearchQuery, searchMenu, type MatchRange } from "@/utils/menuSearch";
+import { calculateOrderCharges } from "@/utils/pricing";
+import {
+  countActiveFilters,
+  emptyMenuFilters,
+  getFacetCounts,
+  getPriceBounds,
+  matchesMenuFilters,
+  sortMenuEntries,
+} from "@/utils/menuFilters";
+import {
+  getCartLineKey,
+  getCartLines,
+  getItemCount,
+  normalizeSelection,
+} from "@/utils/order";
+import { formatRating, type RatingSummary } from "@/utils/reviews";
 
-interface MenuItem {
-  id: string;
-  name: string;
-  price: number;
-  image: string;
-  category: string;
-  rating: number;
-  isVeg: boolean;
-  isSpicy: boolean;
-  isPopular: boolean;
-}
+const noHighlights: MatchRange[] = [];
 
-// Dark themed menu card with WhatsApp integration
-const MenuCard = memo(({ item }: { item: MenuItem }) => {
-  const phoneNumber = "919677938393"; // Restaurant WhatsApp number
-  const whatsappMessage = `Hi! I'm interested in ordering ${item.name} from your menu.`;
-  const whatsappLink = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(whatsappMessage)}`;
+// Dark themed menu card with cart quantity stepper. Dishes with portions or
+// add-ons open the detail sheet instead of adding straight to the cart, and
+// dishes that can't be ordered right now say when they can. The star badge
+// only shows once the dish has an approved review.
+// Expects the dish already localised.
+const MenuCard = memo(({
+  item,
+  quantity,
+  orderability,
+  rating,
+  nameHighlights = noHighlights,
+  onOpenDetails,
+}: {
+  item: MenuItem;
+  quantity: number;
+  orderability: DishOrderability;
+  rating: RatingSummary | null;
+  nameHighlights?: MatchRange[];
+  onOpenDetails: (item: MenuItem) => void;
+}) => {
+  const { addItem, setQuantity } = cartActions;
+  const { t, tp, formatPrice } = useLocale();
+  const hasOptions = hasMenuOptions(item);
+  const defaultSelection = normalizeSelection(item);
+  const defaultVariant = getDefaultVariant(item);
 
   return (
     <motion.div
@@ -30,8 +74,13 @@ const MenuCard = memo(({ item }: { item: MenuItem }) => {
       className="group"
     >
       <div className="bg-dark-card border border-dark-border rounded-2xl overflow-hidden backdrop-blur-md bg-opacity-50 shadow-xl hover:shadow-2xl transition-all duration-300">
-        {/* Image Container */}
-        <div className="relative h-36 sm:h-48 md:h-56 overflow-hidden">
+        {/* Image Container - opens the dish details */}
+        <button
+          type="button"
+          onClick={() => onOpenDetails(item)}
+          className="relative block w-full h-36 sm:h-48 md:h-56 overflow-hidden text-left"
+          aria-label={t("menu.viewDetails", { dish: item.name })}
+        >
           <img
             src={item.image}
             alt={item.name}
@@ -46,52 +95,86 @@ const MenuCard = memo(({ item }: { item: MenuItem }) => {
           <div className="absolute top-2 left-2 flex gap-1 flex-wrap">
             {item.isPopular && (
               <Badge className="bg-red-primary text-white border-0 px-1.5 py-0.5 text-xs font-poppins">
-                Popular
+                {t("menu.popular")}
               </Badge>
             )}
             {item.isVeg && (
               <Badge className="bg-green-dark text-white border-0 px-1.5 py-0.5 text-xs font-poppins">
-                Veg
+                {t("menu.veg")}
               </Badge>
             )}
-            {item.isSpicy && (
+            {item.spiceLevel > 0 && (
               <Badge className="bg-orange-600 text-white border-0 px-1.5 py-0.5 text-xs font-poppins">
-                🌶️ Spicy
+                <SpiceLevel level={item.spiceLevel} />
               </Badge>
             )}
           </div>
 
           {/* Rating */}
-          <div className="absolute top-2 right-2 bg-dark backdrop-blur-md bg-opacity-80 px-2 py-1 rounded-full flex items-center gap-1">
-            <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-            <span className="text-white-off text-xs font-poppins">{item.rating}</span>
-          </div>
-        </div>
+          {rating && (
+            <div
+              className="absolute top-2 right-2 bg-dark backdrop-blur-md bg-opacity-80 px-2 py-1 rounded-full flex items-center gap-1"
+              title={tp("reviews.summary", rating.count, { rating: formatRating(rating.average) })}
+            >
+              <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+              <span className="text-white-off text-xs font-poppins">{formatRating(rating.average)}</span>
+            </div>
+          )}
+        </button>
 
         {/* Content */}
         <div className="p-3 md:p-5">
           <h3 className="text-white-off font-poppins font-semibold text-sm md:text-lg mb-2 md:mb-3 line-clamp-1">
-            {item.name}
+            <HighlightedText text={item.name} ranges={nameHighlights} />
           </h3>
           
           <div className="flex items-center justify-between mb-3 md:mb-4">
             <span className="text-red-primary font-playfair text-lg md:text-2xl font-bold">
-              ₹{item.price}
+              {formatPrice(item.price)}
             </span>
+            {item.variants.length > 1 && defaultVariant && (
+              <span className="text-white-muted font-poppins text-xs">
+                {t("menu.sizes", { portion: defaultVariant.name, count: item.variants.length })}
+              </span>
+            )}
           </div>
 
-          {/* WhatsApp Order Button */}
-          <a
-            href={whatsappLink}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="block w-full"
-          >
-            <button className="w-full bg-gradient-to-r from-green-whatsapp to-green-dark hover:from-green-dark hover:to-green-whatsapp text-white font-poppins font-medium py-2 md:py-3 px-2 md:px-4 rounded-full flex items-center justify-center gap-1 md:gap-2 transition-all duration-300 transform hover:scale-105 hover:shadow-lg hover:shadow-green-whatsapp/30">
-              <MessageCircle className="w-4 h-4 md:w-5 md:h-5" />
-              <span className="text-xs md:text-sm">Order on WhatsApp</span>
+          {/* Add to Order / Quantity Stepper */}
+          {!orderability.canOrder ? (
+            <button
+              disabled
+              className="w-full bg-dark border border-dark-border text-white-muted font-poppins font-medium py-2 md:py-3 px-2 md:px-4 rounded-full flex items-center justify-center gap-1 md:gap-2 cursor-not-allowed"
+            >
+              <Clock className="w-4 h-4 flex-shrink-0" />
+              <span className="text-xs md:text-sm line-clamp-1">{orderability.label}</span>
+            </button>
+          ) : hasOptions ? (
+            <button
+              onClick={() => onOpenDetails(item)}
+              className="w-full bg-gradient-to-r from-red-primary to-red-dark hover:from-red-dark hover:to-red-primary text-white font-poppins font-medium py-2 md:py-3 px-2 md:px-4 rounded-full flex items-center justify-center gap-1 md:gap-2 transition-all duration-300 transform hover:scale-105 hover:shadow-lg hover:shadow-red-primary/30"
+            >
+              <Plus className="w-4 h-4 md:w-5 md:h-5" />
+              <span className="text-xs md:text-sm">{quantity > 0 ? t("menu.addMore", { count: quantity }) : t("menu.chooseOptions")}</span>
             </button>
-          </a>
+          ) : quantity === 0 ? (
+            <button
+              onClick={() => {
+                addItem(defaultSelection);
+                track("dish_added_to_cart", { dishId: item.id, variantId: defaultSelection.variantId, quantity: 1, source: "card" });
+              }}
+              className="w-full bg-gradient-to-r from-red-primary to-red-dark hover:from-red-dark hover:to-red-primary text-white font-poppins font-medium py-2 md:py-3 px-2 md:px-4 rounded-full flex items-center justify-center gap-1 md:gap-2 transition-all duration-300 transform hover:scale-105 hover:shadow-lg hover:shadow-red-primary/30"
+            >
+              <Plus className="w-4 h-4 md:w-5 md:h-5" />
+              <span className="text-xs md:text-sm">{t("menu.addToOrder")}</span>
+            </button>
+          ) : (
+            <QuantityStepper
+              label={item.name}
+              quantity={quantity}
+              max={orderability.maxQuantity}
+              onChange={(next) => setQuantity(getCartLineKey(defaultSelection), next)}
+            />
+          )}
         </div>
       </div>
     </motion.div>
@@ -101,183 +184,81 @@ const MenuCard = memo(({ item }: { item: MenuItem }) => {
 MenuCard.displayName = 'MenuCard';
 
 const DarkMenuSection = memo(() => {
-  const [activeCategory, setActiveCategory] = useState("all");
+  const {
+    query,
+    category: activeCategory,
+    dishSlug,
+    filters,
+    sort,
+    setQuery,
+    setCategory,
+    setFilters,
+    setSort,
+    openDish,
+    closeDish,
+  } = useMenuSearchParams();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
-  const categories = [
-    { id: "all", name: "All", emoji: "🍽️" },
-    { id: "Briyani", name: "Briyani", emoji: "🍛" },
-    { id: "appetizers", name: "Starters", emoji: "🥘" },
-    { id: "chinese", name: "Chinese", emoji: "🥡" },
-    { id: "bbq", name: "BBQ", emoji: "🍖" },
-    { id: "curries", name: "Curries", emoji: "🥘" },
-    { id: "breads", name: "Breads", emoji: "🥖" },
-  ];
+  const setActiveCategory = (category: string) => {
+    track("menu_category_selected", { category });
+    setCategory(category);
+  };
+  const { entries, couponCode, getQuantity, openCart } = useCart();
+  const { locale, t, tp, formatPrice } = useLocale();
+  const { menu } = useSiteContent();
+  const getOrderability = useDishAvailability();
+  const { getDishRating } = useReviews();
+  const itemCount = getItemCount(entries);
+  const cartLines = getCartLines(entries);
+  const orderPricing = useOrderPricing(cartLines, couponCode);
+  // With packaging and GST; the delivery fee is only known in the cart
+  const orderTotal = calculateOrderCharges(cartLines, { discounts: orderPricing.discounts }).total;
+
+  const categories = useMemo(() => [
+    { id: "all", name: t("menu.allCategories"), emoji: "🍽️" },
+    ...menu.categories.map((category) => localizeMenuCategory(category, locale)),
+  ], [menu, t, locale]);
+  const priceBounds = useMemo(() => getPriceBounds(menu.items), [menu]);
+  const hasRatings = useMemo(() => menu.items.some((item) => getDishRating(item.id)), [menu, getDishRating]);
 
   // Split categories for mobile view
   const primaryCategories = categories.slice(0, 3); // First 3 categories
   const secondaryCategories = categories.slice(3); // Rest of categories
 
-  const menuItems: MenuItem[] = [
-    {
-      id: "1",
-      name: "Mutton Briyani",
-      price: 280,
-      image: "/assets/Menu Assets/Mutton Biryani.webp",
-      category: "Briyani",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "2",
-      name: "Chicken Briyani",
-      price: 170,
-      image: "/assets/Menu Assets/MuttoBriyani.webp",
-      category: "Briyani",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "3",
-      name: "Boneless Chicken 65",
-      price: 100,
-      image: "/assets/Menu Assets/Chicken 65.webp",
-      category: "appetizers",
-      rating: 4.6,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "4",
-      name: "Chicken Lollipop",
-      price: 160,
-      image: "/assets/Menu Assets/Chicken Lollipop.webp",
-      category: "appetizers",
-      rating: 4.4,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "5",
-      name: "Gobi Manchurian",
-      price: 120,
-      image: "/assets/Menu Assets/Gobi Manchurian.webp",
-      category: "chinese",
-      rating: 4.7,
-      isVeg: true,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "6",
-      name: "Chicken Fried Rice",
-      price: 100,
-      image: "/assets/Menu Assets/Chicken Fried Rice.webp",
-      category: "chinese",
-      rating: 4.5,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: false
-    },
-    {
-      id: "7",
-      name: "Chicken BBQ",
-      price: 420,
-      image: "/assets/Menu Assets/Chicken BBQ.webp",
-      category: "bbq",
-      rating: 4.7,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-      id: "8",
-      name: "Tandoori Chicken",
-      price: 420,
-      image: "/assets/Menu Assets/Tandoori.webp",
-      category: "bbq",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "9",
-      name: "Butter Chicken Gravy",
-      price: 190,
-      image: "/assets/Menu Assets/Butter Chicken Gravy.webp",
-      category: "curries",
-      rating: 4.9,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-      id: "10",
-      name: "Mutton Chukka",
-      price: 220,
-      image: "/assets/Menu Assets/Mutton Chukka.webp",
-      category: "curries",
-      rating: 4.7,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "11",
-      name: "Fish Fry",
-      price: 180,
-      image: "/assets/Menu Assets/Fish Fry.webp",
-      category: "appetizers",
-      rating: 4.6,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "12",
-      name: "Parotta",
-      price: 50,
-      image: "/assets/Menu Assets/Parotta.webp",
-      category: "breads",
-      rating: 4.5,
-      isVeg: true,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-      id: "13",
-      name: "Chicken Gravy",
-      price: 260,
-      image: "/assets/Menu Assets/Chicken Gravy.webp",
-      category: "curries",
-      rating: 4.6,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "14",
-      name: "Veg Fried Rice",
-      price: 200,
-      image: "/assets/Menu Assets/Veg Fried Rice.webp",
-      category: "chinese",
-      rating: 4.2,
-      isVeg: true,
-      isSpicy: false,
-      isPopular: false
-    }
-  ];
+  const searchQuery = normalizeSearchQuery(query);
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Search runs across the whole catalog so category chips can show live counts
+  const searchResults = useMemo(() => searchMenu(menu.items, searchQuery, locale), [menu, searchQuery, locale]);
+
+  const { results, facetCounts, categoryCounts } = useMemo(() => {
+    const inCategory = searchResults.filter(
+      ({ item }) => activeCategory === "all" || item.category === activeCategory
+    );
+    const filtered = searchResults.filter(({ item }) => matchesMenuFilters(item, filters));
+    const counts: Record<string, number> = { all: filtered.length };
+    filtered.forEach(({ item }) => {
+      counts[item.category] = (counts[item.category] ?? 0) + 1;
+    });
+
+    return {
+      results: sortMenuEntries(inCategory.filter(({ item }) => matchesMenuFilters(item, filters)), sort),
+      facetCounts: getFacetCounts(inCategory.map(({ item }) => item), filters),
+      categoryCounts: counts,
+    };
+  }, [searchResults, activeCategory, filters, sort]);
+
+  const activeSecondaryCategory = secondaryCategories.find((category) => category.id === activeCategory);
 
-  const filteredItems = activeCategory === "all" 
-    ? menuItems 
-    : menuItems.filter(item => item.category === activeCategory);
+  // Cards and the sheet show localised copies; search and filters work on the catalog
+  const localizedResults = useMemo(
+    () => results.map((entry) => ({ ...entry, item: localizeMenuItem(entry.item, locale) })),
+    [results, locale]
+  );
+  const openItem = useMemo(() => {
+    const item = dishSlug ? menu.items.find((candidate) => candidate.id === dishSlug) : undefined;
+    return item ? localizeMenuItem(item, locale) : null;
+  }, [menu, dishSlug, locale]);
 
   return (
     <section id="menu" className="relative min-h-screen py-20 bg-dark overflow-hidden flex flex-col">
@@ -298,19 +279,59 @@ const DarkMenuSection = memo(() => {
           className="text-center mb-16"
         >
           <h2 className="font-playfair text-5xl md:text-6xl text-white-off mb-4">
-            Our Menu
+            {t("menu.title")}
           </h2>
           <p className="text-white-muted font-poppins text-lg max-w-2xl mx-auto">
-            Authentic Ambur Briyani and delicious South Indian cuisine!
+            {t("menu.subtitle")}
+          </p>
+          <p className="text-white-muted/70 font-poppins text-xs mt-2">
+            {t(taxSettings.pricesIncludeTax ? "menu.taxIncluded" : "menu.taxExcluded", { rate: taxSettings.gstRate })}
           </p>
         </motion.div>
 
+        {/* Current offers */}
+        <PromoBanners placement="menu" className="mb-8" />
+
+        {/* Search */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.1, duration: 0.6 }}
+          className="max-w-xl mx-auto mb-8"
+        >
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-white-muted pointer-events-none" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t("menu.searchPlaceholder")}
+              aria-label={t("menu.searchLabel")}
+              className="w-full bg-dark-card border border-dark-border rounded-full py-3 pl-12 pr-12 text-white-off placeholder:text-white-muted font-poppins text-sm focus:outline-none focus:border-red-primary/50 transition-colors [&::-webkit-search-cancel-button]:hidden"
+            />
+            {query && (
+              <button
+                onClick={() => setQuery("")}
+                className="absolute right-3 top-1/2 -translate-y-1/2 p-1 rounded-full text-white-muted hover:text-white-off transition-colors"
+                aria-label={t("menu.clearSearch")}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {searchQuery && (
+            <p className="text-center text-white-muted font-poppins text-xs mt-3" aria-live="polite">
+              {tp("menu.resultsFound", results.length, { query: searchQuery })}
+            </p>
+          )}
+        </motion.div>
+
         {/* Category Filters */}
         <motion.div 
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ delay: 0.2, duration: 0.6 }}
-          className="mb-12"
+          className="mb-8"
         >
           {/* Desktop View - All categories */}
           <div className="hidden md:flex flex-wrap justify-center gap-3">
@@ -328,6 +349,7 @@ const DarkMenuSection = memo(() => {
               >
                 <span className="mr-2">{category.emoji}</span>
                 {category.name}
+                <span className="ml-2 text-xs opacity-70">{categoryCounts[category.id] ?? 0}</span>
               </button>
             ))}
           </div>
@@ -349,6 +371,7 @@ const DarkMenuSection = memo(() => {
                 >
                   <span className="mr-2">{category.emoji}</span>
                   {category.name}
+                  <span className="ml-1.5 opacity-70">{categoryCounts[category.id] ?? 0}</span>
                 </button>
               ))}
             </div>
@@ -358,9 +381,17 @@ const DarkMenuSection = memo(() => {
               <div className="relative">
                 <button
                   onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                  className="flex items-center px-4 py-2 bg-dark-card border border-dark-border rounded-full text-white-muted hover:text-white-off transition-colors font-poppins text-xs"
+                  className={`flex items-center px-4 py-2 rounded-full transition-colors font-poppins text-xs ${
+                    activeSecondaryCategory
+                      ? 'bg-red-primary text-white'
+                      : 'bg-dark-card border border-dark-border text-white-muted hover:text-white-off'
+                  }`}
                 >
-                  <span className="mr-2">More Categories</span>
+                  <span className="mr-2">
+                    {activeSecondaryCategory
+                      ? `${activeSecondaryCategory.emoji} ${activeSecondaryCategory.name}`
+                      : t("menu.moreCategories")}
+                  </span>
                   <ChevronDown size={16} className={`transform transition-transform ${isDropdownOpen ? 'rotate-180' : ''}`} />
                 </button>
                 
@@ -390,6 +421,7 @@ const DarkMenuSection = memo(() => {
                           >
                             <span className="mr-3">{category.emoji}</span>
                             {category.name}
+                            <span className="ml-auto text-xs opacity-70">{categoryCounts[category.id] ?? 0}</span>
                           </button>
                         ))}
                       </div>
@@ -401,6 +433,24 @@ const DarkMenuSection = memo(() => {
           </div>
         </motion.div>
 
+        {/* Dietary / Attribute Facets and Sorting */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.3, duration: 0.6 }}
+          className="mb-12"
+        >
+          <MenuFacetBar
+            filters={filters}
+            onFiltersChange={setFilters}
+            sort={sort}
+            onSortChange={setSort}
+            counts={facetCounts}
+            priceBounds={priceBounds}
+            hasRatings={hasRatings}
+          />
+        </motion.div>
+
         {/* Menu Grid */}
         <AnimatePresence mode="wait">
           <motion.div 
@@ -411,18 +461,90 @@ const DarkMenuSection = memo(() => {
             transition={{ duration: 0.3 }}
             className="grid grid-cols-2 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-8"
           >
-            {filteredItems.map((item, index) => (
+            {localizedResults.map(({ item, highlights }, index) => (
               <motion.div
                 key={item.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1, duration: 0.5 }}
               >
-                <MenuCard item={item} />
+                <MenuCard
+                  item={item}
+                  quantity={getQuantity(item.id)}
+                  orderability={getOrderability(item)}
+                  rating={getDishRating(item.id)}
+                  nameHighlights={highlights.name}
+                  onOpenDetails={openDish}
+                />
               </motion.div>
             ))}
           </motion.div>
         </AnimatePresence>
+
+        {/* No Results */}
+        {results.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-white-off font-poppins text-lg mb-2">
+              {searchQuery ? t("menu.noMatchQuery", { query: searchQuery }) : t("menu.noMatchFilters")}
+            </p>
+            <p className="text-white-muted font-poppins text-sm mb-6">
+              {searchQuery
+                ? t(activeCategory !== "all" ? "menu.tryAnotherSpellingOrAll" : "menu.tryAnotherSpelling")
+                : t(activeCategory !== "all" ? "menu.tryRemovingFilterOrAll" : "menu.tryRemovingFilter")}
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {activeCategory !== "all" && (
+                <button
+                  onClick={() => setActiveCategory("all")}
+                  className="px-6 py-3 rounded-full bg-dark-card border border-dark-border text-white-muted hover:text-white-off hover:border-red-primary/50 font-poppins text-sm transition-all duration-300"
+                >
+                  {t("menu.searchAllCategories")}
+                </button>
+              )}
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={() => setFilters(emptyMenuFilters)}
+                  className="px-6 py-3 rounded-full bg-dark-card border border-dark-border text-white-muted hover:text-white-off hover:border-red-primary/50 font-poppins text-sm transition-all duration-300"
+                >
+                  {t("menu.clearFilters")}
+                </button>
+              )}
+              {searchQuery && (
+                <button
+                  onClick={() => setQuery("")}
+                  className="px-6 py-3 rounded-full bg-red-primary hover:bg-red-dark text-white font-poppins text-sm transition-all duration-300"
+                >
+                  {t("menu.clearSearch")}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DishDetailSheet
+          item={openItem}
+          onOpenChange={(open) => !open && closeDish()}
+        />
+
+        {/* View Order Bar */}
+        <AnimatePresence>
+          {itemCount > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="sticky bottom-4 mt-8 flex justify-center z-20"
+            >
+              <button
+                onClick={openCart}
+                className="bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-3 px-6 rounded-full flex items-center gap-3 shadow-xl shadow-red-primary/30 transition-all duration-300"
+              >
+                <ShoppingBag className="w-5 h-5" />
+                <span>{tp("menu.viewOrder", itemCount, { total: formatPrice(orderTotal) })}</span>
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </div>
     </section>
   );
@@ -0,0 +1,134 @@
+import { memo, useEffect, useState } from "react";
+import { Loader2, LocateFixed } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { deliveryConfig } from "@/data/delivery";
+import {
+  formatEta,
+  normalizePincode,
+  type DeliveryCharges,
+  type DeliveryCheck,
+  type DeliveryLocation,
+} from "@/utils/delivery";
+import { formatPrice } from "@/utils/order";
+
+interface DeliveryCheckerProps {
+  location: DeliveryLocation | null;
+  check: DeliveryCheck | null;
+  charges: DeliveryCharges | null;
+  onLocationChange: (location: DeliveryLocation | null) => void;
+}
+
+const GEOLOCATION_TIMEOUT = 10 * 1000;
+
+const maxDistanceKm = deliveryConfig.rings[deliveryConfig.rings.length - 1].maxDistanceKm;
+
+const describeCheck = (location: DeliveryLocation, check: DeliveryCheck, charges: DeliveryCharges | null) => {
+  switch (check.status) {
+    case "invalid-pincode":
+      return { tone: "error", text: "Enter a 6-digit pincode." };
+    case "out-of-area":
+      return {
+        tone: "error",
+        text: location.kind === "pincode"
+          ? `Sorry, we don't deliver to ${normalizePincode(location.pincode)} yet. Pickup is always available.`
+          : `Sorry, you're ${check.distanceKm?.toFixed(1)} km away and we deliver up to ${maxDistanceKm} km. Pickup is always available.`,
+      };
+    case "available": {
+      const where = check.area ?? `your location (${check.distanceKm?.toFixed(1)} km away)`;
+      const fee = check.ring.fee > 0 ? `${formatPrice(check.ring.fee)} delivery` : "free delivery";
+      const summary = `We deliver to ${where}: ${fee}, ${formatEta(check.ring)}.`;
+      return charges && charges.shortBy > 0
+        ? { tone: "error", text: `${summary} The minimum order here is ${formatPrice(charges.minOrder)}; add ${formatPrice(charges.shortBy)} more.` }
+        : { tone: "ok", text: summary };
+    }
+  }
+};
+
+// Pincode entry or a one-off geolocation lookup that places the customer in
+// a delivery ring. The coordinates are only kept in this browser's cart.
+const DeliveryChecker = memo(({ location, check, charges, onLocationChange }: DeliveryCheckerProps) => {
+  const [pincodeInput, setPincodeInput] = useState(location?.kind === "pincode" ? location.pincode : "");
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const canLocate = typeof navigator !== "undefined" && "geolocation" in navigator;
+
+  useEffect(() => {
+    if (location?.kind === "pincode") setPincodeInput(location.pincode);
+  }, [location]);
+
+  const checkPincode = () => {
+    setLocationError(null);
+    onLocationChange(pincodeInput.trim() ? { kind: "pincode", pincode: normalizePincode(pincodeInput) } : null);
+  };
+
+  const locate = () => {
+    setIsLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setIsLocating(false);
+        setPincodeInput("");
+        onLocationChange({ kind: "location", latitude: coords.latitude, longitude: coords.longitude });
+      },
+      () => {
+        setIsLocating(false);
+        setLocationError("We couldn't get your location. Enter your pincode instead.");
+      },
+      { enableHighAccuracy: false, timeout: GEOLOCATION_TIMEOUT, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const result = location && check ? describeCheck(location, check, charges) : null;
+
+  return (
+    <div role="group" aria-label="Delivery area" className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={pincodeInput}
+          onChange={(e) => setPincodeInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && checkPincode()}
+          placeholder="Delivery pincode"
+          aria-label="Delivery pincode"
+          inputMode="numeric"
+          autoComplete="postal-code"
+          maxLength={7}
+          className="bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg font-poppins"
+        />
+        <button
+          onClick={checkPincode}
+          disabled={!pincodeInput.trim()}
+          className="px-4 rounded-lg bg-dark-card border border-dark-border text-white-off font-poppins text-sm hover:border-red-primary/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Check
+        </button>
+        {canLocate && (
+          <button
+            onClick={locate}
+            disabled={isLocating}
+            className="px-3 rounded-lg bg-dark-card border border-dark-border text-white-muted hover:text-white-off transition-colors disabled:opacity-50"
+            aria-label="Use my location"
+            title="Use my location"
+          >
+            {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+      {locationError || result ? (
+        <p
+          role="status"
+          className={`font-poppins text-xs ${!locationError && result?.tone === "ok" ? "text-green-whatsapp" : "text-red-primary"}`}
+        >
+          {locationError ?? result?.text}
+        </p>
+      ) : (
+        <p className="font-poppins text-xs text-white-muted">
+          Enter your pincode or share your location to check that we deliver to you.
+        </p>
+      )}
+    </div>
+  );
+});
+
+DeliveryChecker.displayName = 'DeliveryChecker';
+
+export default DeliveryChecker;
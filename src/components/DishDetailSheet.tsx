@@ -0,0 +1,258 @@
+import { memo, useEffect, useState } from "react";
+import { Check, Clock, Plus, Share2, Star } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import QuantityStepper from "@/components/ui/quantity-stepper";
+import SpiceLevel from "@/components/ui/spice-level";
+import { getMenuAddOn, type MenuAddOn, type MenuItem } from "@/data/menu";
+import { cartActions } from "@/hooks/useCart";
+import { useDishAvailability } from "@/hooks/useDishAvailability";
+import { useLocale } from "@/hooks/useLocale";
+import { useReviews } from "@/hooks/useReviews";
+import { toast } from "@/hooks/use-toast";
+import { track } from "@/utils/analytics";
+import { localizeMenuAddOn } from "@/utils/i18n";
+import {
+  buildWhatsAppShareLink,
+  composeDishShareMessage,
+  describeLineItem,
+  getUnitPrice,
+  normalizeSelection,
+} from "@/utils/order";
+import { formatRating } from "@/utils/reviews";
+import { dishPath } from "@/utils/routes";
+
+interface DishDetailSheetProps {
+  item: MenuItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const sectionTitle = "text-white-off font-poppins text-sm font-semibold mb-3";
+
+const optionClass = (selected: boolean) => `
+  w-full flex items-center justify-between gap-3 px-4 py-3 rounded-xl border font-poppins text-sm transition-all duration-300
+  ${selected
+    ? 'bg-red-primary/15 border-red-primary text-white-off'
+    : 'bg-dark-card border-dark-border text-white-muted hover:text-white-off hover:border-red-primary/50'
+  }
+`;
+
+// Full dish details with portion, add-on and quantity selection. Expects the
+// dish already localised; add-on names are localised here.
+const DishDetailSheet = memo(({ item, onOpenChange }: DishDetailSheetProps) => {
+  const { locale, localizePath, t, tp, formatPrice } = useLocale();
+  const getOrderability = useDishAvailability();
+  const { getDishRating } = useReviews();
+  const [variantId, setVariantId] = useState<string | undefined>();
+  const [addOnIds, setAddOnIds] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState(1);
+
+  // Start from the default portion each time a dish is opened
+  useEffect(() => {
+    if (!item) return;
+    setVariantId(item.defaultVariant);
+    setAddOnIds([]);
+    setQuantity(1);
+  }, [item]);
+
+  const itemId = item?.id;
+  useEffect(() => {
+    if (itemId) track("dish_viewed", { dishId: itemId });
+  }, [itemId]);
+
+  if (!item) {
+    return <Sheet open={false} onOpenChange={onOpenChange} />;
+  }
+
+  const orderability = getOrderability(item);
+  const rating = getDishRating(item.id);
+  const selection = normalizeSelection(item, { variantId, addOnIds });
+  const variant = item.variants.find((v) => v.id === selection.variantId);
+  const addOns = item.addOns
+    .map(getMenuAddOn)
+    .filter((addOn): addOn is MenuAddOn => addOn !== undefined)
+    .map((addOn) => localizeMenuAddOn(addOn, locale));
+  const selectedAddOns = addOns.filter((addOn) => selection.addOnIds.includes(addOn.id));
+  const total = getUnitPrice(item, variant, selectedAddOns) * quantity;
+
+  const toggleAddOn = (id: string) =>
+    setAddOnIds((current) => (current.includes(id) ? current.filter((addOnId) => addOnId !== id) : [...current, id]));
+
+  const handleAdd = () => {
+    if (!orderability.canOrder) return;
+    cartActions.addItem(selection, quantity);
+    track("dish_added_to_cart", { dishId: item.id, variantId: selection.variantId, quantity, source: "details" });
+    toast({
+      title: t("dish.added"),
+      description: `${quantity} × ${describeLineItem({ item, variant }, locale)}`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg bg-dark-light border-dark-border text-white-off flex flex-col p-0">
+        <div className="flex-1 overflow-y-auto">
+          {/* Image */}
+          <div className="relative h-56 sm:h-64">
+            <img src={item.image} alt={item.name} className="w-full h-full object-cover" />
+            <div className="absolute inset-0 bg-gradient-to-t from-dark-light via-transparent to-transparent" />
+            <div className="absolute bottom-3 left-6 flex gap-1 flex-wrap">
+              {item.isPopular && (
+                <Badge className="bg-red-primary text-white border-0 px-2 py-0.5 text-xs font-poppins">{t("menu.popular")}</Badge>
+              )}
+              {item.isVeg && (
+                <Badge className="bg-green-dark text-white border-0 px-2 py-0.5 text-xs font-poppins">{t("menu.veg")}</Badge>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <SheetHeader className="text-left space-y-2">
+              <SheetTitle className="text-white-off font-playfair text-3xl">{item.name}</SheetTitle>
+              <div className="flex items-center gap-4 text-white-muted font-poppins text-xs">
+                {rating && (
+                  <span className="flex items-center gap-1">
+                    <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                    {tp("reviews.summary", rating.count, { rating: formatRating(rating.average) })}
+                  </span>
+                )}
+                <SpiceLevel level={item.spiceLevel} showLabel />
+                <a
+                  href={buildWhatsAppShareLink(composeDishShareMessage(item, localizePath(dishPath(item))))}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => track("dish_whatsapp_clicked", { dishId: item.id })}
+                  className="ml-auto flex items-center gap-1 hover:text-green-whatsapp transition-colors"
+                >
+                  <Share2 className="w-3 h-3" />
+                  {t("dish.share")}
+                </a>
+              </div>
+              <SheetDescription className="text-white-muted font-poppins text-sm leading-relaxed">
+                {item.longDescription}
+              </SheetDescription>
+            </SheetHeader>
+
+            {(item.packagingCharge ?? 0) > 0 && (
+              <p className="text-white-muted font-poppins text-xs">
+                {t("dish.packaging", { amount: formatPrice(item.packagingCharge) })}
+              </p>
+            )}
+
+            {/* Portion sizes */}
+            {item.variants.length > 1 && (
+              <div role="radiogroup" aria-label={t("dish.portionSize")}>
+                <p className={sectionTitle}>{t("dish.portion")}</p>
+                <div className="space-y-2">
+                  {item.variants.map((option) => {
+                    const selected = option.id === selection.variantId;
+                    return (
+                      <button
+                        key={option.id}
+                        role="radio"
+                        aria-checked={selected}
+                        onClick={() => setVariantId(option.id)}
+                        className={optionClass(selected)}
+                      >
+                        <span>{option.name}</span>
+                        <span className="text-white-off">{formatPrice(option.price)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Add-ons */}
+            {addOns.length > 0 && (
+              <div>
+                <p className={sectionTitle}>{t("dish.addOns")} <span className="text-white-muted font-normal">{t("dish.optional")}</span></p>
+                <div className="space-y-2">
+                  {addOns.map((addOn) => {
+                    const selected = selection.addOnIds.includes(addOn.id);
+                    return (
+                      <button
+                        key={addOn.id}
+                        role="checkbox"
+                        aria-checked={selected}
+                        onClick={() => toggleAddOn(addOn.id)}
+                        className={optionClass(selected)}
+                      >
+                        <span className="flex items-center gap-3">
+                          <span className={`w-5 h-5 rounded-md border flex items-center justify-center ${selected ? 'bg-red-primary border-red-primary' : 'border-dark-border'}`}>
+                            {selected && <Check className="w-3 h-3 text-white" />}
+                          </span>
+                          {addOn.name}
+                        </span>
+                        <span className="text-white-off">+{formatPrice(addOn.price)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Ingredients & allergens */}
+            <div>
+              <p className={sectionTitle}>{t("dish.ingredients")}</p>
+              <p className="text-white-muted font-poppins text-sm leading-relaxed">{item.ingredients.join(", ")}</p>
+            </div>
+            <div>
+              <p className={sectionTitle}>{t("dish.allergens")}</p>
+              {item.allergens.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {item.allergens.map((allergen) => (
+                    <span
+                      key={allergen}
+                      className="px-3 py-1 rounded-full bg-dark-card border border-dark-border text-white-muted font-poppins text-xs capitalize"
+                    >
+                      {allergen}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-white-muted font-poppins text-sm">{t("dish.noAllergens")}</p>
+              )}
+              <p className="text-white-muted font-poppins text-xs mt-3">
+                {t("dish.allergyNote")}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Quantity and add to order */}
+        <div className="border-t border-dark-border p-6 flex items-center gap-4">
+          {!orderability.canOrder ? (
+            <p role="status" className="flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-full bg-dark border border-dark-border text-white-muted font-poppins">
+              <Clock className="w-5 h-5" />
+              {orderability.label}
+            </p>
+          ) : (
+            <>
+              <QuantityStepper
+                label={item.name}
+                quantity={quantity}
+                min={1}
+                max={orderability.maxQuantity}
+                onChange={setQuantity}
+                className="w-36 flex-shrink-0"
+              />
+              <button
+                onClick={handleAdd}
+                className="flex-1 bg-gradient-to-r from-red-primary to-red-dark hover:from-red-dark hover:to-red-primary text-white font-poppins font-medium py-3 px-4 rounded-full flex items-center justify-center gap-2 transition-all duration-300 hover:shadow-lg hover:shadow-red-primary/30"
+              >
+                <Plus className="w-5 h-5" />
+                {t("dish.add", { total: formatPrice(total) })}
+              </button>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+});
+
+DishDetailSheet.displayName = 'DishDetailSheet';
+
+export default DishDetailSheet;
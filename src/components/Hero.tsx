@@ -1,80 +1,130 @@
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import VideoControls from "@/components/ui/video-controls";
 import { ArrowDown } from "lucide-react";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import PromoBanners from "@/components/PromoBanners";
+import { heroVideo } from "@/data/heroVideo";
+import { useAdaptiveVideo } from "@/hooks/useAdaptiveVideo";
+import { useLocale } from "@/hooks/useLocale";
+import { useSectionNavigation } from "@/hooks/useSiteRoute";
+import { track } from "@/utils/analytics";
+import { getQualityLabels } from "@/utils/videoOptimization";
 
 // Assets are now in public folder
 const heroImage = "/assets/hero-biryani.jpg";
 const logo = "/assets/logo.png";
 const textLogo = "/assets/TEXTLOGO.png";
 
+const qualityLabels = getQualityLabels(heroVideo.renditions);
+
 const Hero = () => {
-  // Navigation handlers - Updated to match navbar behavior
-  const scrollToSection = (sectionId: string) => {
-    const element = document.querySelector(sectionId);
-    if (element) {
-      const elementTop = (element as HTMLElement).offsetTop;
-      let scrollTop;
-      
-      // For menu and contact sections, scroll to show them completely
-      if (sectionId === '#menu' || sectionId === '#contact') {
-        // Add small offset to ensure clean section view without previous section
-        scrollTop = elementTop - 20;
-      } else {
-        // For home section, scroll to top
-        scrollTop = 0;
-      }
-      
-      window.scrollTo({
-        top: Math.max(0, scrollTop),
-        behavior: 'smooth'
-      });
+  const goToSection = useSectionNavigation();
+  const { t } = useLocale();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoPlayer = useAdaptiveVideo(videoRef, heroVideo);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isMuted, setIsMuted] = useState(true);
+
+  const handlePlayPause = () => {
+    const video = videoRef.current;
+    // No video yet: the strategy declined it or it failed to load
+    if (!video) {
+      videoPlayer.startVideo();
+      return;
+    }
+    if (video.paused) {
+      video.play().catch(() => {});
+    } else {
+      video.pause();
     }
   };
 
+  const handleMuteToggle = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !video.muted;
+    setIsMuted(video.muted);
+  };
+
+  // Escape pauses the background video, as the controls say
+  useEffect(() => {
+    if (!videoPlayer.isEnabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") videoRef.current?.pause();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [videoPlayer.isEnabled]);
+
   const handleMenuClick = () => {
-    scrollToSection('#menu');
+    track('hero_cta_clicked', { action: 'menu' });
+    goToSection('menu');
   };
 
   const handleOrderClick = () => {
-    // Scroll to menu section for ordering
-    scrollToSection('#menu');
+    track('hero_cta_clicked', { action: 'order' });
+    // Ordering starts from the menu
+    goToSection('menu');
   };
   return (
     <section id="home" className="relative h-screen flex items-center justify-center overflow-hidden z-30">
       {/* Video Background - Fixed Implementation */}
       <div className="absolute inset-0">
+        {/* Blurred placeholder while the background image and poster load */}
+        {heroVideo.placeholder && (
+          <div
+            aria-hidden="true"
+            className="absolute inset-0 bg-cover bg-center scale-110 blur-xl"
+            style={{ backgroundImage: `url(${heroVideo.placeholder})` }}
+          />
+        )}
+
         {/* Fallback Background Image */}
         <div
           className="absolute inset-0 bg-cover bg-center bg-no-repeat"
           style={{ backgroundImage: `url(${heroImage})` }}
         />
 
-        {/* Video Background */}
-        <video
-          className="absolute inset-0 w-full h-full object-cover"
-          autoPlay
-          muted
-          loop
-          playsInline
-          preload="metadata"
-          style={{ opacity: 0.9 }}
-          onError={(e) => {
-            console.error('Video loading error:', e);
-            // Hide video on error, fallback image will show
-            e.currentTarget.style.display = 'none';
-          }}
-          onLoadedData={(e) => {
-            console.log('Video loaded successfully');
-            e.currentTarget.style.opacity = '0.9';
-          }}
-        >
-          <source src="/video/hero.mp4" type="video/mp4" />
-          Your browser does not support the video tag.
-        </video>
+        {/* Video Background: a rendition picked for this device and connection */}
+        {videoPlayer.rendition && (
+          <video
+            ref={videoRef}
+            className="absolute inset-0 w-full h-full object-cover"
+            src={videoPlayer.rendition.src}
+            poster={videoPlayer.poster?.src}
+            autoPlay
+            muted={isMuted}
+            loop
+            playsInline
+            preload={videoPlayer.preload}
+            style={{ opacity: 0.9 }}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            // The fallback image shows instead
+            onError={videoPlayer.handleError}
+          >
+            {t('hero.videoUnsupported')}
+          </video>
+        )}
 
         {/* Enhanced Overlay for better text readability */}
         <div className="absolute inset-0 bg-gradient-to-br from-black/60 via-black/75 to-black/65" />
       </div>
 
+      {videoPlayer.isReady && (
+        <VideoControls
+          videoRef={videoRef}
+          isPlaying={isPlaying}
+          isMuted={isMuted}
+          onPlayPause={handlePlayPause}
+          onMuteToggle={handleMuteToggle}
+          quality={videoPlayer.quality}
+          qualityLabels={qualityLabels}
+          onQualityChange={videoPlayer.setQuality}
+        />
+      )}
+
       {/* Mobile Centered Logos */}
       <div className="block md:hidden absolute top-4 left-1/2 transform -translate-x-1/2 z-20">
         {/* AB Star Logo - Mobile Center Top */}
@@ -82,7 +132,7 @@ const Hero = () => {
           <div className="w-16 h-16">
             <img
               src={logo}
-              alt="Ambur Star Biryani Logo - Original Ambur Briyani Restaurant Since 1967"
+              alt={t('hero.logoAlt')}
               className="w-full h-full object-contain drop-shadow-lg hover:scale-105 transition-transform duration-300"
               onError={(e) => {
                 // Fallback to a default image or hide if logo fails to load
@@ -98,7 +148,7 @@ const Hero = () => {
           <div className="w-40 h-auto">
             <img
               src={textLogo}
-              alt="Original Ambur Briyani Deluxe - Since 1967"
+              alt={t('hero.textLogoAlt')}
               className="w-full h-full object-contain drop-shadow-lg hover:scale-105 transition-transform duration-300"
             />
           </div>
@@ -112,7 +162,7 @@ const Hero = () => {
           <div className="w-20 h-20 lg:w-24 lg:h-24">
             <img
               src={logo}
-              alt="Ambur Star Biryani Logo - Authentic Biryani Restaurant Near Me"
+              alt={t('hero.cornerLogoAlt')}
               className="w-full h-full object-contain drop-shadow-lg hover:scale-105 transition-transform duration-300"
               onError={(e) => {
                 // Fallback to a default image or hide if logo fails to load
@@ -128,7 +178,7 @@ const Hero = () => {
           <div className="w-56 lg:w-64 xl:w-72 2xl:w-80 h-auto">
             <img
               src={textLogo}
-              alt="Original Ambur Briyani Deluxe - Since 1967"
+              alt={t('hero.textLogoAlt')}
               className="w-full h-full object-contain drop-shadow-lg hover:scale-105 transition-transform duration-300"
             />
           </div>
@@ -137,19 +187,27 @@ const Hero = () => {
 
       {/* Center Content */}
       <div className="relative z-10 text-center px-4 max-w-6xl mx-auto">
+        {/* Live opening status */}
+        <div className="flex justify-center mb-6">
+          <OpeningStatusBadge />
+        </div>
+
+        {/* Current offers */}
+        <PromoBanners placement="hero" className="mb-6" />
+
         {/* Main Title - SEO Optimized with keywords */}
         <h1 className="font-spirax text-3xl sm:text-6xl md:text-7xl lg:text-6xl xl:text-8xl text-white mb-6 leading-tight">
-          Authentic Ambur Biryani
+          {t('hero.title')}
         </h1>
 
         {/* Subtitle - SEO Optimized */}
         <h2 className="font-spirax text-2xl sm:text-5xl md:text-6xl lg:text-6xl xl:text-6xl mb-4 leading-tight" style={{ color: '#ED1B24' }}>
-          Best Biryani Near Me
+          {t('hero.subtitle')}
         </h2>
         
         {/* Additional SEO subtitle */}
         <p className="font-poppins text-lg sm:text-xl md:text-2xl text-white/90 mb-12 max-w-3xl mx-auto leading-relaxed">
-          Traditional chicken biryani, mutton biryani & dum biryani since 1967. Order ambur biryani online for delivery.
+          {t('hero.tagline')}
         </p>
 
         {/* CTA Buttons */}
@@ -173,7 +231,7 @@ const Hero = () => {
               e.currentTarget.style.color = '#ED1B24';
             }}
           >
-            MENU
+            {t('hero.menu')}
           </Button>
 
           <Button
@@ -191,7 +249,7 @@ const Hero = () => {
               e.currentTarget.style.backgroundColor = '#ED1B24';
             }}
           >
-            ORDER ONLINE
+            {t('hero.orderOnline')}
           </Button>
         </div>
         
@@ -203,7 +261,7 @@ const Hero = () => {
             size="lg"
             className="group font-poppins-medium text-white/80 hover:text-white transition-all duration-300 flex flex-col items-center gap-2 p-6 hover:bg-transparent"
           >
-            <span className="text-sm tracking-wide hover:text-primary transition-colors duration-300">ORDER NOW</span>
+            <span className="text-sm tracking-wide hover:text-primary transition-colors duration-300">{t('hero.orderNow')}</span>
             <ArrowDown className="w-6 h-6 group-hover:animate-bounce group-hover:text-primary transition-colors duration-300" />
           </Button>
         </div>
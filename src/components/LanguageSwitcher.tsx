@@ -0,0 +1,46 @@
+import { memo } from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, localeInfo } from '@/data/locales';
+import { useLocale } from '@/hooks/useLocale';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// Segmented English / தமிழ் / हिन्दी toggle; each label is in its own script
+const LanguageSwitcher = memo(({ className = '' }: LanguageSwitcherProps) => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <div
+      role="group"
+      aria-label={t('nav.language')}
+      className={`flex items-center gap-1 p-1 bg-dark-card border border-dark-border rounded-full ${className}`}
+    >
+      <Languages size={16} className="text-white-muted mx-2 flex-shrink-0" aria-hidden="true" />
+      {LOCALES.map(option => {
+        const isActive = option === locale;
+        return (
+          <button
+            key={option}
+            type="button"
+            lang={option}
+            aria-pressed={isActive}
+            onClick={() => setLocale(option)}
+            className={`px-3 py-1.5 rounded-full font-poppins text-xs transition-colors duration-300 ${
+              isActive
+                ? 'bg-gradient-to-r from-red-primary to-red-dark text-white'
+                : 'text-white-muted hover:text-white-off'
+            }`}
+          >
+            {localeInfo[option].label}
+          </button>
+        );
+      })}
+    </div>
+  );
+});
+
+LanguageSwitcher.displayName = 'LanguageSwitcher';
+
+export default LanguageSwitcher;
@@ -0,0 +1,141 @@
+import { memo, useEffect, useState } from "react";
+import { ArrowUpDown, X } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  MENU_FACETS,
+  MENU_SORT_OPTIONS,
+  TOP_RATED_THRESHOLD,
+  countActiveFilters,
+  emptyMenuFilters,
+  type MenuFacetId,
+  type MenuFilters,
+  type MenuSortId,
+  type PriceRange,
+} from "@/utils/menuFilters";
+
+interface MenuFacetBarProps {
+  filters: MenuFilters;
+  onFiltersChange: (filters: MenuFilters) => void;
+  sort: MenuSortId;
+  onSortChange: (sort: MenuSortId) => void;
+  counts: Record<MenuFacetId, number>;
+  priceBounds: PriceRange;
+  hasRatings: boolean; // any dish reviewed; the rating facet and sort are hidden until then
+}
+
+const PRICE_STEP = 10;
+
+// Facet chips, price range and sort order for the menu grid
+const MenuFacetBar = memo(({ filters, onFiltersChange, sort, onSortChange, counts, priceBounds, hasRatings }: MenuFacetBarProps) => {
+  const committedPrice = filters.price ?? priceBounds;
+  // Local value while dragging so the URL only updates when the thumb is released
+  const [draftPrice, setDraftPrice] = useState<PriceRange>(committedPrice);
+  const activeCount = countActiveFilters(filters);
+  const { t, formatPrice } = useLocale();
+  const facets = MENU_FACETS.filter((facet) => hasRatings || facet.id !== "top-rated" || filters.facets.includes(facet.id));
+  const sortOptions = MENU_SORT_OPTIONS.filter((option) => hasRatings || option.id !== "rating" || sort === option.id);
+
+  useEffect(() => {
+    setDraftPrice(filters.price ?? priceBounds);
+  }, [filters.price, priceBounds]);
+
+  const toggleFacet = (id: MenuFacetId) =>
+    onFiltersChange({
+      ...filters,
+      facets: filters.facets.includes(id) ? filters.facets.filter((facet) => facet !== id) : [...filters.facets, id],
+    });
+
+  const commitPrice = ([min, max]: number[]) =>
+    onFiltersChange({
+      ...filters,
+      price: min <= priceBounds[0] && max >= priceBounds[1] ? null : [min, max],
+    });
+
+  return (
+    <div className="space-y-4">
+      {/* Facet chips - scroll horizontally on mobile, wrap on desktop */}
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4 md:mx-0 md:px-0 md:flex-wrap md:justify-center [scrollbar-width:none]">
+        {facets.map((facet) => {
+          const isActive = filters.facets.includes(facet.id);
+          const isEmpty = !isActive && counts[facet.id] === 0;
+          return (
+            <button
+              key={facet.id}
+              onClick={() => toggleFacet(facet.id)}
+              disabled={isEmpty}
+              aria-pressed={isActive}
+              className={`
+                shrink-0 px-4 py-2 rounded-full font-poppins text-xs md:text-sm transition-all duration-300 flex items-center gap-2
+                ${isActive
+                  ? 'bg-red-primary/20 border border-red-primary text-white-off'
+                  : 'bg-dark-card border border-dark-border text-white-muted hover:text-white-off hover:border-red-primary/50'
+                }
+                ${isEmpty ? 'opacity-40 cursor-not-allowed' : ''}
+              `}
+            >
+              <span>{facet.emoji}</span>
+              {t(`menu.facet.${facet.id}`, { rating: TOP_RATED_THRESHOLD })}
+              <span className={`text-xs ${isActive ? 'text-red-light' : 'text-white-muted'}`}>{counts[facet.id]}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center md:justify-center gap-4 md:gap-8">
+        {/* Price range */}
+        <div className="w-full md:w-72">
+          <div className="flex justify-between text-white-muted font-poppins text-xs mb-2">
+            <span>{t("menu.price")}</span>
+            <span className="text-white-off">
+              {formatPrice(draftPrice[0])} – {formatPrice(draftPrice[1])}
+            </span>
+          </div>
+          <Slider
+            min={priceBounds[0]}
+            max={priceBounds[1]}
+            step={PRICE_STEP}
+            minStepsBetweenThumbs={1}
+            value={draftPrice}
+            onValueChange={(value) => setDraftPrice([value[0], value[1]])}
+            onValueCommit={commitPrice}
+            aria-label={t("menu.priceRange")}
+          />
+        </div>
+
+        <div className="flex items-center justify-between md:justify-start gap-4">
+          {/* Sort */}
+          <label className="flex items-center gap-2 text-white-muted font-poppins text-xs">
+            <ArrowUpDown className="w-4 h-4" />
+            <span className="sr-only">{t("menu.sortBy")}</span>
+            <select
+              value={sort}
+              onChange={(e) => onSortChange(e.target.value as MenuSortId)}
+              className="bg-dark-card border border-dark-border rounded-full px-4 py-2 text-white-off font-poppins text-xs md:text-sm focus:outline-none focus:border-red-primary/50"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {t(`menu.sort.${option.id}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {activeCount > 0 && (
+            <button
+              onClick={() => onFiltersChange(emptyMenuFilters)}
+              className="flex items-center gap-1 text-white-muted hover:text-white-off font-poppins text-xs transition-colors"
+            >
+              <X className="w-4 h-4" />
+              {t("menu.clearFiltersCount", { count: activeCount })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+MenuFacetBar.displayName = 'MenuFacetBar';
+
+export default MenuFacetBar;
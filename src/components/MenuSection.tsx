@@ -6,19 +6,13 @@ import { Star } from "lucide-react";
 import { useDevicePerformance, useOptimizedImage } from "@/hooks/usePerformanceOptimization";
 import { useResponsiveBreakpoints } from "@/hooks/useResponsiveBreakpoints";
 import { useReactOptimizations } from "@/hooks/useReactOptimizations";
+import { menuCategories, getMenuItemsByCategory, type MenuItem } from "@/data/menu";
+import { formatRating, getDishRating } from "@/utils/reviews";
 
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  image: string;
-  category: string;
-  rating: number;
-  isVeg: boolean;
-  isSpicy: boolean;
-  isPopular: boolean;
-}
+const categories = [
+  { id: "all", name: "All", emoji: "🍽️" },
+  ...menuCategories,
+];
 
 // Performance-optimized menu item component with React optimizations
 const MenuItemCard = memo(({ item, shouldReduceAnimations }: {
@@ -33,7 +27,7 @@ const MenuItemCard = memo(({ item, shouldReduceAnimations }: {
   // Performance optimization hooks
   const responsive = useResponsiveBreakpoints();
   const { memoizedStyles } = useReactOptimizations();
-
+  const rating = getDishRating(item.id);
 
 
   // Memoized styles with proper typing
@@ -79,7 +73,7 @@ const MenuItemCard = memo(({ item, shouldReduceAnimations }: {
               Veg
             </Badge>
           )}
-          {item.isSpicy && (
+          {item.spiceLevel > 0 && (
             <Badge className="bg-red-600 text-white font-poppins text-xs px-1 py-0.5">
               🌶️
             </Badge>
@@ -87,10 +81,12 @@ const MenuItemCard = memo(({ item, shouldReduceAnimations }: {
         </div>
 
         {/* Rating - Hidden on mobile, visible on larger screens */}
-        <div className="absolute top-2 right-2 bg-black/80 backdrop-blur-sm text-white px-1.5 py-0.5 rounded-full items-center gap-1 hidden sm:flex">
-          <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-          <span className="text-xs font-poppins">{item.rating}</span>
-        </div>
+        {rating && (
+          <div className="absolute top-2 right-2 bg-black/80 backdrop-blur-sm text-white px-1.5 py-0.5 rounded-full items-center gap-1 hidden sm:flex">
+            <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+            <span className="text-xs font-poppins">{formatRating(rating.average)}</span>
+          </div>
+        )}
       </div>
 
       <CardContent className={`${responsive.isMobile ? 'p-2' : 'p-2 sm:p-3 md:p-4'}`}>
@@ -126,192 +122,11 @@ const MenuSection = memo(() => {
   const { shouldReduceAnimations } = useDevicePerformance();
   const responsive = useResponsiveBreakpoints();
 
-  const categories = [
-    { id: "all", name: "All", icon: "🍽️" },
-    { id: "briyani", name: "Briyani", icon: "🍛" },
-
-    { id: "chinese", name: "Chinese", icon: "🥡" },
-    { id: "bbq", name: "BBQ", icon: "🍖" },
-    { id: "curries", name: "Curries", icon: "🥘" },
-    { id: "breads", name: "Breads", icon: "🥖" },
-  ];
-
-  const menuItems: MenuItem[] = [
-    {
-      id: "1",
-      name: "Ambur Mutton Biryani",
-      description: "Authentic Ambur-style mutton biryani with aromatic basmati rice, tender mutton, and traditional spices. Our signature dum biryani recipe since 1967.",
-      price: 280,
-      image: "/assets/Menu Assets/Mutton Biryani.webp",
-      category: "briyani",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "2",
-      name: "Ambur Chicken Biryani",
-      description: "Best chicken biryani near me - Traditional Ambur-style biryani with succulent chicken, premium basmati rice and aromatic spices.",
-      price: 170,
-      image: "/assets/Menu Assets/Mutton Biryani.webp",
-      category: "briyani",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "3",
-      name: "Boneless Chicken 65",
-      description: "Spicy, deep-fried chicken bites, a classic appetizer.",
-      price: 100,
-      image: "/assets/Menu Assets/Chicken 65.webp",
-      category: "appetizers",
-      rating: 4.6,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "4",
-      name: "Chicken Lollipop",
-      description: "Frenched chicken winglets, a fun and tasty starter.",
-      price: 160,
-      image: "/assets/Menu Assets/Chicken Lollipop.webp",
-      category: "appetizers",
-      rating: 4.4,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "5",
-      name: "Gobi Manchurian",
-      description: "Crispy cauliflower florets in a tangy Manchurian sauce.",
-      price: 120,
-      image: "/assets/Menu Assets/Gobi Manchurian.webp",
-      category: "chinese",
-      rating: 4.7,
-      isVeg: true,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "6",
-      name: "Chicken Fried Rice",
-      description: "Wok-tossed fried rice with chicken and vegetables.",
-      price: 100,
-      image: "/assets/Menu Assets/Chicken Fried Rice.webp",
-      category: "chinese",
-      rating: 4.5,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: false
-    },
-    {
-      id: "7",
-      name: "Chicken BBQ",
-      description: "Tender chicken grilled with a smoky barbecue flavor.",
-      price: 420,
-      image: "/assets/Menu Assets/Chicken BBQ.webp",
-      category: "bbq",
-      rating: 4.7,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-      id: "8",
-      name: "Tandoori Chicken",
-      description: "Chicken marinated in yogurt and spices, cooked in a tandoor.",
-      price: 420,
-      image: "/assets/Menu Assets/Tandoori.webp",
-      category: "bbq",
-      rating: 4.8,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: true
-    },
-    {
-      id: "9",
-      name: "Butter Chicken Gravy",
-      description: "Creamy and rich butter chicken curry.",
-      price: 190,
-      image: "/assets/Menu Assets/Butter Chicken Gravy.webp",
-      category: "curries",
-      rating: 4.9,
-      isVeg: false,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-      id: "10",
-      name: "Mutton Chukka",
-      description: "Dry mutton curry with a blend of aromatic spices.",
-      price: 220,
-      image: "/assets/Menu Assets/Mutton Chukka.webp",
-      category: "curries",
-      rating: 4.7,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "11",
-      name: "Fish Fry",
-      description: "Crispy and spicy fried fish, a coastal delicacy.",
-      price: 180,
-      image: "/assets/Menu Assets/Fish Fry.webp",
-      category: "appetizers",
-      rating: 4.6,
-      isVeg: false,
-      isSpicy: true,
-      isPopular: false
-    },
-    {
-      id: "12",
-      name: "Parotta",
-      description: "Layered flatbread, perfect with any curry.",
-      price: 50,
-      image: "/assets/Menu Assets/Parotta.webp",
-      category: "breads",
-      rating: 4.5,
-      isVeg: true,
-      isSpicy: false,
-      isPopular: true
-    },
-    {
-        id: "13",
-        name: "Chicken Gravy",
-        description: "A rich and savory chicken curry, perfect with rice or bread.",
-        price: 260,
-        image: "/assets/Menu Assets/Chicken Gravy.webp",
-        category: "curries",
-        rating: 4.6,
-        isVeg: false,
-        isSpicy: true,
-        isPopular: false
-    },
-    {
-        id: "14",
-        name: "Veg Fried Rice",
-        description: "A classic stir-fry of rice and mixed vegetables.",
-        price: 200,
-        image: "/assets/Menu Assets/Veg Fried Rice.webp",
-        category: "chinese",
-        rating: 4.2,
-        isVeg: true,
-        isSpicy: false,
-        isPopular: false
-    }
-  ];
-
   // Memoized filtered items to prevent unnecessary re-renders
-  const filteredItems = useMemo(() => {
-    if (activeCategory === "all") return menuItems;
-    return menuItems.filter(item => item.category === activeCategory);
-  }, [activeCategory, menuItems]);
+  const filteredItems = useMemo(
+    () => getMenuItemsByCategory(activeCategory),
+    [activeCategory]
+  );
 
   // Category display logic - mobile vs desktop
 
@@ -353,7 +168,7 @@ const MenuSection = memo(() => {
                   : 'hover:bg-primary/10 hover:border-primary/50 hover:text-primary'
               }`}
             >
-              <span className="mr-1 sm:mr-2 text-sm">{category.icon}</span>
+              <span className="mr-1 sm:mr-2 text-sm">{category.emoji}</span>
               <span className="hidden xs:inline sm:inline">{category.name}</span>
               <span className="xs:hidden sm:hidden">{category.name.split(' ')[0]}</span>
             </Button>
@@ -1,50 +1,60 @@
 import React, { useState, useEffect, useCallback, memo } from 'react';
 import { motion, AnimatePresence, useScroll, useMotionValueEvent } from 'framer-motion';
 import { Home, Info, UtensilsCrossed, Phone, Menu, X, ChevronDown, Star, Clock, MapPin } from 'lucide-react';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import OpeningStatusBadge from '@/components/OpeningStatusBadge';
+import type { MessageKey } from '@/data/messages/en';
+import { useLocale } from '@/hooks/useLocale';
+import { useSectionNavigation } from '@/hooks/useSiteRoute';
+import { useWeeklyHours } from '@/hooks/useWeeklyHours';
+import { sectionPath, type SiteSection } from '@/utils/routes';
 // Assets are now in public folder
 const logo = '/assets/logo.png';
 
 interface NavigationItem {
-  id: string;
-  name: string;
+  id: SiteSection;
+  nameKey: MessageKey;
   href: string;
   icon: React.ComponentType<any>;
-  ariaLabel: string;
+  ariaLabelKey: MessageKey;
 }
 
 const navigationItems: NavigationItem[] = [
   {
     id: 'home',
-    name: 'Home',
-    href: '#home',
+    nameKey: 'nav.home',
+    href: sectionPath('home'),
     icon: Home,
-    ariaLabel: 'Navigate to home section'
+    ariaLabelKey: 'nav.homeAria'
   },
   {
     id: 'about',
-    name: 'About',
-    href: '#about',
+    nameKey: 'nav.about',
+    href: sectionPath('about'),
     icon: Info,
-    ariaLabel: 'Navigate to about section'
+    ariaLabelKey: 'nav.aboutAria'
   },
   {
     id: 'menu',
-    name: 'Menu',
-    href: '#menu',
+    nameKey: 'nav.menu',
+    href: sectionPath('menu'),
     icon: UtensilsCrossed,
-    ariaLabel: 'Navigate to menu section'
+    ariaLabelKey: 'nav.menuAria'
   },
   {
     id: 'contact',
-    name: 'Contact',
-    href: '#contact',
+    nameKey: 'nav.contact',
+    href: sectionPath('contact'),
     icon: Phone,
-    ariaLabel: 'Navigate to contact section'
+    ariaLabelKey: 'nav.contactAria'
   }
 ];
 
 const ModernNavigation = memo(() => {
-  const [activeItem, setActiveItem] = useState('home');
+  const [activeItem, setActiveItem] = useState<SiteSection>('home');
+  const goToSection = useSectionNavigation();
+  const { t } = useLocale();
+  const weeklyHours = useWeeklyHours();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isVisible, setIsVisible] = useState(false); // Start hidden
   const [isScrolled, setIsScrolled] = useState(false);
@@ -72,8 +82,8 @@ const ModernNavigation = memo(() => {
     }
     
     // Detect active section
-    const sections = ['home', 'about', 'menu', 'contact'];
-    let currentSection = 'home';
+    const sections = navigationItems.map(item => item.id);
+    let currentSection: SiteSection = 'home';
     
     // Only detect sections when nav is visible (outside hero)
     if (latest > heroHeight - 100) {
@@ -95,24 +105,8 @@ const ModernNavigation = memo(() => {
     setActiveItem(item.id);
     setIsMenuOpen(false);
     
-    const element = document.querySelector(item.href);
-    if (element) {
-      // For home, scroll to top
-      if (item.id === 'home') {
-        window.scrollTo({
-          top: 0,
-          behavior: 'smooth'
-        });
-      } else {
-        // For other sections, scroll to the top of the element
-        const elementTop = (element as HTMLElement).offsetTop;
-        window.scrollTo({
-          top: elementTop,
-          behavior: 'smooth'
-        });
-      }
-    }
-  }, []);
+    goToSection(item.id);
+  }, [goToSection]);
 
   // Close menu on escape
   useEffect(() => {
@@ -185,7 +179,7 @@ const ModernNavigation = memo(() => {
                   Original Ambur Briyani
                 </span>
                 <span className="text-white-muted font-poppins text-xs">
-                  Authentic Taste Since Forever
+                  {t('nav.tagline')}
                 </span>
               </div>
             </motion.div>
@@ -200,6 +194,7 @@ const ModernNavigation = memo(() => {
                   <motion.button
                     key={item.id}
                     onClick={() => handleNavigation(item)}
+                    aria-label={t(item.ariaLabelKey)}
                     className="relative px-6 py-3 group"
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -223,7 +218,7 @@ const ModernNavigation = memo(() => {
                       isActive ? 'text-white' : 'text-white-muted hover:text-white'
                     } transition-colors duration-300`}>
                       <Icon size={18} />
-                      <span className="font-poppins font-medium text-sm">{item.name}</span>
+                      <span className="font-poppins font-medium text-sm">{t(item.nameKey)}</span>
                     </div>
                     
                     {/* Hover effect */}
@@ -245,7 +240,7 @@ const ModernNavigation = memo(() => {
                   className="flex items-center space-x-2 px-4 py-2 bg-dark-card border border-dark-border rounded-full text-white-muted hover:text-white-off transition-colors"
                 >
                   <Star size={16} />
-                  <span className="font-poppins text-sm">Quick Info</span>
+                  <span className="font-poppins text-sm">{t('nav.quickInfo')}</span>
                   <ChevronDown size={16} className={`transform transition-transform ${showQuickInfo ? 'rotate-180' : ''}`} />
                 </motion.button>
                 
@@ -261,21 +256,24 @@ const ModernNavigation = memo(() => {
                         <div className="flex items-center space-x-3">
                           <Clock className="text-red-primary" size={20} />
                           <div>
-                            <p className="text-white-off font-poppins text-sm font-medium">Open Hours</p>
-                            <p className="text-white-muted text-xs">10:00 AM - 12:00 AM</p>
+                            <p className="text-white-off font-poppins text-sm font-medium">{t('nav.openHours')}</p>
+                            <OpeningStatusBadge variant="text" />
+                            {weeklyHours.map(line => (
+                              <p key={line} className="text-white-muted text-xs">{line}</p>
+                            ))}
                           </div>
                         </div>
                         <div className="flex items-center space-x-3">
                           <MapPin className="text-red-primary" size={20} />
                           <div>
-                            <p className="text-white-off font-poppins text-sm font-medium">Location</p>
-                            <p className="text-white-muted text-xs">Ambur, Tamil Nadu</p>
+                            <p className="text-white-off font-poppins text-sm font-medium">{t('nav.location')}</p>
+                            <p className="text-white-muted text-xs">{t('nav.locationValue')}</p>
                           </div>
                         </div>
                         <div className="flex items-center space-x-3">
                           <Phone className="text-red-primary" size={20} />
                           <div>
-                            <p className="text-white-off font-poppins text-sm font-medium">Call Us</p>
+                            <p className="text-white-off font-poppins text-sm font-medium">{t('nav.callUs')}</p>
                             <p className="text-white-muted text-xs">+91 96779 38393</p>
                             <p className="text-white-muted text-xs">+91 86672 87022</p>
                           </div>
@@ -285,6 +283,8 @@ const ModernNavigation = memo(() => {
                   )}
                 </AnimatePresence>
               </div>
+
+              <LanguageSwitcher className="ml-2" />
             </div>
 
             {/* Mobile Menu Button */}
@@ -331,7 +331,7 @@ const ModernNavigation = memo(() => {
               <div className="p-6">
                 {/* Close Button */}
                 <div className="flex justify-between items-center mb-8">
-                  <h2 className="text-white-off font-playfair text-2xl">Menu</h2>
+                  <h2 className="text-white-off font-playfair text-2xl">{t('nav.panelTitle')}</h2>
                   <motion.button
                     whileHover={{ scale: 1.05, rotate: 90 }}
                     whileTap={{ scale: 0.95 }}
@@ -355,6 +355,7 @@ const ModernNavigation = memo(() => {
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.1 }}
                         onClick={() => handleNavigation(item)}
+                        aria-label={t(item.ariaLabelKey)}
                         className={`w-full p-4 rounded-2xl flex items-center space-x-4 transition-all duration-300 ${
                           isActive 
                             ? 'bg-gradient-to-r from-red-primary to-red-dark text-white' 
@@ -362,34 +363,39 @@ const ModernNavigation = memo(() => {
                         }`}
                       >
                         <Icon size={20} />
-                        <span className="font-poppins font-medium">{item.name}</span>
+                        <span className="font-poppins font-medium">{t(item.nameKey)}</span>
                       </motion.button>
                     );
                   })}
                 </div>
                 
+                <LanguageSwitcher className="mt-6 w-fit" />
+
                 {/* Quick Info Section */}
                 <div className="mt-8 p-6 bg-dark-card border border-dark-border rounded-2xl">
-                  <h3 className="text-white-off font-playfair text-xl mb-4">Restaurant Info</h3>
+                  <h3 className="text-white-off font-playfair text-xl mb-4">{t('nav.restaurantInfo')}</h3>
                   <div className="space-y-4">
                     <div className="flex items-start space-x-3">
                       <Clock className="text-red-primary mt-1" size={18} />
                       <div>
-                        <p className="text-white-off font-poppins text-sm font-medium">Open Hours</p>
-                        <p className="text-white-muted text-xs">Every day: 10:00 AM - 12:00 AM</p>
+                        <p className="text-white-off font-poppins text-sm font-medium">{t('nav.openHours')}</p>
+                        <OpeningStatusBadge variant="text" />
+                        {weeklyHours.map(line => (
+                          <p key={line} className="text-white-muted text-xs">{line}</p>
+                        ))}
                       </div>
                     </div>
                     <div className="flex items-start space-x-3">
                       <MapPin className="text-red-primary mt-1" size={18} />
                       <div>
-                        <p className="text-white-off font-poppins text-sm font-medium">Location</p>
-                        <p className="text-white-muted text-xs">Ambur, Tamil Nadu</p>
+                        <p className="text-white-off font-poppins text-sm font-medium">{t('nav.location')}</p>
+                        <p className="text-white-muted text-xs">{t('nav.locationValue')}</p>
                       </div>
                     </div>
                     <div className="flex items-start space-x-3">
                       <Phone className="text-red-primary mt-1" size={18} />
                       <div>
-                        <p className="text-white-off font-poppins text-sm font-medium">Contact</p>
+                        <p className="text-white-off font-poppins text-sm font-medium">{t('nav.contactInfo')}</p>
                         <p className="text-white-muted text-xs">+91 96779 38393</p>
                         <p className="text-white-muted text-xs">+91 86672 87022</p>
                       </div>
@@ -405,7 +411,7 @@ const ModernNavigation = memo(() => {
                     className="w-20 h-20 mx-auto mb-3"
                   />
                   <p className="text-white-off font-playfair text-lg">Original Ambur Briyani</p>
-                  <p className="text-white-muted font-poppins text-xs">Deluxe Restaurant</p>
+                  <p className="text-white-muted font-poppins text-xs">{t('nav.deluxe')}</p>
                 </div>
               </div>
             </motion.div>
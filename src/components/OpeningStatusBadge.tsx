@@ -0,0 +1,50 @@
+import { memo } from "react";
+import { useOpeningStatus } from "@/hooks/useOpeningStatus";
+import { cn } from "@/lib/utils";
+
+interface OpeningStatusBadgeProps {
+  variant?: "pill" | "text";
+  className?: string;
+}
+
+// Live "Open now · closes at midnight" / "Opens at 10 AM" indicator. Kept
+// blank (but holding its space) until hydrated, since the prerendered page
+// can't know the time it's viewed at.
+const OpeningStatusBadge = memo(({ variant = "pill", className = "" }: OpeningStatusBadgeProps) => {
+  const status = useOpeningStatus();
+  const dot = status && (
+    <span className="relative flex h-2 w-2 flex-shrink-0">
+      {status.isOpen && (
+        <span className="absolute inline-flex h-full w-full rounded-full bg-green-whatsapp opacity-75 animate-ping" />
+      )}
+      <span className={cn("relative inline-flex h-2 w-2 rounded-full", status.isOpen ? "bg-green-whatsapp" : "bg-red-primary")} />
+    </span>
+  );
+
+  return (
+    <span
+      role="status"
+      className={cn(
+        "inline-flex items-center gap-2 font-poppins",
+        variant === "pill" && "px-3 py-1 rounded-full bg-black/50 backdrop-blur-sm border border-white/10 text-white text-xs sm:text-sm",
+        variant === "text" && "text-white-muted text-xs",
+        !status && "invisible",
+        className
+      )}
+    >
+      {dot}
+      {status ? (
+        <span>
+          {status.label}
+          {status.specialHoursName && <span className="opacity-70"> · {status.specialHoursName}</span>}
+        </span>
+      ) : (
+        <span>&nbsp;</span>
+      )}
+    </span>
+  );
+});
+
+OpeningStatusBadge.displayName = 'OpeningStatusBadge';
+
+export default OpeningStatusBadge;
@@ -0,0 +1,89 @@
+import { memo } from "react";
+import { restaurant } from "@/data/restaurant";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { describeFulfilment, describePayment, formatPrice } from "@/utils/order";
+import { describeTaxLines, formatExactPrice, formatRoundOff } from "@/utils/pricing";
+import { formatReceiptDate, type Receipt } from "@/utils/receipt";
+
+interface OrderReceiptProps {
+  receipt: Receipt;
+  className?: string;
+}
+
+const Row = ({ label, value, className }: { label: string; value: string; className?: string }) => (
+  <div className={cn("flex items-start justify-between gap-4", className)}>
+    <span>{label}</span>
+    <span className="flex-shrink-0">{value}</span>
+  </div>
+);
+
+// Paper-style receipt, the same on screen and on the printed page; the
+// downloadable image is drawn to match it by src/utils/receiptExport.ts
+const OrderReceipt = memo(({ receipt, className }: OrderReceiptProps) => {
+  const { locale, t } = useLocale();
+  const { address } = restaurant;
+
+  return (
+    <article
+      aria-label={t("order.receiptLabel", { reference: receipt.reference })}
+      className={cn("bg-white text-neutral-900 font-poppins text-sm rounded-xl p-5 space-y-3", className)}
+    >
+      <header className="text-center">
+        <h3 className="font-playfair text-xl font-bold">{restaurant.name}</h3>
+        <p className="text-neutral-500 text-xs">
+          {address.streetAddress}, {address.addressLocality} {address.postalCode}
+        </p>
+        <p className="text-neutral-500 text-xs">{restaurant.telephone}</p>
+      </header>
+
+      <div className="border-t border-dashed border-neutral-300 pt-3">
+        <p className="font-semibold">{t("order.reference", { reference: receipt.reference })}</p>
+        <p className="text-neutral-500 text-xs mb-1">{formatReceiptDate(receipt.placedAt, locale)}</p>
+        <p>{t("order.name", { name: receipt.customerName })}</p>
+        <p>{t("order.type", { type: describeFulfilment(receipt.fulfilment, locale) })}</p>
+        {receipt.deliverTo && <p>{t("order.deliverTo", { location: receipt.deliverTo })}</p>}
+        <p>{t("order.payment", { method: describePayment(receipt, locale) })}</p>
+      </div>
+
+      <ul className="border-t border-dashed border-neutral-300 pt-3 space-y-2">
+        {receipt.lines.map((line, index) => (
+          <li key={index}>
+            <Row label={`${line.quantity} × ${line.name}`} value={formatPrice(line.lineTotal)} />
+            {line.addOns.length > 0 && <p className="text-neutral-500 text-xs">+ {line.addOns.join(", ")}</p>}
+            {line.quantity > 1 && <p className="text-neutral-500 text-xs">{t("order.each", { price: formatPrice(line.unitPrice) })}</p>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-dashed border-neutral-300 pt-3 space-y-1">
+        <Row label={t("order.subtotal")} value={formatPrice(receipt.subtotal)} />
+        {receipt.discounts.map((discount, index) => (
+          <Row key={index} label={discount.label} value={`-${formatPrice(discount.amount)}`} className="text-green-700" />
+        ))}
+        {receipt.packaging > 0 && <Row label={t("order.packaging")} value={formatPrice(receipt.packaging)} />}
+        {receipt.deliveryFee !== undefined && (
+          <Row
+            label={t("order.deliveryFee")}
+            value={receipt.deliveryFee > 0 ? formatPrice(receipt.deliveryFee) : t("order.free")}
+          />
+        )}
+        {describeTaxLines(receipt, locale).map((tax) => (
+          <Row key={tax.label} label={tax.label} value={formatExactPrice(tax.amount)} className="text-neutral-500 text-xs" />
+        ))}
+        {receipt.roundOff !== 0 && (
+          <Row label={t("order.roundOff")} value={formatRoundOff(receipt.roundOff)} className="text-neutral-500 text-xs" />
+        )}
+        <Row label={t("order.total")} value={formatPrice(receipt.total)} className="pt-1 text-base font-bold" />
+      </div>
+
+      <p className="border-t border-dashed border-neutral-300 pt-3 text-center text-neutral-500 text-xs">
+        {t("order.thanks")}
+      </p>
+    </article>
+  );
+});
+
+OrderReceipt.displayName = 'OrderReceipt';
+
+export default OrderReceipt;
@@ -0,0 +1,59 @@
+import { memo } from "react";
+import { Tag } from "lucide-react";
+import type { PromotionBannerPlacement } from "@/data/promotions";
+import { useCurrentMinute } from "@/hooks/useCurrentMinute";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { localizePromotion } from "@/utils/i18n";
+import { getBannerPromotions } from "@/utils/promotions";
+
+interface PromoBannersProps {
+  placement: PromotionBannerPlacement;
+  className?: string;
+}
+
+// Offers running right now that advertise in this spot: compact pills over
+// the hero video, cards above the menu. Renders nothing when none are on.
+const PromoBanners = memo(({ placement, className = "" }: PromoBannersProps) => {
+  const { locale, t } = useLocale();
+  const now = useCurrentMinute();
+  // Nothing is prerendered; offers depend on when the page is viewed
+  const promotions = now ? getBannerPromotions(placement, now).map((promotion) => localizePromotion(promotion, locale)) : [];
+
+  if (promotions.length === 0) return null;
+
+  return (
+    <ul aria-label={t("promo.label")} className={cn("flex flex-wrap justify-center gap-2 md:gap-3", className)}>
+      {promotions.map((promotion) => (
+        <li
+          key={promotion.id}
+          className={cn(
+            "font-poppins text-left",
+            placement === "hero"
+              ? "inline-flex items-center gap-2 px-3 py-1 rounded-full bg-red-primary/80 backdrop-blur-sm text-white text-xs sm:text-sm"
+              : "flex items-start gap-3 px-4 py-3 rounded-2xl bg-red-primary/10 border border-red-primary/40 max-w-sm"
+          )}
+        >
+          <Tag className={cn("flex-shrink-0", placement === "hero" ? "w-3 h-3" : "w-4 h-4 mt-0.5 text-red-primary")} />
+          {placement === "hero" ? (
+            <span>
+              <span className="font-semibold">{promotion.title}</span> · {promotion.description}
+            </span>
+          ) : (
+            <span>
+              <span className="block text-white-off text-sm font-semibold">{promotion.title}</span>
+              <span className="block text-white-muted text-xs">{promotion.description}</span>
+              {promotion.code && (
+                <span className="block text-red-primary text-xs mt-1">{t("promo.useCode", { code: promotion.code })}</span>
+              )}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+PromoBanners.displayName = 'PromoBanners';
+
+export default PromoBanners;
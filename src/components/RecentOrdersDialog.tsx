@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { ChevronLeft, ChevronRight, FileDown, ImageDown, Loader2, Printer, Receipt as ReceiptIcon, Share2, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import OrderReceipt from "@/components/OrderReceipt";
+import { toast } from "@/hooks/use-toast";
+import { useLocale } from "@/hooks/useLocale";
+import { useRecentOrders } from "@/hooks/useRecentOrders";
+import { formatPrice } from "@/utils/order";
+import { formatReceiptDate, type Receipt } from "@/utils/receipt";
+import {
+  downloadBlob,
+  receiptFileName,
+  renderReceiptPdf,
+  renderReceiptPng,
+  shareReceiptImage,
+} from "@/utils/receiptExport";
+
+interface RecentOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reference?: string | null; // open straight on this order's receipt
+}
+
+type Export = "image" | "pdf" | "share";
+
+const actionClass =
+  "flex items-center justify-center gap-2 py-2.5 rounded-full bg-dark-card border border-dark-border text-white-off font-poppins text-xs hover:border-red-primary/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const countItems = (receipt: Receipt) => receipt.lines.reduce((count, line) => count + line.quantity, 0);
+
+// "My recent orders": receipts of orders sent from this device, each of
+// which can be printed, saved as an image or PDF, or shared
+const RecentOrdersDialog = ({ open, onOpenChange, reference = null }: RecentOrdersDialogProps) => {
+  const { orders, remove } = useRecentOrders();
+  const { locale, t, tp } = useLocale();
+  const [selected, setSelected] = useState<string | null>(reference);
+  const [busy, setBusy] = useState<Export | null>(null);
+  const receipt = orders.find((order) => order.reference === selected);
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function";
+
+  useEffect(() => {
+    if (open) setSelected(reference);
+  }, [open, reference]);
+
+  const runExport = async (kind: Export, task: (receipt: Receipt) => Promise<void>) => {
+    if (!receipt) return;
+    setBusy(kind);
+    try {
+      await task(receipt);
+    } catch (error) {
+      // Closing the share sheet without picking an app isn't a failure
+      if (!(error instanceof DOMException && error.name === "AbortError")) {
+        toast({ title: t("recent.exportFailed"), description: t("recent.exportFailedHint"), variant: "destructive" });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const downloadImage = (receipt: Receipt) =>
+    renderReceiptPng(receipt, locale).then((blob) => downloadBlob(blob, receiptFileName(receipt, "png")));
+  const downloadPdf = (receipt: Receipt) =>
+    renderReceiptPdf(receipt, locale).then((blob) => downloadBlob(blob, receiptFileName(receipt, "pdf")));
+  const share = async (receipt: Receipt) => {
+    if (!(await shareReceiptImage(receipt, locale))) await downloadImage(receipt);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-dark-light border-dark-border text-white-off max-h-[90vh] overflow-y-auto sm:rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-playfair text-2xl text-white-off flex items-center gap-2">
+            <ReceiptIcon className="w-6 h-6 text-red-primary" />
+            {receipt ? t("order.reference", { reference: receipt.reference }) : t("recent.title")}
+          </DialogTitle>
+          <DialogDescription className="text-white-muted font-poppins text-xs">
+            {receipt ? t("recent.receiptDescription") : t("recent.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {receipt ? (
+          <div className="space-y-4">
+            <OrderReceipt receipt={receipt} />
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => window.print()} className={actionClass}>
+                <Printer className="w-4 h-4" /> {t("recent.print")}
+              </button>
+              {canShare && (
+                <button onClick={() => runExport("share", share)} disabled={busy !== null} className={actionClass}>
+                  {busy === "share" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />} {t("recent.share")}
+                </button>
+              )}
+              <button onClick={() => runExport("image", downloadImage)} disabled={busy !== null} className={actionClass}>
+                {busy === "image" ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageDown className="w-4 h-4" />} {t("recent.saveImage")}
+              </button>
+              <button onClick={() => runExport("pdf", downloadPdf)} disabled={busy !== null} className={actionClass}>
+                {busy === "pdf" ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />} {t("recent.savePdf")}
+              </button>
+            </div>
+            <button
+              onClick={() => setSelected(null)}
+              className="inline-flex items-center gap-1 text-white-muted hover:text-white-off font-poppins text-xs transition-colors"
+            >
+              <ChevronLeft className="w-3 h-3" /> {t("recent.all")}
+            </button>
+            {/* The print stylesheet (index.css) prints only this copy */}
+            {createPortal(<OrderReceipt receipt={receipt} className="print-receipt hidden print:block" />, document.body)}
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-white-muted font-poppins text-sm text-center py-8">
+            {t("recent.empty")}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {orders.map((order) => (
+              <li key={order.reference} className="flex items-center gap-2">
+                <button
+                  onClick={() => setSelected(order.reference)}
+                  className="flex-1 flex items-center gap-3 text-left bg-dark-card border border-dark-border rounded-xl p-3 font-poppins hover:border-red-primary/50 transition-colors"
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-white-off text-sm font-medium">{order.reference}</span>
+                    <span className="block text-white-muted text-xs">
+                      {formatReceiptDate(order.placedAt, locale)} · {tp("recent.items", countItems(order))}
+                    </span>
+                  </span>
+                  <span className="text-white-off text-sm">{formatPrice(order.total)}</span>
+                  <ChevronRight className="w-4 h-4 text-white-muted" />
+                </button>
+                <button
+                  onClick={() => remove(order.reference)}
+                  className="p-2 text-white-muted hover:text-red-primary transition-colors"
+                  aria-label={t("recent.remove", { reference: order.reference })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecentOrdersDialog;
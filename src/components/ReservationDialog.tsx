@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from "react";
+import { CalendarCheck, CalendarPlus, Loader2, MessageCircle, Users } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { normalizeIndianPhone } from "@/utils/contact";
+import {
+  MAX_PARTY_SIZE,
+  SPECIAL_REQUESTS,
+  buildReservationWhatsAppLink,
+  defaultReservationProvider,
+  downloadReservationIcs,
+  formatReservationDate,
+  getBookableDates,
+  type ReservationConfirmation,
+  type ReservationProvider,
+  type SlotAvailability,
+  type SpecialRequestId,
+} from "@/utils/reservations";
+import { formatTimeOfDay } from "@/utils/openingHours";
+
+interface ReservationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  provider?: ReservationProvider;
+}
+
+type Step = "details" | "contact" | "confirmed";
+
+const chipClass = (active: boolean, disabled = false) => `
+  px-3 py-2 rounded-full font-poppins text-xs sm:text-sm transition-all duration-300
+  ${active
+    ? 'bg-red-primary text-white shadow-lg shadow-red-primary/30'
+    : 'bg-dark-card border border-dark-border text-white-muted hover:text-white-off hover:border-red-primary/50'
+  }
+  ${disabled ? 'opacity-40 cursor-not-allowed line-through hover:border-dark-border hover:text-white-muted' : ''}
+`;
+
+const inputClass = "bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg py-3 font-poppins";
+
+const ReservationDialog = ({ open, onOpenChange, provider = defaultReservationProvider }: ReservationDialogProps) => {
+  const bookableDates = useMemo(() => (open ? getBookableDates() : []), [open]);
+
+  const [step, setStep] = useState<Step>("details");
+  const [partySize, setPartySize] = useState(2);
+  const [date, setDate] = useState<string | null>(null);
+  const [slots, setSlots] = useState<SlotAvailability[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [minuteOfDay, setMinuteOfDay] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [specialRequests, setSpecialRequests] = useState<SpecialRequestId[]>([]);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<ReservationConfirmation | null>(null);
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setStep("details");
+    setDate(null);
+    setMinuteOfDay(null);
+    setConfirmation(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!date) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingSlots(true);
+    provider
+      .getAvailability(date, partySize)
+      .then((availability) => {
+        if (cancelled) return;
+        setSlots(availability);
+        setMinuteOfDay((selected) =>
+          availability.some((slot) => slot.minuteOfDay === selected && slot.available) ? selected : null
+        );
+      })
+      .catch(() => !cancelled && setSlots([]))
+      .finally(() => !cancelled && setIsLoadingSlots(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [date, partySize, provider]);
+
+  const normalizedPhone = normalizeIndianPhone(phone);
+  const canContinue = date !== null && minuteOfDay !== null;
+  const canConfirm = name.trim().length >= 2 && normalizedPhone !== null;
+
+  const toggleRequest = (id: SpecialRequestId) =>
+    setSpecialRequests((current) =>
+      current.includes(id) ? current.filter((request) => request !== id) : [...current, id]
+    );
+
+  const handleConfirm = async () => {
+    if (!date || minuteOfDay === null || !canConfirm) return;
+    setIsSubmitting(true);
+    try {
+      const result = await provider.reserve({
+        date,
+        minuteOfDay,
+        partySize,
+        name: name.trim(),
+        phone: normalizedPhone,
+        specialRequests,
+        notes: notes.trim() || undefined,
+      });
+      setConfirmation(result);
+      setStep("confirmed");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Reservation failed",
+        description: error instanceof Error ? error.message : "Please try again or call us directly.",
+      });
+      setStep("details");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-dark-light border-dark-border text-white-off max-h-[90vh] overflow-y-auto sm:rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-playfair text-2xl text-white-off flex items-center gap-2">
+            <CalendarCheck className="w-6 h-6 text-red-primary" />
+            {step === "confirmed" ? "Table Reserved" : "Reserve a Table"}
+          </DialogTitle>
+          <DialogDescription className="text-white-muted font-poppins text-xs">
+            {step === "details" && "Choose your party size, date and time."}
+            {step === "contact" && "Tell us who the booking is for."}
+            {step === "confirmed" && "Save it to your calendar or send it to us on WhatsApp."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "details" && (
+          <div className="space-y-6">
+            {/* Party size */}
+            <div>
+              <p className="text-white-off font-poppins text-sm font-medium mb-3 flex items-center gap-2">
+                <Users className="w-4 h-4 text-red-primary" /> Guests
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Array.from({ length: MAX_PARTY_SIZE }, (_, index) => index + 1).map((size) => (
+                  <button
+                    key={size}
+                    type="button"
+                    onClick={() => setPartySize(size)}
+                    className={`${chipClass(partySize === size)} w-10 px-0`}
+                    aria-pressed={partySize === size}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+              <p className="text-white-muted font-poppins text-xs mt-2">
+                More than {MAX_PARTY_SIZE} guests? Please call us to arrange a group booking.
+              </p>
+            </div>
+
+            {/* Date */}
+            <div>
+              <p className="text-white-off font-poppins text-sm font-medium mb-3">Date</p>
+              <div className="flex gap-2 overflow-x-auto pb-2">
+                {bookableDates.map((bookableDate) => (
+                  <button
+                    key={bookableDate}
+                    type="button"
+                    onClick={() => setDate(bookableDate)}
+                    className={`${chipClass(date === bookableDate)} whitespace-nowrap`}
+                    aria-pressed={date === bookableDate}
+                  >
+                    {formatReservationDate(bookableDate)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Time slots */}
+            {date && (
+              <div>
+                <p className="text-white-off font-poppins text-sm font-medium mb-3">Time</p>
+                {isLoadingSlots ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-6 h-6 animate-spin text-red-primary" />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {slots.map((slot) => (
+                      <button
+                        key={slot.minuteOfDay}
+                        type="button"
+                        disabled={!slot.available}
+                        onClick={() => setMinuteOfDay(slot.minuteOfDay)}
+                        className={chipClass(minuteOfDay === slot.minuteOfDay, !slot.available)}
+                        aria-pressed={minuteOfDay === slot.minuteOfDay}
+                      >
+                        {slot.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <button
+              type="button"
+              disabled={!canContinue}
+              onClick={() => setStep("contact")}
+              className="w-full bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-4 px-6 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Continue
+            </button>
+          </div>
+        )}
+
+        {step === "contact" && date && minuteOfDay !== null && (
+          <div className="space-y-4">
+            <p className="text-white-muted font-poppins text-sm">
+              {formatReservationDate(date)} · {formatTimeOfDay(minuteOfDay)} · {partySize} {partySize === 1 ? "guest" : "guests"}
+            </p>
+
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Your Name" autoComplete="name" maxLength={60} className={inputClass} />
+            <div>
+              <Input
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="Phone Number"
+                type="tel"
+                inputMode="tel"
+                autoComplete="tel"
+                className={inputClass}
+              />
+              {phone.length > 0 && !normalizedPhone && (
+                <p className="text-red-light font-poppins text-xs mt-1">Enter a valid 10-digit Indian mobile number</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-white-off font-poppins text-sm font-medium mb-3">Special requests</p>
+              <div className="flex flex-wrap gap-2">
+                {SPECIAL_REQUESTS.map((request) => (
+                  <button
+                    key={request.id}
+                    type="button"
+                    onClick={() => toggleRequest(request.id)}
+                    className={chipClass(specialRequests.includes(request.id))}
+                    aria-pressed={specialRequests.includes(request.id)}
+                  >
+                    {request.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              rows={3}
+              maxLength={300}
+              className={`${inputClass} resize-none`}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={() => setStep("details")}
+                className="bg-dark-card border border-dark-border text-white-muted hover:text-white-off font-poppins font-medium py-4 rounded-full transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                disabled={!canConfirm || isSubmitting}
+                onClick={handleConfirm}
+                className="bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-4 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Confirm
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "confirmed" && confirmation && (
+          <div className="space-y-6">
+            <div className="bg-dark-card border border-dark-border rounded-2xl p-6 text-center space-y-2">
+              <p className="text-white-muted font-poppins text-xs uppercase tracking-wider">Reference</p>
+              <p className="text-red-primary font-playfair text-3xl font-bold">{confirmation.reference}</p>
+              <p className="text-white-off font-poppins text-sm">
+                {formatReservationDate(confirmation.date)} · {formatTimeOfDay(confirmation.minuteOfDay)}
+              </p>
+              <p className="text-white-muted font-poppins text-sm">
+                Table for {confirmation.partySize} · {confirmation.name}
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <a
+                href={buildReservationWhatsAppLink(confirmation)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="w-full bg-gradient-to-r from-green-whatsapp to-green-dark hover:from-green-dark hover:to-green-whatsapp text-white font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300"
+              >
+                <MessageCircle className="w-5 h-5" />
+                Send on WhatsApp
+              </a>
+              <button
+                type="button"
+                onClick={() => downloadReservationIcs(confirmation)}
+                className="w-full bg-dark-card border border-dark-border text-white-off hover:border-red-primary/50 font-poppins font-medium py-4 px-6 rounded-full flex items-center justify-center gap-3 transition-all duration-300"
+              >
+                <CalendarPlus className="w-5 h-5" />
+                Add to Calendar (.ics)
+              </button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationDialog;
@@ -0,0 +1,154 @@
+import { Send, Star } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { REVIEW_TEXT_MAX_LENGTH } from "@/data/reviews";
+import { useReviewForm } from "@/hooks/useReviewForm";
+import { useSiteContent } from "@/hooks/useSiteContent";
+import { cn } from "@/lib/utils";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const inputClass = "bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg py-3 font-poppins";
+
+const labelClass = "text-white-off font-poppins text-sm font-medium";
+
+const STAR_VALUES = [1, 2, 3, 4, 5] as const;
+
+// "Write a Review": stars, an optional dish, the review itself and an
+// optional photo link. Sent reviews wait for moderation before they show.
+const ReviewDialog = ({ open, onOpenChange }: ReviewDialogProps) => {
+  const { menu } = useSiteContent();
+  const { form, onSubmit, isSubmitting } = useReviewForm(() => onOpenChange(false));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-dark-light border-dark-border text-white-off max-h-[90vh] overflow-y-auto sm:rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-playfair text-2xl text-white-off flex items-center gap-2">
+            <Star className="w-6 h-6 text-red-primary" />
+            Write a Review
+          </DialogTitle>
+          <DialogDescription className="text-white-muted font-poppins text-xs">
+            Tell other guests about your visit or your favourite dish. We read every review before it goes on the site.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={onSubmit} noValidate className="space-y-5">
+            <FormField
+              control={form.control}
+              name="rating"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className={labelClass}>Your rating</FormLabel>
+                  <div role="radiogroup" aria-label="Your rating" className="flex gap-1" onBlur={field.onBlur}>
+                    {STAR_VALUES.map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="radio"
+                        aria-checked={field.value === value}
+                        aria-label={`${value} star${value === 1 ? "" : "s"}`}
+                        onClick={() => field.onChange(value)}
+                        className="p-1 rounded-md hover:scale-110 transition-transform"
+                      >
+                        <Star
+                          className={cn(
+                            "w-7 h-7",
+                            value <= field.value ? "fill-yellow-400 text-yellow-400" : "text-white-muted"
+                          )}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage className="text-red-light font-poppins text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className={labelClass}>Your name</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="name" className={inputClass} {...field} />
+                  </FormControl>
+                  <FormMessage className="text-red-light font-poppins text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="itemId"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className={labelClass}>What are you reviewing?</FormLabel>
+                  <FormControl>
+                    <select {...field} className={cn(inputClass, "w-full border px-3 text-sm")}>
+                      <option value="">The restaurant overall</option>
+                      {menu.items.map((item) => (
+                        <option key={item.id} value={item.id}>{item.name}</option>
+                      ))}
+                    </select>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="text"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className={labelClass}>Your review</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={4}
+                      maxLength={REVIEW_TEXT_MAX_LENGTH}
+                      className={cn(inputClass, "resize-none")}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-light font-poppins text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="photo"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <FormLabel className={labelClass}>Photo link (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="url" inputMode="url" placeholder="https://" className={inputClass} {...field} />
+                  </FormControl>
+                  <FormMessage className="text-red-light font-poppins text-xs" />
+                </FormItem>
+              )}
+            />
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-red-primary hover:bg-red-dark text-white font-poppins font-medium py-3 px-6 rounded-full flex items-center justify-center gap-2 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <Send className="w-4 h-4" />
+              {isSubmitting ? "Sending…" : "Send review"}
+            </button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
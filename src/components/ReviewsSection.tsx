@@ -0,0 +1,150 @@
+import { memo, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, PenLine, Quote, Star } from "lucide-react";
+import ReviewDialog from "@/components/ReviewDialog";
+import type { Review } from "@/data/reviews";
+import { useLocale } from "@/hooks/useLocale";
+import { useReviews } from "@/hooks/useReviews";
+import { useSiteContent } from "@/hooks/useSiteContent";
+import { cn } from "@/lib/utils";
+import { formatLocaleMonth, localizeMenuItem } from "@/utils/i18n";
+import { formatRating } from "@/utils/reviews";
+
+const Stars = ({ rating, className = "w-4 h-4" }: { rating: number; className?: string }) => (
+  <span className="flex gap-0.5" aria-hidden="true">
+    {[1, 2, 3, 4, 5].map((value) => (
+      <Star
+        key={value}
+        className={cn(className, value <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-white-muted/40")}
+      />
+    ))}
+  </span>
+);
+
+const ReviewCard = memo(({ review, dishName }: { review: Review; dishName?: string }) => {
+  const { locale, t } = useLocale();
+
+  return (
+    <figure className="h-full flex flex-col bg-dark-card border border-dark-border rounded-2xl p-6 backdrop-blur-md bg-opacity-50">
+      <div className="flex items-center justify-between mb-4">
+        <span role="img" aria-label={t("reviews.stars", { rating: review.rating })}>
+          <Stars rating={review.rating} />
+        </span>
+        <Quote className="w-6 h-6 text-red-primary/40" />
+      </div>
+      <blockquote className="flex-1 text-white-off font-poppins text-sm leading-relaxed italic">
+        "{review.text}"
+      </blockquote>
+      {review.photo && (
+        <img
+          src={review.photo}
+          alt={t("reviews.photoAlt", { author: review.author })}
+          loading="lazy"
+          className="mt-4 h-32 w-full object-cover rounded-xl"
+        />
+      )}
+      <figcaption className="mt-4 font-poppins text-xs">
+        <span className="block text-red-primary font-semibold text-sm">— {review.author}</span>
+        <span className="text-white-muted">
+          {dishName && `${t("reviews.onDish", { dish: dishName })} · `}
+          {formatLocaleMonth(review.date, locale)}
+        </span>
+      </figcaption>
+    </figure>
+  );
+});
+
+ReviewCard.displayName = 'ReviewCard';
+
+// Approved reviews, newest first, in a swipeable row with the overall star
+// average on top. Guests can write their own; it shows once approved.
+const ReviewsSection = memo(() => {
+  const { locale, t, tp } = useLocale();
+  const { menu } = useSiteContent();
+  const { published, overall } = useReviews();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const trackRef = useRef<HTMLOListElement>(null);
+
+  const dishName = (itemId?: string) => {
+    const item = itemId ? menu.items.find((candidate) => candidate.id === itemId) : undefined;
+    return item ? localizeMenuItem(item, locale).name : undefined;
+  };
+
+  // Pages by roughly one screenful of cards
+  const scroll = (direction: -1 | 1) => {
+    const track = trackRef.current;
+    track?.scrollBy({ left: direction * track.clientWidth * 0.9, behavior: "smooth" });
+  };
+
+  return (
+    <section id="reviews" className="py-20 bg-dark relative overflow-hidden">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-col md:flex-row md:items-end gap-6 mb-10">
+          <div className="flex-1">
+            <h2 className="font-playfair text-4xl md:text-5xl text-white-off mb-3">{t("reviews.title")}</h2>
+            {overall && (
+              <div className="flex items-center gap-3 font-poppins">
+                <span className="text-3xl font-bold text-white-off">{formatRating(overall.average)}</span>
+                <Stars rating={overall.average} className="w-5 h-5" />
+                <span className="text-white-muted text-sm">
+                  {tp("reviews.summary", overall.count, { rating: formatRating(overall.average) })}
+                </span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {published.length > 1 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => scroll(-1)}
+                  aria-label={t("reviews.previous")}
+                  className="p-3 rounded-full bg-dark-card border border-dark-border text-white-off hover:border-red-primary/50 transition-colors"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => scroll(1)}
+                  aria-label={t("reviews.next")}
+                  className="p-3 rounded-full bg-dark-card border border-dark-border text-white-off hover:border-red-primary/50 transition-colors"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => setIsDialogOpen(true)}
+              className="inline-flex items-center gap-2 px-5 py-3 rounded-full bg-red-primary hover:bg-red-dark text-white font-poppins text-sm font-medium transition-colors"
+            >
+              <PenLine className="w-4 h-4" />
+              {t("reviews.write")}
+            </button>
+          </div>
+        </div>
+
+        {published.length > 0 ? (
+          <ol
+            ref={trackRef}
+            aria-label={t("reviews.title")}
+            className="flex gap-4 md:gap-6 overflow-x-auto snap-x snap-mandatory scroll-smooth pb-4 -mx-4 px-4 sm:mx-0 sm:px-0"
+          >
+            {published.map((review) => (
+              <li key={review.id} className="snap-start flex-shrink-0 w-[85%] sm:w-[calc(50%-0.75rem)] lg:w-[calc(33.333%-1rem)]">
+                <ReviewCard review={review} dishName={dishName(review.itemId)} />
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-white-muted font-poppins text-center py-12">{t("reviews.empty")}</p>
+        )}
+      </div>
+
+      <ReviewDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+    </section>
+  );
+});
+
+ReviewsSection.displayName = 'ReviewsSection';
+
+export default ReviewsSection;
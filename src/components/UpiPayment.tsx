@@ -0,0 +1,56 @@
+import { memo, useState } from "react";
+import { QrCode as QrCodeIcon, Smartphone } from "lucide-react";
+import QrCode from "@/components/ui/qr-code";
+import { restaurant } from "@/data/restaurant";
+import { formatPrice } from "@/utils/order";
+import { buildUpiIntent, canOpenUpiApps } from "@/utils/upi";
+
+interface UpiPaymentProps {
+  amount: number;
+  reference: string;
+}
+
+// Pay-now panel in the cart: phones get a button that opens a UPI app,
+// other devices a QR code of the same payment to scan from a phone
+const UpiPayment = memo(({ amount, reference }: UpiPaymentProps) => {
+  const isPhone = canOpenUpiApps();
+  const [showQr, setShowQr] = useState(!isPhone);
+  const intent = buildUpiIntent({ amount, reference });
+
+  return (
+    <div className="bg-dark-card border border-dark-border rounded-xl p-4 space-y-3 font-poppins text-center">
+      {isPhone && (
+        <a
+          href={intent}
+          className="w-full bg-white text-dark font-medium py-3 px-6 rounded-full flex items-center justify-center gap-2 hover:bg-white-off transition-colors"
+        >
+          <Smartphone className="w-4 h-4" />
+          Pay {formatPrice(amount)} with a UPI app
+        </a>
+      )}
+      {showQr ? (
+        <div className="flex flex-col items-center gap-2">
+          <QrCode value={intent} title={`UPI QR code to pay ${formatPrice(amount)}`} className="w-44 h-44" />
+          <p className="text-white-muted text-xs">Scan with any UPI app to pay {formatPrice(amount)}.</p>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowQr(true)}
+          className="inline-flex items-center gap-1 text-white-muted hover:text-white-off text-xs transition-colors"
+        >
+          <QrCodeIcon className="w-3 h-3" />
+          Paying from another phone? Show the QR code
+        </button>
+      )}
+      <p className="text-white-muted text-xs">
+        Paying <span className="text-white-off">{restaurant.upiId}</span> with note{" "}
+        <span className="text-white-off">Order {reference}</span>. Send the order on WhatsApp after paying so we
+        can match the two.
+      </p>
+    </div>
+  );
+});
+
+UpiPayment.displayName = 'UpiPayment';
+
+export default UpiPayment;
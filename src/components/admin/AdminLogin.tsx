@@ -0,0 +1,62 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { actionButtonClass, inputClass, panelClass } from "@/components/admin/styles";
+import { isAdminConfigured, signInAdmin } from "@/utils/adminAuth";
+
+const AdminLogin = ({ onSignIn }: { onSignIn: () => void }) => {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsChecking(true);
+    const isValid = await signInAdmin(password);
+    setIsChecking(false);
+    if (isValid) {
+      onSignIn();
+    } else {
+      setError("That password isn't right.");
+      setPassword("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-dark flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className={`${panelClass} w-full max-w-sm space-y-4`}>
+        <h1 className="font-playfair text-2xl text-white-off flex items-center gap-2">
+          <Lock className="w-5 h-5 text-red-primary" /> Content admin
+        </h1>
+        {isAdminConfigured() ? (
+          <>
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => {
+                setPassword(event.target.value);
+                setError(null);
+              }}
+              placeholder="Password"
+              autoComplete="current-password"
+              autoFocus
+              aria-invalid={Boolean(error)}
+              className={inputClass}
+            />
+            {error && <p role="alert" className="font-poppins text-xs text-red-primary">{error}</p>}
+            <button type="submit" disabled={!password || isChecking} className={`${actionButtonClass} w-full justify-center`}>
+              {isChecking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Sign in
+            </button>
+          </>
+        ) : (
+          <p className="font-poppins text-sm text-white-muted">
+            The admin panel is switched off. Set VITE_ADMIN_PASSWORD_HASH to the SHA-256 hex digest of a password and rebuild.
+          </p>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default AdminLogin;
@@ -0,0 +1,88 @@
+import { type Dispatch } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { PeriodsEditor, TextField } from "@/components/admin/fields";
+import { actionButtonClass, iconButtonClass, panelClass } from "@/components/admin/styles";
+import { DAYS_OF_WEEK, type OpeningSchedule } from "@/data/openingHours";
+import type { ContentEditorAction } from "@/utils/contentEditor";
+import { getRestaurantDate } from "@/utils/openingHours";
+
+interface HoursEditorProps {
+  hours: OpeningSchedule;
+  dispatch: Dispatch<ContentEditorAction>;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Weekly hours plus dated special hours (holidays, Ramadan, festivals)
+const HoursEditor = ({ hours, dispatch }: HoursEditorProps) => (
+  <div className="space-y-10">
+    <section aria-label="Weekly hours" className="space-y-3">
+      <p className="font-poppins text-xs text-white-muted">
+        Restaurant time (IST), 24-hour HH:MM. Use 24:00 for midnight; a closing time before the opening time runs past midnight.
+      </p>
+      <div className="grid sm:grid-cols-2 gap-3">
+        {DAYS_OF_WEEK.map((day) => (
+          <div key={day} className={panelClass}>
+            <h3 className="font-poppins text-sm text-white-off mb-3">{capitalize(day)}</h3>
+            <PeriodsEditor
+              periods={hours.weekly[day]}
+              onChange={(periods) => dispatch({ type: "SET_DAY_PERIODS", day, periods })}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+
+    <section aria-label="Special hours" className="space-y-3">
+      <h3 className="font-poppins text-sm text-white-off">Special hours</h3>
+      <p className="font-poppins text-xs text-white-muted">
+        Replace the weekly hours between two dates. Later entries win where dates overlap; no periods means closed.
+      </p>
+      {hours.overrides.map((override, index) => (
+        <div key={index} className={`${panelClass} space-y-3`}>
+          <div className="flex flex-wrap items-end gap-3">
+            <TextField
+              label="Name"
+              value={override.name}
+              onChange={(name) => dispatch({ type: "UPDATE_OVERRIDE", index, changes: { name } })}
+              className="flex-1 min-w-[10rem]"
+            />
+            <TextField
+              label="From"
+              type="date"
+              value={override.from}
+              onChange={(from) => dispatch({ type: "UPDATE_OVERRIDE", index, changes: { from } })}
+            />
+            <TextField
+              label="To"
+              type="date"
+              value={override.to}
+              onChange={(to) => dispatch({ type: "UPDATE_OVERRIDE", index, changes: { to } })}
+            />
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "REMOVE_OVERRIDE", index })}
+              className={iconButtonClass}
+              aria-label={`Remove ${override.name}`}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <PeriodsEditor
+            periods={override.periods}
+            onChange={(periods) => dispatch({ type: "UPDATE_OVERRIDE", index, changes: { periods } })}
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => dispatch({ type: "ADD_OVERRIDE", date: getRestaurantDate() })}
+        className={actionButtonClass}
+      >
+        <Plus size={16} /> Add special hours
+      </button>
+    </section>
+  </div>
+);
+
+export default HoursEditor;
@@ -0,0 +1,303 @@
+import { useState, type Dispatch } from "react";
+import { ChevronDown, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CountField,
+  Field,
+  ListField,
+  PeriodsEditor,
+  PriceField,
+  RowActions,
+  TextField,
+  ToggleField,
+} from "@/components/admin/fields";
+import { actionButtonClass, inputClass, panelClass } from "@/components/admin/styles";
+import { SPICE_LEVELS, type DishAvailabilityRules, type MenuCatalog, type MenuItem } from "@/data/menu";
+import { DAYS_OF_WEEK, type DayOfWeek } from "@/data/openingHours";
+import { taxSettings } from "@/data/tax";
+import type { ContentEditorAction } from "@/utils/contentEditor";
+import { getRestaurantDate } from "@/utils/openingHours";
+
+interface MenuEditorProps {
+  menu: MenuCatalog;
+  dispatch: Dispatch<ContentEditorAction>;
+}
+
+const selectClass = `${inputClass} w-full h-10 px-3 border`;
+
+const shortDayName = (day: DayOfWeek) => day.charAt(0).toUpperCase() + day.slice(1, 3);
+
+// Serving windows, days, and the daily limit with today's count. Sold-out
+// toggles and counts are dated, so they lapse at the restaurant's midnight.
+const AvailabilityForm = ({ item, dispatch }: { item: MenuItem; dispatch: MenuEditorProps["dispatch"] }) => {
+  const rules = item.availability ?? {};
+  const today = getRestaurantDate();
+  const update = (changes: Partial<DishAvailabilityRules>) =>
+    dispatch({ type: "UPDATE_AVAILABILITY", id: item.id, changes });
+
+  const toggleDay = (day: DayOfWeek, served: boolean) => {
+    const current = rules.days ?? DAYS_OF_WEEK;
+    const days = DAYS_OF_WEEK.filter((candidate) => (candidate === day ? served : current.includes(candidate)));
+    update({ days: days.length === DAYS_OF_WEEK.length ? undefined : days });
+  };
+
+  return (
+    <div className="sm:col-span-2 space-y-3">
+      <p className="font-poppins text-xs text-white-muted">Availability (restaurant time, IST)</p>
+      <PeriodsEditor
+        periods={rules.servingWindows ?? []}
+        onChange={(periods) => update({ servingWindows: periods.length > 0 ? periods : undefined })}
+        emptyLabel="Served whenever the restaurant is open"
+        addLabel="Add serving window"
+      />
+      <div className="flex flex-wrap gap-4" role="group" aria-label="Days served">
+        {DAYS_OF_WEEK.map((day) => (
+          <ToggleField
+            key={day}
+            label={shortDayName(day)}
+            checked={!rules.days || rules.days.includes(day)}
+            onChange={(served) => toggleDay(day, served)}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <CountField
+          label="Daily limit (portions)"
+          value={rules.dailyLimit}
+          onChange={(dailyLimit) => update({ dailyLimit: dailyLimit || undefined })}
+          className="w-40"
+        />
+        {rules.dailyLimit !== undefined && (
+          <CountField
+            label="Sold today"
+            value={rules.soldToday?.date === today ? rules.soldToday.quantity : undefined}
+            onChange={(quantity) => update({ soldToday: quantity === undefined ? undefined : { date: today, quantity } })}
+            className="w-40"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Description, photo, ingredients and the other fields behind "Details"
+const DishDetailsForm = ({ item, menu, dispatch }: { item: MenuItem } & MenuEditorProps) => {
+  const update = (changes: Extract<ContentEditorAction, { type: "UPDATE_ITEM" }>["changes"]) =>
+    dispatch({ type: "UPDATE_ITEM", id: item.id, changes });
+
+  return (
+    <div className="grid sm:grid-cols-2 gap-3 mt-4 pt-4 border-t border-dark-border">
+      <Field label="Short description" className="sm:col-span-2">
+        <Textarea value={item.description} onChange={(event) => update({ description: event.target.value })} className={inputClass} rows={2} />
+      </Field>
+      <Field label="Full description (dish details)" className="sm:col-span-2">
+        <Textarea value={item.longDescription} onChange={(event) => update({ longDescription: event.target.value })} className={inputClass} rows={3} />
+      </Field>
+      <TextField label="Photo (path under /assets/)" value={item.image} onChange={(image) => update({ image })} className="sm:col-span-2" />
+      <ListField
+        label="Ingredients (comma separated)"
+        values={item.ingredients}
+        onChange={(ingredients) => update({ ingredients })}
+        className="sm:col-span-2"
+      />
+      <Field label="Category">
+        <select value={item.category} onChange={(event) => update({ category: event.target.value })} className={selectClass}>
+          {menu.categories.map((category) => (
+            <option key={category.id} value={category.id}>{category.name}</option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Spice level">
+        <select value={item.spiceLevel} onChange={(event) => update({ spiceLevel: Number(event.target.value) })} className={selectClass}>
+          {SPICE_LEVELS.map((level, index) => (
+            <option key={level} value={index}>{level}</option>
+          ))}
+        </select>
+      </Field>
+      <CountField
+        label="Packaging ₹ per portion (pickup and delivery)"
+        value={item.packagingCharge}
+        onChange={(packagingCharge) => update({ packagingCharge: packagingCharge || undefined })}
+      />
+      <CountField
+        label={`GST % (leave blank for ${taxSettings.gstRate}%)`}
+        value={item.taxRate}
+        onChange={(taxRate) => update({ taxRate })}
+      />
+      <div className="flex flex-wrap gap-4 sm:col-span-2">
+        <ToggleField label="Vegetarian" checked={item.isVeg} onChange={(isVeg) => update({ isVeg })} />
+        <ToggleField label="Popular" checked={item.isPopular} onChange={(isPopular) => update({ isPopular })} />
+      </div>
+      <AvailabilityForm item={item} dispatch={dispatch} />
+    </div>
+  );
+};
+
+const DishRow = ({
+  item,
+  isFirst,
+  isLast,
+  menu,
+  dispatch,
+}: { item: MenuItem; isFirst: boolean; isLast: boolean } & MenuEditorProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <li className={`${panelClass} ${item.hidden ? "opacity-60" : ""}`}>
+      <div className="flex flex-wrap items-end gap-3">
+        <TextField
+          label="Dish"
+          value={item.name}
+          onChange={(name) => dispatch({ type: "UPDATE_ITEM", id: item.id, changes: { name } })}
+          className="flex-1 min-w-[12rem]"
+        />
+        {item.variants.length > 0 ? (
+          item.variants.map((variant) => (
+            <PriceField
+              key={variant.id}
+              label={`${variant.name} ₹`}
+              value={variant.price}
+              onChange={(price) => dispatch({ type: "UPDATE_VARIANT", itemId: item.id, variantId: variant.id, changes: { price } })}
+              className="w-24"
+            />
+          ))
+        ) : (
+          <PriceField
+            label="Price ₹"
+            value={item.price}
+            onChange={(price) => dispatch({ type: "UPDATE_ITEM", id: item.id, changes: { price } })}
+            className="w-24"
+          />
+        )}
+        <div className="flex items-center gap-3 pb-2">
+          <ToggleField
+            label="Shown on menu"
+            checked={!item.hidden}
+            onChange={(shown) => dispatch({ type: "UPDATE_ITEM", id: item.id, changes: { hidden: !shown } })}
+          />
+          <ToggleField
+            label="Sold out today"
+            checked={item.availability?.soldOutOn === getRestaurantDate()}
+            onChange={(soldOut) =>
+              dispatch({ type: "UPDATE_AVAILABILITY", id: item.id, changes: { soldOutOn: soldOut ? getRestaurantDate() : undefined } })
+            }
+          />
+          <button
+            type="button"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-expanded={isExpanded}
+            className="inline-flex items-center gap-1 font-poppins text-xs text-white-muted hover:text-white-off"
+          >
+            Details
+            <ChevronDown size={14} className={`transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+          </button>
+        </div>
+        <RowActions
+          label={item.name}
+          onMove={(offset) => dispatch({ type: "MOVE_ITEM", id: item.id, offset })}
+          isFirst={isFirst}
+          isLast={isLast}
+          onRemove={() => {
+            if (window.confirm(`Remove "${item.name}" from the menu? Hiding it keeps it for later.`)) {
+              dispatch({ type: "REMOVE_ITEM", id: item.id });
+            }
+          }}
+        />
+      </div>
+      {isExpanded && <DishDetailsForm item={item} menu={menu} dispatch={dispatch} />}
+    </li>
+  );
+};
+
+// Categories and their dishes in menu order; hidden ones stay editable but
+// are left off the public menu
+const MenuEditor = ({ menu, dispatch }: MenuEditorProps) => {
+  const [newCategoryName, setNewCategoryName] = useState("");
+
+  const addCategory = () => {
+    const name = newCategoryName.trim();
+    if (!name) return;
+    dispatch({ type: "ADD_CATEGORY", name });
+    setNewCategoryName("");
+  };
+
+  return (
+    <div className="space-y-10">
+      {menu.categories.map((category, categoryIndex) => {
+        const items = menu.items.filter((item) => item.category === category.id);
+        return (
+          <section key={category.id} aria-label={category.name} className="space-y-3">
+            <div className={`${panelClass} flex flex-wrap items-end gap-3 ${category.hidden ? "opacity-60" : ""}`}>
+              <TextField
+                label="Icon"
+                value={category.emoji}
+                onChange={(emoji) => dispatch({ type: "UPDATE_CATEGORY", id: category.id, changes: { emoji } })}
+                className="w-16"
+              />
+              <TextField
+                label="Category"
+                value={category.name}
+                onChange={(name) => dispatch({ type: "UPDATE_CATEGORY", id: category.id, changes: { name } })}
+                className="flex-1 min-w-[10rem]"
+              />
+              <div className="pb-2">
+                <ToggleField
+                  label="Shown on menu"
+                  checked={!category.hidden}
+                  onChange={(shown) => dispatch({ type: "UPDATE_CATEGORY", id: category.id, changes: { hidden: !shown } })}
+                />
+              </div>
+              <RowActions
+                label={category.name}
+                onMove={(offset) => dispatch({ type: "MOVE_CATEGORY", id: category.id, offset })}
+                isFirst={categoryIndex === 0}
+                isLast={categoryIndex === menu.categories.length - 1}
+                onRemove={() => dispatch({ type: "REMOVE_CATEGORY", id: category.id })}
+                canRemove={items.length === 0}
+              />
+            </div>
+
+            <ul className="space-y-3 sm:pl-6">
+              {items.map((item, index) => (
+                <DishRow
+                  key={item.id}
+                  item={item}
+                  isFirst={index === 0}
+                  isLast={index === items.length - 1}
+                  menu={menu}
+                  dispatch={dispatch}
+                />
+              ))}
+            </ul>
+            <div className="sm:pl-6">
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "ADD_ITEM", categoryId: category.id, name: "New dish" })}
+                className={actionButtonClass}
+              >
+                <Plus size={16} /> Add dish to {category.name}
+              </button>
+            </div>
+          </section>
+        );
+      })}
+
+      <div className={`${panelClass} flex flex-wrap items-end gap-3`}>
+        <Field label="New category" className="flex-1 min-w-[12rem]">
+          <Input
+            value={newCategoryName}
+            onChange={(event) => setNewCategoryName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && addCategory()}
+            className={inputClass}
+          />
+        </Field>
+        <button type="button" onClick={addCategory} disabled={!newCategoryName.trim()} className={actionButtonClass}>
+          <Plus size={16} /> Add category
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MenuEditor;
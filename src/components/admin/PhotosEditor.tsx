@@ -0,0 +1,83 @@
+import { useState, type Dispatch } from "react";
+import { Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Field, RowActions, TextField } from "@/components/admin/fields";
+import { actionButtonClass, inputClass, panelClass } from "@/components/admin/styles";
+import type { HeritagePhoto } from "@/data/heritagePhotos";
+import type { ContentEditorAction } from "@/utils/contentEditor";
+
+interface PhotosEditorProps {
+  photos: HeritagePhoto[];
+  dispatch: Dispatch<ContentEditorAction>;
+}
+
+// The About section's rotating heritage photos, in display order
+const PhotosEditor = ({ photos, dispatch }: PhotosEditorProps) => {
+  const [newPhotoUrl, setNewPhotoUrl] = useState("");
+
+  const addPhoto = () => {
+    const url = newPhotoUrl.trim();
+    if (!url) return;
+    dispatch({ type: "ADD_PHOTO", url });
+    setNewPhotoUrl("");
+  };
+
+  return (
+    <div className="space-y-3">
+      {photos.map((photo, index) => (
+        <div key={photo.id} className={`${panelClass} flex flex-col sm:flex-row gap-4`}>
+          <img
+            src={photo.url}
+            alt={photo.alt}
+            loading="lazy"
+            className="w-full sm:w-40 h-28 object-cover rounded-xl bg-dark flex-shrink-0"
+          />
+          <div className="flex-1 grid gap-3">
+            <TextField
+              label="Image URL or /assets/ path"
+              value={photo.url}
+              onChange={(url) => dispatch({ type: "UPDATE_PHOTO", id: photo.id, changes: { url } })}
+            />
+            <div className="grid sm:grid-cols-2 gap-3">
+              <TextField
+                label="Caption"
+                value={photo.caption}
+                onChange={(caption) => dispatch({ type: "UPDATE_PHOTO", id: photo.id, changes: { caption } })}
+              />
+              <TextField
+                label="Alt text (describes the photo)"
+                value={photo.alt}
+                onChange={(alt) => dispatch({ type: "UPDATE_PHOTO", id: photo.id, changes: { alt } })}
+              />
+            </div>
+          </div>
+          <RowActions
+            label={photo.caption}
+            onMove={(offset) => dispatch({ type: "MOVE_PHOTO", id: photo.id, offset })}
+            isFirst={index === 0}
+            isLast={index === photos.length - 1}
+            onRemove={() => dispatch({ type: "REMOVE_PHOTO", id: photo.id })}
+            canRemove={photos.length > 1}
+          />
+        </div>
+      ))}
+
+      <div className={`${panelClass} flex flex-wrap items-end gap-3`}>
+        <Field label="New photo URL" className="flex-1 min-w-[12rem]">
+          <Input
+            type="url"
+            value={newPhotoUrl}
+            onChange={(event) => setNewPhotoUrl(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && addPhoto()}
+            className={inputClass}
+          />
+        </Field>
+        <button type="button" onClick={addPhoto} disabled={!newPhotoUrl.trim()} className={actionButtonClass}>
+          <Plus size={16} /> Add photo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotosEditor;
@@ -0,0 +1,166 @@
+import { useState, type Dispatch } from "react";
+import { Check, Plus, Trash2, X } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Field, TextField } from "@/components/admin/fields";
+import { actionButtonClass, iconButtonClass, inputClass, panelClass } from "@/components/admin/styles";
+import type { MenuItem } from "@/data/menu";
+import { REVIEW_STATUSES, type Review, type ReviewStatus } from "@/data/reviews";
+import type { ContentEditorAction } from "@/utils/contentEditor";
+import { getRestaurantDate } from "@/utils/openingHours";
+
+interface ReviewsEditorProps {
+  reviews: Review[];
+  items: MenuItem[];
+  dispatch: Dispatch<ContentEditorAction>;
+}
+
+type StatusFilter = ReviewStatus | "all";
+
+const selectClass = `${inputClass} w-full h-10 px-3 border`;
+
+const statusLabels: Record<ReviewStatus, string> = {
+  pending: "Waiting for review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const statusBadgeClass: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-400/15 text-yellow-400",
+  approved: "bg-green-whatsapp/15 text-green-whatsapp",
+  rejected: "bg-red-primary/15 text-red-primary",
+};
+
+// Moderation queue: only approved reviews show on the site and count towards
+// the star ratings. Rejected ones are kept so the same review isn't added twice.
+const ReviewsEditor = ({ reviews, items, dispatch }: ReviewsEditorProps) => {
+  const [filter, setFilter] = useState<StatusFilter>("pending");
+  const shown = filter === "all" ? reviews : reviews.filter((review) => review.status === filter);
+  const update = (id: string, changes: Partial<Omit<Review, "id">>) => dispatch({ type: "UPDATE_REVIEW", id, changes });
+
+  const addReview = () => {
+    dispatch({ type: "ADD_REVIEW", date: getRestaurantDate() });
+    setFilter("pending");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Show reviews">
+        {(["pending", "approved", "rejected", "all"] as const).map((status) => (
+          <button
+            key={status}
+            type="button"
+            aria-pressed={filter === status}
+            onClick={() => setFilter(status)}
+            className={`px-3 py-1.5 rounded-full font-poppins text-xs transition-colors ${
+              filter === status ? "bg-dark-light text-white-off border border-red-primary/50" : "text-white-muted hover:text-white-off"
+            }`}
+          >
+            {status === "all" ? "All" : statusLabels[status]} (
+            {status === "all" ? reviews.length : reviews.filter((review) => review.status === status).length})
+          </button>
+        ))}
+        <button type="button" onClick={addReview} className={`${actionButtonClass} ml-auto`}>
+          <Plus size={16} /> Add review
+        </button>
+      </div>
+
+      {shown.length === 0 && (
+        <p className={`${panelClass} font-poppins text-sm text-white-muted`}>Nothing here.</p>
+      )}
+
+      {shown.map((review) => (
+        <div key={review.id} className={`${panelClass} space-y-3`}>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={`px-2 py-0.5 rounded-full font-poppins text-xs ${statusBadgeClass[review.status]}`}>
+              {statusLabels[review.status]}
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              {REVIEW_STATUSES.filter((status) => status !== "pending" && status !== review.status).map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => update(review.id, { status })}
+                  className={actionButtonClass}
+                >
+                  {status === "approved" ? <Check size={16} /> : <X size={16} />}
+                  {status === "approved" ? "Approve" : "Reject"}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "REMOVE_REVIEW", id: review.id })}
+                className={iconButtonClass}
+                aria-label={`Remove review by ${review.author}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-4 gap-3">
+            <TextField label="Name" value={review.author} onChange={(author) => update(review.id, { author })} />
+            <Field label="Stars">
+              <select
+                value={review.rating}
+                onChange={(event) => update(review.id, { rating: Number(event.target.value) })}
+                className={selectClass}
+              >
+                {[5, 4, 3, 2, 1].map((stars) => (
+                  <option key={stars} value={stars}>{"★".repeat(stars)}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Dish">
+              <select
+                value={review.itemId ?? ""}
+                onChange={(event) => update(review.id, { itemId: event.target.value || undefined })}
+                className={selectClass}
+              >
+                <option value="">The restaurant overall</option>
+                {items.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </Field>
+            <TextField label="Date" type="date" value={review.date} onChange={(date) => update(review.id, { date })} />
+          </div>
+
+          <Field label="Review">
+            <Textarea
+              value={review.text}
+              onChange={(event) => update(review.id, { text: event.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </Field>
+
+          {review.photo !== undefined ? (
+            <div className="flex items-end gap-3">
+              <TextField
+                label="Photo URL"
+                type="url"
+                value={review.photo}
+                onChange={(photo) => update(review.id, { photo })}
+                className="flex-1"
+              />
+              <button
+                type="button"
+                onClick={() => update(review.id, { photo: undefined })}
+                className={iconButtonClass}
+                aria-label="Remove photo"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ) : (
+            <button type="button" onClick={() => update(review.id, { photo: "" })} className={actionButtonClass}>
+              <Plus size={16} /> Add photo
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewsEditor;
@@ -0,0 +1,212 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { OpeningPeriod } from "@/data/openingHours";
+import type { MoveOffset } from "@/utils/contentEditor";
+import { iconButtonClass, inputClass } from "@/components/admin/styles";
+
+// Small form building blocks shared by the admin editors
+
+export const Field = ({ label, children, className = "" }: { label: string; children: ReactNode; className?: string }) => (
+  <label className={`block font-poppins text-xs text-white-muted ${className}`}>
+    <span className="block mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+export const TextField = ({
+  label,
+  value,
+  onChange,
+  className,
+  type = "text",
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  type?: "text" | "url" | "date" | "time";
+}) => (
+  <Field label={label} className={className}>
+    <Input type={type} value={value} onChange={(event) => onChange(event.target.value)} className={inputClass} />
+  </Field>
+);
+
+// Whole rupees; an empty or invalid entry leaves the value unchanged
+export const PriceField = ({
+  label,
+  value,
+  onChange,
+  className,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  className?: string;
+}) => (
+  <Field label={label} className={className}>
+    <Input
+      type="number"
+      inputMode="numeric"
+      min={1}
+      step={1}
+      value={value}
+      onChange={(event) => {
+        const price = Number.parseInt(event.target.value, 10);
+        if (Number.isFinite(price)) onChange(price);
+      }}
+      className={inputClass}
+    />
+  </Field>
+);
+
+// Optional whole number; clearing the field unsets it
+export const CountField = ({
+  label,
+  value,
+  onChange,
+  className,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  className?: string;
+}) => (
+  <Field label={label} className={className}>
+    <Input
+      type="number"
+      inputMode="numeric"
+      min={0}
+      step={1}
+      value={value ?? ""}
+      onChange={(event) => {
+        const count = Number.parseInt(event.target.value, 10);
+        onChange(Number.isFinite(count) && count >= 0 ? count : undefined);
+      }}
+      className={inputClass}
+    />
+  </Field>
+);
+
+// Comma-separated list, committed when the field loses focus so a trailing
+// comma can be typed
+export const ListField = ({
+  label,
+  values,
+  onChange,
+  className,
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  className?: string;
+}) => {
+  const [text, setText] = useState(values.join(", "));
+
+  useEffect(() => {
+    setText(values.join(", "));
+  }, [values]);
+
+  return (
+    <Field label={label} className={className}>
+      <Input
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={() => onChange(text.split(",").map((value) => value.trim()).filter(Boolean))}
+        className={inputClass}
+      />
+    </Field>
+  );
+};
+
+export const ToggleField = ({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label className="inline-flex items-center gap-2 font-poppins text-xs text-white-off cursor-pointer select-none">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(event) => onChange(event.target.checked)}
+      className="h-4 w-4 accent-red-primary"
+    />
+    {label}
+  </label>
+);
+
+export const RowActions = ({
+  label,
+  onMove,
+  isFirst,
+  isLast,
+  onRemove,
+  canRemove = true,
+}: {
+  label: string;
+  onMove: (offset: MoveOffset) => void;
+  isFirst: boolean;
+  isLast: boolean;
+  onRemove: () => void;
+  canRemove?: boolean;
+}) => (
+  <div className="flex items-center gap-1 flex-shrink-0">
+    <button type="button" onClick={() => onMove(-1)} disabled={isFirst} className={iconButtonClass} aria-label={`Move ${label} up`}>
+      <ArrowUp size={16} />
+    </button>
+    <button type="button" onClick={() => onMove(1)} disabled={isLast} className={iconButtonClass} aria-label={`Move ${label} down`}>
+      <ArrowDown size={16} />
+    </button>
+    <button type="button" onClick={onRemove} disabled={!canRemove} className={iconButtonClass} aria-label={`Remove ${label}`}>
+      <Trash2 size={16} />
+    </button>
+  </div>
+);
+
+// Times are typed as HH:MM rather than with a time picker, which can't
+// express "24:00" (midnight) or a period running past it
+export const PeriodsEditor = ({
+  periods,
+  onChange,
+  emptyLabel = "Closed",
+  addLabel = "Add opening period",
+}: {
+  periods: OpeningPeriod[];
+  onChange: (periods: OpeningPeriod[]) => void;
+  emptyLabel?: string;
+  addLabel?: string;
+}) => {
+  const update = (index: number, changes: Partial<OpeningPeriod>) =>
+    onChange(periods.map((period, position) => (position === index ? { ...period, ...changes } : period)));
+
+  return (
+    <div className="space-y-2">
+      {periods.length === 0 && <p className="font-poppins text-xs text-white-muted">{emptyLabel}</p>}
+      {periods.map((period, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <TextField label="Opens" value={period.opens} onChange={(opens) => update(index, { opens })} className="w-24" />
+          <TextField label="Closes" value={period.closes} onChange={(closes) => update(index, { closes })} className="w-24" />
+          <button
+            type="button"
+            onClick={() => onChange(periods.filter((_, position) => position !== index))}
+            className={iconButtonClass}
+            aria-label="Remove period"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...periods, { opens: "10:00", closes: "24:00" }])}
+        className="inline-flex items-center gap-1 font-poppins text-xs text-white-muted hover:text-white-off"
+      >
+        <Plus size={14} /> {addLabel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+// Dark-theme class lists shared by the admin panel
+
+export const inputClass =
+  "bg-dark border-dark-border text-white-off placeholder:text-white-muted focus:border-red-primary/50 rounded-lg font-poppins text-sm";
+
+export const panelClass = "bg-dark-card border border-dark-border rounded-2xl p-4";
+
+export const iconButtonClass =
+  "p-2 rounded-lg text-white-muted hover:text-white-off hover:bg-dark-light transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+export const actionButtonClass =
+  "inline-flex items-center gap-2 px-4 py-2 rounded-full font-poppins text-sm bg-dark-light border border-dark-border text-white-off hover:border-red-primary/50 transition-colors disabled:opacity-50 disabled:pointer-events-none";
@@ -0,0 +1,43 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: HighlightRange[];
+  className?: string;
+  highlightClassName?: string;
+}
+
+// Renders text with the given (sorted, non-overlapping) ranges wrapped in <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges,
+  className,
+  highlightClassName = 'bg-red-primary/30 text-white-off rounded-sm'
+}) => {
+  if (ranges.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className={cn('px-0.5 -mx-0.5', highlightClassName)}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <span className={className}>{parts}</span>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface QuantityStepperProps {
+  quantity: number;
+  onChange: (quantity: number) => void;
+  min?: number;
+  max?: number;
+  label: string;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const QuantityStepper: React.FC<QuantityStepperProps> = ({
+  quantity,
+  onChange,
+  min = 0,
+  max = Infinity,
+  label,
+  size = 'md',
+  className = ''
+}) => {
+  const buttonSize = size === 'sm' ? 'w-7 h-7' : 'w-8 h-8 md:w-10 md:h-10';
+  const iconSize = size === 'sm' ? 'w-3 h-3' : 'w-4 h-4';
+
+  return (
+    <div
+      role="group"
+      aria-label={`Quantity of ${label}`}
+      className={cn('flex items-center justify-between gap-2 bg-dark border border-dark-border rounded-full p-1', className)}
+    >
+      <button
+        type="button"
+        onClick={() => onChange(quantity - 1)}
+        disabled={quantity <= min}
+        className={cn(buttonSize, 'flex items-center justify-center rounded-full bg-dark-card text-white-off hover:bg-red-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-dark-card')}
+        aria-label={`Remove one ${label}`}
+      >
+        <Minus className={iconSize} />
+      </button>
+      <span className="min-w-[1.5rem] text-center text-white-off font-poppins font-semibold text-sm" aria-live="polite">
+        {quantity}
+      </span>
+      <button
+        type="button"
+        onClick={() => onChange(quantity + 1)}
+        disabled={quantity >= max}
+        className={cn(buttonSize, 'flex items-center justify-center rounded-full bg-red-primary text-white hover:bg-red-dark transition-colors disabled:opacity-40 disabled:cursor-not-allowed')}
+        aria-label={`Add one more ${label}`}
+      >
+        <Plus className={iconSize} />
+      </button>
+    </div>
+  );
+};
+
+export default QuantityStepper;
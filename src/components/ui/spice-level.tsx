@@ -0,0 +1,29 @@
+import React from 'react';
+import { SPICE_LEVELS } from '@/data/menu';
+import { cn } from '@/lib/utils';
+
+interface SpiceLevelProps {
+  level: number;
+  showLabel?: boolean;
+  className?: string;
+}
+
+const MAX_LEVEL = SPICE_LEVELS.length - 1;
+
+// Chilli meter: filled chillies for the dish's level, faded for the rest
+const SpiceLevel: React.FC<SpiceLevelProps> = ({ level, showLabel = false, className }) => (
+  <span
+    className={cn('inline-flex items-center gap-1', className)}
+    role="img"
+    aria-label={`Spice level: ${SPICE_LEVELS[level]} (${level} of ${MAX_LEVEL})`}
+  >
+    <span aria-hidden="true" className="tracking-tighter">
+      {Array.from({ length: MAX_LEVEL }, (_, index) => (
+        <span key={index} className={index < level ? '' : 'opacity-25 grayscale'}>🌶️</span>
+      ))}
+    </span>
+    {showLabel && <span aria-hidden="true">{SPICE_LEVELS[level]}</span>}
+  </span>
+);
+
+export default SpiceLevel;
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Play, Pause, Volume2, VolumeX, Settings } from 'lucide-react';
+import { VIDEO_QUALITIES, type VideoQuality } from '@/data/heroVideo';
+import type { VideoQualityChoice } from '@/hooks/useAdaptiveVideo';
 
 interface VideoControlsProps {
   videoRef: React.RefObject<HTMLVideoElement>;
@@ -8,6 +10,10 @@ interface VideoControlsProps {
   isMuted: boolean;
   onPlayPause: () => void;
   onMuteToggle: () => void;
+  // The quality menu is shown when a handler is given
+  quality?: VideoQualityChoice;
+  qualityLabels?: Partial<Record<VideoQuality, string>>; // e.g. "720p"
+  onQualityChange?: (quality: VideoQualityChoice) => void;
   className?: string;
 }
 
@@ -17,14 +23,16 @@ const VideoControls: React.FC<VideoControlsProps> = ({
   isMuted,
   onPlayPause,
   onMuteToggle,
+  quality = 'auto',
+  qualityLabels = {},
+  onQualityChange,
   className = ''
 }) => {
   const [showControls, setShowControls] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
 
-  const handleQualityChange = (quality: 'high' | 'medium' | 'low') => {
-    // Implementation for quality switching
-    console.log('Quality changed to:', quality);
+  const handleQualityChange = (next: VideoQualityChoice) => {
+    onQualityChange?.(next);
     setShowSettings(false);
   };
 
@@ -67,40 +75,48 @@ const VideoControls: React.FC<VideoControlsProps> = ({
         </button>
 
         {/* Settings Button */}
-        <div className="relative">
-          <button
-            onClick={() => setShowSettings(!showSettings)}
-            className="p-2 rounded-full bg-white/20 hover:bg-white/30 transition-colors"
-            aria-label="Video settings"
-          >
-            <Settings className="w-4 h-4 text-white" />
-          </button>
+        {onQualityChange && (
+          <div className="relative">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="p-2 rounded-full bg-white/20 hover:bg-white/30 transition-colors"
+              aria-label="Video settings"
+            >
+              <Settings className="w-4 h-4 text-white" />
+            </button>
 
-          {/* Settings Menu */}
-          <AnimatePresence>
-            {showSettings && (
-              <motion.div
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: 10 }}
-                className="absolute bottom-full right-0 mb-2 bg-black/80 backdrop-blur-sm rounded-lg p-2 min-w-[120px]"
-              >
-                <div className="text-white text-sm font-medium mb-2">Quality</div>
-                <div className="space-y-1">
-                  {['high', 'medium', 'low'].map((quality) => (
-                    <button
-                      key={quality}
-                      onClick={() => handleQualityChange(quality as any)}
-                      className="block w-full text-left px-2 py-1 text-white/80 hover:text-white hover:bg-white/10 rounded text-sm capitalize"
-                    >
-                      {quality}
-                    </button>
-                  ))}
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </div>
+            {/* Settings Menu */}
+            <AnimatePresence>
+              {showSettings && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 10 }}
+                  className="absolute bottom-full right-0 mb-2 bg-black/80 backdrop-blur-sm rounded-lg p-2 min-w-[120px]"
+                >
+                  <div className="text-white text-sm font-medium mb-2">Quality</div>
+                  <div className="space-y-1">
+                    {(['auto', ...VIDEO_QUALITIES] as const).map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => handleQualityChange(option)}
+                        aria-pressed={quality === option}
+                        className={`block w-full text-left px-2 py-1 hover:text-white hover:bg-white/10 rounded text-sm capitalize ${
+                          quality === option ? 'text-white bg-white/10' : 'text-white/80'
+                        }`}
+                      >
+                        {option}
+                        {option !== 'auto' && qualityLabels[option] && (
+                          <span className="ml-1 text-white/60 normal-case">{qualityLabels[option]}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
       </div>
 
       {/* Accessibility Notice */}
@@ -0,0 +1,99 @@
+/**
+ * Delivery Zones
+ * Distance rings around the restaurant, each with its own fee, minimum order
+ * and delivery time, plus the pincodes we serve and the ring each belongs
+ * to. A shared location is placed in a ring by straight-line distance (see
+ * src/utils/delivery.ts). Kept free of "@/" imports like the other data
+ * modules.
+ */
+
+import { z } from "zod";
+import { slugSchema } from "./menu";
+import { restaurant } from "./restaurant";
+
+export const coordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const deliveryRingSchema = z
+  .object({
+    id: slugSchema,
+    name: z.string().min(1), // "Ambur town"
+    maxDistanceKm: z.number().positive(), // from the restaurant, as the crow flies
+    fee: z.number().int().nonnegative(), // ₹
+    minOrder: z.number().int().nonnegative(), // ₹, after offers
+    etaMinutes: z.object({
+      min: z.number().int().positive(),
+      max: z.number().int().positive(),
+    }),
+  })
+  .refine((ring) => ring.etaMinutes.min <= ring.etaMinutes.max, {
+    message: "etaMinutes.min must not exceed etaMinutes.max",
+    path: ["etaMinutes"],
+  });
+
+export const deliveryPincodeSchema = z.object({
+  pincode: z.string().regex(/^\d{6}$/, "must be a 6-digit pincode"),
+  area: z.string().min(1), // "Ambur"
+  ringId: slugSchema,
+});
+
+export const deliveryConfigSchema = z
+  .object({
+    origin: coordinatesSchema,
+    rings: z.array(deliveryRingSchema).min(1), // nearest first
+    pincodes: z.array(deliveryPincodeSchema),
+  })
+  .superRefine((config, ctx) => {
+    const ringIds = new Set<string>();
+    config.rings.forEach((ring, index) => {
+      if (ringIds.has(ring.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rings", index, "id"], message: `Duplicate ring id "${ring.id}"` });
+      }
+      ringIds.add(ring.id);
+
+      const previous = config.rings[index - 1];
+      if (previous && previous.maxDistanceKm >= ring.maxDistanceKm) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rings", index, "maxDistanceKm"],
+          message: "rings must be listed nearest first",
+        });
+      }
+    });
+
+    const pincodes = new Set<string>();
+    config.pincodes.forEach((entry, index) => {
+      if (pincodes.has(entry.pincode)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pincodes", index, "pincode"], message: `Duplicate pincode "${entry.pincode}"` });
+      }
+      pincodes.add(entry.pincode);
+
+      if (!ringIds.has(entry.ringId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pincodes", index, "ringId"], message: `Unknown ring "${entry.ringId}"` });
+      }
+    });
+  });
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+export type DeliveryRing = z.infer<typeof deliveryRingSchema>;
+export type DeliveryPincode = z.infer<typeof deliveryPincodeSchema>;
+export type DeliveryConfig = z.infer<typeof deliveryConfigSchema>;
+
+const rawDeliveryConfig: DeliveryConfig = {
+  origin: restaurant.geo,
+  rings: [
+    { id: "town", name: "Ambur town", maxDistanceKm: 3, fee: 0, minOrder: 200, etaMinutes: { min: 30, max: 45 } },
+    { id: "outskirts", name: "Ambur outskirts", maxDistanceKm: 8, fee: 40, minOrder: 300, etaMinutes: { min: 45, max: 60 } },
+    { id: "nearby-towns", name: "Nearby towns", maxDistanceKm: 15, fee: 80, minOrder: 500, etaMinutes: { min: 60, max: 80 } },
+  ],
+  pincodes: [
+    { pincode: "635802", area: "Ambur", ringId: "town" },
+    { pincode: "635814", area: "Ambur North", ringId: "outskirts" },
+    { pincode: "635810", area: "Pernambut", ringId: "nearby-towns" },
+  ],
+};
+
+// Validate once at module load so a bad edit fails the build, not the page
+export const deliveryConfig: DeliveryConfig = deliveryConfigSchema.parse(rawDeliveryConfig) as DeliveryConfig;
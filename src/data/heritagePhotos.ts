@@ -0,0 +1,61 @@
+/**
+ * Heritage Photos
+ * The rotating photo gallery in the About section. Captions and alt text are
+ * English; the built-in photos below are translated through the about.image.*
+ * messages for as long as their English text is unchanged.
+ */
+
+import { z } from "zod";
+
+export const heritagePhotoSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "must be a lowercase, hyphenated slug"),
+  url: z.string().url().or(z.string().startsWith("/assets/")),
+  caption: z.string().min(1),
+  alt: z.string().min(1),
+});
+
+export const heritagePhotoListSchema = z
+  .array(heritagePhotoSchema)
+  .min(1)
+  .refine((photos) => new Set(photos.map((photo) => photo.id)).size === photos.length, {
+    message: "Heritage photo ids must be unique",
+  });
+
+export type HeritagePhoto = z.infer<typeof heritagePhotoSchema>;
+
+const rawPhotos: HeritagePhoto[] = [
+  {
+    id: "interior",
+    url: "https://lh3.googleusercontent.com/gps-cs-s/AC9h4np7WfWWAzLPVI-qN90NeIEwIksgM0z-YxIAS0Ew58CoALnSgqzON4Bt1dr4sZ4M0Jn6dD70gpdAXuJGKe0c50BBI0fSajgluhN7Nh2uagksDKCdKd1Um0Zbo_gwgqlWV-Jr_cCU=s1360-w1360-h1020",
+    caption: "Our Heritage Since 1967",
+    alt: "Original Ambur Briyani Restaurant Interior",
+  },
+  {
+    id: "cooking",
+    url: "https://img.restaurantguru.com/r126-ORIGINAL-AMBUR-BRIYANI-Deluxe-A-C-since-1967-photo.jpg",
+    caption: "Traditional Cooking Methods",
+    alt: "Authentic Ambur Biryani Preparation",
+  },
+  {
+    id: "dining",
+    url: "https://img.restaurantguru.com/r355-ORIGINAL-AMBUR-BRIYANI-Deluxe-A-C-since-1967-image.jpg",
+    caption: "Family Dining Tradition",
+    alt: "Original Ambur Briyani Dining Experience",
+  },
+  {
+    id: "facade",
+    url: "https://img.restaurantguru.com/r50e-AMBUR-BRIYANI-Deluxe-A-C-since-1967-design-2022-09.jpg",
+    caption: "MC Road Landmark",
+    alt: "Original Ambur Briyani Restaurant Facade",
+  },
+  {
+    id: "hall",
+    url: "https://lh3.googleusercontent.com/gps-cs-s/AC9h4nphdobrRDbNuUgVIey8mnYNTxWuqSy8YSsSEhSTJOwWN0_iCYOm0VuY7QQ0wcA0H6fcu53_vztMcOgb-V1VfYfaZj23XI1bgPcAbCMoniL1vuaNTa1iPBwoJNXYv7bNsEe7skZm=s1360-w1360-h1020",
+    caption: "Modern Comfort, Traditional Taste",
+    alt: "Deluxe AC Dining Hall",
+  },
+];
+
+export const defaultHeritagePhotos: HeritagePhoto[] = heritagePhotoListSchema.parse(rawPhotos);
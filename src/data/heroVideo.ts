@@ -0,0 +1,51 @@
+/**
+ * Hero Video
+ * Renditions of the hero background video and their poster frames. The hero
+ * picks one for the device and connection and steps down a quality when
+ * playback keeps stalling (see src/hooks/useAdaptiveVideo.ts). The files and
+ * the manifest come from `npm run video:transcode`. Kept free of "@/"
+ * imports like the other data modules; the transcoder loads this too.
+ */
+
+import { z } from "zod";
+import { heroVideoManifest } from "./heroVideoManifest";
+
+// Best first; stepping down moves one place to the right
+export const VIDEO_QUALITIES = ["high", "medium", "low"] as const;
+
+export const videoQualitySchema = z.enum(VIDEO_QUALITIES);
+
+export const videoRenditionSchema = z.object({
+  quality: videoQualitySchema,
+  type: z.string().regex(/^video\/(webm|mp4)(;|$)/), // MIME type, with codecs when known, for canPlayType
+  // Unknown for a file added by hand rather than by the transcoder
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  bitrateKbps: z.number().int().positive().optional(),
+  src: z.string().startsWith("/video/"),
+});
+
+export const videoPosterSchema = z.object({
+  quality: videoQualitySchema,
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  src: z.string().startsWith("/video/"),
+});
+
+export const heroVideoSchema = z
+  .object({
+    renditions: z.array(videoRenditionSchema).min(1),
+    posters: z.array(videoPosterSchema),
+    placeholder: z.string().startsWith("data:image/").optional(), // a few hundred bytes, shown blurred
+  })
+  .refine((video) => video.renditions.some((rendition) => rendition.type.startsWith("video/mp4")), {
+    message: "The hero needs an MP4 rendition; it's the one every browser plays",
+  });
+
+export type VideoQuality = z.infer<typeof videoQualitySchema>;
+export type VideoRendition = z.infer<typeof videoRenditionSchema>;
+export type VideoPoster = z.infer<typeof videoPosterSchema>;
+export type HeroVideo = z.infer<typeof heroVideoSchema>;
+
+// Validate once at module load so a bad manifest fails the build, not the page
+export const heroVideo = heroVideoSchema.parse(heroVideoManifest) as HeroVideo;
@@ -0,0 +1,18 @@
+/**
+ * Hero Video Manifest
+ * The encoded hero video files in public/video/: one WebM (VP9) and one MP4
+ * (H.264) per quality, a poster frame per resolution and an optional blur
+ * placeholder. Written by scripts/transcode-hero-video.mjs; rerun it rather
+ * than editing by hand. Validated by src/data/heroVideo.ts.
+ *
+ * Until the renditions have been encoded and deployed, this lists only the
+ * original /video/hero.mp4 the hero has always played; every quality falls
+ * back to it.
+ */
+
+export const heroVideoManifest = {
+  renditions: [
+    { quality: "high", type: "video/mp4", src: "/video/hero.mp4" },
+  ],
+  posters: [],
+};
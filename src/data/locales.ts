@@ -0,0 +1,17 @@
+/**
+ * Site Locales
+ * Languages the site is published in. English is served unprefixed; every
+ * other locale lives under its own path prefix (/ta/menu, /hi/contact).
+ */
+
+export const LOCALES = ["en", "ta", "hi"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const localeInfo: Record<Locale, { label: string; intl: string }> = {
+  en: { label: "English", intl: "en-IN" },
+  ta: { label: "தமிழ்", intl: "ta-IN" },
+  hi: { label: "हिन्दी", intl: "hi-IN" },
+};
@@ -0,0 +1,474 @@
+/**
+ * Menu Catalog
+ * Single source of truth for dishes, prices and categories. Every menu view,
+ * the Restaurant JSON-LD and the sitemap are generated from this module, so
+ * it must stay free of browser-only and "@/" alias imports (it is also loaded
+ * by vite.config.ts at build time).
+ *
+ * Content published from the admin panel replaces the catalog at runtime
+ * through setMenuCatalog (see src/hooks/useSiteContent.ts); prerendered pages
+ * and the sitemap always use the catalog below.
+ */
+
+import { z } from "zod";
+import { DAYS_OF_WEEK, dateSchema, openingPeriodSchema } from "./openingHours";
+import { taxRateSchema } from "./tax";
+
+export const slugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "must be a lowercase, hyphenated slug");
+
+export const SPICE_LEVELS = ["Not spicy", "Mild", "Medium", "Hot"] as const;
+
+export const ALLERGENS = ["dairy", "gluten", "egg", "fish", "nuts", "sesame", "soy"] as const;
+
+export const menuCategorySchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1),
+  emoji: z.string().min(1),
+  hidden: z.boolean().optional(), // kept for later but left off the public menu
+});
+
+export const menuVariantSchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1),
+  price: z.number().int().positive(), // ₹
+});
+
+export const menuAddOnSchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1),
+  price: z.number().int().nonnegative(), // ₹ per dish
+});
+
+// When a dish can be ordered, in restaurant time (see src/utils/availability.ts).
+// Leave a rule out to not restrict by it.
+export const dishAvailabilitySchema = z.object({
+  servingWindows: z.array(openingPeriodSchema).min(1).optional(), // same form as opening periods
+  days: z.array(z.enum(DAYS_OF_WEEK)).min(1).optional(),
+  soldOutOn: dateSchema.optional(), // "Sold out today"; lapses at midnight
+  dailyLimit: z.number().int().positive().optional(), // portions per day
+  soldToday: z
+    .object({
+      date: dateSchema,
+      quantity: z.number().int().nonnegative(),
+    })
+    .optional(), // counted against dailyLimit on that date only
+});
+
+export const menuItemSchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1),
+  description: z.string().min(1),
+  longDescription: z.string().min(1),
+  ingredients: z.array(z.string().min(1)).min(1),
+  allergens: z.array(z.enum(ALLERGENS)),
+  price: z.number().int().positive(), // ₹, the default portion's price
+  image: z.string().startsWith("/assets/"),
+  category: slugSchema,
+  isVeg: z.boolean(),
+  spiceLevel: z.number().int().min(0).max(SPICE_LEVELS.length - 1),
+  isPopular: z.boolean(),
+  // Portion sizes; empty when the dish comes in a single size at `price`
+  variants: z.array(menuVariantSchema),
+  defaultVariant: slugSchema.optional(),
+  addOns: z.array(slugSchema), // ids from the catalog's addOns
+  packagingCharge: z.number().int().nonnegative().optional(), // ₹ per portion; every site order is takeaway
+  taxRate: taxRateSchema.optional(), // GST %, when not the restaurant rate in src/data/tax.ts
+  hidden: z.boolean().optional(),
+  availability: dishAvailabilitySchema.optional(),
+});
+
+export const menuCatalogSchema = z
+  .object({
+    categories: z.array(menuCategorySchema).min(1),
+    addOns: z.array(menuAddOnSchema),
+    items: z.array(menuItemSchema).min(1),
+  })
+  .superRefine((catalog, ctx) => {
+    const categoryIds = new Set<string>();
+    catalog.categories.forEach((category, index) => {
+      if (categoryIds.has(category.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["categories", index, "id"],
+          message: `Duplicate category id "${category.id}"`,
+        });
+      }
+      categoryIds.add(category.id);
+    });
+
+    const addOnIds = new Set(catalog.addOns.map((addOn) => addOn.id));
+
+    const itemIds = new Set<string>();
+    catalog.items.forEach((item, index) => {
+      if (itemIds.has(item.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "id"],
+          message: `Duplicate menu item id "${item.id}"`,
+        });
+      }
+      itemIds.add(item.id);
+
+      if (!categoryIds.has(item.category)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "category"],
+          message: `Unknown category "${item.category}" for "${item.id}"`,
+        });
+      }
+
+      item.addOns.forEach((addOnId, addOnIndex) => {
+        if (!addOnIds.has(addOnId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["items", index, "addOns", addOnIndex],
+            message: `Unknown add-on "${addOnId}" for "${item.id}"`,
+          });
+        }
+      });
+
+      // The headline price must be the default portion's price
+      if (item.variants.length > 0) {
+        const defaultVariant = item.variants.find((variant) => variant.id === item.defaultVariant);
+        if (!defaultVariant || defaultVariant.price !== item.price) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["items", index, "defaultVariant"],
+            message: `"${item.id}" needs a defaultVariant whose price matches its price`,
+          });
+        }
+        if (new Set(item.variants.map((variant) => variant.id)).size !== item.variants.length) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["items", index, "variants"],
+            message: `Duplicate variant id for "${item.id}"`,
+          });
+        }
+      }
+    });
+  });
+
+export type MenuCategory = z.infer<typeof menuCategorySchema>;
+export type MenuVariant = z.infer<typeof menuVariantSchema>;
+export type MenuAddOn = z.infer<typeof menuAddOnSchema>;
+export type Allergen = (typeof ALLERGENS)[number];
+export type DishAvailabilityRules = z.infer<typeof dishAvailabilitySchema>;
+export type MenuItem = z.infer<typeof menuItemSchema>;
+export type MenuCatalog = z.infer<typeof menuCatalogSchema>;
+
+const rawCatalog: MenuCatalog = {
+  categories: [
+    { id: "briyani", name: "Briyani", emoji: "🍛" },
+    { id: "appetizers", name: "Starters", emoji: "🥘" },
+    { id: "chinese", name: "Chinese", emoji: "🥡" },
+    { id: "bbq", name: "BBQ", emoji: "🍖" },
+    { id: "curries", name: "Curries", emoji: "🥘" },
+    { id: "breads", name: "Breads", emoji: "🥖" },
+  ],
+  addOns: [
+    { id: "extra-raita", name: "Extra Raita", price: 20 },
+    { id: "boiled-egg", name: "Boiled Egg", price: 15 },
+    { id: "brinjal-curry", name: "Brinjal Curry", price: 30 },
+  ],
+  items: [
+    {
+      id: "mutton-briyani",
+      name: "Mutton Briyani",
+      description: "Authentic Ambur-style mutton biryani with aromatic basmati rice, tender mutton, and traditional spices. Our signature dum biryani recipe since 1967.",
+      longDescription: "Our signature since 1967. Tender goat mutton is marinated overnight in curd, red chilli and whole spices, then layered with basmati rice and slow-cooked on dum over a wood fire, the Ambur way. Served with onion raita and brinjal curry.",
+      ingredients: ["Goat mutton", "Basmati rice", "Curd", "Onion", "Tomato", "Ginger-garlic paste", "Red chilli", "Mint", "Coriander", "Whole spices", "Ghee"],
+      allergens: ["dairy"],
+      price: 280,
+      image: "/assets/Menu Assets/Mutton Biryani.webp",
+      category: "briyani",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: true,
+      variants: [
+        { id: "quarter", name: "Quarter", price: 160 },
+        { id: "half", name: "Half", price: 280 },
+        { id: "full", name: "Full", price: 520 },
+      ],
+      defaultVariant: "half",
+      addOns: ["extra-raita", "boiled-egg", "brinjal-curry"],
+      packagingCharge: 10,
+      availability: { dailyLimit: 60 }, // one batch a day
+    },
+    {
+      id: "chicken-briyani",
+      name: "Chicken Briyani",
+      description: "Best chicken biryani near me - Traditional Ambur-style biryani with succulent chicken, premium basmati rice and aromatic spices.",
+      longDescription: "Juicy bone-in chicken cooked on dum with basmati rice, mint and our house spice blend. Lighter than the mutton briyani but just as fragrant, served with onion raita and brinjal curry.",
+      ingredients: ["Chicken", "Basmati rice", "Curd", "Onion", "Tomato", "Ginger-garlic paste", "Red chilli", "Mint", "Coriander", "Whole spices", "Ghee"],
+      allergens: ["dairy"],
+      price: 170,
+      image: "/assets/Menu Assets/Mutton Biryani.webp",
+      category: "briyani",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: true,
+      variants: [
+        { id: "quarter", name: "Quarter", price: 100 },
+        { id: "half", name: "Half", price: 170 },
+        { id: "full", name: "Full", price: 320 },
+      ],
+      defaultVariant: "half",
+      addOns: ["extra-raita", "boiled-egg", "brinjal-curry"],
+      packagingCharge: 10
+    },
+    {
+      id: "boneless-chicken-65",
+      name: "Boneless Chicken 65",
+      description: "Spicy, deep-fried chicken bites, a classic appetizer.",
+      longDescription: "Boneless chicken marinated in chilli, ginger, garlic and curry leaves, coated in a light batter and fried until crisp. Finished with a tempering of green chilli and curry leaves.",
+      ingredients: ["Boneless chicken", "Red chilli", "Ginger-garlic paste", "Curry leaves", "Green chilli", "Rice flour", "Corn flour", "Egg", "Lemon"],
+      allergens: ["egg", "gluten"],
+      price: 100,
+      image: "/assets/Menu Assets/Chicken 65.webp",
+      category: "appetizers",
+      isVeg: false,
+      spiceLevel: 3,
+      isPopular: true,
+      variants: [],
+      addOns: []
+    },
+    {
+      id: "chicken-lollipop",
+      name: "Chicken Lollipop",
+      description: "Frenched chicken winglets, a fun and tasty starter.",
+      longDescription: "Chicken winglets frenched into lollipops, marinated in Indo-Chinese spices and fried crisp. Served with a tangy schezwan dip.",
+      ingredients: ["Chicken winglets", "Corn flour", "Maida", "Egg", "Ginger-garlic paste", "Red chilli", "Soy sauce", "Schezwan sauce"],
+      allergens: ["egg", "gluten", "soy"],
+      price: 160,
+      image: "/assets/Menu Assets/Chicken Lollipop.webp",
+      category: "appetizers",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: false,
+      variants: [],
+      addOns: []
+    },
+    {
+      id: "gobi-manchurian",
+      name: "Gobi Manchurian",
+      description: "Crispy cauliflower florets in a tangy Manchurian sauce.",
+      longDescription: "Cauliflower florets fried in a crisp batter and tossed in a glossy Manchurian sauce with garlic, spring onion and green chilli.",
+      ingredients: ["Cauliflower", "Corn flour", "Maida", "Garlic", "Ginger", "Spring onion", "Green chilli", "Soy sauce", "Tomato ketchup"],
+      allergens: ["gluten", "soy"],
+      price: 120,
+      image: "/assets/Menu Assets/Gobi Manchurian.webp",
+      category: "chinese",
+      isVeg: true,
+      spiceLevel: 2,
+      isPopular: true,
+      variants: [],
+      addOns: []
+    },
+    {
+      id: "chicken-fried-rice",
+      name: "Chicken Fried Rice",
+      description: "Wok-tossed fried rice with chicken and vegetables.",
+      longDescription: "Long-grain rice wok-tossed on high heat with shredded chicken, scrambled egg, cabbage, carrot and spring onion, seasoned with soy and pepper.",
+      ingredients: ["Basmati rice", "Chicken", "Egg", "Cabbage", "Carrot", "Spring onion", "Garlic", "Soy sauce", "Black pepper"],
+      allergens: ["egg", "soy"],
+      price: 100,
+      image: "/assets/Menu Assets/Chicken Fried Rice.webp",
+      category: "chinese",
+      isVeg: false,
+      spiceLevel: 0,
+      isPopular: false,
+      variants: [],
+      addOns: ["boiled-egg"]
+    },
+    {
+      id: "chicken-bbq",
+      name: "Chicken BBQ",
+      description: "Tender chicken grilled with a smoky barbecue flavor.",
+      longDescription: "Chicken pieces marinated in a smoky, tangy barbecue masala and grilled over charcoal until charred at the edges. Served with mint chutney and sliced onion.",
+      ingredients: ["Chicken", "Curd", "Ginger-garlic paste", "Kashmiri chilli", "Lemon", "Barbecue masala", "Mint chutney", "Onion"],
+      allergens: ["dairy"],
+      price: 420,
+      image: "/assets/Menu Assets/Chicken BBQ.webp",
+      category: "bbq",
+      isVeg: false,
+      spiceLevel: 0,
+      isPopular: true,
+      variants: [
+        { id: "half", name: "Half", price: 220 },
+        { id: "full", name: "Full", price: 420 },
+      ],
+      defaultVariant: "full",
+      addOns: [],
+      availability: { servingWindows: [{ opens: "18:00", closes: "24:00" }] }, // the grill is lit in the evening
+    },
+    {
+      id: "tandoori-chicken",
+      name: "Tandoori Chicken",
+      description: "Chicken marinated in yogurt and spices, cooked in a tandoor.",
+      longDescription: "Chicken marinated for hours in curd, Kashmiri chilli and garam masala, then roasted in the tandoor for a smoky char. Served with mint chutney, onion and lemon.",
+      ingredients: ["Chicken", "Curd", "Kashmiri chilli", "Garam masala", "Ginger-garlic paste", "Lemon", "Butter", "Mint chutney"],
+      allergens: ["dairy"],
+      price: 420,
+      image: "/assets/Menu Assets/Tandoori.webp",
+      category: "bbq",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: true,
+      variants: [
+        { id: "half", name: "Half", price: 220 },
+        { id: "full", name: "Full", price: 420 },
+      ],
+      defaultVariant: "full",
+      addOns: [],
+      availability: { servingWindows: [{ opens: "18:00", closes: "24:00" }] }, // the grill is lit in the evening
+    },
+    {
+      id: "butter-chicken-gravy",
+      name: "Butter Chicken Gravy",
+      description: "Creamy and rich butter chicken curry.",
+      longDescription: "Tandoor-roasted chicken simmered in a velvety tomato, butter and cashew gravy with a hint of kasuri methi. Mild, rich and best with parotta.",
+      ingredients: ["Chicken", "Tomato", "Butter", "Fresh cream", "Cashew", "Kasuri methi", "Ginger-garlic paste", "Garam masala"],
+      allergens: ["dairy", "nuts"],
+      price: 190,
+      image: "/assets/Menu Assets/Butter Chicken Gravy.webp",
+      category: "curries",
+      isVeg: false,
+      spiceLevel: 0,
+      isPopular: true,
+      variants: [],
+      addOns: [],
+      packagingCharge: 10
+    },
+    {
+      id: "mutton-chukka",
+      name: "Mutton Chukka",
+      description: "Dry mutton curry with a blend of aromatic spices.",
+      longDescription: "Bite-sized mutton pieces slow-roasted with shallots, black pepper, fennel and curry leaves until the masala clings to every piece. A fiery Tamil Nadu favourite.",
+      ingredients: ["Goat mutton", "Shallots", "Black pepper", "Fennel", "Curry leaves", "Red chilli", "Ginger-garlic paste", "Coconut oil"],
+      allergens: [],
+      price: 220,
+      image: "/assets/Menu Assets/Mutton Chukka.webp",
+      category: "curries",
+      isVeg: false,
+      spiceLevel: 3,
+      isPopular: false,
+      variants: [],
+      addOns: [],
+      packagingCharge: 10
+    },
+    {
+      id: "fish-fry",
+      name: "Fish Fry",
+      description: "Crispy and spicy fried fish, a coastal delicacy.",
+      longDescription: "Fresh seer fish slices rubbed with a coastal masala of chilli, turmeric and lemon, then shallow-fried until crisp outside and flaky inside.",
+      ingredients: ["Seer fish", "Red chilli", "Turmeric", "Ginger-garlic paste", "Lemon", "Rice flour", "Curry leaves"],
+      allergens: ["fish"],
+      price: 180,
+      image: "/assets/Menu Assets/Fish Fry.webp",
+      category: "appetizers",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: false,
+      variants: [],
+      addOns: []
+    },
+    {
+      id: "parotta",
+      name: "Parotta",
+      description: "Layered flatbread, perfect with any curry.",
+      longDescription: "Flaky, many-layered flatbread hand-stretched and cooked on the griddle. Perfect for mopping up chicken or mutton salna.",
+      ingredients: ["Maida", "Egg", "Milk", "Sugar", "Oil"],
+      allergens: ["gluten", "egg", "dairy"],
+      price: 50,
+      image: "/assets/Menu Assets/Parotta.webp",
+      category: "breads",
+      isVeg: true,
+      spiceLevel: 0,
+      isPopular: true,
+      variants: [],
+      addOns: []
+    },
+    {
+      id: "chicken-gravy",
+      name: "Chicken Gravy",
+      description: "A rich and savory chicken curry, perfect with rice or bread.",
+      longDescription: "Home-style chicken curry with roasted coconut, fennel and whole spices, slow-cooked until the gravy is thick and rich. Great with rice, parotta or briyani.",
+      ingredients: ["Chicken", "Onion", "Tomato", "Coconut", "Fennel", "Ginger-garlic paste", "Red chilli", "Curry leaves", "Whole spices"],
+      allergens: [],
+      price: 260,
+      image: "/assets/Menu Assets/Chicken Gravy.webp",
+      category: "curries",
+      isVeg: false,
+      spiceLevel: 2,
+      isPopular: false,
+      variants: [],
+      addOns: [],
+      packagingCharge: 10
+    },
+    {
+      id: "veg-fried-rice",
+      name: "Veg Fried Rice",
+      description: "A classic stir-fry of rice and mixed vegetables.",
+      longDescription: "Long-grain rice wok-tossed with beans, carrot, cabbage, capsicum and spring onion, seasoned with soy and white pepper.",
+      ingredients: ["Basmati rice", "Beans", "Carrot", "Cabbage", "Capsicum", "Spring onion", "Garlic", "Soy sauce", "White pepper"],
+      allergens: ["soy"],
+      price: 200,
+      image: "/assets/Menu Assets/Veg Fried Rice.webp",
+      category: "chinese",
+      isVeg: true,
+      spiceLevel: 0,
+      isPopular: false,
+      variants: [],
+      addOns: []
+    }
+  ],
+};
+
+// Validate once at module load so a bad edit fails the build, not the page
+export const defaultMenuCatalog: MenuCatalog = menuCatalogSchema.parse(rawCatalog);
+
+// Drops hidden categories and dishes, including every dish in a hidden category
+export const getPublicMenuCatalog = (catalog: MenuCatalog): MenuCatalog => {
+  const categories = catalog.categories.filter((category) => !category.hidden);
+  const categoryIds = new Set(categories.map((category) => category.id));
+  return {
+    ...catalog,
+    categories,
+    items: catalog.items.filter((item) => !item.hidden && categoryIds.has(item.category)),
+  };
+};
+
+// Live bindings: importers always see the catalog most recently set
+export let menuCatalog: MenuCatalog = getPublicMenuCatalog(defaultMenuCatalog);
+export let menuCategories = menuCatalog.categories;
+export let menuAddOns = menuCatalog.addOns;
+export let menuItems = menuCatalog.items;
+
+export const setMenuCatalog = (catalog: MenuCatalog) => {
+  menuCatalog = getPublicMenuCatalog(catalog);
+  menuCategories = menuCatalog.categories;
+  menuAddOns = menuCatalog.addOns;
+  menuItems = menuCatalog.items;
+};
+
+export const getMenuItemsByCategory = (categoryId: string): MenuItem[] =>
+  categoryId === "all"
+    ? menuItems
+    : menuItems.filter((item) => item.category === categoryId);
+
+export const getMenuCategory = (categoryId: string): MenuCategory | undefined =>
+  menuCategories.find((category) => category.id === categoryId);
+
+export const getMenuItem = (itemId: string): MenuItem | undefined =>
+  menuItems.find((item) => item.id === itemId);
+
+export const getMenuAddOn = (addOnId: string): MenuAddOn | undefined =>
+  menuAddOns.find((addOn) => addOn.id === addOnId);
+
+export const getDefaultVariant = (item: MenuItem): MenuVariant | undefined =>
+  item.variants.find((variant) => variant.id === item.defaultVariant);
+
+// Dishes with portion sizes or add-ons are configured in the detail sheet before adding
+export const hasMenuOptions = (item: MenuItem) => item.variants.length > 1 || item.addOns.length > 0;
@@ -0,0 +1,210 @@
+/**
+ * Menu Translations
+ * Localised dish, category, portion and add-on names for the non-English
+ * locales, keyed by catalog id. Anything missing falls back to the English
+ * catalog in src/data/menu.ts. Ingredients and allergens stay in English.
+ * Kept free of "@/" imports like the catalog it translates.
+ */
+
+import type { Locale } from "./locales";
+
+export interface MenuItemTranslation {
+  name: string;
+  description: string;
+  longDescription: string;
+}
+
+export interface MenuTranslations {
+  categories: Record<string, string>;
+  variants: Record<string, string>;
+  addOns: Record<string, string>;
+  items: Record<string, MenuItemTranslation>;
+}
+
+const ta: MenuTranslations = {
+  categories: {
+    briyani: "பிரியாணி",
+    appetizers: "ஸ்டார்டர்ஸ்",
+    chinese: "சைனீஸ்",
+    bbq: "BBQ",
+    curries: "குழம்புகள்",
+    breads: "ரொட்டிகள்",
+  },
+  variants: {
+    quarter: "கால்",
+    half: "அரை",
+    full: "முழு",
+  },
+  addOns: {
+    "extra-raita": "கூடுதல் ரைத்தா",
+    "boiled-egg": "அவித்த முட்டை",
+    "brinjal-curry": "கத்தரிக்காய் குழம்பு",
+  },
+  items: {
+    "mutton-briyani": {
+      name: "மட்டன் பிரியாணி",
+      description: "மணமுள்ள பாஸ்மதி அரிசி, மென்மையான மட்டன் மற்றும் பாரம்பரிய மசாலாக்களுடன் அசல் ஆம்பூர் பாணி மட்டன் பிரியாணி. 1967 முதல் எங்கள் சிறப்பு தம் பிரியாணி.",
+      longDescription: "1967 முதல் எங்கள் சிறப்பு. மென்மையான ஆட்டுக்கறி தயிர், மிளகாய் மற்றும் முழு மசாலாக்களில் இரவு முழுவதும் ஊறவைக்கப்பட்டு, பாஸ்மதி அரிசியுடன் அடுக்கி, ஆம்பூர் முறைப்படி விறகு அடுப்பில் தம் போட்டு மெதுவாகச் சமைக்கப்படுகிறது. வெங்காய ரைத்தா மற்றும் கத்தரிக்காய் குழம்புடன் பரிமாறப்படுகிறது.",
+    },
+    "chicken-briyani": {
+      name: "சிக்கன் பிரியாணி",
+      description: "சுவையான சிக்கன், தரமான பாஸ்மதி அரிசி மற்றும் மணமுள்ள மசாலாக்களுடன் பாரம்பரிய ஆம்பூர் பாணி பிரியாணி.",
+      longDescription: "எலும்புடன் கூடிய சாறுள்ள சிக்கன், பாஸ்மதி அரிசி, புதினா மற்றும் எங்கள் சிறப்பு மசாலாவுடன் தம்மில் சமைக்கப்படுகிறது. மட்டன் பிரியாணியை விட லேசானது, ஆனால் அதே மணம். வெங்காய ரைத்தா மற்றும் கத்தரிக்காய் குழம்புடன் பரிமாறப்படுகிறது.",
+    },
+    "boneless-chicken-65": {
+      name: "போன்லெஸ் சிக்கன் 65",
+      description: "காரமான, எண்ணெயில் பொரித்த சிக்கன் துண்டுகள் — ஒரு பாரம்பரிய ஸ்டார்டர்.",
+      longDescription: "எலும்பில்லாத சிக்கன் மிளகாய், இஞ்சி, பூண்டு மற்றும் கறிவேப்பிலையில் ஊறவைத்து, லேசான மாவில் தோய்த்து மொறுமொறுப்பாகப் பொரிக்கப்படுகிறது. பச்சை மிளகாய் மற்றும் கறிவேப்பிலை தாளிப்புடன் முடிக்கப்படுகிறது.",
+    },
+    "chicken-lollipop": {
+      name: "சிக்கன் லாலிபாப்",
+      description: "லாலிபாப் வடிவில் சிக்கன் இறக்கைகள் — சுவையான ஸ்டார்டர்.",
+      longDescription: "லாலிபாப் வடிவில் வெட்டிய சிக்கன் இறக்கைகள் இந்தோ-சைனீஸ் மசாலாவில் ஊறவைத்து மொறுமொறுப்பாகப் பொரிக்கப்படுகின்றன. புளிப்பான ஷெஸ்வான் டிப்புடன் பரிமாறப்படுகிறது.",
+    },
+    "gobi-manchurian": {
+      name: "கோபி மஞ்சூரியன்",
+      description: "புளிப்பான மஞ்சூரியன் சாஸில் மொறுமொறுப்பான காலிஃப்ளவர்.",
+      longDescription: "மொறுமொறுப்பான மாவில் பொரித்த காலிஃப்ளவர் துண்டுகள், பூண்டு, வெங்காயத்தாள் மற்றும் பச்சை மிளகாயுடன் மஞ்சூரியன் சாஸில் கிளறப்படுகின்றன.",
+    },
+    "chicken-fried-rice": {
+      name: "சிக்கன் ஃப்ரைடு ரைஸ்",
+      description: "சிக்கன் மற்றும் காய்கறிகளுடன் வாணலியில் வறுத்த ஃப்ரைடு ரைஸ்.",
+      longDescription: "நீள அரிசி, துருவிய சிக்கன், முட்டை, முட்டைகோஸ், கேரட் மற்றும் வெங்காயத்தாளுடன் அதிக தீயில் வறுக்கப்பட்டு, சோயா மற்றும் மிளகுடன் சுவையூட்டப்படுகிறது.",
+    },
+    "chicken-bbq": {
+      name: "சிக்கன் BBQ",
+      description: "புகை மணத்துடன் கிரில் செய்த மென்மையான சிக்கன்.",
+      longDescription: "புகை மணமும் புளிப்பும் கொண்ட பார்பிக்யூ மசாலாவில் ஊறவைத்த சிக்கன் துண்டுகள் கரி அடுப்பில் ஓரங்கள் கருகும் வரை கிரில் செய்யப்படுகின்றன. புதினா சட்னி மற்றும் வெங்காயத்துடன் பரிமாறப்படுகிறது.",
+    },
+    "tandoori-chicken": {
+      name: "தந்தூரி சிக்கன்",
+      description: "தயிர் மற்றும் மசாலாவில் ஊறவைத்து தந்தூரில் சுட்ட சிக்கன்.",
+      longDescription: "தயிர், காஷ்மீரி மிளகாய் மற்றும் கரம் மசாலாவில் பல மணி நேரம் ஊறவைத்த சிக்கன், புகை மணத்திற்காக தந்தூரில் சுடப்படுகிறது. புதினா சட்னி, வெங்காயம் மற்றும் எலுமிச்சையுடன் பரிமாறப்படுகிறது.",
+    },
+    "butter-chicken-gravy": {
+      name: "பட்டர் சிக்கன் கிரேவி",
+      description: "கிரீமியான, செழுமையான பட்டர் சிக்கன் குழம்பு.",
+      longDescription: "தந்தூரில் சுட்ட சிக்கன், தக்காளி, வெண்ணெய் மற்றும் முந்திரி கிரேவியில் கசூரி மேத்தி மணத்துடன் கொதிக்க வைக்கப்படுகிறது. காரம் குறைவு, செழுமையானது, பரோட்டாவுடன் சிறந்தது.",
+    },
+    "mutton-chukka": {
+      name: "மட்டன் சுக்கா",
+      description: "மணமுள்ள மசாலாக்களுடன் வறுத்த மட்டன்.",
+      longDescription: "சிறு மட்டன் துண்டுகள் சின்ன வெங்காயம், மிளகு, சோம்பு மற்றும் கறிவேப்பிலையுடன் மசாலா ஒட்டிக்கொள்ளும் வரை மெதுவாக வறுக்கப்படுகின்றன. தமிழ்நாட்டின் காரசாரமான விருப்ப உணவு.",
+    },
+    "fish-fry": {
+      name: "மீன் வறுவல்",
+      description: "மொறுமொறுப்பான, காரமான மீன் வறுவல் — கடலோரச் சுவை.",
+      longDescription: "புதிய வஞ்சிர மீன் துண்டுகள் மிளகாய், மஞ்சள் மற்றும் எலுமிச்சை கலந்த கடலோர மசாலா தடவி, வெளியே மொறுமொறுப்பாகவும் உள்ளே மென்மையாகவும் வறுக்கப்படுகின்றன.",
+    },
+    parotta: {
+      name: "பரோட்டா",
+      description: "அடுக்கடுக்கான ரொட்டி, எந்தக் குழம்புக்கும் ஏற்றது.",
+      longDescription: "கையால் விரித்து தோசைக்கல்லில் சுட்ட மென்மையான, பல அடுக்குகள் கொண்ட பரோட்டா. சிக்கன் அல்லது மட்டன் சால்னாவுடன் சாப்பிட ஏற்றது.",
+    },
+    "chicken-gravy": {
+      name: "சிக்கன் கிரேவி",
+      description: "சாதம் அல்லது ரொட்டியுடன் ஏற்ற செழுமையான சிக்கன் குழம்பு.",
+      longDescription: "வறுத்த தேங்காய், சோம்பு மற்றும் முழு மசாலாக்களுடன் கெட்டியாகும் வரை மெதுவாகச் சமைத்த வீட்டுப் பாணி சிக்கன் குழம்பு. சாதம், பரோட்டா அல்லது பிரியாணியுடன் அருமை.",
+    },
+    "veg-fried-rice": {
+      name: "வெஜ் ஃப்ரைடு ரைஸ்",
+      description: "அரிசி மற்றும் கலவைக் காய்கறிகளின் பாரம்பரிய வறுவல்.",
+      longDescription: "நீள அரிசி பீன்ஸ், கேரட், முட்டைகோஸ், குடைமிளகாய் மற்றும் வெங்காயத்தாளுடன் வாணலியில் வறுக்கப்பட்டு, சோயா மற்றும் வெள்ளை மிளகுடன் சுவையூட்டப்படுகிறது.",
+    },
+  },
+};
+
+const hi: MenuTranslations = {
+  categories: {
+    briyani: "बिरयानी",
+    appetizers: "स्टार्टर्स",
+    chinese: "चाइनीज़",
+    bbq: "BBQ",
+    curries: "करी",
+    breads: "ब्रेड",
+  },
+  variants: {
+    quarter: "क्वार्टर",
+    half: "हाफ़",
+    full: "फ़ुल",
+  },
+  addOns: {
+    "extra-raita": "अतिरिक्त रायता",
+    "boiled-egg": "उबला अंडा",
+    "brinjal-curry": "बैंगन करी",
+  },
+  items: {
+    "mutton-briyani": {
+      name: "मटन बिरयानी",
+      description: "खुशबूदार बासमती चावल, मुलायम मटन और पारंपरिक मसालों के साथ असली आंबूर-शैली की मटन बिरयानी। 1967 से हमारी खास दम बिरयानी।",
+      longDescription: "1967 से हमारी पहचान। मुलायम बकरे का मटन दही, लाल मिर्च और साबुत मसालों में रात भर मैरिनेट किया जाता है, फिर बासमती चावल के साथ परतों में लगाकर आंबूर की तरह लकड़ी की आँच पर दम में धीरे-धीरे पकाया जाता है। प्याज़ के रायते और बैंगन करी के साथ परोसा जाता है।",
+    },
+    "chicken-briyani": {
+      name: "चिकन बिरयानी",
+      description: "रसीले चिकन, बढ़िया बासमती चावल और खुशबूदार मसालों के साथ पारंपरिक आंबूर-शैली की बिरयानी।",
+      longDescription: "हड्डी वाला रसीला चिकन बासमती चावल, पुदीने और हमारे खास मसाले के साथ दम में पकाया जाता है। मटन बिरयानी से हल्की पर उतनी ही खुशबूदार, प्याज़ के रायते और बैंगन करी के साथ परोसी जाती है।",
+    },
+    "boneless-chicken-65": {
+      name: "बोनलेस चिकन 65",
+      description: "तीखे, तले हुए चिकन के टुकड़े — एक क्लासिक स्टार्टर।",
+      longDescription: "बोनलेस चिकन को मिर्च, अदरक, लहसुन और करी पत्ते में मैरिनेट कर हल्के घोल में लपेटा जाता है और कुरकुरा होने तक तला जाता है। ऊपर से हरी मिर्च और करी पत्ते का तड़का।",
+    },
+    "chicken-lollipop": {
+      name: "चिकन लॉलीपॉप",
+      description: "लॉलीपॉप आकार के चिकन विंग्स — मज़ेदार और स्वादिष्ट स्टार्टर।",
+      longDescription: "लॉलीपॉप आकार में काटे गए चिकन विंग्स इंडो-चाइनीज़ मसालों में मैरिनेट कर कुरकुरे तले जाते हैं। खट्टे-तीखे शेज़वान डिप के साथ परोसे जाते हैं।",
+    },
+    "gobi-manchurian": {
+      name: "गोभी मंचूरियन",
+      description: "खट्टी मंचूरियन सॉस में कुरकुरी फूलगोभी।",
+      longDescription: "कुरकुरे घोल में तली फूलगोभी को लहसुन, हरे प्याज़ और हरी मिर्च के साथ चमकदार मंचूरियन सॉस में उछाला जाता है।",
+    },
+    "chicken-fried-rice": {
+      name: "चिकन फ्राइड राइस",
+      description: "चिकन और सब्ज़ियों के साथ कड़ाही में तला फ्राइड राइस।",
+      longDescription: "लंबे दाने वाले चावल को तेज़ आँच पर कटे चिकन, अंडे, पत्ता गोभी, गाजर और हरे प्याज़ के साथ उछाला जाता है, सोया और काली मिर्च से स्वाद दिया जाता है।",
+    },
+    "chicken-bbq": {
+      name: "चिकन BBQ",
+      description: "धुएँदार बारबेक्यू स्वाद के साथ ग्रिल किया मुलायम चिकन।",
+      longDescription: "धुएँदार, खट्टे बारबेक्यू मसाले में मैरिनेट चिकन के टुकड़े कोयले पर किनारे जलने तक ग्रिल किए जाते हैं। पुदीने की चटनी और कटे प्याज़ के साथ परोसे जाते हैं।",
+    },
+    "tandoori-chicken": {
+      name: "तंदूरी चिकन",
+      description: "दही और मसालों में मैरिनेट कर तंदूर में पकाया चिकन।",
+      longDescription: "दही, कश्मीरी मिर्च और गरम मसाले में घंटों मैरिनेट चिकन को धुएँदार स्वाद के लिए तंदूर में भूना जाता है। पुदीने की चटनी, प्याज़ और नींबू के साथ परोसा जाता है।",
+    },
+    "butter-chicken-gravy": {
+      name: "बटर चिकन ग्रेवी",
+      description: "मलाईदार और गाढ़ी बटर चिकन करी।",
+      longDescription: "तंदूर में भुना चिकन टमाटर, मक्खन और काजू की मखमली ग्रेवी में कसूरी मेथी के साथ पकाया जाता है। हल्का, गाढ़ा और पराठे के साथ सबसे अच्छा।",
+    },
+    "mutton-chukka": {
+      name: "मटन चुक्का",
+      description: "खुशबूदार मसालों के साथ सूखी मटन करी।",
+      longDescription: "छोटे मटन के टुकड़े छोटे प्याज़, काली मिर्च, सौंफ और करी पत्ते के साथ तब तक भूने जाते हैं जब तक मसाला हर टुकड़े पर लिपट न जाए। तमिलनाडु का तीखा पसंदीदा व्यंजन।",
+    },
+    "fish-fry": {
+      name: "फ़िश फ्राई",
+      description: "कुरकुरी और तीखी तली मछली — तटीय व्यंजन।",
+      longDescription: "ताज़ी सुरमई मछली के टुकड़ों पर मिर्च, हल्दी और नींबू का तटीय मसाला लगाकर बाहर से कुरकुरा और अंदर से नरम होने तक तला जाता है।",
+    },
+    parotta: {
+      name: "पराठा",
+      description: "परतदार रोटी, किसी भी करी के साथ बढ़िया।",
+      longDescription: "हाथ से फैलाकर तवे पर सेंका गया कई परतों वाला मुलायम पराठा। चिकन या मटन सालना के साथ खाने के लिए बिल्कुल सही।",
+    },
+    "chicken-gravy": {
+      name: "चिकन ग्रेवी",
+      description: "चावल या रोटी के साथ बढ़िया गाढ़ी चिकन करी।",
+      longDescription: "भुने नारियल, सौंफ और साबुत मसालों के साथ गाढ़ी होने तक धीरे-धीरे पकाई गई घरेलू चिकन करी। चावल, पराठे या बिरयानी के साथ शानदार।",
+    },
+    "veg-fried-rice": {
+      name: "वेज फ्राइड राइस",
+      description: "चावल और मिली-जुली सब्ज़ियों का क्लासिक स्टर-फ्राई।",
+      longDescription: "लंबे दाने वाले चावल को बीन्स, गाजर, पत्ता गोभी, शिमला मिर्च और हरे प्याज़ के साथ कड़ाही में उछाला जाता है, सोया और सफ़ेद मिर्च से स्वाद दिया जाता है।",
+    },
+  },
+};
+
+export const menuTranslations: Partial<Record<Locale, MenuTranslations>> = { ta, hi };
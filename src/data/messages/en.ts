@@ -0,0 +1,339 @@
+/**
+ * English Messages
+ * The reference catalog: every other locale must define the same keys.
+ * Placeholders are written {name}; <hl>…</hl> and <strong>…</strong> mark
+ * inline emphasis. Plural forms are keyed with .one/.other suffixes.
+ */
+
+export const en = {
+  // Page titles and descriptions
+  "meta.home.title": "{restaurant} | Authentic Ambur Biryani Near Me | Best Biryani Restaurant",
+  "meta.home.description": "Experience authentic Ambur biryani at Original Ambur Briyani. Best biryani near me with traditional chicken biryani, mutton biryani & dum biryani. Order online for delivery.",
+  "meta.about.title": "About Us | {restaurant} - Ambur Biryani Since {year}",
+  "meta.about.description": "The legacy of {restaurant}: authentic Ambur-style dum biryani served from our MC Road landmark since {year}.",
+  "meta.menu.title": "Menu | {restaurant} - Briyani, Starters, BBQ & Curries",
+  "meta.menu.description": "Browse the full {restaurant} menu: mutton and chicken briyani, Chicken 65, tandoori, curries and parotta. Order on WhatsApp for pickup or delivery.",
+  "meta.contact.title": "Contact & Opening Hours | {restaurant}",
+  "meta.contact.description": "Call, WhatsApp or visit {restaurant} at {address}. Opening hours, directions and table reservations.",
+  "meta.category.title": "{category} Menu | {restaurant}",
+  "meta.category.description": "{category} at {restaurant}, Ambur: {dishes}. Order on WhatsApp for pickup or delivery.",
+  "meta.dish.title": "{dish} | {category} | {restaurant}",
+
+  // Navigation
+  "nav.home": "Home",
+  "nav.about": "About",
+  "nav.menu": "Menu",
+  "nav.contact": "Contact",
+  "nav.homeAria": "Navigate to home section",
+  "nav.aboutAria": "Navigate to about section",
+  "nav.menuAria": "Navigate to menu section",
+  "nav.contactAria": "Navigate to contact section",
+  "nav.tagline": "Authentic Taste Since Forever",
+  "nav.quickInfo": "Quick Info",
+  "nav.openHours": "Open Hours",
+  "nav.location": "Location",
+  "nav.locationValue": "Ambur, Tamil Nadu",
+  "nav.callUs": "Call Us",
+  "nav.contactInfo": "Contact",
+  "nav.panelTitle": "Menu",
+  "nav.restaurantInfo": "Restaurant Info",
+  "nav.deluxe": "Deluxe Restaurant",
+  "nav.language": "Language",
+
+  // Hero
+  "hero.title": "Authentic Ambur Biryani",
+  "hero.subtitle": "Best Biryani Near Me",
+  "hero.tagline": "Traditional chicken biryani, mutton biryani & dum biryani since 1967. Order ambur biryani online for delivery.",
+  "hero.menu": "MENU",
+  "hero.orderOnline": "ORDER ONLINE",
+  "hero.orderNow": "ORDER NOW",
+  "hero.videoUnsupported": "Your browser does not support the video tag.",
+  "hero.logoAlt": "Ambur Star Biryani Logo - Original Ambur Briyani Restaurant Since 1967",
+  "hero.cornerLogoAlt": "Ambur Star Biryani Logo - Authentic Biryani Restaurant Near Me",
+  "hero.textLogoAlt": "Original Ambur Briyani Deluxe - Since 1967",
+
+  // About
+  "about.title": "The Legacy of Original Ambur Briyani",
+  "about.since": "Since 1967",
+  "about.decades": "5+ Decades of Excellence",
+  "about.subtitle": "An Authentic Taste Rooted in Tradition",
+  "about.image.interior": "Our Heritage Since 1967",
+  "about.image.interiorAlt": "Original Ambur Briyani Restaurant Interior",
+  "about.image.cooking": "Traditional Cooking Methods",
+  "about.image.cookingAlt": "Authentic Ambur Biryani Preparation",
+  "about.image.dining": "Family Dining Tradition",
+  "about.image.diningAlt": "Original Ambur Briyani Dining Experience",
+  "about.image.facade": "MC Road Landmark",
+  "about.image.facadeAlt": "Original Ambur Briyani Restaurant Facade",
+  "about.image.hall": "Modern Comfort, Traditional Taste",
+  "about.image.hallAlt": "Deluxe AC Dining Hall",
+  "about.goToImage": "Go to image {index}",
+  "about.story1": "In the heart of Ambur, nestled along MC Road, stands a culinary landmark that has carried forward the timeless legacy of Tamil Nadu's most beloved dish — <hl>Ambur Biryani</hl>.",
+  "about.story2": "Established in <hl>1967</hl>, <strong>ORIGINAL AMBUR BRIYANI (Deluxe A/C)</strong> is more than just a restaurant — it's a living tradition, steeped in flavor, heritage, and the warmth of family cooking.",
+  "about.story3": "For over <hl>five decades</hl>, this humble kitchen has perfected the art of biryani, drawing on age-old recipes passed down through generations. From the unmistakable aroma of fragrant seeraga samba rice to the tender, slow-cooked cuts of chicken and mutton, every plate tells a story of craftsmanship and devotion.",
+  "about.averageRating": "Average Guest Rating",
+  "about.yearsOfExcellence": "Years of Excellence",
+  "about.journey": "Our Journey",
+  "about.throughTime": "Through Time",
+  "about.timeline.founded.year": "1967",
+  "about.timeline.founded.event": "Founded on MC Road",
+  "about.timeline.founded.description": "Our journey began with a simple mission - authentic Ambur biryani",
+  "about.timeline.recipe.year": "1980s",
+  "about.timeline.recipe.event": "Family Recipe Perfected",
+  "about.timeline.recipe.description": "Refined our signature blend of spices and dum cooking technique",
+  "about.timeline.upgrade.year": "2000s",
+  "about.timeline.upgrade.event": "Deluxe A/C Upgrade",
+  "about.timeline.upgrade.description": "Enhanced dining comfort while preserving traditional flavors",
+  "about.timeline.today.year": "Today",
+  "about.timeline.today.event": "Loved by Generations of Guests",
+  "about.timeline.today.description": "Serving thousands of satisfied customers with the same authentic taste",
+  "about.feature.recipes.title": "Time-Honored Recipes",
+  "about.feature.recipes.text": "Cooked with a unique blend of hand-ground spices, traditional dum techniques, and love.",
+  "about.feature.comfort.title": "Deluxe A/C Comfort",
+  "about.feature.comfort.text": "We blend heritage cooking with the comfort of a deluxe air-conditioned dining space.",
+  "about.feature.hospitality.title": "Warm Hospitality",
+  "about.feature.hospitality.text": "Every guest is welcomed like family — always with a smile, always with care.",
+  "about.visitUs": "Visit Us",
+  "about.openDaily": "Open Daily",
+  "about.openDailyHours": "10 AM – 12 Midnight",
+  "about.location": "Location",
+  "about.address": "12, MC Road, Ambur, Tamil Nadu",
+  "about.contact": "Contact",
+  "about.badge.delivery": "Delivery Available",
+  "about.badge.cards": "Credit Cards Accepted",
+  "about.badge.wheelchair": "Wheelchair Accessible",
+  "about.badge.family": "Family Friendly",
+
+  // Menu
+  "menu.title": "Our Menu",
+  "menu.subtitle": "Authentic Ambur Briyani and delicious South Indian cuisine!",
+  "menu.searchPlaceholder": "Search dishes, e.g. biryani or 65",
+  "menu.searchLabel": "Search the menu",
+  "menu.clearSearch": "Clear search",
+  "menu.resultsFound.one": "{count} dish found for \"{query}\"",
+  "menu.resultsFound.other": "{count} dishes found for \"{query}\"",
+  "menu.allCategories": "All",
+  "menu.moreCategories": "More Categories",
+  "menu.viewDetails": "View details for {dish}",
+  "menu.popular": "Popular",
+  "menu.veg": "Veg",
+  "menu.sizes": "{portion} · {count} sizes",
+  "menu.addMore": "Add More · {count} in order",
+  "menu.chooseOptions": "Choose Options",
+  "menu.addToOrder": "Add to Order",
+  "menu.noMatchQuery": "No dishes match \"{query}\"",
+  "menu.noMatchFilters": "No dishes match these filters",
+  "menu.tryAnotherSpelling": "Try another spelling.",
+  "menu.tryAnotherSpellingOrAll": "Try another spelling or search all categories.",
+  "menu.tryRemovingFilter": "Try removing a filter.",
+  "menu.tryRemovingFilterOrAll": "Try removing a filter or search all categories.",
+  "menu.searchAllCategories": "Search all categories",
+  "menu.clearFilters": "Clear filters",
+  "menu.facet.veg": "Veg only",
+  "menu.facet.non-spicy": "Non-spicy",
+  "menu.facet.popular": "Popular",
+  "menu.facet.top-rated": "Rating {rating}+",
+  "menu.sort.recommended": "Recommended",
+  "menu.sort.price-asc": "Price: Low to High",
+  "menu.sort.price-desc": "Price: High to Low",
+  "menu.sort.rating": "Top Rated",
+  "menu.sort.popularity": "Most Popular",
+  "menu.price": "Price",
+  "menu.priceRange": "Price range",
+  "menu.sortBy": "Sort by",
+  "menu.clearFiltersCount": "Clear filters ({count})",
+  "menu.viewOrder.one": "View Order · {count} item · {total}",
+  "menu.viewOrder.other": "View Order · {count} items · {total}",
+  "menu.soldOut": "Sold out today",
+  "menu.availableFrom": "Available from {time}",
+  "menu.availableTomorrow": "Available tomorrow",
+  "menu.availableTomorrowFrom": "Available tomorrow from {time}",
+  "menu.availableOn": "Available on {day}",
+  "menu.availableOnFrom": "Available {day} from {time}",
+  "menu.notAvailable": "Not available",
+  "menu.taxIncluded": "All prices include {rate}% GST",
+  "menu.taxExcluded": "Prices are before {rate}% GST, which is added at checkout",
+
+  // Offers
+  "promo.label": "Current offers",
+  "promo.useCode": "Use code {code}",
+  "promo.withCode": "{title} ({code})",
+  "promo.repeated": "{title} x {times}",
+  "promo.couponApplied": "Code {code} applied",
+  "promo.couponUnknown": "{code} isn't a valid code",
+  "promo.couponShortBy": "Add {amount} more to use {code}",
+  "promo.couponNotNow": "{code} can't be used on this order right now",
+  // Built-in offers by id; offers added later show as written
+  "promo.briyani-feast.title": "Briyani Feast",
+  "promo.briyani-feast.description": "2 Chicken Briyani (Half) + 1 Boneless Chicken 65 for ₹399",
+  "promo.parotta-3-for-2.title": "Parotta 3 for 2",
+  "promo.parotta-3-for-2.description": "Buy 2 parottas, get a third free",
+  "promo.starter-tuesday.title": "Starter Tuesday",
+  "promo.starter-tuesday.description": "15% off every starter on Tuesdays",
+  "promo.diwali-2026.title": "Diwali special",
+  "promo.diwali-2026.description": "10% off orders over ₹500, up to ₹150",
+  "promo.first-order.title": "First order",
+  "promo.first-order.description": "₹50 off your first order over ₹400",
+
+  // Cart
+  "cart.title": "Your Order",
+  "cart.description": "Review your dishes and send the order to us on WhatsApp.",
+  "cart.recentOrders": "My recent orders ({count})",
+  "cart.empty": "Your cart is empty",
+  "cart.emptyHint": "Add a few dishes from the menu to get started.",
+  "cart.browseMenu": "Browse Menu",
+  "cart.remove": "Remove {dish} from cart",
+  "cart.couponPlaceholder": "Coupon code",
+  "cart.removeCoupon": "Remove code {code}",
+  "cart.apply": "Apply",
+  "cart.namePlaceholder": "Your Name",
+  "cart.nameLabel": "Your name",
+  "cart.orderType": "Order type",
+  "cart.payment": "Payment",
+  "cart.payOnDelivery": "Pay on delivery",
+  "cart.payAtPickup": "Pay at pickup",
+  "cart.payNow": "Pay now (UPI)",
+  "cart.upiNeedsName": "Add your name to pay with UPI.",
+  "cart.upiNeedsNameAndAddress": "Add your name and a delivery address we cover to pay with UPI.",
+  "cart.unavailable": "Remove the dishes we can't serve right now to send your order.",
+  "cart.send": "Send order on WhatsApp",
+  "cart.clear": "Clear cart",
+
+  // Orders, shared by the cart, the WhatsApp message and receipts
+  "order.reference": "Order {reference}",
+  "order.greeting": "Hi {restaurant}! I'd like to place an order:",
+  "order.referenceLine": "Order ref: {reference}",
+  "order.addOns": "Add-ons: {addOns}",
+  "order.each": "{price} each",
+  "order.subtotal": "Subtotal",
+  "order.packaging": "Packaging",
+  "order.deliveryFee": "Delivery fee",
+  "order.free": "Free",
+  "order.tax": "{tax} {rate}%",
+  "order.taxIncluded": "{tax} {rate}% (incl.)",
+  "order.roundOff": "Round off",
+  "order.total": "Total",
+  "order.name": "Name: {name}",
+  "order.type": "Order type: {type}",
+  "order.pickup": "Pickup",
+  "order.delivery": "Delivery",
+  "order.deliverTo": "Deliver to: {location}",
+  "order.payment": "Payment: {method}",
+  "order.payOnDelivery": "On delivery",
+  "order.payAtPickup": "At pickup",
+  "order.payUpi": "UPI to {upiId}",
+  "order.payUpiWithNote": "UPI to {upiId} (note {reference})",
+  "order.thanks": "Thank you! Quote your order reference when you call or collect.",
+  "order.receiptLabel": "Receipt for order {reference}",
+
+  // Recent orders
+  "recent.title": "My recent orders",
+  "recent.description": "Orders sent from this device. They're only kept in this browser.",
+  "recent.receiptDescription": "Print it, save it as an image or PDF, or share it.",
+  "recent.empty": "Orders you send on WhatsApp from this device will show up here.",
+  "recent.items.one": "{count} item",
+  "recent.items.other": "{count} items",
+  "recent.remove": "Remove order {reference} from this device",
+  "recent.all": "All recent orders",
+  "recent.print": "Print",
+  "recent.share": "Share",
+  "recent.saveImage": "Save image",
+  "recent.savePdf": "Save PDF",
+  "recent.exportFailed": "Couldn't create the receipt",
+  "recent.exportFailedHint": "Please try again or print it instead.",
+
+  // Reviews
+  "reviews.title": "What Our Guests Say",
+  "reviews.summary.one": "{rating} out of 5 from {count} review",
+  "reviews.summary.other": "{rating} out of 5 from {count} reviews",
+  "reviews.stars": "{rating} out of 5 stars",
+  "reviews.onDish": "on {dish}",
+  "reviews.photoAlt": "Photo from {author}",
+  "reviews.previous": "Previous reviews",
+  "reviews.next": "Next reviews",
+  "reviews.empty": "No reviews yet. Be the first to tell us what you think!",
+  "reviews.write": "Write a Review",
+
+  // Dish details
+  "dish.share": "Share",
+  "dish.portionSize": "Portion size",
+  "dish.portion": "Portion",
+  "dish.addOns": "Add-ons",
+  "dish.optional": "(optional)",
+  "dish.ingredients": "Ingredients",
+  "dish.allergens": "Allergens",
+  "dish.noAllergens": "No common allergens",
+  "dish.allergyNote": "Prepared in a kitchen that handles nuts, dairy and gluten. Please tell us about any allergies.",
+  "dish.packaging": "Packaging: {amount} per portion for pickup and delivery",
+  "dish.add": "Add · {total}",
+  "dish.added": "Added to your order",
+
+  // Contact
+  "contact.title": "Get In Touch",
+  "contact.subtitle": "Contact us for reservations, special orders, or any questions you may have",
+  "contact.callUs": "Call Us",
+  "contact.location": "Location",
+  "contact.locationValue": "Ambur, Tamil Nadu",
+  "contact.openHours": "Open Hours",
+  "contact.payment": "Payment",
+  "contact.paymentMethods": "Cards, Cash, UPI",
+  "contact.quickOrder": "Quick Order",
+  "contact.call": "Call {phone}",
+  "contact.whatsappOrder": "WhatsApp Order",
+  "contact.reserveTable": "Reserve a Table",
+  "contact.sendMessageTitle": "Send us a Message",
+  "contact.namePlaceholder": "Your Name",
+  "contact.phonePlaceholder": "Phone Number",
+  "contact.emailPlaceholder": "Email Address (optional)",
+  "contact.messagePlaceholder": "Your Message...",
+  "contact.sending": "Sending...",
+  "contact.send": "Send Message",
+  "contact.visitTitle": "Visit Our Restaurant",
+  "contact.visitAddress": "Ambur, Tamil Nadu, India",
+  "contact.directions": "Get Directions",
+  "contact.viewOrder.one": "View order with {count} item",
+  "contact.viewOrder.other": "View order with {count} items",
+  "contact.error.name": "Please enter your name",
+  "contact.error.nameLength": "Name must be {max} characters or fewer",
+  "contact.error.phone": "Enter a valid 10-digit Indian mobile number",
+  "contact.error.email": "Enter a valid email address",
+  "contact.error.subjectLength": "Subject must be {max} characters or fewer",
+  "contact.error.messageShort": "Message must be at least {min} characters",
+  "contact.error.messageLong": "Message must be {max} characters or fewer",
+  "contact.sent": "Message sent",
+  "contact.sentDelivered": "Thanks for reaching out! We'll get back to you shortly.",
+  "contact.sentReady": "Your message is ready - just hit send to reach us.",
+  "contact.notSent": "Message not sent",
+  "contact.notSentHint": "Please try again or call us directly.",
+
+  // Opening hours
+  "hours.openUntil": "Open now · closes at {time}",
+  "hours.opensAt": "Opens at {time}",
+  "hours.opensTomorrowAt": "Opens tomorrow at {time}",
+  "hours.opensOnAt": "Opens {day} at {time}",
+  "hours.closed": "Closed",
+  "hours.everyDay": "Every day: {hours}",
+  "hours.day": "{day}: {hours}",
+  "hours.period": "{opens} – {closes}",
+  "hours.midnight": "midnight",
+  "hours.noon": "noon",
+
+  // Installable app
+  "app.updateTitle": "A new version is available",
+  "app.updateDescription": "Reload to get the latest menu and prices.",
+  "app.reload": "Reload",
+  "app.orderQueuedTitle": "You're offline",
+  "app.orderQueuedDescription": "We've saved your order and will hand it to WhatsApp once you're back online.",
+  "app.orderReadyTitle": "You're back online",
+  "app.orderReadyDescription": "Your saved order is ready to send on WhatsApp.",
+  "app.sendOrder": "Send on WhatsApp",
+
+  // Analytics consent
+  "consent.message": "Can we count which dishes and buttons get used and how fast pages load? It's anonymous: no names, phone numbers, messages or cookies.",
+  "consent.allow": "Allow",
+  "consent.decline": "No thanks",
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
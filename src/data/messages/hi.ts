@@ -0,0 +1,333 @@
+/**
+ * Hindi Messages
+ */
+
+import type { Messages } from "./en";
+
+export const hi: Messages = {
+  // Page titles and descriptions
+  "meta.home.title": "{restaurant} | असली आंबूर बिरयानी | मेरे पास सबसे अच्छी बिरयानी",
+  "meta.home.description": "Original Ambur Briyani में असली आंबूर बिरयानी का स्वाद लें। पारंपरिक चिकन बिरयानी, मटन बिरयानी और दम बिरयानी। डिलीवरी के लिए ऑनलाइन ऑर्डर करें।",
+  "meta.about.title": "हमारे बारे में | {restaurant} - {year} से आंबूर बिरयानी",
+  "meta.about.description": "{restaurant} की विरासत: {year} से एम.सी. रोड पर असली आंबूर-शैली की दम बिरयानी।",
+  "meta.menu.title": "मेन्यू | {restaurant} - बिरयानी, स्टार्टर्स, BBQ और करी",
+  "meta.menu.description": "{restaurant} का पूरा मेन्यू: मटन और चिकन बिरयानी, चिकन 65, तंदूरी, करी और पराठा। पिकअप या डिलीवरी के लिए WhatsApp पर ऑर्डर करें।",
+  "meta.contact.title": "संपर्क और समय | {restaurant}",
+  "meta.contact.description": "{address} पर {restaurant} को कॉल करें, WhatsApp करें या आएँ। खुलने का समय, रास्ता और टेबल बुकिंग।",
+  "meta.category.title": "{category} मेन्यू | {restaurant}",
+  "meta.category.description": "{restaurant}, आंबूर में {category}: {dishes}। पिकअप या डिलीवरी के लिए WhatsApp पर ऑर्डर करें।",
+  "meta.dish.title": "{dish} | {category} | {restaurant}",
+
+  // Navigation
+  "nav.home": "होम",
+  "nav.about": "हमारे बारे में",
+  "nav.menu": "मेन्यू",
+  "nav.contact": "संपर्क",
+  "nav.homeAria": "होम सेक्शन पर जाएँ",
+  "nav.aboutAria": "हमारे बारे में सेक्शन पर जाएँ",
+  "nav.menuAria": "मेन्यू सेक्शन पर जाएँ",
+  "nav.contactAria": "संपर्क सेक्शन पर जाएँ",
+  "nav.tagline": "हमेशा वही असली स्वाद",
+  "nav.quickInfo": "त्वरित जानकारी",
+  "nav.openHours": "खुलने का समय",
+  "nav.location": "पता",
+  "nav.locationValue": "आंबूर, तमिलनाडु",
+  "nav.callUs": "कॉल करें",
+  "nav.contactInfo": "संपर्क",
+  "nav.panelTitle": "मेन्यू",
+  "nav.restaurantInfo": "रेस्टोरेंट की जानकारी",
+  "nav.deluxe": "डीलक्स रेस्टोरेंट",
+  "nav.language": "भाषा",
+
+  // Hero
+  "hero.title": "असली आंबूर बिरयानी",
+  "hero.subtitle": "मेरे पास सबसे अच्छी बिरयानी",
+  "hero.tagline": "1967 से पारंपरिक चिकन बिरयानी, मटन बिरयानी और दम बिरयानी। डिलीवरी के लिए आंबूर बिरयानी ऑनलाइन ऑर्डर करें।",
+  "hero.menu": "मेन्यू",
+  "hero.orderOnline": "ऑनलाइन ऑर्डर",
+  "hero.orderNow": "अभी ऑर्डर करें",
+  "hero.videoUnsupported": "आपका ब्राउज़र वीडियो टैग का समर्थन नहीं करता।",
+  "hero.logoAlt": "आंबूर स्टार बिरयानी लोगो - 1967 से Original Ambur Briyani रेस्टोरेंट",
+  "hero.cornerLogoAlt": "आंबूर स्टार बिरयानी लोगो - मेरे पास असली बिरयानी रेस्टोरेंट",
+  "hero.textLogoAlt": "Original Ambur Briyani डीलक्स - 1967 से",
+
+  // About
+  "about.title": "Original Ambur Briyani की विरासत",
+  "about.since": "1967 से",
+  "about.decades": "5+ दशकों की उत्कृष्टता",
+  "about.subtitle": "परंपरा में रचा-बसा असली स्वाद",
+  "about.image.interior": "1967 से हमारी विरासत",
+  "about.image.interiorAlt": "Original Ambur Briyani रेस्टोरेंट का अंदरूनी हिस्सा",
+  "about.image.cooking": "पारंपरिक पाक विधियाँ",
+  "about.image.cookingAlt": "असली आंबूर बिरयानी की तैयारी",
+  "about.image.dining": "पारिवारिक भोजन की परंपरा",
+  "about.image.diningAlt": "Original Ambur Briyani में भोजन का अनुभव",
+  "about.image.facade": "एम.सी. रोड की पहचान",
+  "about.image.facadeAlt": "Original Ambur Briyani रेस्टोरेंट का सामने का हिस्सा",
+  "about.image.hall": "आधुनिक आराम, पारंपरिक स्वाद",
+  "about.image.hallAlt": "डीलक्स एसी डाइनिंग हॉल",
+  "about.goToImage": "चित्र {index} पर जाएँ",
+  "about.story1": "आंबूर के दिल में, एम.सी. रोड पर, एक ऐसी पाक पहचान खड़ी है जिसने तमिलनाडु के सबसे प्रिय व्यंजन — <hl>आंबूर बिरयानी</hl> — की कालातीत विरासत को आगे बढ़ाया है।",
+  "about.story2": "<hl>1967</hl> में स्थापित <strong>ORIGINAL AMBUR BRIYANI (डीलक्स एसी)</strong> सिर्फ़ एक रेस्टोरेंट नहीं है — यह स्वाद, विरासत और घर के खाने की गर्माहट से भरी एक जीवित परंपरा है।",
+  "about.story3": "<hl>पाँच दशकों से भी अधिक</hl> समय से, इस सादे रसोईघर ने पीढ़ियों से चली आ रही पुरानी विधियों के सहारे बिरयानी की कला को निखारा है। खुशबूदार सीरगा सांबा चावल की अनोखी महक से लेकर धीमी आँच पर पके मुलायम चिकन और मटन तक, हर प्लेट कारीगरी और समर्पण की कहानी कहती है।",
+  "about.averageRating": "औसत रेटिंग",
+  "about.yearsOfExcellence": "वर्षों की उत्कृष्टता",
+  "about.journey": "हमारा सफ़र",
+  "about.throughTime": "समय के साथ",
+  "about.timeline.founded.year": "1967",
+  "about.timeline.founded.event": "एम.सी. रोड पर स्थापना",
+  "about.timeline.founded.description": "हमारा सफ़र एक सरल लक्ष्य से शुरू हुआ - असली आंबूर बिरयानी",
+  "about.timeline.recipe.year": "1980 का दशक",
+  "about.timeline.recipe.event": "पारिवारिक विधि में निखार",
+  "about.timeline.recipe.description": "अपने खास मसाला मिश्रण और दम पकाने की तकनीक को निखारा",
+  "about.timeline.upgrade.year": "2000 का दशक",
+  "about.timeline.upgrade.event": "डीलक्स एसी अपग्रेड",
+  "about.timeline.upgrade.description": "पारंपरिक स्वाद को बनाए रखते हुए भोजन का आराम बढ़ाया",
+  "about.timeline.today.year": "आज",
+  "about.timeline.today.event": "पीढ़ियों से मेहमानों का प्यार",
+  "about.timeline.today.description": "उसी असली स्वाद के साथ हज़ारों संतुष्ट ग्राहकों की सेवा",
+  "about.feature.recipes.title": "पुरानी पारंपरिक विधियाँ",
+  "about.feature.recipes.text": "हाथ से पिसे मसालों, पारंपरिक दम तकनीक और प्यार से पकाया गया।",
+  "about.feature.comfort.title": "डीलक्स एसी आराम",
+  "about.feature.comfort.text": "हम पारंपरिक खाना पकाने को डीलक्स वातानुकूलित डाइनिंग के आराम के साथ जोड़ते हैं।",
+  "about.feature.hospitality.title": "गर्मजोशी भरा आतिथ्य",
+  "about.feature.hospitality.text": "हर मेहमान का स्वागत परिवार की तरह होता है — हमेशा मुस्कान के साथ, हमेशा देखभाल के साथ।",
+  "about.visitUs": "हमसे मिलने आएँ",
+  "about.openDaily": "रोज़ खुला",
+  "about.openDailyHours": "सुबह 10 – रात 12 बजे",
+  "about.location": "पता",
+  "about.address": "12, एम.सी. रोड, आंबूर, तमिलनाडु",
+  "about.contact": "संपर्क",
+  "about.badge.delivery": "डिलीवरी उपलब्ध",
+  "about.badge.cards": "क्रेडिट कार्ड स्वीकार",
+  "about.badge.wheelchair": "व्हीलचेयर सुलभ",
+  "about.badge.family": "परिवार के अनुकूल",
+
+  // Menu
+  "menu.title": "हमारा मेन्यू",
+  "menu.subtitle": "असली आंबूर बिरयानी और स्वादिष्ट दक्षिण भारतीय व्यंजन!",
+  "menu.searchPlaceholder": "व्यंजन खोजें, जैसे biryani या 65",
+  "menu.searchLabel": "मेन्यू में खोजें",
+  "menu.clearSearch": "खोज साफ़ करें",
+  "menu.resultsFound.one": "\"{query}\" के लिए {count} व्यंजन मिला",
+  "menu.resultsFound.other": "\"{query}\" के लिए {count} व्यंजन मिले",
+  "menu.allCategories": "सभी",
+  "menu.moreCategories": "और श्रेणियाँ",
+  "menu.viewDetails": "{dish} का विवरण देखें",
+  "menu.popular": "लोकप्रिय",
+  "menu.veg": "शाकाहारी",
+  "menu.sizes": "{portion} · {count} साइज़",
+  "menu.addMore": "और जोड़ें · ऑर्डर में {count}",
+  "menu.chooseOptions": "विकल्प चुनें",
+  "menu.addToOrder": "ऑर्डर में जोड़ें",
+  "menu.noMatchQuery": "\"{query}\" से मेल खाता कोई व्यंजन नहीं",
+  "menu.noMatchFilters": "इन फ़िल्टर से मेल खाता कोई व्यंजन नहीं",
+  "menu.tryAnotherSpelling": "कोई दूसरी वर्तनी आज़माएँ।",
+  "menu.tryAnotherSpellingOrAll": "कोई दूसरी वर्तनी आज़माएँ या सभी श्रेणियों में खोजें।",
+  "menu.tryRemovingFilter": "कोई फ़िल्टर हटाकर देखें।",
+  "menu.tryRemovingFilterOrAll": "कोई फ़िल्टर हटाकर देखें या सभी श्रेणियों में खोजें।",
+  "menu.searchAllCategories": "सभी श्रेणियों में खोजें",
+  "menu.clearFilters": "फ़िल्टर साफ़ करें",
+  "menu.facet.veg": "केवल शाकाहारी",
+  "menu.facet.non-spicy": "कम तीखा",
+  "menu.facet.popular": "लोकप्रिय",
+  "menu.facet.top-rated": "रेटिंग {rating}+",
+  "menu.sort.recommended": "अनुशंसित",
+  "menu.sort.price-asc": "कीमत: कम से ज़्यादा",
+  "menu.sort.price-desc": "कीमत: ज़्यादा से कम",
+  "menu.sort.rating": "सबसे ज़्यादा रेटिंग",
+  "menu.sort.popularity": "सबसे लोकप्रिय",
+  "menu.price": "कीमत",
+  "menu.priceRange": "कीमत सीमा",
+  "menu.sortBy": "क्रम से लगाएँ",
+  "menu.clearFiltersCount": "फ़िल्टर साफ़ करें ({count})",
+  "menu.viewOrder.one": "ऑर्डर देखें · {count} आइटम · {total}",
+  "menu.viewOrder.other": "ऑर्डर देखें · {count} आइटम · {total}",
+  "menu.soldOut": "आज बिक चुका है",
+  "menu.availableFrom": "{time} से उपलब्ध",
+  "menu.availableTomorrow": "कल उपलब्ध",
+  "menu.availableTomorrowFrom": "कल {time} से उपलब्ध",
+  "menu.availableOn": "{day} को उपलब्ध",
+  "menu.availableOnFrom": "{day} {time} से उपलब्ध",
+  "menu.notAvailable": "उपलब्ध नहीं",
+  "menu.taxIncluded": "सभी कीमतों में {rate}% GST शामिल है",
+  "menu.taxExcluded": "कीमतों में {rate}% GST शामिल नहीं है, यह ऑर्डर करते समय जोड़ा जाएगा",
+
+  // Offers
+  "promo.label": "मौजूदा ऑफ़र",
+  "promo.useCode": "कोड {code} इस्तेमाल करें",
+  "promo.withCode": "{title} ({code})",
+  "promo.repeated": "{title} x {times}",
+  "promo.couponApplied": "कोड {code} लागू हो गया",
+  "promo.couponUnknown": "{code} मान्य कोड नहीं है",
+  "promo.couponShortBy": "{code} इस्तेमाल करने के लिए {amount} और जोड़ें",
+  "promo.couponNotNow": "{code} अभी इस ऑर्डर पर इस्तेमाल नहीं हो सकता",
+  "promo.briyani-feast.title": "बिरयानी दावत",
+  "promo.briyani-feast.description": "2 चिकन बिरयानी (हाफ़) + 1 बोनलेस चिकन 65, सिर्फ़ ₹399 में",
+  "promo.parotta-3-for-2.title": "पराठा 3 के दाम 2",
+  "promo.parotta-3-for-2.description": "2 पराठे खरीदें, तीसरा मुफ़्त",
+  "promo.starter-tuesday.title": "स्टार्टर मंगलवार",
+  "promo.starter-tuesday.description": "हर मंगलवार सभी स्टार्टर पर 15% की छूट",
+  "promo.diwali-2026.title": "दिवाली स्पेशल",
+  "promo.diwali-2026.description": "₹500 से ज़्यादा के ऑर्डर पर 10% की छूट, अधिकतम ₹150",
+  "promo.first-order.title": "पहला ऑर्डर",
+  "promo.first-order.description": "₹400 से ज़्यादा के पहले ऑर्डर पर ₹50 की छूट",
+
+  // Cart
+  "cart.title": "आपका ऑर्डर",
+  "cart.description": "अपने व्यंजन जाँचें और ऑर्डर हमें WhatsApp पर भेजें।",
+  "cart.recentOrders": "मेरे हाल के ऑर्डर ({count})",
+  "cart.empty": "आपकी कार्ट खाली है",
+  "cart.emptyHint": "शुरू करने के लिए मेन्यू से कुछ व्यंजन जोड़ें।",
+  "cart.browseMenu": "मेन्यू देखें",
+  "cart.remove": "{dish} को कार्ट से हटाएँ",
+  "cart.couponPlaceholder": "कूपन कोड",
+  "cart.removeCoupon": "कोड {code} हटाएँ",
+  "cart.apply": "लागू करें",
+  "cart.namePlaceholder": "आपका नाम",
+  "cart.nameLabel": "आपका नाम",
+  "cart.orderType": "ऑर्डर का प्रकार",
+  "cart.payment": "भुगतान",
+  "cart.payOnDelivery": "डिलीवरी पर भुगतान",
+  "cart.payAtPickup": "पिकअप पर भुगतान",
+  "cart.payNow": "अभी भुगतान करें (UPI)",
+  "cart.upiNeedsName": "UPI से भुगतान के लिए अपना नाम जोड़ें।",
+  "cart.upiNeedsNameAndAddress": "UPI से भुगतान के लिए अपना नाम और ऐसा डिलीवरी पता जोड़ें जहाँ हम पहुँचाते हैं।",
+  "cart.unavailable": "ऑर्डर भेजने के लिए वे व्यंजन हटाएँ जो हम अभी नहीं परोस सकते।",
+  "cart.send": "WhatsApp पर ऑर्डर भेजें",
+  "cart.clear": "कार्ट खाली करें",
+
+  // Orders
+  "order.reference": "ऑर्डर {reference}",
+  "order.greeting": "नमस्ते {restaurant}! मुझे एक ऑर्डर देना है:",
+  "order.referenceLine": "ऑर्डर नंबर: {reference}",
+  "order.addOns": "ऐड-ऑन: {addOns}",
+  "order.each": "{price} प्रति",
+  "order.subtotal": "उप-योग",
+  "order.packaging": "पैकेजिंग",
+  "order.deliveryFee": "डिलीवरी शुल्क",
+  "order.free": "मुफ़्त",
+  "order.tax": "{tax} {rate}%",
+  "order.taxIncluded": "{tax} {rate}% (शामिल)",
+  "order.roundOff": "राउंड ऑफ़",
+  "order.total": "कुल",
+  "order.name": "नाम: {name}",
+  "order.type": "ऑर्डर का प्रकार: {type}",
+  "order.pickup": "पिकअप",
+  "order.delivery": "डिलीवरी",
+  "order.deliverTo": "डिलीवरी का पता: {location}",
+  "order.payment": "भुगतान: {method}",
+  "order.payOnDelivery": "डिलीवरी पर",
+  "order.payAtPickup": "पिकअप पर",
+  "order.payUpi": "{upiId} पर UPI",
+  "order.payUpiWithNote": "{upiId} पर UPI (नोट {reference})",
+  "order.thanks": "धन्यवाद! कॉल करते या ऑर्डर लेते समय अपना ऑर्डर नंबर बताएँ।",
+  "order.receiptLabel": "ऑर्डर {reference} की रसीद",
+
+  // Recent orders
+  "recent.title": "मेरे हाल के ऑर्डर",
+  "recent.description": "इस डिवाइस से भेजे गए ऑर्डर। ये सिर्फ़ इसी ब्राउज़र में रखे जाते हैं।",
+  "recent.receiptDescription": "इसे प्रिंट करें, इमेज या PDF के रूप में सहेजें, या शेयर करें।",
+  "recent.empty": "इस डिवाइस से WhatsApp पर भेजे गए ऑर्डर यहाँ दिखेंगे।",
+  "recent.items.one": "{count} आइटम",
+  "recent.items.other": "{count} आइटम",
+  "recent.remove": "ऑर्डर {reference} को इस डिवाइस से हटाएँ",
+  "recent.all": "सभी हाल के ऑर्डर",
+  "recent.print": "प्रिंट करें",
+  "recent.share": "शेयर करें",
+  "recent.saveImage": "इमेज सहेजें",
+  "recent.savePdf": "PDF सहेजें",
+  "recent.exportFailed": "रसीद नहीं बन सकी",
+  "recent.exportFailedHint": "कृपया फिर से कोशिश करें या इसे प्रिंट करें।",
+
+  // Reviews
+  "reviews.title": "हमारे मेहमान क्या कहते हैं",
+  "reviews.summary.one": "{count} समीक्षा के आधार पर 5 में से {rating}",
+  "reviews.summary.other": "{count} समीक्षाओं के आधार पर 5 में से {rating}",
+  "reviews.stars": "5 में से {rating} सितारे",
+  "reviews.onDish": "{dish} के बारे में",
+  "reviews.photoAlt": "{author} की भेजी तस्वीर",
+  "reviews.previous": "पिछली समीक्षाएँ",
+  "reviews.next": "अगली समीक्षाएँ",
+  "reviews.empty": "अभी कोई समीक्षा नहीं है। अपनी राय सबसे पहले बताइए!",
+  "reviews.write": "समीक्षा लिखें",
+
+  // Dish details
+  "dish.share": "शेयर करें",
+  "dish.portionSize": "पोर्शन साइज़",
+  "dish.portion": "पोर्शन",
+  "dish.addOns": "ऐड-ऑन",
+  "dish.optional": "(वैकल्पिक)",
+  "dish.ingredients": "सामग्री",
+  "dish.allergens": "एलर्जेन",
+  "dish.noAllergens": "कोई सामान्य एलर्जेन नहीं",
+  "dish.allergyNote": "ऐसी रसोई में तैयार किया जाता है जहाँ मेवे, डेयरी और ग्लूटेन का उपयोग होता है। कृपया किसी भी एलर्जी के बारे में हमें बताएँ।",
+  "dish.packaging": "पैकेजिंग: पिकअप और डिलीवरी के लिए प्रति पोर्शन {amount}",
+  "dish.add": "जोड़ें · {total}",
+  "dish.added": "आपके ऑर्डर में जोड़ा गया",
+
+  // Contact
+  "contact.title": "संपर्क करें",
+  "contact.subtitle": "बुकिंग, खास ऑर्डर या किसी भी सवाल के लिए हमसे संपर्क करें",
+  "contact.callUs": "कॉल करें",
+  "contact.location": "पता",
+  "contact.locationValue": "आंबूर, तमिलनाडु",
+  "contact.openHours": "खुलने का समय",
+  "contact.payment": "भुगतान",
+  "contact.paymentMethods": "कार्ड, नकद, UPI",
+  "contact.quickOrder": "त्वरित ऑर्डर",
+  "contact.call": "कॉल करें {phone}",
+  "contact.whatsappOrder": "WhatsApp ऑर्डर",
+  "contact.reserveTable": "टेबल बुक करें",
+  "contact.sendMessageTitle": "हमें संदेश भेजें",
+  "contact.namePlaceholder": "आपका नाम",
+  "contact.phonePlaceholder": "फ़ोन नंबर",
+  "contact.emailPlaceholder": "ईमेल पता (वैकल्पिक)",
+  "contact.messagePlaceholder": "आपका संदेश...",
+  "contact.sending": "भेजा जा रहा है...",
+  "contact.send": "संदेश भेजें",
+  "contact.visitTitle": "हमारे रेस्टोरेंट में आएँ",
+  "contact.visitAddress": "आंबूर, तमिलनाडु, भारत",
+  "contact.directions": "रास्ता देखें",
+  "contact.viewOrder.one": "{count} आइटम वाला ऑर्डर देखें",
+  "contact.viewOrder.other": "{count} आइटम वाला ऑर्डर देखें",
+  "contact.error.name": "कृपया अपना नाम लिखें",
+  "contact.error.nameLength": "नाम {max} अक्षरों से ज़्यादा नहीं हो सकता",
+  "contact.error.phone": "सही 10 अंकों का भारतीय मोबाइल नंबर लिखें",
+  "contact.error.email": "सही ईमेल पता लिखें",
+  "contact.error.subjectLength": "विषय {max} अक्षरों से ज़्यादा नहीं हो सकता",
+  "contact.error.messageShort": "संदेश कम से कम {min} अक्षरों का होना चाहिए",
+  "contact.error.messageLong": "संदेश {max} अक्षरों से ज़्यादा नहीं हो सकता",
+  "contact.sent": "संदेश भेजा गया",
+  "contact.sentDelivered": "संपर्क करने के लिए धन्यवाद! हम जल्द ही जवाब देंगे।",
+  "contact.sentReady": "आपका संदेश तैयार है - हम तक पहुँचने के लिए बस भेजें दबाएँ।",
+  "contact.notSent": "संदेश नहीं भेजा गया",
+  "contact.notSentHint": "कृपया फिर से कोशिश करें या हमें सीधे कॉल करें।",
+
+  // Opening hours
+  "hours.openUntil": "अभी खुला है · {time} तक",
+  "hours.opensAt": "{time} से खुलेगा",
+  "hours.opensTomorrowAt": "कल {time} से खुलेगा",
+  "hours.opensOnAt": "{day} को {time} से खुलेगा",
+  "hours.closed": "बंद है",
+  "hours.everyDay": "हर दिन: {hours}",
+  "hours.day": "{day}: {hours}",
+  "hours.period": "{opens} – {closes}",
+  "hours.midnight": "आधी रात",
+  "hours.noon": "दोपहर",
+
+  // Installable app
+  "app.updateTitle": "नया संस्करण उपलब्ध है",
+  "app.updateDescription": "नवीनतम मेन्यू और कीमतें पाने के लिए रीलोड करें।",
+  "app.reload": "रीलोड करें",
+  "app.orderQueuedTitle": "आप ऑफ़लाइन हैं",
+  "app.orderQueuedDescription": "हमने आपका ऑर्डर सहेज लिया है और ऑनलाइन होते ही इसे WhatsApp पर भेज देंगे।",
+  "app.orderReadyTitle": "आप फिर से ऑनलाइन हैं",
+  "app.orderReadyDescription": "आपका सहेजा हुआ ऑर्डर WhatsApp पर भेजने के लिए तैयार है।",
+  "app.sendOrder": "WhatsApp पर भेजें",
+
+  // Analytics consent
+  "consent.message": "क्या हम गिन सकते हैं कि कौन से व्यंजन और बटन इस्तेमाल होते हैं और पेज कितनी जल्दी खुलते हैं? यह गुमनाम है: कोई नाम, फ़ोन नंबर, संदेश या कुकीज़ नहीं।",
+  "consent.allow": "अनुमति दें",
+  "consent.decline": "नहीं, धन्यवाद",
+};
@@ -0,0 +1,333 @@
+/**
+ * Tamil Messages
+ */
+
+import type { Messages } from "./en";
+
+export const ta: Messages = {
+  // Page titles and descriptions
+  "meta.home.title": "{restaurant} | அசல் ஆம்பூர் பிரியாணி | அருகிலுள்ள சிறந்த பிரியாணி உணவகம்",
+  "meta.home.description": "Original Ambur Briyani-இல் அசல் ஆம்பூர் பிரியாணியை சுவையுங்கள். பாரம்பரிய சிக்கன் பிரியாணி, மட்டன் பிரியாணி மற்றும் தம் பிரியாணி. டெலிவரிக்கு ஆன்லைனில் ஆர்டர் செய்யுங்கள்.",
+  "meta.about.title": "எங்களைப் பற்றி | {restaurant} - {year} முதல் ஆம்பூர் பிரியாணி",
+  "meta.about.description": "{restaurant}-இன் பாரம்பரியம்: {year} முதல் எம்.சி. ரோட்டில் அசல் ஆம்பூர் பாணி தம் பிரியாணி.",
+  "meta.menu.title": "மெனு | {restaurant} - பிரியாணி, ஸ்டார்டர்ஸ், BBQ & குழம்புகள்",
+  "meta.menu.description": "{restaurant}-இன் முழு மெனு: மட்டன் மற்றும் சிக்கன் பிரியாணி, சிக்கன் 65, தந்தூரி, குழம்புகள் மற்றும் பரோட்டா. பிக்அப் அல்லது டெலிவரிக்கு WhatsApp-இல் ஆர்டர் செய்யுங்கள்.",
+  "meta.contact.title": "தொடர்பு & நேரங்கள் | {restaurant}",
+  "meta.contact.description": "{address}-இல் உள்ள {restaurant}-ஐ அழையுங்கள், WhatsApp செய்யுங்கள் அல்லது நேரில் வாருங்கள். திறந்திருக்கும் நேரம், வழி மற்றும் மேசை முன்பதிவு.",
+  "meta.category.title": "{category} மெனு | {restaurant}",
+  "meta.category.description": "{restaurant}, ஆம்பூர் - {category}: {dishes}. பிக்அப் அல்லது டெலிவரிக்கு WhatsApp-இல் ஆர்டர் செய்யுங்கள்.",
+  "meta.dish.title": "{dish} | {category} | {restaurant}",
+
+  // Navigation
+  "nav.home": "முகப்பு",
+  "nav.about": "எங்களைப் பற்றி",
+  "nav.menu": "மெனு",
+  "nav.contact": "தொடர்பு",
+  "nav.homeAria": "முகப்புப் பகுதிக்குச் செல்லவும்",
+  "nav.aboutAria": "எங்களைப் பற்றிய பகுதிக்குச் செல்லவும்",
+  "nav.menuAria": "மெனு பகுதிக்குச் செல்லவும்",
+  "nav.contactAria": "தொடர்புப் பகுதிக்குச் செல்லவும்",
+  "nav.tagline": "என்றும் மாறாத அசல் சுவை",
+  "nav.quickInfo": "விரைவுத் தகவல்",
+  "nav.openHours": "திறந்திருக்கும் நேரம்",
+  "nav.location": "இடம்",
+  "nav.locationValue": "ஆம்பூர், தமிழ்நாடு",
+  "nav.callUs": "அழையுங்கள்",
+  "nav.contactInfo": "தொடர்பு",
+  "nav.panelTitle": "மெனு",
+  "nav.restaurantInfo": "உணவகத் தகவல்",
+  "nav.deluxe": "டீலக்ஸ் உணவகம்",
+  "nav.language": "மொழி",
+
+  // Hero
+  "hero.title": "அசல் ஆம்பூர் பிரியாணி",
+  "hero.subtitle": "அருகிலுள்ள சிறந்த பிரியாணி",
+  "hero.tagline": "1967 முதல் பாரம்பரிய சிக்கன் பிரியாணி, மட்டன் பிரியாணி & தம் பிரியாணி. ஆம்பூர் பிரியாணியை டெலிவரிக்கு ஆன்லைனில் ஆர்டர் செய்யுங்கள்.",
+  "hero.menu": "மெனு",
+  "hero.orderOnline": "ஆன்லைனில் ஆர்டர்",
+  "hero.orderNow": "இப்போதே ஆர்டர் செய்யுங்கள்",
+  "hero.videoUnsupported": "உங்கள் உலாவி வீடியோவை ஆதரிக்கவில்லை.",
+  "hero.logoAlt": "ஆம்பூர் ஸ்டார் பிரியாணி லோகோ - 1967 முதல் Original Ambur Briyani உணவகம்",
+  "hero.cornerLogoAlt": "ஆம்பூர் ஸ்டார் பிரியாணி லோகோ - அருகிலுள்ள அசல் பிரியாணி உணவகம்",
+  "hero.textLogoAlt": "Original Ambur Briyani டீலக்ஸ் - 1967 முதல்",
+
+  // About
+  "about.title": "Original Ambur Briyani-இன் பாரம்பரியம்",
+  "about.since": "1967 முதல்",
+  "about.decades": "50+ ஆண்டுகால சிறப்பு",
+  "about.subtitle": "பாரம்பரியத்தில் வேரூன்றிய அசல் சுவை",
+  "about.image.interior": "1967 முதல் எங்கள் பாரம்பரியம்",
+  "about.image.interiorAlt": "Original Ambur Briyani உணவகத்தின் உட்புறம்",
+  "about.image.cooking": "பாரம்பரிய சமையல் முறைகள்",
+  "about.image.cookingAlt": "அசல் ஆம்பூர் பிரியாணி தயாரிப்பு",
+  "about.image.dining": "குடும்ப விருந்தோம்பல் பாரம்பரியம்",
+  "about.image.diningAlt": "Original Ambur Briyani உணவு அனுபவம்",
+  "about.image.facade": "எம்.சி. ரோடு அடையாளம்",
+  "about.image.facadeAlt": "Original Ambur Briyani உணவகத்தின் முகப்பு",
+  "about.image.hall": "நவீன வசதி, பாரம்பரிய சுவை",
+  "about.image.hallAlt": "டீலக்ஸ் ஏசி உணவுக் கூடம்",
+  "about.goToImage": "படம் {index}-க்குச் செல்லவும்",
+  "about.story1": "ஆம்பூரின் மையத்தில், எம்.சி. ரோட்டில், தமிழ்நாட்டின் மிகவும் விரும்பப்படும் உணவான <hl>ஆம்பூர் பிரியாணி</hl>-யின் காலத்தால் அழியாத பாரம்பரியத்தைத் தொடர்ந்து கொண்டு செல்லும் ஒரு சமையல் அடையாளம் நிற்கிறது.",
+  "about.story2": "<hl>1967</hl>-இல் தொடங்கப்பட்ட <strong>ORIGINAL AMBUR BRIYANI (டீலக்ஸ் ஏசி)</strong> வெறும் உணவகம் மட்டுமல்ல — சுவை, பாரம்பரியம் மற்றும் குடும்பச் சமையலின் அரவணைப்பில் ஊறிய ஒரு வாழும் மரபு.",
+  "about.story3": "<hl>ஐம்பது ஆண்டுகளுக்கும் மேலாக</hl>, தலைமுறை தலைமுறையாகக் கைமாறி வந்த பழமையான செய்முறைகளைக் கொண்டு இந்த எளிய சமையலறை பிரியாணிக் கலையை முழுமையாக்கியுள்ளது. மணம் வீசும் சீரக சம்பா அரிசியின் தனித்துவமான நறுமணம் முதல் மெதுவாக வேகவைத்த மென்மையான சிக்கன் மற்றும் மட்டன் துண்டுகள் வரை, ஒவ்வொரு தட்டும் கைவினைத் திறனும் அர்ப்பணிப்பும் நிறைந்த கதையைச் சொல்கிறது.",
+  "about.averageRating": "சராசரி மதிப்பீடு",
+  "about.yearsOfExcellence": "ஆண்டுகால சிறப்பு",
+  "about.journey": "எங்கள் பயணம்",
+  "about.throughTime": "காலத்தின் வழியே",
+  "about.timeline.founded.year": "1967",
+  "about.timeline.founded.event": "எம்.சி. ரோட்டில் தொடக்கம்",
+  "about.timeline.founded.description": "அசல் ஆம்பூர் பிரியாணி என்ற எளிய நோக்கத்துடன் எங்கள் பயணம் தொடங்கியது",
+  "about.timeline.recipe.year": "1980கள்",
+  "about.timeline.recipe.event": "குடும்பச் செய்முறை முழுமையானது",
+  "about.timeline.recipe.description": "எங்கள் தனித்துவமான மசாலா கலவையையும் தம் சமையல் முறையையும் மெருகேற்றினோம்",
+  "about.timeline.upgrade.year": "2000கள்",
+  "about.timeline.upgrade.event": "டீலக்ஸ் ஏசி மேம்பாடு",
+  "about.timeline.upgrade.description": "பாரம்பரியச் சுவையைக் காத்தபடியே உணவருந்தும் வசதியை மேம்படுத்தினோம்",
+  "about.timeline.today.year": "இன்று",
+  "about.timeline.today.event": "தலைமுறைகளாக விருந்தினர்களின் அன்பு",
+  "about.timeline.today.description": "அதே அசல் சுவையுடன் ஆயிரக்கணக்கான வாடிக்கையாளர்களுக்குப் பரிமாறுகிறோம்",
+  "about.feature.recipes.title": "காலங்காலமான செய்முறைகள்",
+  "about.feature.recipes.text": "கையால் அரைத்த மசாலாக்கள், பாரம்பரிய தம் முறை மற்றும் அன்புடன் சமைக்கப்படுகிறது.",
+  "about.feature.comfort.title": "டீலக்ஸ் ஏசி வசதி",
+  "about.feature.comfort.text": "பாரம்பரியச் சமையலை டீலக்ஸ் குளிரூட்டப்பட்ட உணவுக் கூடத்தின் வசதியுடன் இணைக்கிறோம்.",
+  "about.feature.hospitality.title": "அன்பான விருந்தோம்பல்",
+  "about.feature.hospitality.text": "ஒவ்வொரு விருந்தினரும் குடும்பத்தினர் போல வரவேற்கப்படுகிறார்கள் — எப்போதும் புன்னகையுடன், எப்போதும் அக்கறையுடன்.",
+  "about.visitUs": "எங்களை நேரில் சந்தியுங்கள்",
+  "about.openDaily": "தினமும் திறந்திருக்கும்",
+  "about.openDailyHours": "காலை 10 – நள்ளிரவு 12",
+  "about.location": "இடம்",
+  "about.address": "12, எம்.சி. ரோடு, ஆம்பூர், தமிழ்நாடு",
+  "about.contact": "தொடர்பு",
+  "about.badge.delivery": "டெலிவரி உண்டு",
+  "about.badge.cards": "கிரெடிட் கார்டுகள் ஏற்கப்படும்",
+  "about.badge.wheelchair": "சக்கர நாற்காலி அணுகல்",
+  "about.badge.family": "குடும்பத்திற்கு ஏற்றது",
+
+  // Menu
+  "menu.title": "எங்கள் மெனு",
+  "menu.subtitle": "அசல் ஆம்பூர் பிரியாணி மற்றும் சுவையான தென்னிந்திய உணவுகள்!",
+  "menu.searchPlaceholder": "உணவுகளைத் தேடுங்கள், எ.கா. biryani அல்லது 65",
+  "menu.searchLabel": "மெனுவில் தேடுங்கள்",
+  "menu.clearSearch": "தேடலை அழி",
+  "menu.resultsFound.one": "\"{query}\"-க்கு {count} உணவு கிடைத்தது",
+  "menu.resultsFound.other": "\"{query}\"-க்கு {count} உணவுகள் கிடைத்தன",
+  "menu.allCategories": "அனைத்தும்",
+  "menu.moreCategories": "மேலும் வகைகள்",
+  "menu.viewDetails": "{dish} விவரங்களைப் பார்க்க",
+  "menu.popular": "பிரபலம்",
+  "menu.veg": "சைவம்",
+  "menu.sizes": "{portion} · {count} அளவுகள்",
+  "menu.addMore": "மேலும் சேர் · ஆர்டரில் {count}",
+  "menu.chooseOptions": "விருப்பங்களைத் தேர்ந்தெடு",
+  "menu.addToOrder": "ஆர்டரில் சேர்",
+  "menu.noMatchQuery": "\"{query}\"-க்கு பொருந்தும் உணவுகள் இல்லை",
+  "menu.noMatchFilters": "இந்த வடிகட்டிகளுக்குப் பொருந்தும் உணவுகள் இல்லை",
+  "menu.tryAnotherSpelling": "வேறு எழுத்துக்கூட்டலில் முயற்சிக்கவும்.",
+  "menu.tryAnotherSpellingOrAll": "வேறு எழுத்துக்கூட்டலில் முயற்சிக்கவும் அல்லது அனைத்து வகைகளிலும் தேடவும்.",
+  "menu.tryRemovingFilter": "ஒரு வடிகட்டியை நீக்கிப் பாருங்கள்.",
+  "menu.tryRemovingFilterOrAll": "ஒரு வடிகட்டியை நீக்கிப் பாருங்கள் அல்லது அனைத்து வகைகளிலும் தேடவும்.",
+  "menu.searchAllCategories": "அனைத்து வகைகளிலும் தேடு",
+  "menu.clearFilters": "வடிகட்டிகளை அழி",
+  "menu.facet.veg": "சைவம் மட்டும்",
+  "menu.facet.non-spicy": "காரம் இல்லாதவை",
+  "menu.facet.popular": "பிரபலம்",
+  "menu.facet.top-rated": "மதிப்பீடு {rating}+",
+  "menu.sort.recommended": "பரிந்துரைக்கப்பட்டவை",
+  "menu.sort.price-asc": "விலை: குறைவிலிருந்து அதிகம்",
+  "menu.sort.price-desc": "விலை: அதிகத்திலிருந்து குறைவு",
+  "menu.sort.rating": "அதிக மதிப்பீடு",
+  "menu.sort.popularity": "மிகப் பிரபலம்",
+  "menu.price": "விலை",
+  "menu.priceRange": "விலை வரம்பு",
+  "menu.sortBy": "வரிசைப்படுத்து",
+  "menu.clearFiltersCount": "வடிகட்டிகளை அழி ({count})",
+  "menu.viewOrder.one": "ஆர்டரைப் பார் · {count} உணவு · {total}",
+  "menu.viewOrder.other": "ஆர்டரைப் பார் · {count} உணவுகள் · {total}",
+  "menu.soldOut": "இன்று விற்றுத் தீர்ந்தது",
+  "menu.availableFrom": "{time} முதல் கிடைக்கும்",
+  "menu.availableTomorrow": "நாளை கிடைக்கும்",
+  "menu.availableTomorrowFrom": "நாளை {time} முதல் கிடைக்கும்",
+  "menu.availableOn": "{day} அன்று கிடைக்கும்",
+  "menu.availableOnFrom": "{day} {time} முதல் கிடைக்கும்",
+  "menu.notAvailable": "கிடைக்கவில்லை",
+  "menu.taxIncluded": "அனைத்து விலைகளிலும் {rate}% GST அடங்கும்",
+  "menu.taxExcluded": "விலைகளில் {rate}% GST சேர்க்கப்படவில்லை; ஆர்டர் செய்யும்போது சேர்க்கப்படும்",
+
+  // Offers
+  "promo.label": "தற்போதைய சலுகைகள்",
+  "promo.useCode": "{code} குறியீட்டைப் பயன்படுத்துங்கள்",
+  "promo.withCode": "{title} ({code})",
+  "promo.repeated": "{title} x {times}",
+  "promo.couponApplied": "{code} குறியீடு பயன்படுத்தப்பட்டது",
+  "promo.couponUnknown": "{code} சரியான குறியீடு அல்ல",
+  "promo.couponShortBy": "{code} பயன்படுத்த இன்னும் {amount} சேர்க்கவும்",
+  "promo.couponNotNow": "{code} இந்த ஆர்டருக்கு இப்போது பயன்படுத்த முடியாது",
+  "promo.briyani-feast.title": "பிரியாணி விருந்து",
+  "promo.briyani-feast.description": "2 சிக்கன் பிரியாணி (அரை) + 1 போன்லெஸ் சிக்கன் 65, ₹399-க்கு",
+  "promo.parotta-3-for-2.title": "பரோட்டா 3-க்கு 2",
+  "promo.parotta-3-for-2.description": "2 பரோட்டா வாங்கினால் மூன்றாவது இலவசம்",
+  "promo.starter-tuesday.title": "ஸ்டார்டர் செவ்வாய்",
+  "promo.starter-tuesday.description": "செவ்வாய்க்கிழமைகளில் எல்லா ஸ்டார்டர்களுக்கும் 15% தள்ளுபடி",
+  "promo.diwali-2026.title": "தீபாவளி சிறப்பு",
+  "promo.diwali-2026.description": "₹500-க்கு மேற்பட்ட ஆர்டர்களுக்கு 10% தள்ளுபடி, அதிகபட்சம் ₹150",
+  "promo.first-order.title": "முதல் ஆர்டர்",
+  "promo.first-order.description": "₹400-க்கு மேற்பட்ட உங்கள் முதல் ஆர்டருக்கு ₹50 தள்ளுபடி",
+
+  // Cart
+  "cart.title": "உங்கள் ஆர்டர்",
+  "cart.description": "உங்கள் உணவுகளைச் சரிபார்த்து ஆர்டரை WhatsApp-இல் எங்களுக்கு அனுப்புங்கள்.",
+  "cart.recentOrders": "எனது சமீபத்திய ஆர்டர்கள் ({count})",
+  "cart.empty": "உங்கள் கூடை காலியாக உள்ளது",
+  "cart.emptyHint": "தொடங்க மெனுவிலிருந்து சில உணவுகளைச் சேர்க்கவும்.",
+  "cart.browseMenu": "மெனுவைப் பார்",
+  "cart.remove": "{dish}-ஐ கூடையிலிருந்து நீக்கு",
+  "cart.couponPlaceholder": "கூப்பன் குறியீடு",
+  "cart.removeCoupon": "{code} குறியீட்டை நீக்கு",
+  "cart.apply": "பயன்படுத்து",
+  "cart.namePlaceholder": "உங்கள் பெயர்",
+  "cart.nameLabel": "உங்கள் பெயர்",
+  "cart.orderType": "ஆர்டர் வகை",
+  "cart.payment": "கட்டணம்",
+  "cart.payOnDelivery": "டெலிவரியின்போது செலுத்து",
+  "cart.payAtPickup": "பிக்கப்பின்போது செலுத்து",
+  "cart.payNow": "இப்போது செலுத்து (UPI)",
+  "cart.upiNeedsName": "UPI மூலம் செலுத்த உங்கள் பெயரைச் சேர்க்கவும்.",
+  "cart.upiNeedsNameAndAddress": "UPI மூலம் செலுத்த உங்கள் பெயரையும் நாங்கள் டெலிவரி செய்யும் முகவரியையும் சேர்க்கவும்.",
+  "cart.unavailable": "ஆர்டரை அனுப்ப, இப்போது வழங்க முடியாத உணவுகளை நீக்கவும்.",
+  "cart.send": "WhatsApp-இல் ஆர்டரை அனுப்பு",
+  "cart.clear": "கூடையை அழி",
+
+  // Orders
+  "order.reference": "ஆர்டர் {reference}",
+  "order.greeting": "வணக்கம் {restaurant}! நான் ஒரு ஆர்டர் செய்ய விரும்புகிறேன்:",
+  "order.referenceLine": "ஆர்டர் எண்: {reference}",
+  "order.addOns": "கூடுதல் சேர்க்கைகள்: {addOns}",
+  "order.each": "ஒன்றுக்கு {price}",
+  "order.subtotal": "துணைத் தொகை",
+  "order.packaging": "பேக்கேஜிங்",
+  "order.deliveryFee": "டெலிவரி கட்டணம்",
+  "order.free": "இலவசம்",
+  "order.tax": "{tax} {rate}%",
+  "order.taxIncluded": "{tax} {rate}% (உட்பட)",
+  "order.roundOff": "முழுமையாக்கல்",
+  "order.total": "மொத்தம்",
+  "order.name": "பெயர்: {name}",
+  "order.type": "ஆர்டர் வகை: {type}",
+  "order.pickup": "பிக்கப்",
+  "order.delivery": "டெலிவரி",
+  "order.deliverTo": "டெலிவரி முகவரி: {location}",
+  "order.payment": "கட்டணம்: {method}",
+  "order.payOnDelivery": "டெலிவரியின்போது",
+  "order.payAtPickup": "பிக்கப்பின்போது",
+  "order.payUpi": "{upiId}-க்கு UPI",
+  "order.payUpiWithNote": "{upiId}-க்கு UPI (குறிப்பு {reference})",
+  "order.thanks": "நன்றி! அழைக்கும்போது அல்லது வாங்க வரும்போது உங்கள் ஆர்டர் எண்ணைச் சொல்லுங்கள்.",
+  "order.receiptLabel": "ஆர்டர் {reference}-க்கான ரசீது",
+
+  // Recent orders
+  "recent.title": "எனது சமீபத்திய ஆர்டர்கள்",
+  "recent.description": "இந்தச் சாதனத்திலிருந்து அனுப்பிய ஆர்டர்கள். இவை இந்த உலாவியில் மட்டுமே சேமிக்கப்படும்.",
+  "recent.receiptDescription": "அச்சிடுங்கள், படமாக அல்லது PDF-ஆகச் சேமியுங்கள், அல்லது பகிருங்கள்.",
+  "recent.empty": "இந்தச் சாதனத்திலிருந்து WhatsApp-இல் அனுப்பும் ஆர்டர்கள் இங்கே தோன்றும்.",
+  "recent.items.one": "{count} உணவு",
+  "recent.items.other": "{count} உணவுகள்",
+  "recent.remove": "ஆர்டர் {reference}-ஐ இந்தச் சாதனத்திலிருந்து நீக்கு",
+  "recent.all": "எல்லா சமீபத்திய ஆர்டர்கள்",
+  "recent.print": "அச்சிடு",
+  "recent.share": "பகிர்",
+  "recent.saveImage": "படமாகச் சேமி",
+  "recent.savePdf": "PDF-ஆகச் சேமி",
+  "recent.exportFailed": "ரசீதை உருவாக்க முடியவில்லை",
+  "recent.exportFailedHint": "மீண்டும் முயலுங்கள் அல்லது அச்சிடுங்கள்.",
+
+  // Reviews
+  "reviews.title": "எங்கள் விருந்தினர்கள் சொல்வது",
+  "reviews.summary.one": "{count} மதிப்புரையில் 5-க்கு {rating}",
+  "reviews.summary.other": "{count} மதிப்புரைகளில் 5-க்கு {rating}",
+  "reviews.stars": "5-க்கு {rating} நட்சத்திரங்கள்",
+  "reviews.onDish": "{dish} பற்றி",
+  "reviews.photoAlt": "{author} பகிர்ந்த புகைப்படம்",
+  "reviews.previous": "முந்தைய மதிப்புரைகள்",
+  "reviews.next": "அடுத்த மதிப்புரைகள்",
+  "reviews.empty": "இன்னும் மதிப்புரைகள் இல்லை. உங்கள் கருத்தை முதலில் பகிருங்கள்!",
+  "reviews.write": "மதிப்புரை எழுதுங்கள்",
+
+  // Dish details
+  "dish.share": "பகிர்",
+  "dish.portionSize": "அளவு",
+  "dish.portion": "அளவு",
+  "dish.addOns": "கூடுதல் சேர்க்கைகள்",
+  "dish.optional": "(விருப்பத்தேர்வு)",
+  "dish.ingredients": "பொருட்கள்",
+  "dish.allergens": "ஒவ்வாமை பொருட்கள்",
+  "dish.noAllergens": "பொதுவான ஒவ்வாமை பொருட்கள் இல்லை",
+  "dish.allergyNote": "கொட்டைகள், பால் பொருட்கள் மற்றும் குளூட்டன் கையாளப்படும் சமையலறையில் தயாரிக்கப்படுகிறது. உங்களுக்கு ஒவ்வாமை இருந்தால் எங்களிடம் தெரிவியுங்கள்.",
+  "dish.packaging": "பேக்கேஜிங்: பிக்கப் மற்றும் டெலிவரிக்கு ஒரு பகுதிக்கு {amount}",
+  "dish.add": "சேர் · {total}",
+  "dish.added": "உங்கள் ஆர்டரில் சேர்க்கப்பட்டது",
+
+  // Contact
+  "contact.title": "தொடர்பு கொள்ளுங்கள்",
+  "contact.subtitle": "முன்பதிவுகள், சிறப்பு ஆர்டர்கள் அல்லது உங்கள் கேள்விகளுக்கு எங்களைத் தொடர்பு கொள்ளுங்கள்",
+  "contact.callUs": "அழையுங்கள்",
+  "contact.location": "இடம்",
+  "contact.locationValue": "ஆம்பூர், தமிழ்நாடு",
+  "contact.openHours": "திறந்திருக்கும் நேரம்",
+  "contact.payment": "கட்டணம்",
+  "contact.paymentMethods": "கார்டு, ரொக்கம், UPI",
+  "contact.quickOrder": "விரைவு ஆர்டர்",
+  "contact.call": "அழைக்க {phone}",
+  "contact.whatsappOrder": "WhatsApp ஆர்டர்",
+  "contact.reserveTable": "மேசை முன்பதிவு",
+  "contact.sendMessageTitle": "எங்களுக்குச் செய்தி அனுப்புங்கள்",
+  "contact.namePlaceholder": "உங்கள் பெயர்",
+  "contact.phonePlaceholder": "தொலைபேசி எண்",
+  "contact.emailPlaceholder": "மின்னஞ்சல் முகவரி (விருப்பத்தேர்வு)",
+  "contact.messagePlaceholder": "உங்கள் செய்தி...",
+  "contact.sending": "அனுப்புகிறது...",
+  "contact.send": "செய்தி அனுப்பு",
+  "contact.visitTitle": "எங்கள் உணவகத்திற்கு வாருங்கள்",
+  "contact.visitAddress": "ஆம்பூர், தமிழ்நாடு, இந்தியா",
+  "contact.directions": "வழி காட்டு",
+  "contact.viewOrder.one": "{count} உணவுடன் ஆர்டரைப் பார்",
+  "contact.viewOrder.other": "{count} உணவுகளுடன் ஆர்டரைப் பார்",
+  "contact.error.name": "உங்கள் பெயரை உள்ளிடவும்",
+  "contact.error.nameLength": "பெயர் {max} எழுத்துகளுக்குள் இருக்க வேண்டும்",
+  "contact.error.phone": "சரியான 10 இலக்க இந்திய மொபைல் எண்ணை உள்ளிடவும்",
+  "contact.error.email": "சரியான மின்னஞ்சல் முகவரியை உள்ளிடவும்",
+  "contact.error.subjectLength": "தலைப்பு {max} எழுத்துகளுக்குள் இருக்க வேண்டும்",
+  "contact.error.messageShort": "செய்தியில் குறைந்தது {min} எழுத்துகள் இருக்க வேண்டும்",
+  "contact.error.messageLong": "செய்தி {max} எழுத்துகளுக்குள் இருக்க வேண்டும்",
+  "contact.sent": "செய்தி அனுப்பப்பட்டது",
+  "contact.sentDelivered": "தொடர்பு கொண்டதற்கு நன்றி! விரைவில் பதிலளிப்போம்.",
+  "contact.sentReady": "உங்கள் செய்தி தயார் - எங்களை அடைய அனுப்பு என்பதை அழுத்துங்கள்.",
+  "contact.notSent": "செய்தி அனுப்பப்படவில்லை",
+  "contact.notSentHint": "மீண்டும் முயலுங்கள் அல்லது எங்களை நேரடியாக அழையுங்கள்.",
+
+  // Opening hours
+  "hours.openUntil": "இப்போது திறந்துள்ளது · {time} வரை",
+  "hours.opensAt": "{time} முதல் திறந்திருக்கும்",
+  "hours.opensTomorrowAt": "நாளை {time} முதல் திறந்திருக்கும்",
+  "hours.opensOnAt": "{day} {time} முதல் திறந்திருக்கும்",
+  "hours.closed": "மூடப்பட்டுள்ளது",
+  "hours.everyDay": "தினமும்: {hours}",
+  "hours.day": "{day}: {hours}",
+  "hours.period": "{opens} – {closes}",
+  "hours.midnight": "நள்ளிரவு",
+  "hours.noon": "நண்பகல்",
+
+  // Installable app
+  "app.updateTitle": "புதிய பதிப்பு கிடைக்கிறது",
+  "app.updateDescription": "சமீபத்திய மெனு மற்றும் விலைகளைப் பெற மீண்டும் ஏற்றவும்.",
+  "app.reload": "மீண்டும் ஏற்று",
+  "app.orderQueuedTitle": "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள்",
+  "app.orderQueuedDescription": "உங்கள் ஆர்டரைச் சேமித்துள்ளோம்; இணைப்பு திரும்பியதும் WhatsApp-க்கு அனுப்புவோம்.",
+  "app.orderReadyTitle": "மீண்டும் ஆன்லைனில் உள்ளீர்கள்",
+  "app.orderReadyDescription": "சேமித்த உங்கள் ஆர்டர் WhatsApp-இல் அனுப்பத் தயாராக உள்ளது.",
+  "app.sendOrder": "WhatsApp-இல் அனுப்பு",
+
+  // Analytics consent
+  "consent.message": "எந்த உணவுகள் மற்றும் பொத்தான்கள் பயன்படுத்தப்படுகின்றன, பக்கங்கள் எவ்வளவு வேகமாக ஏற்றப்படுகின்றன என்று நாங்கள் கணக்கிடலாமா? இது அநாமதேயமானது: பெயர்கள், தொலைபேசி எண்கள், செய்திகள் அல்லது குக்கீகள் இல்லை.",
+  "consent.allow": "அனுமதி",
+  "consent.decline": "வேண்டாம்",
+};
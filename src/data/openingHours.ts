@@ -0,0 +1,98 @@
+/**
+ * Opening Hours
+ * Weekly schedule plus dated overrides (holidays, Ramadan and festival
+ * hours). Times are wall-clock in Asia/Kolkata; a period whose closing time
+ * is at or before its opening time runs past midnight ("24:00" = midnight).
+ * Loaded by vite.config.ts for the JSON-LD, so keep imports relative.
+ */
+
+import { z } from "zod";
+
+export const RESTAURANT_TIME_ZONE = "Asia/Kolkata";
+
+export const DAYS_OF_WEEK = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type DayOfWeek = (typeof DAYS_OF_WEEK)[number];
+
+const timeSchema = z
+  .string()
+  .regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, "must be HH:MM (24h)");
+
+export const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be YYYY-MM-DD");
+
+export const openingPeriodSchema = z.object({
+  opens: timeSchema,
+  closes: timeSchema,
+});
+
+export const scheduleOverrideSchema = z
+  .object({
+    name: z.string().min(1),
+    from: dateSchema,
+    to: dateSchema,
+    periods: z.array(openingPeriodSchema), // empty = closed all day
+  })
+  .refine((override) => override.from <= override.to, {
+    message: "override must end on or after its start date",
+    path: ["to"],
+  });
+
+export const openingScheduleSchema = z.object({
+  weekly: z.object(
+    Object.fromEntries(DAYS_OF_WEEK.map((day) => [day, z.array(openingPeriodSchema)])) as Record<
+      DayOfWeek,
+      z.ZodArray<typeof openingPeriodSchema>
+    >
+  ),
+  overrides: z.array(scheduleOverrideSchema),
+});
+
+export type OpeningPeriod = z.infer<typeof openingPeriodSchema>;
+export type ScheduleOverride = z.infer<typeof scheduleOverrideSchema>;
+export type OpeningSchedule = z.infer<typeof openingScheduleSchema>;
+
+const everyDay: OpeningPeriod[] = [{ opens: "10:00", closes: "24:00" }];
+
+const rawSchedule: OpeningSchedule = {
+  weekly: {
+    sunday: everyDay,
+    monday: everyDay,
+    tuesday: everyDay,
+    wednesday: everyDay,
+    thursday: everyDay,
+    friday: everyDay,
+    saturday: everyDay,
+  },
+  // Later entries win when ranges overlap. Review these every year.
+  overrides: [
+    {
+      name: "Ramadan hours",
+      from: "2027-02-08",
+      to: "2027-03-09",
+      periods: [{ opens: "12:00", closes: "02:00" }],
+    },
+    {
+      name: "Eid al-Fitr",
+      from: "2027-03-10",
+      to: "2027-03-10",
+      periods: [{ opens: "13:00", closes: "24:00" }],
+    },
+  ],
+};
+
+export const defaultOpeningSchedule: OpeningSchedule = openingScheduleSchema.parse(rawSchedule);
+
+// Live binding; the admin panel's published hours replace it at runtime
+export let openingSchedule: OpeningSchedule = defaultOpeningSchedule;
+
+export const setOpeningSchedule = (schedule: OpeningSchedule) => {
+  openingSchedule = schedule;
+};
@@ -0,0 +1,83 @@
+/**
+ * Performance Budgets
+ * Size limits for what the production build ships. The budget plugin in
+ * vite.config.ts checks every emitted chunk and every file copied from
+ * public/ against these after the client build, prints a report and fails
+ * the build when something is over (see src/utils/performanceBudget.ts).
+ * Kept free of "@/" imports like the other data modules.
+ *
+ * Raise a budget only on purpose: the limits sit a little above what the
+ * site ships today, so growth shows up in review.
+ */
+
+import { z } from "zod";
+import { heroVideo } from "./heroVideo";
+import { VIDEO_OPTIMIZATION_GUIDELINES } from "./videoGuidelines";
+
+export const budgetMeasureSchema = z.enum(["raw", "gzip"]);
+
+export const fileBudgetSchema = z
+  .object({
+    label: z.string().min(1),
+    match: z.instanceof(RegExp), // tested against the path in dist/, e.g. "assets/index-3f2a1c.js"
+    entry: z.boolean().optional(), // JS only: true for the entry chunk, false for lazy chunks
+    maxKb: z.number().positive(), // per file, 1 KB = 1024 bytes
+    measure: budgetMeasureSchema.default("raw"), // "gzip" for text the server compresses
+    required: z.boolean().default(false), // fail when no file matches
+    expected: z.array(z.string()).default([]), // paths that must each be present, e.g. the files a manifest names
+    deployOnly: z.boolean().default(false), // not in the repository; missing files only fail a BUDGET_STRICT=1 build
+    overrides: z.record(z.number().positive()).default({}), // maxKb for individual paths
+  })
+  .refine((budget) => budget.expected.every((path) => budget.match.test(path)), {
+    message: "Expected paths must match the budget's pattern",
+  });
+
+export const performanceBudgetsSchema = z.object({
+  files: z.array(fileBudgetSchema).min(1),
+  // Google Fonts faces (family, weight and style) requested by index.html and
+  // the stylesheets; the fonts are downloaded from Google, so this is the
+  // font payload the site controls
+  fontFaces: z.number().int().positive(),
+});
+
+export type BudgetMeasure = z.infer<typeof budgetMeasureSchema>;
+export type FileBudget = z.infer<typeof fileBudgetSchema>;
+export type PerformanceBudgets = z.infer<typeof performanceBudgetsSchema>;
+
+// Validate once at module load so a bad edit fails the build
+export const performanceBudgets = performanceBudgetsSchema.parse({
+  files: [
+    { label: "Entry script", match: /^assets\/.+\.js$/, entry: true, maxKb: 190, measure: "gzip", required: true },
+    { label: "Lazy chunk", match: /^assets\/.+\.js$/, entry: false, maxKb: 32, measure: "gzip" },
+    { label: "Stylesheet", match: /^assets\/.+\.css$/, maxKb: 16, measure: "gzip", required: true },
+    {
+      // Renditions in src/data/heroVideoManifest.ts, plus the single
+      // video/hero.mp4 the video demo plays. Added by the deploy, not kept in
+      // the repository; a BUDGET_STRICT=1 build fails unless every file the
+      // manifest names is there. Phones may get any of them through the
+      // quality menu, so all get the mobile limit.
+      label: "Hero video",
+      match: /^video\/hero(-\d+p)?\.(mp4|webm)$/,
+      maxKb: VIDEO_OPTIMIZATION_GUIDELINES.fileSize.mobile * 1024,
+      expected: heroVideo.renditions.map((rendition) => rendition.src.slice(1)),
+      deployOnly: true,
+    },
+    {
+      label: "Hero poster",
+      match: /^video\/hero-poster-\d+p\.jpg$/,
+      maxKb: 256,
+      expected: heroVideo.posters.map((poster) => poster.src.slice(1)),
+      deployOnly: true,
+    },
+    {
+      label: "Menu photo",
+      match: /^assets\/Menu Assets\/.+\.webp$/,
+      maxKb: 1024,
+      required: true,
+    },
+    { label: "Logo", match: /^assets\/(logo|TEXTLOGO)\.png$/, maxKb: 128, required: true },
+    { label: "App icon", match: /^icons\/icon-.+\.png$/, maxKb: 64, required: true },
+    { label: "Font file", match: /\.(woff2?|ttf|otf)$/, maxKb: 64 },
+  ],
+  fontFaces: 48,
+}) as PerformanceBudgets;
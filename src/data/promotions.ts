@@ -0,0 +1,211 @@
+/**
+ * Promotions
+ * Combos, percentage and flat discounts, buy-X-get-Y deals and coupon codes.
+ * Dates and times are restaurant-local (Asia/Kolkata), like the opening
+ * hours. How offers combine is defined by src/utils/promotions.ts; the order
+ * of this list is the order dish-level offers are tried in.
+ * Kept free of "@/" imports like the catalog it refers to.
+ */
+
+import { z } from "zod";
+import { defaultMenuCatalog, slugSchema } from "./menu";
+import { DAYS_OF_WEEK, dateSchema, openingPeriodSchema } from "./openingHours";
+
+export const PROMOTION_BANNER_PLACEMENTS = ["hero", "menu"] as const;
+
+// Which dishes an offer covers; leave both out for every dish
+const dishScopeSchema = z.object({
+  itemIds: z.array(slugSchema).min(1).optional(),
+  categoryIds: z.array(slugSchema).min(1).optional(),
+});
+
+const promotionBaseSchema = z.object({
+  id: slugSchema,
+  title: z.string().min(1), // "Briyani Feast"
+  description: z.string().min(1), // one line for banners and the order summary
+  // Coupon code customers type in; offers without one apply automatically
+  code: z
+    .string()
+    .regex(/^[A-Z0-9]{3,20}$/, "must be 3-20 capital letters or digits")
+    .optional(),
+  validFrom: dateSchema.optional(),
+  validTo: dateSchema.optional(),
+  days: z.array(z.enum(DAYS_OF_WEEK)).min(1).optional(),
+  times: z.array(openingPeriodSchema).min(1).optional(), // e.g. lunch only
+  minSubtotal: z.number().int().positive().optional(), // ₹, before any discount
+  banners: z.array(z.enum(PROMOTION_BANNER_PLACEMENTS)).optional(),
+});
+
+// A fixed price for a set of dishes; each component defaults to the dish's
+// default portion
+export const comboPromotionSchema = promotionBaseSchema.extend({
+  type: z.literal("combo"),
+  items: z
+    .array(
+      z.object({
+        itemId: slugSchema,
+        variantId: slugSchema.optional(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1),
+  price: z.number().int().positive(), // ₹ for the whole set
+});
+
+// Percentage off the covered dishes, or off the whole order without appliesTo
+export const percentOffPromotionSchema = promotionBaseSchema.extend({
+  type: z.literal("percent-off"),
+  percent: z.number().int().min(1).max(100),
+  appliesTo: dishScopeSchema.optional(),
+  maxDiscount: z.number().int().positive().optional(), // ₹ cap
+});
+
+// Rupees off the whole order
+export const flatOffPromotionSchema = promotionBaseSchema.extend({
+  type: z.literal("flat-off"),
+  amount: z.number().int().positive(),
+});
+
+// Buy `buy.quantity` covered dishes, get the cheapest `get.quantity` covered
+// dishes free (or `percent` off them)
+export const buyXGetYPromotionSchema = promotionBaseSchema.extend({
+  type: z.literal("buy-x-get-y"),
+  buy: dishScopeSchema.extend({ quantity: z.number().int().positive() }),
+  get: dishScopeSchema.extend({ quantity: z.number().int().positive() }),
+  percent: z.number().int().min(1).max(100).optional(), // default 100 = free
+});
+
+export const promotionSchema = z.discriminatedUnion("type", [
+  comboPromotionSchema,
+  percentOffPromotionSchema,
+  flatOffPromotionSchema,
+  buyXGetYPromotionSchema,
+]);
+
+export const promotionListSchema = z.array(promotionSchema).superRefine((promotions, ctx) => {
+  const itemsById = new Map(defaultMenuCatalog.items.map((item) => [item.id, item]));
+  const categoryIds = new Set(defaultMenuCatalog.categories.map((category) => category.id));
+  const ids = new Set<string>();
+  const codes = new Set<string>();
+
+  const checkScope = (scope: z.infer<typeof dishScopeSchema> | undefined, path: (string | number)[]) => {
+    scope?.itemIds?.forEach((itemId, index) => {
+      if (!itemsById.has(itemId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "itemIds", index], message: `Unknown dish "${itemId}"` });
+      }
+    });
+    scope?.categoryIds?.forEach((categoryId, index) => {
+      if (!categoryIds.has(categoryId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "categoryIds", index], message: `Unknown category "${categoryId}"` });
+      }
+    });
+  };
+
+  promotions.forEach((promotion, index) => {
+    if (ids.has(promotion.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate promotion id "${promotion.id}"` });
+    }
+    ids.add(promotion.id);
+
+    if (promotion.code) {
+      if (codes.has(promotion.code)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "code"], message: `Duplicate coupon code "${promotion.code}"` });
+      }
+      codes.add(promotion.code);
+    }
+
+    if (promotion.validFrom && promotion.validTo && promotion.validFrom > promotion.validTo) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "validTo"], message: "must be on or after validFrom" });
+    }
+
+    if (promotion.type === "combo") {
+      promotion.items.forEach((component, componentIndex) => {
+        const item = itemsById.get(component.itemId);
+        if (!item) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "items", componentIndex, "itemId"],
+            message: `Unknown dish "${component.itemId}"`,
+          });
+        } else if (component.variantId && !item.variants.some((variant) => variant.id === component.variantId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "items", componentIndex, "variantId"],
+            message: `"${item.id}" has no "${component.variantId}" portion`,
+          });
+        }
+      });
+    }
+    if (promotion.type === "percent-off") checkScope(promotion.appliesTo, [index, "appliesTo"]);
+    if (promotion.type === "buy-x-get-y") {
+      checkScope(promotion.buy, [index, "buy"]);
+      checkScope(promotion.get, [index, "get"]);
+    }
+  });
+});
+
+export type ComboPromotion = z.infer<typeof comboPromotionSchema>;
+export type PercentOffPromotion = z.infer<typeof percentOffPromotionSchema>;
+export type FlatOffPromotion = z.infer<typeof flatOffPromotionSchema>;
+export type BuyXGetYPromotion = z.infer<typeof buyXGetYPromotionSchema>;
+export type Promotion = z.infer<typeof promotionSchema>;
+export type PromotionBannerPlacement = (typeof PROMOTION_BANNER_PLACEMENTS)[number];
+export type DishScope = z.infer<typeof dishScopeSchema>;
+
+const rawPromotions: Promotion[] = [
+  {
+    id: "briyani-feast",
+    type: "combo",
+    title: "Briyani Feast",
+    description: "2 Chicken Briyani (Half) + 1 Boneless Chicken 65 for ₹399",
+    items: [
+      { itemId: "chicken-briyani", quantity: 2 },
+      { itemId: "boneless-chicken-65", quantity: 1 },
+    ],
+    price: 399,
+    banners: ["hero", "menu"],
+  },
+  {
+    id: "parotta-3-for-2",
+    type: "buy-x-get-y",
+    title: "Parotta 3 for 2",
+    description: "Buy 2 parottas, get a third free",
+    buy: { itemIds: ["parotta"], quantity: 2 },
+    get: { itemIds: ["parotta"], quantity: 1 },
+    banners: ["menu"],
+  },
+  {
+    id: "starter-tuesday",
+    type: "percent-off",
+    title: "Starter Tuesday",
+    description: "15% off every starter on Tuesdays",
+    percent: 15,
+    appliesTo: { categoryIds: ["appetizers"] },
+    days: ["tuesday"],
+    banners: ["menu"],
+  },
+  {
+    id: "diwali-2026",
+    type: "percent-off",
+    title: "Diwali special",
+    description: "10% off orders over ₹500, up to ₹150",
+    percent: 10,
+    maxDiscount: 150,
+    minSubtotal: 500,
+    validFrom: "2026-11-06",
+    validTo: "2026-11-10",
+    banners: ["hero", "menu"],
+  },
+  {
+    id: "first-order",
+    type: "flat-off",
+    title: "First order",
+    description: "₹50 off your first order over ₹400",
+    code: "FIRST50",
+    amount: 50,
+    minSubtotal: 400,
+  },
+];
+
+// Validate once at module load so a bad edit fails the build, not the page
+export const promotions: Promotion[] = promotionListSchema.parse(rawPromotions) as Promotion[];
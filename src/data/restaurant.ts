@@ -0,0 +1,33 @@
+/**
+ * Restaurant Profile
+ * Business facts shared by the UI and the generated structured data.
+ */
+
+export const restaurant = {
+  name: "Original Ambur Briyani",
+  description: "Authentic Ambur Star Biryani restaurant serving traditional chicken biryani, mutton biryani, and dum biryani. Best biryani near me with premium ingredients and aromatic spices since 1967.",
+  siteUrl: "https://originalamburbriyani.com",
+  telephone: "+91-9677938393",
+  whatsappNumber: "919677938393",
+  upiId: "originalamburbriyani@okaxis", // VPA that online (UPI) payments go to
+  servesCuisine: "South Indian, Biryani, Ambur Cuisine",
+  priceRange: "₹₹",
+  address: {
+    streetAddress: "12, MC Rd",
+    addressLocality: "Ambur",
+    addressRegion: "Tamil Nadu",
+    postalCode: "635802",
+    addressCountry: "IN",
+  },
+  // The MC Road kitchen; delivery distances are measured from here
+  geo: {
+    latitude: 12.7916,
+    longitude: 78.7163,
+  },
+  logo: "/assets/logo.png",
+  heroImage: "/assets/hero-biryani.png",
+  foundingDate: "1967",
+} as const;
+
+export const absoluteUrl = (path: string): string =>
+  `${restaurant.siteUrl}${encodeURI(path)}`;
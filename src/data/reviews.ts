@@ -0,0 +1,80 @@
+/**
+ * Customer Reviews
+ * Reviews left by guests, about the restaurant as a whole or about one dish.
+ * Only approved reviews are shown or counted: the star averages on the menu
+ * are worked out from this list (see src/utils/reviews.ts). Kept free of
+ * "@/" imports like the other data modules.
+ *
+ * Reviews are part of the site content, so staff moderate submissions from
+ * the admin panel and published changes replace the list at runtime through
+ * setReviews; prerendered pages always use the reviews below.
+ */
+
+import { z } from "zod";
+import { defaultMenuCatalog, slugSchema } from "./menu";
+import { dateSchema } from "./openingHours";
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export const REVIEW_TEXT_MAX_LENGTH = 1000;
+
+export const reviewSchema = z.object({
+  id: slugSchema,
+  author: z.string().trim().min(1).max(60),
+  rating: z.number().int().min(1).max(5), // stars
+  text: z.string().trim().min(1).max(REVIEW_TEXT_MAX_LENGTH),
+  itemId: slugSchema.optional(), // the dish reviewed; unset for the restaurant as a whole
+  date: dateSchema, // when it was written, restaurant-local
+  photo: z.string().url().or(z.string().startsWith("/assets/")).optional(),
+  status: z.enum(REVIEW_STATUSES),
+});
+
+export const reviewListSchema = z
+  .array(reviewSchema)
+  .refine((reviews) => new Set(reviews.map((review) => review.id)).size === reviews.length, {
+    message: "Review ids must be unique",
+  });
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+export type Review = z.infer<typeof reviewSchema>;
+
+// The testimonials the site has always shown. Dish reviews arrive through
+// the review form and count once staff approve them.
+const rawReviews: Review[] = [
+  {
+    id: "chandrakala-sri",
+    author: "Chandrakala Sri",
+    rating: 5,
+    text: "Good tasty food. Quantity and quality is good.",
+    date: "2026-09-21",
+    status: "approved",
+  },
+  {
+    id: "regular-customer",
+    author: "Regular Customer",
+    rating: 5,
+    text: "Peaceful ambience and the biryani was spot on.",
+    date: "2026-09-02",
+    status: "approved",
+  },
+];
+
+// The built-in reviews must also name dishes from the built-in menu
+const builtInReviewListSchema = reviewListSchema.superRefine((list, ctx) => {
+  const itemIds = new Set(defaultMenuCatalog.items.map((item) => item.id));
+  list.forEach((review, index) => {
+    if (review.itemId && !itemIds.has(review.itemId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "itemId"], message: `Unknown dish "${review.itemId}"` });
+    }
+  });
+});
+
+// Validate once at module load so a bad edit fails the build, not the page
+export const defaultReviews: Review[] = builtInReviewListSchema.parse(rawReviews) as Review[];
+
+// Live binding; reviews moderated in the admin panel replace it at runtime
+export let reviews: Review[] = defaultReviews;
+
+export const setReviews = (list: Review[]) => {
+  reviews = list;
+};
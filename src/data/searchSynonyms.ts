@@ -0,0 +1,22 @@
+/**
+ * Menu Search Synonyms
+ * Common spellings and transliterations customers type for our dishes. Each
+ * group is matched as one word; the first entry is the canonical spelling.
+ * Entries are single lowercase words — spacing and punctuation are ignored.
+ */
+
+export const searchSynonyms: string[][] = [
+  ["biryani", "briyani", "biriyani", "biriani", "biryane", "beriyani", "buriyani", "biriyaani"],
+  ["parotta", "porotta", "barotta", "paratha", "parata", "porota"],
+  ["gobi", "gobhi", "cauliflower", "phool"],
+  ["chukka", "sukka", "chukkah", "sukha"],
+  ["manchurian", "manchuri", "manjurian"],
+  ["lollipop", "lolipop", "lollypop"],
+  ["tandoori", "tanduri", "tandori"],
+  ["mutton", "goat", "lamb", "attu", "aattu"],
+  ["chicken", "kozhi", "koli", "murgh", "murg"],
+  ["fish", "meen", "machli"],
+  ["gravy", "curry", "salna", "kuzhambu", "kulambu"],
+  ["bbq", "barbecue", "barbeque", "grill", "grilled"],
+  ["veg", "vegetarian", "veggie"],
+];
@@ -0,0 +1,31 @@
+/**
+ * Site Content
+ * The parts of the site staff can edit from the admin panel without a
+ * redeploy: the menu catalog, opening hours, the About heritage photos and
+ * customer reviews. Built-in defaults come from the data modules; published
+ * edits are loaded through a storage adapter (src/utils/contentStorage.ts).
+ */
+
+import { z } from "zod";
+import { defaultHeritagePhotos, heritagePhotoListSchema } from "./heritagePhotos";
+import { defaultMenuCatalog, menuCatalogSchema } from "./menu";
+import { defaultOpeningSchedule, openingScheduleSchema } from "./openingHours";
+import { defaultReviews, reviewListSchema } from "./reviews";
+
+export const siteContentSchema = z.object({
+  menu: menuCatalogSchema,
+  hours: openingScheduleSchema,
+  heritagePhotos: heritagePhotoListSchema,
+  // Content published before reviews were editable has none saved
+  reviews: reviewListSchema.default(defaultReviews),
+  updatedAt: z.string().datetime().optional(),
+});
+
+export type SiteContent = z.infer<typeof siteContentSchema>;
+
+export const defaultSiteContent: SiteContent = {
+  menu: defaultMenuCatalog,
+  hours: defaultOpeningSchedule,
+  heritagePhotos: defaultHeritagePhotos,
+  reviews: defaultReviews,
+};
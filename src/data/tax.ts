@@ -0,0 +1,24 @@
+/**
+ * Tax and Charges
+ * GST applied to orders and whether menu prices already include it (see
+ * src/utils/pricing.ts). Dishes can override the rate and add a packaging
+ * charge in src/data/menu.ts. Kept free of "@/" imports like the other data
+ * modules.
+ */
+
+import { z } from "zod";
+
+export const taxRateSchema = z.number().min(0).max(28); // percent
+
+export const taxSettingsSchema = z.object({
+  gstRate: taxRateSchema, // restaurant service, split equally into CGST and SGST
+  pricesIncludeTax: z.boolean(), // menu prices, packaging and delivery fees are GST-inclusive
+});
+
+export type TaxSettings = z.infer<typeof taxSettingsSchema>;
+
+// Validate once at module load so a bad edit fails the build, not the cart
+export const taxSettings = taxSettingsSchema.parse({
+  gstRate: 5,
+  pricesIncludeTax: true,
+}) as TaxSettings;
@@ -0,0 +1,34 @@
+/**
+ * Video Optimization Recommendations
+ * Limits for the hero video. src/data/performanceBudgets.ts enforces the
+ * file size at build time; src/utils/videoOptimization.ts checks the rest in
+ * the browser. Kept free of "@/" imports so vite.config.ts can load it.
+ */
+
+export const VIDEO_OPTIMIZATION_GUIDELINES = {
+  fileSize: {
+    mobile: 10, // MB
+    desktop: 20, // MB
+    maximum: 50 // MB
+  },
+  duration: {
+    recommended: 15, // seconds
+    maximum: 30 // seconds
+  },
+  resolution: {
+    mobile: '720p',
+    desktop: '1080p',
+    maximum: '1440p'
+  },
+  bitrate: {
+    low: 1, // Mbps
+    medium: 2.5, // Mbps
+    high: 5 // Mbps
+  },
+  formats: ['WebM', 'MP4'],
+  compression: {
+    codec: 'H.264',
+    profile: 'High',
+    level: '4.0'
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * Prerender Entry
+ * Server-side render of the app for scripts/prerender.mjs. Built with
+ * `vite build --ssr` and only ever run in Node at build time.
+ */
+
+import { Writable } from "node:stream";
+import { renderToPipeableStream } from "react-dom/server";
+import { StaticRouter } from "react-router-dom/server";
+import { AppRoutes } from "./App";
+import { buildHeadTags, replaceHeadTags } from "./utils/seo";
+import { getRouteMeta, listRoutes } from "./utils/routes";
+
+export interface PrerenderPage {
+  path: string;
+  lang: string;
+  head: string;
+}
+
+export const getPrerenderPages = (): PrerenderPage[] =>
+  listRoutes().map((route) => {
+    const meta = getRouteMeta(route);
+    return { path: meta.path, lang: meta.locale, head: buildHeadTags(route) };
+  });
+
+// Waits for every lazy section so crawlers get the full page, not the
+// Suspense fallback
+export const render = (url: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    // Decoded once at the end: chunks can split a multi-byte character
+    const chunks: Buffer[] = [];
+    const sink = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      },
+      final(callback) {
+        // React 18's stream can flush a partly filled buffer when a
+        // multi-byte character doesn't fit, padding it with NUL bytes
+        resolve(Buffer.concat(chunks).toString("utf8").replace(/\0/g, ""));
+        callback();
+      },
+    });
+
+    const stream = renderToPipeableStream(
+      <StaticRouter location={url}>
+        <AppRoutes />
+      </StaticRouter>,
+      {
+        onAllReady() {
+          stream.pipe(sink);
+        },
+        onShellError: reject,
+        onError: reject,
+      }
+    );
+  });
+
+// The script fills the index.html head placeholder with the same helper
+export { replaceHeadTags };
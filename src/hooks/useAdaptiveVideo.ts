@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+import type { HeroVideo, VideoQuality } from '@/data/heroVideo';
+import { getDeviceInfo } from '@/utils/performanceMonitor';
+import {
+  getConnectionSpeed,
+  getLowerQuality,
+  getOptimalVideoConfig,
+  selectPoster,
+  selectRendition,
+} from '@/utils/videoOptimization';
+
+export type VideoQualityChoice = VideoQuality | 'auto';
+
+// A stall is buffering that lasts longer than this once playback has started
+const STALL_THRESHOLD_MS = 1000;
+// Stalls on one rendition before "auto" steps down a quality
+const STALLS_BEFORE_SWITCH = 2;
+
+interface Strategy {
+  shouldLoadVideo: boolean;
+  quality: VideoQuality;
+  preload: 'none' | 'metadata' | 'auto';
+}
+
+// Picks a rendition from `video` with getOptimalVideoConfig and, while the
+// quality is on "auto", steps down one quality when playback keeps stalling.
+// Nothing is chosen until mounted, so the prerendered page has no <video>
+// source and hydrates cleanly. Switching keeps the playback position. When
+// the strategy declines video (Save-Data, slow connection) the visitor can
+// still start it or pick a quality; `isReady` says when to offer that.
+export const useAdaptiveVideo = (videoRef: RefObject<HTMLVideoElement>, video: HeroVideo) => {
+  const [strategy, setStrategy] = useState<Strategy | null>(null);
+  const [choice, setChoice] = useState<VideoQualityChoice>('auto');
+  const [hasFailed, setHasFailed] = useState(false);
+  const resumeRef = useRef<{ time: number; paused: boolean } | null>(null);
+
+  useEffect(() => {
+    setStrategy(getOptimalVideoConfig(getDeviceInfo().isMobile, getConnectionSpeed()));
+  }, []);
+
+  const quality = choice === 'auto' ? strategy?.quality : choice;
+  const rendition = useMemo(() => {
+    if (!quality) return undefined;
+    const probe = document.createElement('video');
+    return selectRendition(video.renditions, quality, (type) => probe.canPlayType(type) !== '');
+  }, [video, quality]);
+
+  const isEnabled = Boolean(strategy && (strategy.shouldLoadVideo || choice !== 'auto') && rendition && !hasFailed);
+
+  const rememberPosition = useCallback(() => {
+    const element = videoRef.current;
+    if (element) resumeRef.current = { time: element.currentTime, paused: element.paused };
+  }, [videoRef]);
+
+  const setQuality = useCallback(
+    (next: VideoQualityChoice) => {
+      rememberPosition();
+      setHasFailed(false);
+      setChoice(next);
+    },
+    [rememberPosition]
+  );
+
+  // Restore the position after a switch
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !isEnabled) return;
+    const handleLoadedMetadata = () => {
+      const resume = resumeRef.current;
+      resumeRef.current = null;
+      if (!resume) return;
+      if (resume.time > 0 && resume.time < element.duration) element.currentTime = resume.time;
+      if (resume.paused) element.pause();
+    };
+    element.addEventListener('loadedmetadata', handleLoadedMetadata);
+    return () => element.removeEventListener('loadedmetadata', handleLoadedMetadata);
+  }, [videoRef, isEnabled, rendition]);
+
+  // Stall detection; only "auto" adapts, a quality picked in the menu sticks
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !isEnabled || choice !== 'auto') return;
+    let hasStarted = false;
+    let stalls = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const handlePlaying = () => {
+      hasStarted = true;
+      clearTimeout(timer);
+    };
+    const handleWaiting = () => {
+      // Buffering before the first frame is loading, not a stall
+      if (!hasStarted) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        stalls += 1;
+        if (stalls < STALLS_BEFORE_SWITCH) return;
+        const lower = getLowerQuality(rendition.quality);
+        rememberPosition();
+        if (lower) {
+          setStrategy((current) => current && { ...current, quality: lower });
+        } else {
+          // Stalling at the lowest quality; the poster image stays instead
+          setHasFailed(true);
+        }
+      }, STALL_THRESHOLD_MS);
+    };
+
+    element.addEventListener('playing', handlePlaying);
+    element.addEventListener('waiting', handleWaiting);
+    return () => {
+      clearTimeout(timer);
+      element.removeEventListener('playing', handlePlaying);
+      element.removeEventListener('waiting', handleWaiting);
+    };
+  }, [videoRef, isEnabled, choice, rendition, rememberPosition]);
+
+  const handleError = useCallback(() => setHasFailed(true), []);
+
+  // Starts a declined or failed video at the strategy's quality, as if
+  // picked from the menu
+  const startVideo = useCallback(() => {
+    if (strategy) setQuality(strategy.quality);
+  }, [strategy, setQuality]);
+
+  return {
+    isReady: strategy !== null && video.renditions.length > 0,
+    isEnabled,
+    rendition: isEnabled ? rendition : undefined,
+    poster: rendition ? selectPoster(video.posters, rendition.quality) : undefined,
+    preload: strategy?.preload ?? 'none',
+    quality: choice,
+    setQuality,
+    startVideo,
+    handleError,
+  };
+};
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getAnalyticsConsent,
+  setAnalyticsConsent,
+  subscribeToAnalyticsConsent,
+  type AnalyticsConsent,
+} from '@/utils/analytics';
+
+// The visitor's analytics choice. Null while hydrating prerendered markup,
+// which is built without one, so nothing consent-dependent is prerendered.
+export function useAnalyticsConsent() {
+  const consent = useSyncExternalStore<AnalyticsConsent | null>(
+    subscribeToAnalyticsConsent,
+    getAnalyticsConsent,
+    () => null
+  );
+
+  return {
+    consent,
+    allow: () => setAnalyticsConsent('granted'),
+    decline: () => setAnalyticsConsent('denied'),
+  };
+}
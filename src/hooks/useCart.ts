@@ -0,0 +1,198 @@
+import { useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { hasRecentOrder } from '@/hooks/useRecentOrders';
+import type { DeliveryLocation } from '@/utils/delivery';
+import {
+  MAX_LINE_QUANTITY,
+  createOrderReference,
+  getCartLineKey,
+  type CartEntry,
+  type CartSelection,
+  type Fulfilment,
+  type PaymentMethod,
+} from '@/utils/order';
+
+// Shared cart store. Menu cards, the cart drawer and the floating WhatsApp
+// button live in separate lazily-loaded chunks, so state is kept at module
+// level (same pattern as use-toast) and persisted to localStorage.
+// Prerendered markup is built with an empty cart, so React gets that while
+// hydrating and re-renders with the saved cart after.
+
+const STORAGE_KEY = 'ambur-cart';
+
+interface PersistedCart {
+  entries: CartEntry[];
+  customerName: string;
+  fulfilment: Fulfilment;
+  couponCode: string;
+  deliveryLocation: DeliveryLocation | null;
+  paymentMethod: PaymentMethod;
+  orderReference: string; // '' until checkout needs one; a cleared cart starts a new order
+}
+
+interface CartState extends PersistedCart {
+  isOpen: boolean;
+}
+
+type OrderDetailsUpdate = Partial<
+  Pick<CartState, 'customerName' | 'fulfilment' | 'couponCode' | 'deliveryLocation' | 'paymentMethod' | 'orderReference'>
+>;
+
+type Action =
+  | { type: 'ADD_ITEM'; selection: CartSelection; quantity: number }
+  | { type: 'SET_QUANTITY'; key: string; quantity: number }
+  | { type: 'SET_DETAILS'; details: OrderDetailsUpdate }
+  | { type: 'CLEAR' }
+  | { type: 'SET_OPEN'; isOpen: boolean };
+
+const persistedCartSchema = z.object({
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      variantId: z.string().optional(),
+      addOnIds: z.array(z.string()).default([]), // carts saved before add-ons existed
+      quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY),
+    })
+  ),
+  customerName: z.string(),
+  fulfilment: z.enum(['pickup', 'delivery']),
+  couponCode: z.string().default(''), // carts saved before coupons existed
+  deliveryLocation: z
+    .discriminatedUnion('kind', [
+      z.object({ kind: z.literal('pincode'), pincode: z.string() }),
+      z.object({ kind: z.literal('location'), latitude: z.number(), longitude: z.number() }),
+    ])
+    .nullable()
+    .default(null),
+  paymentMethod: z.enum(['later', 'upi']).default('later'),
+  orderReference: z.string().default(''),
+});
+
+const emptyState: CartState = {
+  entries: [],
+  customerName: '',
+  fulfilment: 'pickup',
+  couponCode: '',
+  deliveryLocation: null,
+  paymentMethod: 'later',
+  orderReference: '',
+  isOpen: false,
+};
+
+const loadState = (): CartState => {
+  if (typeof window === 'undefined') return emptyState;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return emptyState;
+    const parsed = persistedCartSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? { ...emptyState, ...(parsed.data as PersistedCart) } : emptyState;
+  } catch {
+    return emptyState;
+  }
+};
+
+const saveState = (state: CartState) => {
+  try {
+    const { entries, customerName, fulfilment, couponCode, deliveryLocation, paymentMethod, orderReference } = state;
+    const persisted: PersistedCart = {
+      entries,
+      customerName,
+      fulfilment,
+      couponCode,
+      deliveryLocation,
+      paymentMethod,
+      orderReference,
+    };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+  } catch {
+    // Storage can be full or disabled (private mode); the cart still works in memory
+  }
+};
+
+const clampQuantity = (quantity: number) =>
+  Math.max(0, Math.min(MAX_LINE_QUANTITY, Math.floor(quantity)));
+
+export const reducer = (state: CartState, action: Action): CartState => {
+  switch (action.type) {
+    case 'ADD_ITEM': {
+      const key = getCartLineKey(action.selection);
+      const existing = state.entries.find(entry => getCartLineKey(entry) === key);
+      if (existing) {
+        return reducer(state, { type: 'SET_QUANTITY', key, quantity: existing.quantity + action.quantity });
+      }
+      const quantity = clampQuantity(action.quantity);
+      if (quantity === 0) return state;
+      return { ...state, entries: [...state.entries, { ...action.selection, quantity }] };
+    }
+
+    case 'SET_QUANTITY': {
+      const quantity = clampQuantity(action.quantity);
+      return {
+        ...state,
+        entries: quantity === 0
+          ? state.entries.filter(entry => getCartLineKey(entry) !== action.key)
+          : state.entries.map(entry => getCartLineKey(entry) === action.key ? { ...entry, quantity } : entry),
+      };
+    }
+
+    case 'SET_DETAILS':
+      return { ...state, ...action.details };
+
+    case 'CLEAR':
+      return { ...state, entries: [], orderReference: '' };
+
+    case 'SET_OPEN':
+      return { ...state, isOpen: action.isOpen };
+  }
+};
+
+const listeners: Array<() => void> = [];
+
+let memoryState: CartState = loadState();
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  saveState(memoryState);
+  listeners.forEach(listener => listener());
+}
+
+export const cartActions = {
+  addItem: (selection: CartSelection, quantity = 1) => dispatch({ type: 'ADD_ITEM', selection, quantity }),
+  // `key` is the line key from getCartLineKey
+  setQuantity: (key: string, quantity: number) => dispatch({ type: 'SET_QUANTITY', key, quantity }),
+  setDetails: (details: OrderDetailsUpdate) => dispatch({ type: 'SET_DETAILS', details }),
+  // The order's reference, created the first time checkout needs one
+  ensureOrderReference: () => {
+    if (!memoryState.orderReference) {
+      dispatch({ type: 'SET_DETAILS', details: { orderReference: createOrderReference(new Date(), Math.random, hasRecentOrder) } });
+    }
+    return memoryState.orderReference;
+  },
+  clear: () => dispatch({ type: 'CLEAR' }),
+  openCart: () => dispatch({ type: 'SET_OPEN', isOpen: true }),
+  closeCart: () => dispatch({ type: 'SET_OPEN', isOpen: false }),
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export function useCart() {
+  const state = useSyncExternalStore(subscribe, () => memoryState, () => emptyState);
+
+  // Total across every portion/add-on configuration of the dish
+  const getQuantity = (id: string) =>
+    state.entries.reduce((total, entry) => (entry.id === id ? total + entry.quantity : total), 0);
+
+  return {
+    ...state,
+    ...cartActions,
+    getQuantity,
+  };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import {
+  createContactFormSchema,
+  getContactTransport,
+  toContactMessage,
+  type ContactFormValues,
+  type ContactTransport,
+} from '@/utils/contact';
+
+const defaultValues: ContactFormValues = {
+  name: '',
+  phone: '',
+  email: '',
+  subject: '',
+  message: '',
+};
+
+// react-hook-form wiring shared by the contact forms; reports the outcome via toasts
+export function useContactForm(transport?: ContactTransport) {
+  const activeTransport = useMemo(() => transport ?? getContactTransport(), [transport]);
+  const { locale, t } = useLocale();
+  const schema = useMemo(() => createContactFormSchema(locale), [locale]);
+
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues,
+    mode: 'onTouched',
+  });
+
+  const submit = useCallback(async (values: ContactFormValues) => {
+    try {
+      await activeTransport.send(toContactMessage(values));
+      toast({
+        title: t('contact.sent'),
+        description: t(activeTransport.id === 'http' ? 'contact.sentDelivered' : 'contact.sentReady'),
+      });
+      form.reset(defaultValues);
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: t('contact.notSent'),
+        description: t('contact.notSentHint'),
+      });
+    }
+  }, [activeTransport, form, t]);
+
+  return {
+    form,
+    onSubmit: form.handleSubmit(submit),
+    isSubmitting: form.formState.isSubmitting,
+  };
+}
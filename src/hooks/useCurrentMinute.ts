@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from 'react';
+
+const REFRESH_INTERVAL = 60 * 1000;
+
+// One clock shared by every subscriber; it only ticks while something is
+// subscribed
+const listeners: Array<() => void> = [];
+
+let currentMinute = new Date();
+let timeout: ReturnType<typeof setTimeout> | undefined;
+let interval: ReturnType<typeof setInterval> | undefined;
+
+const refresh = () => {
+  currentMinute = new Date();
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener);
+  if (listeners.length === 1) {
+    // Stale after a spell without subscribers; React re-reads the snapshot
+    // once subscribed, so no need to notify here
+    currentMinute = new Date();
+    timeout = setTimeout(() => {
+      refresh();
+      interval = setInterval(refresh, REFRESH_INTERVAL);
+    }, REFRESH_INTERVAL - (Date.now() % REFRESH_INTERVAL));
+  }
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+    if (listeners.length === 0) {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    }
+  };
+};
+
+// The current time, refreshed at the top of every minute, for anything that
+// depends on the restaurant's clock. Null while hydrating: prerendered markup
+// was built at some other time, so nothing time-dependent is prerendered.
+export function useCurrentMinute(): Date | null {
+  return useSyncExternalStore(subscribe, () => currentMinute, () => null);
+}
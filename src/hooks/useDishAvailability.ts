@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import type { MenuItem } from '@/data/menu';
+import { useCurrentMinute } from '@/hooks/useCurrentMinute';
+import { useLocale } from '@/hooks/useLocale';
+import { getDishAvailability, type DishAvailability } from '@/utils/availability';
+import { formatLocaleTimeOfDay, formatLocaleWeekday } from '@/utils/i18n';
+import { MAX_LINE_QUANTITY } from '@/utils/order';
+
+export interface DishOrderability {
+  availability: DishAvailability;
+  canOrder: boolean;
+  maxQuantity: number; // per cart line, capped by what's left of a daily limit
+  label?: string; // "Sold out today", "Available from 6 PM"; unset while orderable
+}
+
+// Returns a lookup that says whether a dish can be ordered right now and,
+// if not, when it can. Re-evaluated at the top of every minute. Every dish
+// reads as orderable while hydrating, as in the prerendered markup.
+export function useDishAvailability() {
+  const { locale, t } = useLocale();
+  const now = useCurrentMinute();
+
+  return useCallback((item: MenuItem): DishOrderability => {
+    const availability: DishAvailability = now ? getDishAvailability(item, now) : { status: 'available' };
+
+    if (availability.status === 'available') {
+      return {
+        availability,
+        canOrder: true,
+        maxQuantity: Math.min(MAX_LINE_QUANTITY, availability.remaining ?? MAX_LINE_QUANTITY),
+      };
+    }
+
+    let label: string;
+    if (availability.status === 'sold-out') {
+      label = t('menu.soldOut');
+    } else if (availability.status === 'unavailable') {
+      label = t('menu.notAvailable');
+    } else {
+      // Dishes served all day only say which day they're back
+      const { daysAhead, minuteOfDay } = availability;
+      const isAllDay = minuteOfDay === undefined;
+      const time = formatLocaleTimeOfDay(minuteOfDay ?? 0, locale);
+      const day = formatLocaleWeekday(availability.day, locale);
+      if (daysAhead === 0) {
+        label = t('menu.availableFrom', { time });
+      } else if (daysAhead === 1) {
+        label = isAllDay ? t('menu.availableTomorrow') : t('menu.availableTomorrowFrom', { time });
+      } else {
+        label = isAllDay ? t('menu.availableOn', { day }) : t('menu.availableOnFrom', { day, time });
+      }
+    }
+
+    return { availability, canOrder: false, maxQuantity: 0, label };
+  }, [now, locale, t]);
+}
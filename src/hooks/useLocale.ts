@@ -0,0 +1,73 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import type { MessageKey } from '@/data/messages/en';
+import {
+  formatLocalePrice,
+  isLocale,
+  localizePath,
+  splitLocalePath,
+  translate,
+  translatePlural,
+  type MessageParams,
+  type PluralBase,
+} from '@/utils/i18n';
+
+const STORAGE_KEY = 'ambur-locale';
+
+export const getStoredLocale = (): Locale | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored && isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeLocale = (locale: Locale) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage unavailable (private mode); the URL prefix still carries the choice
+  }
+};
+
+// The active locale comes from the URL prefix (/ta/..., /hi/...), so every
+// page is linkable in its language. Switching language keeps the current
+// page, query and scroll position and remembers the choice for next visit.
+export function useLocale() {
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+  const { locale, path } = splitLocalePath(pathname);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+  const tp = useCallback(
+    (base: PluralBase, count: number, params?: MessageParams) => translatePlural(locale, base, count, params),
+    [locale]
+  );
+  const formatPrice = useCallback((amount: number) => formatLocalePrice(amount, locale), [locale]);
+  const localize = useCallback((sitePath: string) => localizePath(sitePath, locale), [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    if (next === locale) return;
+    navigate(`${localizePath(path, next)}${search}${hash}`, {
+      replace: true,
+      state: { keepScroll: true },
+      preventScrollReset: true,
+    });
+  }, [navigate, locale, path, search, hash]);
+
+  return useMemo(() => ({
+    locale,
+    isDefaultLocale: locale === DEFAULT_LOCALE,
+    t,
+    tp,
+    formatPrice,
+    localizePath: localize,
+    setLocale,
+  }), [locale, t, tp, formatPrice, localize, setLocale]);
+}
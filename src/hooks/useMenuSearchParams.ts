@@ -0,0 +1,127 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { getMenuCategory, type MenuItem } from '@/data/menu';
+import { useLocale } from '@/hooks/useLocale';
+import { getSiteRouteState, type SiteRouteState } from '@/hooks/useSiteRoute';
+import {
+  isMenuFacetId,
+  isMenuSortId,
+  type MenuFilters,
+  type MenuSortId,
+  type PriceRange,
+} from '@/utils/menuFilters';
+import { dishPath, menuPath, type RouteParams } from '@/utils/routes';
+
+const QUERY_PARAM = 'q';
+const CATEGORY_PARAM = 'category';
+const FACETS_PARAM = 'filters';
+const PRICE_PARAM = 'price';
+const SORT_PARAM = 'sort';
+
+const keepScrollState: SiteRouteState = { keepScroll: true };
+
+const parsePrice = (value: string | null): PriceRange | null => {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return null;
+  const [min, max] = [Number(match[1]), Number(match[2])];
+  return min <= max ? [min, max] : null;
+};
+
+// Keeps the menu state in the URL so a filtered menu or a single dish can be
+// shared. The category and open dish are route segments
+// (/menu/briyani/mutton-briyani); search text, facets and sort order are
+// query params (?q=biryani&filters=veg,popular&price=100-300&sort=rating).
+// Filter updates replace the history entry rather than adding one per
+// keystroke; opening a dish adds one so Back closes it.
+export function useMenuSearchParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const routeParams = useParams<keyof RouteParams>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { localizePath } = useLocale();
+  const routeState = getSiteRouteState(location.state);
+
+  const query = searchParams.get(QUERY_PARAM) ?? '';
+  // A dish opened from the grid keeps the grid's category behind the sheet;
+  // ?category= is still read for links shared before category routes existed
+  const requestedCategory = (routeParams.dishSlug && routeState.menuCategory)
+    || routeParams.category
+    || searchParams.get(CATEGORY_PARAM);
+  const category = requestedCategory && getMenuCategory(requestedCategory) ? requestedCategory : 'all';
+  const dishSlug = routeParams.dishSlug ?? null;
+  const requestedSort = searchParams.get(SORT_PARAM) ?? '';
+  const sort: MenuSortId = isMenuSortId(requestedSort) ? requestedSort : 'recommended';
+
+  const facetsParam = searchParams.get(FACETS_PARAM) ?? '';
+  const priceParam = searchParams.get(PRICE_PARAM);
+  const filters = useMemo<MenuFilters>(() => ({
+    facets: [...new Set(facetsParam.split(',').filter(isMenuFacetId))],
+    price: parsePrice(priceParam),
+  }), [facetsParam, priceParam]);
+
+  const update = useCallback((values: Record<string, string>) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      Object.entries(values).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, { replace: true, preventScrollReset: true, state: keepScrollState });
+  }, [setSearchParams]);
+
+  const setQuery = useCallback((value: string) => update({ [QUERY_PARAM]: value }), [update]);
+  // Query params carried over when the path changes
+  const search = useMemo(() => {
+    const next = new URLSearchParams(searchParams);
+    next.delete(CATEGORY_PARAM);
+    const value = next.toString();
+    return value ? `?${value}` : '';
+  }, [searchParams]);
+
+  const setCategory = useCallback((value: string) => {
+    navigate(`${localizePath(menuPath(value))}${search}`, { replace: true, state: keepScrollState, preventScrollReset: true });
+  }, [navigate, localizePath, search]);
+
+  const openDish = useCallback((item: MenuItem) => {
+    const state: SiteRouteState = { keepScroll: true, menuCategory: category };
+    navigate(`${localizePath(dishPath(item))}${search}`, { state, preventScrollReset: true });
+  }, [navigate, localizePath, search, category]);
+
+  // Dishes opened from the grid close with Back; a dish opened from a shared
+  // link closes to its category
+  const openedFromGrid = routeState.menuCategory !== undefined;
+  const closeDish = useCallback(() => {
+    if (openedFromGrid) {
+      navigate(-1);
+      return;
+    }
+    navigate(`${localizePath(menuPath(category))}${search}`, { replace: true, state: keepScrollState, preventScrollReset: true });
+  }, [navigate, localizePath, openedFromGrid, category, search]);
+
+  const setSort = useCallback(
+    (value: MenuSortId) => update({ [SORT_PARAM]: value === 'recommended' ? '' : value }),
+    [update]
+  );
+  const setFilters = useCallback((value: MenuFilters) => update({
+    [FACETS_PARAM]: value.facets.join(','),
+    [PRICE_PARAM]: value.price ? value.price.join('-') : '',
+  }), [update]);
+
+  return {
+    query,
+    category,
+    dishSlug,
+    filters,
+    sort,
+    setQuery,
+    setCategory,
+    setFilters,
+    setSort,
+    openDish,
+    closeDish,
+  };
+}
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useCurrentMinute } from '@/hooks/useCurrentMinute';
+import { useLocale } from '@/hooks/useLocale';
+import { useSiteContent } from '@/hooks/useSiteContent';
+import { formatLocaleOpeningTime, formatLocaleWeekday } from '@/utils/i18n';
+import { getOpeningStatus, type OpeningStatus } from '@/utils/openingHours';
+
+export interface LocalizedOpeningStatus extends OpeningStatus {
+  label: string; // "Open now · closes at midnight", "Opens tomorrow at 10 am"
+}
+
+// Re-evaluates the opening status at the top of every minute, and straight
+// away when published hours change. Null while hydrating (see useCurrentMinute).
+export function useOpeningStatus(): LocalizedOpeningStatus | null {
+  const { content } = useSiteContent();
+  const { locale, t } = useLocale();
+  const schedule = content.hours;
+  const now = useCurrentMinute();
+
+  return useMemo(() => {
+    if (!now) return null;
+    const status = getOpeningStatus(now, schedule);
+    const { key, minuteOfDay, day } = status.message;
+    const label = t(key, {
+      time: minuteOfDay === undefined ? '' : formatLocaleOpeningTime(minuteOfDay, locale),
+      day: day ? formatLocaleWeekday(day, locale) : '',
+    });
+    return { ...status, label };
+  }, [now, schedule, locale, t]);
+}
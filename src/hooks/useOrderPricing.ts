@@ -0,0 +1,11 @@
+import { useCurrentMinute } from '@/hooks/useCurrentMinute';
+import type { CartLine } from '@/utils/order';
+import { priceOrder, type OrderPricing } from '@/utils/promotions';
+
+// Offers and the coupon applied to the cart. Also re-priced at the top of
+// every minute, as offers can start or end while the cart is open. No
+// offers apply while hydrating, when the cart is empty anyway.
+export function useOrderPricing(lines: CartLine[], couponCode: string): OrderPricing {
+  const now = useCurrentMinute();
+  return now ? priceOrder(lines, { couponCode, now }) : priceOrder(lines, { couponCode, promotions: [] });
+}
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { absoluteUrl } from '@/data/restaurant';
+import type { RouteMeta } from '@/utils/routes';
+
+const setMetaContent = (selector: string, content: string) => {
+  const element = document.head.querySelector<HTMLMetaElement>(selector);
+  if (element) element.content = content;
+};
+
+// Keeps the document language, title, description, canonical URL and Open
+// Graph title/description in sync with the current route
+export function usePageMeta(meta: RouteMeta | null) {
+  const title = meta?.title;
+  const description = meta?.description;
+  const path = meta?.path;
+  const locale = meta?.locale;
+
+  useEffect(() => {
+    if (!title || !description || !path || !locale) return;
+
+    document.documentElement.lang = locale;
+    document.title = title;
+    setMetaContent('meta[name="description"]', description);
+    setMetaContent('meta[property="og:title"]', title);
+    setMetaContent('meta[property="og:description"]', description);
+
+    const canonical = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    if (canonical) canonical.href = absoluteUrl(path);
+  }, [title, description, path, locale]);
+}
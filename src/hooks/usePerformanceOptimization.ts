@@ -5,6 +5,18 @@ import { useEffect, useCallback, useRef, useMemo, useState } from 'react';
  */
 export const useDevicePerformance = () => {
   const performanceInfo = useMemo(() => {
+    // Prerendering has no device to measure; assume a capable one
+    if (typeof window === 'undefined') {
+      return {
+        score: 70,
+        isLowEnd: false,
+        isMidRange: false,
+        isHighEnd: true,
+        prefersReducedMotion: false,
+        shouldReduceAnimations: false
+      };
+    }
+
     // Check for reduced motion preference
     const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
     
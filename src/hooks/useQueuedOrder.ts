@@ -0,0 +1,82 @@
+import { useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { buildWhatsAppLink } from '@/utils/order';
+
+// An order composed while offline. WhatsApp can't be reached without a
+// connection, so the message is persisted (same module-level pattern as
+// useCart) until the customer sends it once back online. None while
+// hydrating, as for the cart.
+
+const STORAGE_KEY = 'ambur-queued-order';
+
+const queuedOrderSchema = z.object({
+  message: z.string().min(1),
+  queuedAt: z.number(),
+});
+
+export type QueuedOrder = z.infer<typeof queuedOrderSchema>;
+
+const loadOrder = (): QueuedOrder | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = queuedOrderSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? (parsed.data as QueuedOrder) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveOrder = (order: QueuedOrder | null) => {
+  try {
+    if (order) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(order));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode); the order is kept for this visit only
+  }
+};
+
+const listeners: Array<() => void> = [];
+
+let memoryOrder: QueuedOrder | null = loadOrder();
+
+const setOrder = (order: QueuedOrder | null) => {
+  memoryOrder = order;
+  saveOrder(order);
+  listeners.forEach(listener => listener());
+};
+
+export const queuedOrderActions = {
+  // Replaces any earlier queued order; the latest cart is what the customer wants
+  queue: (message: string) => setOrder({ message, queuedAt: Date.now() }),
+  // Must run from a click so the WhatsApp window isn't blocked as a popup
+  send: () => {
+    if (!memoryOrder) return;
+    window.open(buildWhatsAppLink(memoryOrder.message), '_blank', 'noopener,noreferrer');
+    setOrder(null);
+  },
+  discard: () => setOrder(null),
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export function useQueuedOrder() {
+  const order = useSyncExternalStore(subscribe, () => memoryOrder, () => null);
+
+  return {
+    order,
+    ...queuedOrderActions,
+  };
+}
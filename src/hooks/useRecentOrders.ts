@@ -0,0 +1,75 @@
+import { useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { receiptSchema, type Receipt } from '@/utils/receipt';
+
+// Receipts of orders sent from this device, newest first, for the "My recent
+// orders" list. Kept in localStorage only (same module-level pattern as
+// useCart); nothing about past orders is stored anywhere else. Empty while
+// hydrating, as for the cart.
+
+const STORAGE_KEY = 'ambur-recent-orders';
+
+export const MAX_RECENT_ORDERS = 10;
+
+const loadOrders = (): Receipt[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(receiptSchema).safeParse(JSON.parse(stored));
+    return parsed.success ? (parsed.data as Receipt[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveOrders = (orders: Receipt[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(orders));
+  } catch {
+    // Storage unavailable (private mode); the list is kept for this visit only
+  }
+};
+
+const listeners: Array<() => void> = [];
+
+const noOrders: Receipt[] = [];
+
+let memoryOrders: Receipt[] = loadOrders();
+
+const setOrders = (orders: Receipt[]) => {
+  memoryOrders = orders;
+  saveOrders(orders);
+  listeners.forEach(listener => listener());
+};
+
+export const hasRecentOrder = (reference: string) => memoryOrders.some(order => order.reference === reference);
+
+export const recentOrderActions = {
+  // Sending the same order again (same reference) replaces its receipt
+  record: (receipt: Receipt) =>
+    setOrders(
+      [receipt, ...memoryOrders.filter(order => order.reference !== receipt.reference)].slice(0, MAX_RECENT_ORDERS)
+    ),
+  remove: (reference: string) => setOrders(memoryOrders.filter(order => order.reference !== reference)),
+  clear: () => setOrders([]),
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export function useRecentOrders() {
+  const orders = useSyncExternalStore(subscribe, () => memoryOrders, () => noOrders);
+
+  return {
+    orders,
+    ...recentOrderActions,
+  };
+}
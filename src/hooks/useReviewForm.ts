@@ -0,0 +1,57 @@
+import { useCallback, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from '@/hooks/use-toast';
+import {
+  getReviewTransport,
+  reviewFormSchema,
+  toReviewSubmission,
+  type ReviewFormValues,
+  type ReviewTransport,
+} from '@/utils/reviewSubmission';
+
+const defaultValues: ReviewFormValues = {
+  name: '',
+  rating: 0,
+  itemId: '',
+  text: '',
+  photo: '',
+};
+
+// react-hook-form wiring for the review form; reports the outcome via toasts
+// and calls onSubmitted once the review is on its way to moderation
+export function useReviewForm(onSubmitted?: () => void, transport?: ReviewTransport) {
+  const activeTransport = useMemo(() => transport ?? getReviewTransport(), [transport]);
+
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewFormSchema),
+    defaultValues,
+    mode: 'onTouched',
+  });
+
+  const submit = useCallback(async (values: ReviewFormValues) => {
+    try {
+      await activeTransport.submit(toReviewSubmission(values));
+      toast({
+        title: 'Thank you for your review',
+        description: activeTransport.id === 'http'
+          ? "It will appear on the site once we've checked it."
+          : 'Your review is ready - just hit send to share it with us.',
+      });
+      form.reset(defaultValues);
+      onSubmitted?.();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Review not sent',
+        description: error instanceof Error ? error.message : 'Please try again in a moment.',
+      });
+    }
+  }, [activeTransport, form, onSubmitted]);
+
+  return {
+    form,
+    onSubmit: form.handleSubmit(submit),
+    isSubmitting: form.formState.isSubmitting,
+  };
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import type { Review } from '@/data/reviews';
+import { useSiteContent } from '@/hooks/useSiteContent';
+import { getDishRating, getPublishedReviews, summarizeRatings, type RatingSummary } from '@/utils/reviews';
+
+export interface ReviewsView {
+  published: Review[]; // approved, newest first
+  overall: RatingSummary | null;
+  getDishRating: (itemId: string) => RatingSummary | null;
+}
+
+// Approved reviews and the star averages worked out from them, following
+// what staff publish (or preview) from the admin panel
+export function useReviews(): ReviewsView {
+  const { content } = useSiteContent();
+
+  return useMemo(() => {
+    const published = getPublishedReviews(content.reviews);
+    return {
+      published,
+      overall: summarizeRatings(published),
+      getDishRating: (itemId: string) => getDishRating(itemId, published),
+    };
+  }, [content.reviews]);
+}
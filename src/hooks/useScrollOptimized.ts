@@ -41,3 +41,33 @@ export const useSmoothScroll = () => {
 };
 
 
+
+// Height of the fixed navigation bar (h-20); sections scroll to just below it
+export const NAV_OFFSET = 80;
+
+const MAX_SCROLL_ATTEMPTS = 120; // ~2s at 60fps
+
+// Scrolls to a section by element id. Lazily loaded sections may not be in
+// the DOM yet on first load, so this retries each frame until the element
+// appears. Returns a cancel function for use in effect cleanups.
+export const scrollToSection = (id: string, behavior: ScrollBehavior = 'smooth') => {
+  let frame = 0;
+  let attempts = 0;
+
+  const attempt = () => {
+    if (id === 'home') {
+      window.scrollTo({ top: 0, behavior });
+      return;
+    }
+    const element = document.getElementById(id);
+    if (element) {
+      const top = element.getBoundingClientRect().top + window.scrollY - NAV_OFFSET;
+      window.scrollTo({ top: Math.max(0, top), behavior });
+    } else if (++attempts < MAX_SCROLL_ATTEMPTS) {
+      frame = requestAnimationFrame(attempt);
+    }
+  };
+
+  attempt();
+  return () => cancelAnimationFrame(frame);
+};
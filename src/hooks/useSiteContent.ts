@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from 'react';
+import { menuCatalog, setMenuCatalog, type MenuCatalog } from '@/data/menu';
+import { setOpeningSchedule } from '@/data/openingHours';
+import { setReviews } from '@/data/reviews';
+import { defaultSiteContent, type SiteContent } from '@/data/siteContent';
+import { getContentStorage } from '@/utils/contentStorage';
+
+// Site content in effect: what staff published from /admin, or their draft
+// while previewing (opened with ?preview, remembered for the tab). The menu,
+// hours and reviews data modules are switched over too, so utilities that
+// read them directly (cart lines, routes, opening status, ratings) agree
+// with the page.
+//
+// Prerendered markup is built from the built-in content, so React gets that
+// snapshot while hydrating and re-renders with the loaded content after.
+
+const PREVIEW_PARAM = 'preview';
+const PREVIEW_KEY = 'ambur-content-preview';
+
+interface SiteContentState {
+  content: SiteContent;
+  menu: MenuCatalog; // public catalog: hidden categories and dishes removed
+  isPreview: boolean;
+}
+
+const defaultState: SiteContentState = {
+  content: defaultSiteContent,
+  menu: menuCatalog,
+  isPreview: false,
+};
+
+const listeners: Array<() => void> = [];
+
+let memoryState = defaultState;
+
+const applyContent = (content: SiteContent, isPreview: boolean) => {
+  setMenuCatalog(content.menu);
+  setOpeningSchedule(content.hours);
+  setReviews(content.reviews);
+  memoryState = { content, menu: menuCatalog, isPreview };
+  listeners.forEach(listener => listener());
+};
+
+let checkedPreviewParam = false;
+
+// The ?preview parameter only counts on first load so exiting sticks
+const isPreviewRequested = () => {
+  try {
+    if (!checkedPreviewParam && new URLSearchParams(window.location.search).has(PREVIEW_PARAM)) {
+      window.sessionStorage.setItem(PREVIEW_KEY, 'true');
+    }
+    return window.sessionStorage.getItem(PREVIEW_KEY) === 'true';
+  } catch {
+    return false;
+  } finally {
+    checkedPreviewParam = true;
+  }
+};
+
+const storage = getContentStorage();
+let isWatching = false;
+
+// Called once from App after hydration; re-runs when another tab saves a
+// draft or publishes, so a preview tab follows the editor
+export const loadSiteContent = async () => {
+  if (!isWatching) {
+    storage.watch(() => {
+      loadSiteContent();
+    });
+    isWatching = true;
+  }
+
+  try {
+    const draft = isPreviewRequested() ? await storage.loadDraft() : null;
+    const content = draft ?? (await storage.loadPublished()) ?? defaultSiteContent;
+    applyContent(content, Boolean(draft));
+  } catch {
+    // Content endpoint unreachable; the built-in content stays
+  }
+};
+
+export const exitContentPreview = () => {
+  try {
+    window.sessionStorage.removeItem(PREVIEW_KEY);
+  } catch {
+    // sessionStorage unavailable; preview was never remembered
+  }
+  return loadSiteContent();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export function useSiteContent() {
+  return useSyncExternalStore(subscribe, () => memoryState, () => defaultState);
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate, useNavigationType, useParams } from 'react-router-dom';
+import { DEFAULT_LOCALE } from '@/data/locales';
+import { getStoredLocale, useLocale } from '@/hooks/useLocale';
+import { scrollToSection } from '@/hooks/useScrollOptimized';
+import { usePageMeta } from '@/hooks/usePageMeta';
+import { localizePath } from '@/utils/i18n';
+import {
+  getRouteMeta,
+  isSiteSection,
+  resolveRoute,
+  sectionPath,
+  type ResolvedRoute,
+  type RouteParams,
+  type SiteSection,
+} from '@/utils/routes';
+
+// History state attached by in-page navigations
+export interface SiteRouteState {
+  // Menu navigations (category chips, opening a dish) keep the scroll position
+  keepScroll?: boolean;
+  // Grid category a dish was opened from, so closing it restores the grid
+  menuCategory?: string;
+}
+
+const keepScrollState: SiteRouteState = { keepScroll: true };
+
+export const getSiteRouteState = (state: unknown): SiteRouteState =>
+  state && typeof state === 'object' ? (state as SiteRouteState) : {};
+
+// Resolves the current URL to a locale and section/category/dish, keeps the
+// page meta in sync and scrolls to the section on load and on every forward
+// navigation. Back/forward leave scrolling to the browser's own scroll
+// restoration. Returns null when the URL names an unknown category or dish.
+export function useSiteRoute(): ResolvedRoute | null {
+  const { category, dishSlug } = useParams<keyof RouteParams>();
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const navigate = useNavigate();
+  const isInitialLoad = useRef(true);
+
+  const route = useMemo(
+    () => resolveRoute(location.pathname, { category, dishSlug }),
+    [location.pathname, category, dishSlug]
+  );
+  const section = route?.section;
+
+  usePageMeta(route ? getRouteMeta(route) : null);
+
+  // Old "/#menu" style links redirect to their route
+  const legacySection = location.pathname === '/' ? location.hash.slice(1) : '';
+  useEffect(() => {
+    if (legacySection && isSiteSection(legacySection)) {
+      navigate(localizePath(sectionPath(legacySection), getStoredLocale() ?? DEFAULT_LOCALE), { replace: true });
+    }
+  }, [legacySection, navigate]);
+
+  // Unprefixed (English) URLs open in the visitor's saved language. Only the
+  // URL the page was opened at counts; later ones were picked in the page.
+  const initialLocation = useRef<{ pathname: string; search: string; isDefaultLocale: boolean } | null>({
+    pathname: location.pathname,
+    search: location.search,
+    isDefaultLocale: !legacySection && route?.locale === DEFAULT_LOCALE,
+  });
+  useEffect(() => {
+    const initial = initialLocation.current;
+    initialLocation.current = null;
+    const storedLocale = getStoredLocale();
+    if (!initial?.isDefaultLocale || !storedLocale || storedLocale === DEFAULT_LOCALE) return;
+    navigate(`${localizePath(initial.pathname, storedLocale)}${initial.search}`, {
+      replace: true,
+      state: keepScrollState,
+    });
+  }, [navigate]);
+
+  // Navigation type and state change together with location.key, so they
+  // don't re-run this on their own
+  const keepScroll = Boolean(getSiteRouteState(location.state).keepScroll);
+  useEffect(() => {
+    if (!section) return;
+    const firstRun = isInitialLoad.current;
+    isInitialLoad.current = false;
+
+    if (!firstRun && (navigationType === 'POP' || keepScroll)) return;
+    if (firstRun && section === 'home') return;
+    return scrollToSection(section, firstRun ? 'auto' : 'smooth');
+    // location.key re-runs this for repeat clicks on the current section
+  }, [section, location.key, navigationType, keepScroll]);
+
+  return route;
+}
+
+// Navigation for section links (navbar, hero buttons, cart "Browse Menu"),
+// staying in the current language
+export function useSectionNavigation() {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { localizePath: localize } = useLocale();
+
+  return useCallback((section: SiteSection) => {
+    const path = localize(sectionPath(section));
+    navigate(path, { replace: path === pathname });
+  }, [navigate, pathname, localize]);
+}
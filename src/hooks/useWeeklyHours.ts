@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { useLocale } from '@/hooks/useLocale';
+import { useSiteContent } from '@/hooks/useSiteContent';
+import { formatLocaleOpeningTime, formatLocaleWeekday } from '@/utils/i18n';
+import { describeWeeklyHours, parseTime } from '@/utils/openingHours';
+
+// The published weekly hours as lines of text in the visitor's language:
+// "Every day: 10 am – midnight", or one line per day when they differ
+export function useWeeklyHours(): string[] {
+  const { content } = useSiteContent();
+  const { locale, t } = useLocale();
+  const schedule = content.hours;
+
+  return useMemo(
+    () =>
+      describeWeeklyHours(schedule).map(({ day, periods }) => {
+        const hours =
+          periods.length === 0
+            ? t('hours.closed')
+            : periods
+              .map(period =>
+                t('hours.period', {
+                  opens: formatLocaleOpeningTime(parseTime(period.opens), locale),
+                  closes: formatLocaleOpeningTime(parseTime(period.closes), locale),
+                })
+              )
+              .join(', ');
+        return day ? t('hours.day', { day: formatLocaleWeekday(day, locale), hours }) : t('hours.everyDay', { hours });
+      }),
+    [schedule, locale, t]
+  );
+}
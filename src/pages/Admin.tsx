@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useReducer, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Eye, Loader2, LogOut, RotateCcw, Save, Send, Undo2 } from "lucide-react";
+import AdminLogin from "@/components/admin/AdminLogin";
+import HoursEditor from "@/components/admin/HoursEditor";
+import MenuEditor from "@/components/admin/MenuEditor";
+import PhotosEditor from "@/components/admin/PhotosEditor";
+import ReviewsEditor from "@/components/admin/ReviewsEditor";
+import { actionButtonClass } from "@/components/admin/styles";
+import { restaurant } from "@/data/restaurant";
+import { defaultSiteContent, type SiteContent } from "@/data/siteContent";
+import { toast } from "@/hooks/use-toast";
+import { loadSiteContent } from "@/hooks/useSiteContent";
+import { hasAdminSession, signOutAdmin } from "@/utils/adminAuth";
+import { contentEditorReducer, validateSiteContent } from "@/utils/contentEditor";
+import { ContentStorageError, getContentStorage } from "@/utils/contentStorage";
+
+const tabs = [
+  { id: "menu", label: "Menu & prices" },
+  { id: "hours", label: "Opening hours" },
+  { id: "photos", label: "About photos" },
+  { id: "reviews", label: "Reviews" },
+] as const;
+
+type TabId = (typeof tabs)[number]["id"];
+
+const storage = getContentStorage();
+
+const storageErrorMessage = (error: unknown) =>
+  error instanceof ContentStorageError ? error.message : "Something went wrong. Please try again.";
+
+// Edits a working copy of the site content. Drafts are saved through the
+// storage adapter and can be previewed on the real site (/?preview) before
+// publishing replaces what visitors see.
+const ContentAdmin = ({ onSignOut }: { onSignOut: () => void }) => {
+  const [content, dispatch] = useReducer(contentEditorReducer, defaultSiteContent);
+  const [savedContent, setSavedContent] = useState<SiteContent | null>(null);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [activeTab, setActiveTab] = useState<TabId>("menu");
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const issues = useMemo(() => validateSiteContent(content), [content]);
+  const isLoading = savedContent === null;
+  const hasUnsavedChanges = !isLoading && content !== savedContent;
+
+  const startFrom = (next: SiteContent, isDraft: boolean) => {
+    dispatch({ type: "RESET", content: next });
+    setSavedContent(next);
+    setHasDraft(isDraft);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const draft = await storage.loadDraft();
+        startFrom(draft ?? (await storage.loadPublished()) ?? defaultSiteContent, Boolean(draft));
+      } catch (error) {
+        toast({ variant: "destructive", title: "Couldn't load the published content", description: storageErrorMessage(error) });
+        startFrom(defaultSiteContent, false);
+      }
+    };
+    load();
+  }, []);
+
+  // Closing the tab would lose edits that were never saved
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [hasUnsavedChanges]);
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action);
+    try {
+      await task();
+    } catch (error) {
+      toast({ variant: "destructive", title: `Couldn't ${action}`, description: storageErrorMessage(error) });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const saveDraft = () =>
+    run("save the draft", async () => {
+      await storage.saveDraft(content);
+      setSavedContent(content);
+      setHasDraft(true);
+      toast({ title: "Draft saved", description: "Visitors still see the published content." });
+    });
+
+  const preview = () => {
+    // Opened before the save resolves so the popup isn't blocked
+    const previewWindow = window.open("about:blank", "_blank");
+    run("save the draft", async () => {
+      try {
+        await storage.saveDraft(content);
+      } catch (error) {
+        previewWindow?.close();
+        throw error;
+      }
+      setSavedContent(content);
+      setHasDraft(true);
+      if (previewWindow) previewWindow.location.href = "/?preview";
+    });
+  };
+
+  const publish = () => {
+    if (!window.confirm("Publish these changes to the live site?")) return;
+    run("publish", async () => {
+      await storage.publish(content);
+      setSavedContent(content);
+      setHasDraft(false);
+      await loadSiteContent();
+      toast({ title: "Published", description: "The site now shows your changes." });
+    });
+  };
+
+  const discardDraft = () => {
+    if (!window.confirm("Throw away the draft and go back to the published content?")) return;
+    run("discard the draft", async () => {
+      await storage.discardDraft();
+      startFrom((await storage.loadPublished()) ?? defaultSiteContent, false);
+    });
+  };
+
+  const canSave = !isLoading && issues.length === 0 && busyAction === null;
+
+  return (
+    <div className="min-h-screen bg-dark text-white-off">
+      <header className="sticky top-0 z-20 bg-dark-light/95 backdrop-blur border-b border-dark-border">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+          <Link to="/" className="flex items-center gap-2 mr-auto">
+            <img src={restaurant.logo} alt="" className="h-8 w-auto" />
+            <span className="font-playfair text-xl">Content admin</span>
+          </Link>
+          {busyAction && <Loader2 className="w-4 h-4 animate-spin text-white-muted" aria-label="Working" />}
+          <span className="font-poppins text-xs text-white-muted" role="status">
+            {isLoading ? "Loading…" : hasUnsavedChanges ? "Unsaved changes" : hasDraft ? "Draft saved, not published" : "Up to date"}
+          </span>
+          <button type="button" onClick={saveDraft} disabled={!canSave || !hasUnsavedChanges} className={actionButtonClass}>
+            <Save size={16} /> Save draft
+          </button>
+          <button type="button" onClick={preview} disabled={!canSave} className={actionButtonClass}>
+            <Eye size={16} /> Preview
+          </button>
+          <button
+            type="button"
+            onClick={publish}
+            disabled={!canSave || (!hasUnsavedChanges && !hasDraft)}
+            className={`${actionButtonClass} bg-red-primary border-red-primary hover:bg-red-dark`}
+          >
+            <Send size={16} /> Publish
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              signOutAdmin();
+              onSignOut();
+            }}
+            className={actionButtonClass}
+          >
+            <LogOut size={16} /> Sign out
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        {issues.length > 0 && (
+          <div role="alert" className="bg-red-primary/10 border border-red-primary/40 rounded-2xl p-4 font-poppins text-sm">
+            <p className="flex items-center gap-2 font-medium mb-2">
+              <AlertTriangle size={16} className="text-red-primary" /> Fix these before saving:
+            </p>
+            <ul className="list-disc pl-6 space-y-1 text-white-muted">
+              {issues.slice(0, 8).map((issue, index) => (
+                <li key={index}>
+                  <span className="text-white-off">{issue.where}</span>: {issue.message}
+                </li>
+              ))}
+              {issues.length > 8 && <li>…and {issues.length - 8} more</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Content">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 rounded-full font-poppins text-sm transition-colors ${
+                activeTab === tab.id ? "bg-red-primary text-white" : "bg-dark-card text-white-muted hover:text-white-off"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+          <div className="ml-auto flex gap-2">
+            {hasDraft && (
+              <button type="button" onClick={discardDraft} disabled={busyAction !== null} className={actionButtonClass}>
+                <Undo2 size={16} /> Discard draft
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm("Replace your edits with the content the site was built with?")) {
+                  dispatch({ type: "RESET", content: defaultSiteContent });
+                }
+              }}
+              disabled={isLoading}
+              className={actionButtonClass}
+            >
+              <RotateCcw size={16} /> Built-in content
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-red-primary" />
+          </div>
+        ) : (
+          <div role="tabpanel">
+            {activeTab === "menu" && <MenuEditor menu={content.menu} dispatch={dispatch} />}
+            {activeTab === "hours" && <HoursEditor hours={content.hours} dispatch={dispatch} />}
+            {activeTab === "photos" && <PhotosEditor photos={content.heritagePhotos} dispatch={dispatch} />}
+            {activeTab === "reviews" && (
+              <ReviewsEditor reviews={content.reviews} items={content.menu.items} dispatch={dispatch} />
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+// /admin: password gate, then the content editor. Not prerendered or
+// listed in the sitemap, and kept out of search results.
+const Admin = () => {
+  const [isSignedIn, setIsSignedIn] = useState(hasAdminSession);
+
+  useEffect(() => {
+    const previousTitle = document.title;
+    const robots = document.createElement("meta");
+    robots.name = "robots";
+    robots.content = "noindex, nofollow";
+    document.head.appendChild(robots);
+    document.title = `Content admin | ${restaurant.name}`;
+    return () => {
+      robots.remove();
+      document.title = previousTitle;
+    };
+  }, []);
+
+  return isSignedIn ? (
+    <ContentAdmin onSignOut={() => setIsSignedIn(false)} />
+  ) : (
+    <AdminLogin onSignIn={() => setIsSignedIn(true)} />
+  );
+};
+
+export default Admin;
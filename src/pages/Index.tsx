@@ -2,17 +2,26 @@ import { useEffect, lazy, Suspense } from "react";
 import ModernNavigation from "@/components/ModernNavigation";
 import Hero from "@/components/Hero";
 import ScrollToTop from "@/components/ScrollToTop";
-import { measurePerformance, getDeviceInfo } from "@/utils/performanceMonitor";
+import { useSiteRoute } from "@/hooks/useSiteRoute";
+import { getDeviceInfo } from "@/utils/performanceMonitor";
+import { startWebVitalsReporting } from "@/utils/webVitals";
+import NotFound from "./NotFound";
 
 // Lazy load heavy components for better performance
 const AboutSection = lazy(() => import("@/components/AboutSection"));
 const DarkMenuSection = lazy(() => import("@/components/DarkMenuSection"));
+const ReviewsSection = lazy(() => import("@/components/ReviewsSection"));
 const DarkContactSection = lazy(() => import("@/components/DarkContactSection"));
+const CartDrawer = lazy(() => import("@/components/CartDrawer"));
 
+// Rendered for every site route; the route decides which section is scrolled
+// into view and whether a dish's details are open
 const Index = () => {
+  const route = useSiteRoute();
+
   useEffect(() => {
-    // Initialize performance monitoring
-    measurePerformance();
+    // Real-user Web Vitals, reported when the page is hidden
+    startWebVitalsReporting();
     
     // Log device info for debugging
     const deviceInfo = getDeviceInfo();
@@ -27,45 +36,9 @@ const Index = () => {
     }
   }, []);
   
-  useEffect(() => {
-    // Add smooth scrolling for anchor links with navbar offset
-    const handleHashScroll = () => {
-      const hash = window.location.hash;
-      if (hash) {
-        const element = document.querySelector(hash);
-        if (element) {
-          // Special handling for home section
-          if (hash === '#home') {
-            window.scrollTo({ top: 0, behavior: 'smooth' });
-          } else if (hash === '#about') {
-            // Special handling for about section
-            const offsetTop = (element as HTMLElement).offsetTop - 60;
-            window.scrollTo({
-              top: Math.max(0, offsetTop),
-              behavior: 'smooth'
-            });
-          } else {
-            // Account for navbar height for other sections
-            const offsetTop = (element as HTMLElement).offsetTop - 80;
-            window.scrollTo({
-              top: Math.max(0, offsetTop),
-              behavior: 'smooth'
-            });
-          }
-        }
-      }
-    };
-
-    // Handle initial load
-    handleHashScroll();
-
-    // Handle hash changes
-    window.addEventListener('hashchange', handleHashScroll);
-
-    return () => {
-      window.removeEventListener('hashchange', handleHashScroll);
-    };
-  }, []);
+  if (!route) {
+    return <NotFound />;
+  }
 
   return (
     <div className="min-h-screen bg-dark">
@@ -79,7 +52,9 @@ const Index = () => {
         }>
           <AboutSection />
           <DarkMenuSection />
+          <ReviewsSection />
           <DarkContactSection />
+          <CartDrawer />
         </Suspense>
       </main>
       <ScrollToTop />
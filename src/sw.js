@@ -0,0 +1,136 @@
+/**
+ * Service Worker
+ * Precaches the app shell, bundle, fonts and menu photos so the menu works
+ * offline. Pages are network-first (a cached copy or the shell when offline),
+ * static assets cache-first. The build fills in the placeholders below
+ * (buildServiceWorker in src/utils/pwa.ts) and emits this file as /sw.js.
+ *
+ * A new version waits until the page asks it to take over, so the update
+ * prompt (src/components/AppUpdatePrompts.tsx) decides when to reload.
+ */
+
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST__;
+const VERSION = self.__CACHE_VERSION__;
+const APP_SHELL = self.__APP_SHELL__;
+
+const PRECACHE = `ambur-precache-${VERSION}`;
+// Pages point at this build's hashed scripts and styles, so they're
+// versioned with the precache and dropped together on activate
+const PAGES_CACHE = `ambur-pages-${VERSION}`;
+const RUNTIME_CACHE = "ambur-runtime";
+const CURRENT_CACHES = [PRECACHE, PAGES_CACHE, RUNTIME_CACHE];
+
+const FONT_STYLESHEET_HOST = "fonts.googleapis.com";
+const FONT_FILE_HOST = "fonts.gstatic.com";
+
+// Google Fonts serves one @font-face per script subset; only the Latin ones
+// are used by the site, so only those are precached
+const latinFontUrls = (css) =>
+  css
+    .split("/* ")
+    .filter((block) => block.startsWith("latin */"))
+    .map((block) => block.match(/url\((https:[^)]+)\)/)?.[1])
+    .filter(Boolean);
+
+const isSameOrigin = (url) => new URL(url, self.location.origin).origin === self.location.origin;
+
+const precacheFonts = async (cache, stylesheets) => {
+  for (const url of stylesheets) {
+    await cache.add(url);
+    const response = await cache.match(url);
+    if (response) await cache.addAll(latinFontUrls(await response.text()));
+  }
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE).then(async (cache) => {
+      await cache.addAll(PRECACHE_URLS.filter(isSameOrigin));
+      // Fonts are a nicety; a blocked font host must not fail the install
+      const stylesheets = PRECACHE_URLS.filter((url) => !isSameOrigin(url));
+      await precacheFonts(cache, stylesheets).catch(() => undefined);
+    })
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => !CURRENT_CACHES.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(PAGES_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch {
+    return (
+      (await cache.match(request, { ignoreSearch: true })) ||
+      (await caches.match(request, { ignoreSearch: true, cacheName: PRECACHE })) ||
+      (await caches.match(APP_SHELL, { cacheName: PRECACHE })) ||
+      Response.error()
+    );
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque responses (status 0) come from cross-origin font files
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const refresh = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        const cache = await caches.open(RUNTIME_CACHE);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.host === FONT_STYLESHEET_HOST) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  if (url.host === FONT_FILE_HOST) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // Hashed bundle files and photos; the hero video streams with range
+  // requests and is left to the network
+  if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+  }
+});
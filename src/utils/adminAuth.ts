@@ -0,0 +1,72 @@
+/**
+ * Admin Sign-in
+ * Password gate for /admin. The password is checked against the SHA-256
+ * digest in VITE_ADMIN_PASSWORD_HASH, so the password itself never ships in
+ * the bundle. With no backend this only keeps casual visitors out; an http
+ * content endpoint (src/utils/contentStorage.ts) must authenticate publishes
+ * on its own.
+ *
+ * The session marker is a random nonce signed with an HMAC key made from the
+ * typed password. The digest is public in the bundle, so it can't be the
+ * marker; the key is never stored, so a reload asks for the password again.
+ */
+
+const SESSION_KEY = 'ambur-admin-session';
+
+// The marker this page load signed; null until someone signs in
+let sessionMarker: string | null = null;
+
+const configuredHash = () => import.meta.env.VITE_ADMIN_PASSWORD_HASH?.trim().toLowerCase() ?? '';
+
+export const isAdminConfigured = () => configuredHash().length > 0;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashPassword = async (password: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password)));
+
+// "<nonce>.<HMAC-SHA-256 of the nonce>", keyed by the password
+const signSessionNonce = async (password: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return `${nonce}.${toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(nonce)))}`;
+};
+
+// Only a marker signed on this page load counts, so one written by hand doesn't
+export const hasAdminSession = () => {
+  if (!isAdminConfigured() || !sessionMarker) return false;
+  try {
+    return window.sessionStorage.getItem(SESSION_KEY) === sessionMarker;
+  } catch {
+    // sessionStorage unavailable; the marker in memory is the session
+    return true;
+  }
+};
+
+export const signInAdmin = async (password: string) => {
+  if (!isAdminConfigured() || (await hashPassword(password)) !== configuredHash()) return false;
+  sessionMarker = await signSessionNonce(password);
+  try {
+    window.sessionStorage.setItem(SESSION_KEY, sessionMarker);
+  } catch {
+    // sessionStorage unavailable; signed in until the page reloads
+  }
+  return true;
+};
+
+export const signOutAdmin = () => {
+  sessionMarker = null;
+  try {
+    window.sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Nothing was remembered
+  }
+};
@@ -0,0 +1,228 @@
+/**
+ * Analytics
+ * A small typed event bus for what visitors do on the site: which categories
+ * and dishes they look at, what goes in the cart, and which call, WhatsApp
+ * and directions buttons get used. Events go to pluggable sinks, picked by
+ * VITE_ANALYTICS_SINK like the contact transport; with none configured
+ * nothing is collected at all.
+ *
+ * Privacy:
+ * - Nothing is sent until the visitor allows it (see AnalyticsConsentBanner),
+ *   and browsers signalling Global Privacy Control or Do Not Track start out
+ *   declined.
+ * - Events carry ids, counts and button placements only, never phone
+ *   numbers, names or message text. Properties are typed to that and
+ *   scrubbed again before sending: any string with a run of 7+ digits or
+ *   longer than a short label is dropped.
+ * - No cookies or visitor ids; the page path is sent without its query
+ *   string (it can hold search text).
+ */
+
+import type { Fulfilment, PaymentMethod } from '@/utils/order';
+
+export type ButtonPlacement = 'hero' | 'contact-card' | 'quick-order' | 'floating' | 'navigation';
+
+export interface AnalyticsEventMap {
+  menu_category_selected: { category: string };
+  dish_viewed: { dishId: string };
+  dish_added_to_cart: { dishId: string; variantId?: string; quantity: number; source: 'card' | 'details' };
+  dish_whatsapp_clicked: { dishId: string }; // sharing the dish on WhatsApp
+  hero_cta_clicked: { action: 'menu' | 'order' };
+  whatsapp_clicked: { placement: ButtonPlacement };
+  phone_call_clicked: { placement: ButtonPlacement; line: 'primary' | 'secondary' }; // which number, not the number
+  directions_clicked: { placement: ButtonPlacement };
+  cart_checkout: {
+    lineCount: number;
+    itemCount: number;
+    total: number; // ₹
+    fulfilment: Fulfilment;
+    payment: PaymentMethod;
+    queued: boolean; // sent while offline, handed to WhatsApp later
+  };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+type PropertyValue = string | number | boolean;
+
+export interface AnalyticsEvent<Name extends AnalyticsEventName = AnalyticsEventName> {
+  name: Name;
+  properties: AnalyticsEventMap[Name];
+  path: string;
+  timestamp: number;
+}
+
+export interface AnalyticsSink {
+  id: 'console' | 'beacon' | 'memory';
+  send: (event: AnalyticsEvent) => void;
+  flush?: () => void;
+}
+
+export type AnalyticsConsent = 'granted' | 'denied' | 'unset';
+
+const CONSENT_KEY = 'ambur-analytics-consent';
+const MAX_STRING_LENGTH = 64;
+const PHONE_LIKE = /\d(?:[\s().-]*\d){6,}/;
+
+// Drops anything that could be a phone number or free text; see the header
+export const scrubProperties = (properties: object) =>
+  Object.fromEntries(
+    Object.entries(properties).filter(([, value]: [string, unknown]) => {
+      if (typeof value === 'string') return value.length <= MAX_STRING_LENGTH && !PHONE_LIKE.test(value);
+      return typeof value === 'number' || typeof value === 'boolean';
+    })
+  ) as Record<string, PropertyValue>;
+
+export const createConsoleSink = (log: (...data: unknown[]) => void = console.info): AnalyticsSink => ({
+  id: 'console',
+  send: (event) => log(`[analytics] ${event.name}`, event.properties),
+});
+
+// Keeps every event; for tests and checking what would be sent
+export const createMemorySink = () => {
+  const events: AnalyticsEvent[] = [];
+  return {
+    id: 'memory' as const,
+    events,
+    send: (event: AnalyticsEvent) => {
+      events.push(event);
+    },
+    clear: () => {
+      events.length = 0;
+    },
+  };
+};
+
+// POSTs JSON with navigator.sendBeacon, which survives the page closing.
+// Sent as text/plain: a JSON content type isn't CORS-safelisted, and browsers
+// refuse to beacon it cross-origin. Falls back to a keepalive fetch.
+export const postBeacon = (endpoint: string, payload: unknown) => {
+  const body = JSON.stringify(payload);
+  const queued = typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(endpoint, body);
+  if (!queued) {
+    // Reporting must never get in the way of the page; failures are dropped
+    fetch(endpoint, { method: 'POST', body, keepalive: true }).catch(() => {});
+  }
+};
+
+interface BeaconSinkOptions {
+  endpoint: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+}
+
+// Batches events and POSTs them as `{ events: [...] }` with postBeacon;
+// flushes when the batch fills, after a quiet interval and when the page is
+// hidden
+export const createBeaconSink = ({ endpoint, batchSize = 20, flushIntervalMs = 10_000 }: BeaconSinkOptions): AnalyticsSink => {
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (queue.length === 0) return;
+    postBeacon(endpoint, { events: queue });
+    queue = [];
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+  }
+
+  return {
+    id: 'beacon',
+    send: (event) => {
+      queue.push(event);
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, flushIntervalMs);
+      }
+    },
+    flush,
+  };
+};
+
+export const getAnalyticsSinks = (): AnalyticsSink[] => {
+  const env = import.meta.env;
+
+  switch (env.VITE_ANALYTICS_SINK) {
+    case 'beacon':
+      if (env.VITE_ANALYTICS_ENDPOINT) {
+        return [createBeaconSink({ endpoint: env.VITE_ANALYTICS_ENDPOINT })];
+      }
+      break;
+    case 'console':
+      return [createConsoleSink()];
+  }
+
+  return [];
+};
+
+// Browser privacy signals count as declining until the visitor says otherwise
+const prefersNoTracking = () =>
+  (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true ||
+  navigator.doNotTrack === '1';
+
+const loadConsent = (): AnalyticsConsent => {
+  if (typeof window === 'undefined') return 'unset';
+  try {
+    const stored = window.localStorage.getItem(CONSENT_KEY);
+    if (stored === 'granted' || stored === 'denied') return stored;
+  } catch {
+    // Storage unavailable; fall through to the browser's signals
+  }
+  return prefersNoTracking() ? 'denied' : 'unset';
+};
+
+let sinks: AnalyticsSink[] = getAnalyticsSinks();
+let consent: AnalyticsConsent = loadConsent();
+const consentListeners: Array<() => void> = [];
+
+export const isAnalyticsEnabled = () => sinks.length > 0;
+
+export const getAnalyticsConsent = () => consent;
+
+export const setAnalyticsConsent = (next: Exclude<AnalyticsConsent, 'unset'>) => {
+  consent = next;
+  try {
+    window.localStorage.setItem(CONSENT_KEY, next);
+  } catch {
+    // Storage unavailable; the choice holds for this visit only
+  }
+  consentListeners.forEach(listener => listener());
+};
+
+export const subscribeToAnalyticsConsent = (listener: () => void) => {
+  consentListeners.push(listener);
+  return () => {
+    const index = consentListeners.indexOf(listener);
+    if (index > -1) consentListeners.splice(index, 1);
+  };
+};
+
+// Swaps the configured sinks, e.g. for a memory sink in tests
+export const setAnalyticsSinks = (next: AnalyticsSink[]) => {
+  sinks = next;
+};
+
+export const track = <Name extends AnalyticsEventName>(name: Name, properties: AnalyticsEventMap[Name]) => {
+  if (consent !== 'granted' || sinks.length === 0) return;
+  const event = {
+    name,
+    properties: scrubProperties(properties),
+    path: window.location.pathname,
+    timestamp: Date.now(),
+  } as AnalyticsEvent;
+  sinks.forEach(sink => {
+    try {
+      sink.send(event);
+    } catch {
+      // A failing sink mustn't break the button that was clicked
+    }
+  });
+};
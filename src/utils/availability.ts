@@ -0,0 +1,87 @@
+/**
+ * Dish Availability
+ * Applies a dish's availability rules (src/data/menu.ts) at an instant:
+ * serving windows, days of the week, the manual sold-out toggle and the
+ * daily limit. Like the opening hours, everything is evaluated in
+ * restaurant-local (Asia/Kolkata) time.
+ */
+
+import type { DishAvailabilityRules, MenuItem } from '@/data/menu';
+import { DAYS_OF_WEEK, type DayOfWeek, type OpeningPeriod } from '@/data/openingHours';
+import {
+  addDaysToDate,
+  getRestaurantDate,
+  getRestaurantMinuteOfDay,
+  parseTime,
+  restaurantTimeToDate,
+} from '@/utils/openingHours';
+
+const MINUTES_PER_DAY = 1440;
+const LOOKAHEAD_DAYS = 7;
+
+const allDay: OpeningPeriod[] = [{ opens: '00:00', closes: '24:00' }];
+
+export type DishAvailability =
+  | { status: 'available'; remaining?: number } // remaining: under a daily limit
+  | { status: 'sold-out' }
+  | {
+    status: 'later';
+    from: Date;
+    daysAhead: number; // 0 = later today
+    day: DayOfWeek;
+    minuteOfDay?: number; // unset when the dish is served all day
+  }
+  | { status: 'unavailable' }; // not served in the coming week
+
+const weekdayOf = (date: string): DayOfWeek =>
+  DAYS_OF_WEEK[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+// Portions counted against today's limit; yesterday's count no longer applies
+export const getSoldToday = (rules: DishAvailabilityRules, today: string) =>
+  rules.soldToday?.date === today ? rules.soldToday.quantity : 0;
+
+export const getDishAvailability = (
+  item: Pick<MenuItem, 'availability'>,
+  now: Date = new Date()
+): DishAvailability => {
+  const rules = item.availability;
+  if (!rules) return { status: 'available' };
+
+  const today = getRestaurantDate(now);
+  if (rules.soldOutOn === today) return { status: 'sold-out' };
+
+  const remaining = rules.dailyLimit === undefined
+    ? undefined
+    : Math.max(0, rules.dailyLimit - getSoldToday(rules, today));
+  if (remaining === 0) return { status: 'sold-out' };
+
+  // Minutes relative to today's midnight. Start from yesterday so windows
+  // running past midnight are included; a window belongs to the day it opens.
+  const nowMinute = getRestaurantMinuteOfDay(now);
+  let nextStart: number | undefined;
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    if (rules.days && !rules.days.includes(weekdayOf(addDaysToDate(today, offset)))) continue;
+
+    for (const window of rules.servingWindows ?? allDay) {
+      const opens = parseTime(window.opens);
+      let closes = parseTime(window.closes);
+      if (closes <= opens) closes += MINUTES_PER_DAY;
+      const start = offset * MINUTES_PER_DAY + opens;
+      const end = offset * MINUTES_PER_DAY + closes;
+
+      if (start <= nowMinute && nowMinute < end) return { status: 'available', remaining };
+      if (start > nowMinute && (nextStart === undefined || start < nextStart)) nextStart = start;
+    }
+  }
+
+  if (nextStart === undefined) return { status: 'unavailable' };
+
+  const daysAhead = Math.floor(nextStart / MINUTES_PER_DAY);
+  return {
+    status: 'later',
+    from: restaurantTimeToDate(today, nextStart),
+    daysAhead,
+    day: weekdayOf(addDaysToDate(today, daysAhead)),
+    minuteOfDay: rules.servingWindows ? nextStart - daysAhead * MINUTES_PER_DAY : undefined,
+  };
+};
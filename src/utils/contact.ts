@@ -0,0 +1,184 @@
+/**
+ * Contact Form Pipeline
+ * Validation schema for the "Send us a Message" forms plus pluggable
+ * transports that deliver a validated message. The active transport is
+ * chosen from VITE_CONTACT_TRANSPORT at build time (WhatsApp by default).
+ */
+
+import { z } from 'zod';
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import { restaurant } from '@/data/restaurant';
+import { translate } from '@/utils/i18n';
+import { buildWhatsAppLink } from '@/utils/order';
+
+// Indian mobile numbers: optional +91 / 91 / 0 prefix, then 10 digits starting 6-9
+const INDIAN_MOBILE_PATTERN = /^(?:\+?91|0)?([6-9]\d{9})$/;
+
+export const MESSAGE_MIN_LENGTH = 10;
+export const MESSAGE_MAX_LENGTH = 1000;
+
+export const normalizeIndianPhone = (value: string): string | null => {
+  const match = value.replace(/[\s()-]/g, '').match(INDIAN_MOBILE_PATTERN);
+  return match ? `+91${match[1]}` : null;
+};
+
+const NAME_MAX_LENGTH = 60;
+const SUBJECT_MAX_LENGTH = 100;
+
+// Validation messages are in the visitor's language
+export const createContactFormSchema = (locale: Locale = DEFAULT_LOCALE) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(2, translate(locale, 'contact.error.name'))
+      .max(NAME_MAX_LENGTH, translate(locale, 'contact.error.nameLength', { max: NAME_MAX_LENGTH })),
+    phone: z
+      .string()
+      .trim()
+      .refine(value => normalizeIndianPhone(value) !== null, translate(locale, 'contact.error.phone')),
+    email: z
+      .string()
+      .trim()
+      .email(translate(locale, 'contact.error.email'))
+      .or(z.literal('')),
+    subject: z
+      .string()
+      .trim()
+      .max(SUBJECT_MAX_LENGTH, translate(locale, 'contact.error.subjectLength', { max: SUBJECT_MAX_LENGTH }))
+      .optional(),
+    message: z
+      .string()
+      .trim()
+      .min(MESSAGE_MIN_LENGTH, translate(locale, 'contact.error.messageShort', { min: MESSAGE_MIN_LENGTH }))
+      .max(MESSAGE_MAX_LENGTH, translate(locale, 'contact.error.messageLong', { max: MESSAGE_MAX_LENGTH })),
+  });
+
+export const contactFormSchema = createContactFormSchema();
+
+export type ContactFormValues = z.infer<typeof contactFormSchema>;
+
+export interface ContactMessage {
+  name: string;
+  phone: string; // normalised to +91XXXXXXXXXX
+  email?: string;
+  subject?: string;
+  message: string;
+}
+
+export interface ContactTransport {
+  id: 'whatsapp' | 'mailto' | 'http';
+  send: (message: ContactMessage) => Promise<void>;
+}
+
+export class ContactTransportError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ContactTransportError';
+  }
+}
+
+export const toContactMessage = (values: ContactFormValues): ContactMessage => ({
+  name: values.name,
+  phone: normalizeIndianPhone(values.phone) ?? values.phone,
+  email: values.email || undefined,
+  subject: values.subject || undefined,
+  message: values.message,
+});
+
+const formatPlainText = (message: ContactMessage) =>
+  [
+    `Name: ${message.name}`,
+    `Phone: ${message.phone}`,
+    message.email && `Email: ${message.email}`,
+    message.subject && `Subject: ${message.subject}`,
+    '',
+    message.message,
+  ]
+    .filter((line): line is string => typeof line === 'string')
+    .join('\n');
+
+type OpenUrl = (url: string) => void;
+
+const openInNewTab: OpenUrl = url => {
+  window.open(url, '_blank', 'noopener,noreferrer');
+};
+
+// Hands the message to WhatsApp (app or web) with the text pre-filled
+export const createWhatsAppTransport = (open: OpenUrl = openInNewTab): ContactTransport => ({
+  id: 'whatsapp',
+  send: async message => {
+    open(buildWhatsAppLink(`Hello ${restaurant.name}!\n\n${formatPlainText(message)}`));
+  },
+});
+
+// Opens the visitor's mail client addressed to the restaurant inbox
+export const createMailtoTransport = (
+  to: string,
+  open: OpenUrl = url => window.location.assign(url)
+): ContactTransport => ({
+  id: 'mailto',
+  send: async message => {
+    const subject = message.subject || `Website enquiry from ${message.name}`;
+    const query = `subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(formatPlainText(message))}`;
+    open(`mailto:${to}?${query}`);
+  },
+});
+
+interface HttpTransportOptions {
+  endpoint: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+// POSTs the message as JSON; any non-2xx response is treated as a failure
+export const createHttpTransport = ({
+  endpoint,
+  timeoutMs = 10000,
+  fetchImpl = (input, init) => fetch(input, init),
+}: HttpTransportOptions): ContactTransport => ({
+  id: 'http',
+  send: async message => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new ContactTransportError(`Contact endpoint responded with ${response.status}`, response.status);
+      }
+    } catch (error) {
+      if (error instanceof ContactTransportError) throw error;
+      throw new ContactTransportError(
+        controller.signal.aborted ? 'Contact endpoint timed out' : 'Could not reach the contact endpoint'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+});
+
+export const getContactTransport = (): ContactTransport => {
+  const env = import.meta.env;
+
+  switch (env.VITE_CONTACT_TRANSPORT) {
+    case 'http':
+      if (env.VITE_CONTACT_ENDPOINT) {
+        return createHttpTransport({ endpoint: env.VITE_CONTACT_ENDPOINT });
+      }
+      break;
+    case 'mailto':
+      if (env.VITE_CONTACT_EMAIL) {
+        return createMailtoTransport(env.VITE_CONTACT_EMAIL);
+      }
+      break;
+  }
+
+  return createWhatsAppTransport();
+};
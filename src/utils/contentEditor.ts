@@ -0,0 +1,281 @@
+/**
+ * Content Editor
+ * Pure reducer behind the admin panel. Every edit returns a new SiteContent
+ * document; validation against siteContentSchema happens before it can be
+ * saved, previewed or published.
+ */
+
+import type { HeritagePhoto } from '@/data/heritagePhotos';
+import type { DishAvailabilityRules, MenuCategory, MenuItem, MenuVariant } from '@/data/menu';
+import type { DayOfWeek, OpeningPeriod, ScheduleOverride } from '@/data/openingHours';
+import type { Review } from '@/data/reviews';
+import { siteContentSchema, type SiteContent } from '@/data/siteContent';
+
+export type MoveOffset = -1 | 1;
+
+export type ContentEditorAction =
+  | { type: 'RESET'; content: SiteContent }
+  | { type: 'ADD_CATEGORY'; name: string }
+  | { type: 'UPDATE_CATEGORY'; id: string; changes: Partial<Omit<MenuCategory, 'id'>> }
+  | { type: 'MOVE_CATEGORY'; id: string; offset: MoveOffset }
+  | { type: 'REMOVE_CATEGORY'; id: string }
+  | { type: 'ADD_ITEM'; categoryId: string; name: string }
+  | { type: 'UPDATE_ITEM'; id: string; changes: Partial<Omit<MenuItem, 'id' | 'variants'>> }
+  | { type: 'UPDATE_VARIANT'; itemId: string; variantId: string; changes: Partial<Omit<MenuVariant, 'id'>> }
+  | { type: 'UPDATE_AVAILABILITY'; id: string; changes: Partial<DishAvailabilityRules> }
+  | { type: 'MOVE_ITEM'; id: string; offset: MoveOffset }
+  | { type: 'REMOVE_ITEM'; id: string }
+  | { type: 'SET_DAY_PERIODS'; day: DayOfWeek; periods: OpeningPeriod[] }
+  | { type: 'ADD_OVERRIDE'; date: string }
+  | { type: 'UPDATE_OVERRIDE'; index: number; changes: Partial<ScheduleOverride> }
+  | { type: 'REMOVE_OVERRIDE'; index: number }
+  | { type: 'ADD_PHOTO'; url: string }
+  | { type: 'UPDATE_PHOTO'; id: string; changes: Partial<Omit<HeritagePhoto, 'id'>> }
+  | { type: 'MOVE_PHOTO'; id: string; offset: MoveOffset }
+  | { type: 'REMOVE_PHOTO'; id: string }
+  | { type: 'ADD_REVIEW'; date: string }
+  | { type: 'UPDATE_REVIEW'; id: string; changes: Partial<Omit<Review, 'id'>> }
+  | { type: 'REMOVE_REVIEW'; id: string };
+
+export interface ContentIssue {
+  where: string; // e.g. 'Dish "Chicken 65" › price'
+  message: string;
+}
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'item';
+
+// "chicken-65", then "chicken-65-2", ... until unused
+const uniqueId = (base: string, taken: string[]) => {
+  const slug = slugify(base);
+  let id = slug;
+  for (let suffix = 2; taken.includes(id); suffix++) {
+    id = `${slug}-${suffix}`;
+  }
+  return id;
+};
+
+const move = <T>(list: T[], index: number, offset: MoveOffset): T[] => {
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const updateWhere = <T extends { id?: string }>(list: T[], id: string, changes: Partial<NoInfer<T>>) =>
+  list.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+
+const withMenu = (content: SiteContent, menu: Partial<SiteContent['menu']>): SiteContent => ({
+  ...content,
+  menu: { ...content.menu, ...menu },
+});
+
+// Unset rules are dropped, and so are the rules altogether once none are left
+const mergeAvailability = (
+  current: DishAvailabilityRules | undefined,
+  changes: Partial<DishAvailabilityRules>
+): DishAvailabilityRules | undefined => {
+  const rules = Object.fromEntries(
+    Object.entries({ ...current, ...changes }).filter(([, value]) => value !== undefined)
+  ) as DishAvailabilityRules;
+  return Object.keys(rules).length > 0 ? rules : undefined;
+};
+
+// New dishes start hidden so staff can finish them before they go live
+const newMenuItem = (id: string, name: string, categoryId: string): MenuItem => ({
+  id,
+  name,
+  description: `${name} - add a short description`,
+  longDescription: `${name} - add the full description shown in the dish details`,
+  ingredients: ['Add ingredients'],
+  allergens: [],
+  price: 100,
+  image: '/assets/logo.png',
+  category: categoryId,
+  isVeg: false,
+  spiceLevel: 0,
+  isPopular: false,
+  variants: [],
+  addOns: [],
+  hidden: true,
+});
+
+export const contentEditorReducer = (content: SiteContent, action: ContentEditorAction): SiteContent => {
+  const { menu, hours } = content;
+
+  switch (action.type) {
+    case 'RESET':
+      return action.content;
+
+    case 'ADD_CATEGORY': {
+      const id = uniqueId(action.name, menu.categories.map(category => category.id));
+      return withMenu(content, { categories: [...menu.categories, { id, name: action.name, emoji: '🍽️' }] });
+    }
+
+    case 'UPDATE_CATEGORY':
+      return withMenu(content, { categories: updateWhere(menu.categories, action.id, action.changes) });
+
+    case 'MOVE_CATEGORY': {
+      const index = menu.categories.findIndex(category => category.id === action.id);
+      return withMenu(content, { categories: move(menu.categories, index, action.offset) });
+    }
+
+    case 'REMOVE_CATEGORY':
+      // Only empty categories can go; dishes must be moved or removed first
+      if (menu.items.some(item => item.category === action.id)) return content;
+      return withMenu(content, { categories: menu.categories.filter(category => category.id !== action.id) });
+
+    case 'ADD_ITEM': {
+      const id = uniqueId(action.name, menu.items.map(item => item.id));
+      return withMenu(content, { items: [...menu.items, newMenuItem(id, action.name, action.categoryId)] });
+    }
+
+    case 'UPDATE_ITEM':
+      return withMenu(content, { items: updateWhere(menu.items, action.id, action.changes) });
+
+    case 'UPDATE_AVAILABILITY':
+      return withMenu(content, {
+        items: menu.items.map(item =>
+          item.id === action.id
+            ? { ...item, availability: mergeAvailability(item.availability, action.changes) }
+            : item
+        ),
+      });
+
+    case 'UPDATE_VARIANT':
+      return withMenu(content, {
+        items: menu.items.map(item => {
+          if (item.id !== action.itemId) return item;
+          const variants = updateWhere(item.variants, action.variantId, action.changes);
+          // The headline price follows the default portion
+          const defaultVariant = variants.find(variant => variant.id === item.defaultVariant);
+          return { ...item, variants, price: defaultVariant?.price ?? item.price };
+        }),
+      });
+
+    case 'MOVE_ITEM': {
+      // Swaps with the neighbouring dish of the same category
+      const index = menu.items.findIndex(item => item.id === action.id);
+      if (index < 0) return content;
+      const category = menu.items[index].category;
+      const siblings = menu.items
+        .map((item, position) => ({ item, position }))
+        .filter(({ item }) => item.category === category);
+      const siblingIndex = siblings.findIndex(({ position }) => position === index);
+      const neighbour = siblings[siblingIndex + action.offset];
+      if (!neighbour) return content;
+      const items = [...menu.items];
+      [items[index], items[neighbour.position]] = [items[neighbour.position], items[index]];
+      return withMenu(content, { items });
+    }
+
+    case 'REMOVE_ITEM':
+      return withMenu(content, { items: menu.items.filter(item => item.id !== action.id) });
+
+    case 'SET_DAY_PERIODS':
+      return { ...content, hours: { ...hours, weekly: { ...hours.weekly, [action.day]: action.periods } } };
+
+    case 'ADD_OVERRIDE':
+      return {
+        ...content,
+        hours: {
+          ...hours,
+          overrides: [...hours.overrides, { name: 'Special hours', from: action.date, to: action.date, periods: [] }],
+        },
+      };
+
+    case 'UPDATE_OVERRIDE':
+      return {
+        ...content,
+        hours: {
+          ...hours,
+          overrides: hours.overrides.map((override, index) =>
+            index === action.index ? { ...override, ...action.changes } : override
+          ),
+        },
+      };
+
+    case 'REMOVE_OVERRIDE':
+      return {
+        ...content,
+        hours: { ...hours, overrides: hours.overrides.filter((_, index) => index !== action.index) },
+      };
+
+    case 'ADD_PHOTO': {
+      const id = uniqueId('photo', content.heritagePhotos.map(photo => photo.id));
+      return {
+        ...content,
+        heritagePhotos: [...content.heritagePhotos, { id, url: action.url, caption: 'New photo', alt: 'Restaurant photo' }],
+      };
+    }
+
+    case 'UPDATE_PHOTO':
+      return { ...content, heritagePhotos: updateWhere(content.heritagePhotos, action.id, action.changes) };
+
+    case 'MOVE_PHOTO': {
+      const index = content.heritagePhotos.findIndex(photo => photo.id === action.id);
+      return { ...content, heritagePhotos: move(content.heritagePhotos, index, action.offset) };
+    }
+
+    case 'REMOVE_PHOTO':
+      return { ...content, heritagePhotos: content.heritagePhotos.filter(photo => photo.id !== action.id) };
+
+    case 'ADD_REVIEW': {
+      // For reviews that came in another way (WhatsApp, in person); they
+      // start pending like any other until approved
+      const id = uniqueId('review', content.reviews.map(review => review.id));
+      const review: Review = { id, author: 'Guest', rating: 5, text: 'Add the review text', date: action.date, status: 'pending' };
+      return { ...content, reviews: [review, ...content.reviews] };
+    }
+
+    case 'UPDATE_REVIEW':
+      return { ...content, reviews: updateWhere(content.reviews, action.id, action.changes) };
+
+    case 'REMOVE_REVIEW':
+      return { ...content, reviews: content.reviews.filter(review => review.id !== action.id) };
+  }
+};
+
+// Names the dish, category, day, photo or review a schema issue points at
+const describeIssuePath = (content: SiteContent, path: (string | number)[]) => {
+  const [section, collection, index, ...rest] = path;
+  const field = rest.join(' › ');
+  const withField = (label: string) => (field ? `${label} › ${field}` : label);
+
+  if (section === 'menu' && typeof index === 'number') {
+    const entry = collection === 'items' || collection === 'categories' || collection === 'addOns'
+      ? content.menu[collection][index]
+      : undefined;
+    const name = entry?.name || entry?.id || index + 1;
+    if (collection === 'items') return withField(`Dish "${name}"`);
+    if (collection === 'categories') return withField(`Category "${name}"`);
+    if (collection === 'addOns') return withField(`Add-on "${name}"`);
+  }
+  if (section === 'hours' && collection === 'weekly') return `Opening hours › ${[index, ...rest].join(' › ')}`;
+  if (section === 'hours' && collection === 'overrides' && typeof index === 'number') {
+    return withField(`Special hours "${content.hours.overrides[index]?.name ?? index + 1}"`);
+  }
+  if (section === 'heritagePhotos' && typeof collection === 'number') {
+    return [`Photo ${collection + 1}`, index, ...rest].filter(part => part !== undefined).join(' › ');
+  }
+  if (section === 'reviews' && typeof collection === 'number') {
+    const label = `Review by "${content.reviews[collection]?.author || collection + 1}"`;
+    return [label, index, ...rest].filter(part => part !== undefined).join(' › ');
+  }
+  return path.join(' › ') || 'Content';
+};
+
+// Everything that would stop the content from being saved
+export const validateSiteContent = (content: SiteContent): ContentIssue[] => {
+  const parsed = siteContentSchema.safeParse(content);
+  if (parsed.success) return [];
+  return parsed.error.issues.map(issue => ({
+    where: describeIssuePath(content, issue.path),
+    message: issue.message,
+  }));
+};
@@ -0,0 +1,150 @@
+/**
+ * Content Storage
+ * Where the admin panel keeps drafts and publishes site content. Adapters
+ * share one interface; the active one is chosen from VITE_CONTENT_STORAGE at
+ * build time. The default keeps everything in localStorage so the panel runs
+ * with no backend; the http adapter reads and writes a JSON document so
+ * every visitor sees what was published.
+ */
+
+import { siteContentSchema, type SiteContent } from '@/data/siteContent';
+
+export interface ContentStorage {
+  id: 'local' | 'http';
+  // null when nothing has been published; the built-in content applies
+  loadPublished: () => Promise<SiteContent | null>;
+  loadDraft: () => Promise<SiteContent | null>;
+  saveDraft: (content: SiteContent) => Promise<void>;
+  publish: (content: SiteContent) => Promise<void>;
+  discardDraft: () => Promise<void>;
+  // Calls back when another tab saves or publishes; returns an unsubscribe
+  watch: (onChange: () => void) => () => void;
+}
+
+export class ContentStorageError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ContentStorageError';
+  }
+}
+
+const PUBLISHED_KEY = 'ambur-content';
+const DRAFT_KEY = 'ambur-content-draft';
+
+// Stored content from an older build may no longer validate; it is ignored
+export const parseSiteContent = (value: unknown): SiteContent | null => {
+  const parsed = siteContentSchema.safeParse(value);
+  return parsed.success ? (parsed.data as SiteContent) : null;
+};
+
+const readLocal = (key: string): SiteContent | null => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? parseSiteContent(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeLocal = (key: string, content: SiteContent | null) => {
+  try {
+    if (content) {
+      window.localStorage.setItem(key, JSON.stringify(content));
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch {
+    throw new ContentStorageError('Browser storage is full or disabled');
+  }
+};
+
+const watchLocal = (onChange: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === PUBLISHED_KEY || event.key === DRAFT_KEY) onChange();
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+const stamp = (content: SiteContent): SiteContent => ({ ...content, updatedAt: new Date().toISOString() });
+
+// Drafts always live in the editor's browser, whichever adapter publishes
+const localDrafts = {
+  loadDraft: async () => readLocal(DRAFT_KEY),
+  saveDraft: async (content: SiteContent) => writeLocal(DRAFT_KEY, stamp(content)),
+  discardDraft: async () => writeLocal(DRAFT_KEY, null),
+  watch: watchLocal,
+};
+
+// Published content is only visible in this browser; for trying the panel out
+// or a single kiosk
+export const createLocalContentStorage = (): ContentStorage => ({
+  id: 'local',
+  ...localDrafts,
+  loadPublished: async () => readLocal(PUBLISHED_KEY),
+  publish: async content => {
+    writeLocal(PUBLISHED_KEY, stamp(content));
+    writeLocal(DRAFT_KEY, null);
+  },
+});
+
+interface HttpContentStorageOptions {
+  endpoint: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+// GETs and PUTs the whole content document as JSON. The endpoint is expected
+// to authenticate the PUT itself (cookies are sent with the request).
+export const createHttpContentStorage = ({
+  endpoint,
+  timeoutMs = 10000,
+  fetchImpl = (input, init) => fetch(input, init),
+}: HttpContentStorageOptions): ContentStorage => {
+  const request = async (init: RequestInit = {}) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchImpl(endpoint, { ...init, credentials: 'include', signal: controller.signal });
+      if (!response.ok && response.status !== 404) {
+        throw new ContentStorageError(`Content endpoint responded with ${response.status}`, response.status);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof ContentStorageError) throw error;
+      throw new ContentStorageError(
+        controller.signal.aborted ? 'Content endpoint timed out' : 'Could not reach the content endpoint'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    id: 'http',
+    ...localDrafts,
+    loadPublished: async () => {
+      const response = await request({ headers: { Accept: 'application/json' } });
+      return response.status === 404 ? null : parseSiteContent(await response.json());
+    },
+    publish: async content => {
+      await request({
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(stamp(content)),
+      });
+      await localDrafts.discardDraft();
+    },
+  };
+};
+
+export const getContentStorage = (): ContentStorage => {
+  const env = import.meta.env;
+
+  if (env.VITE_CONTENT_STORAGE === 'http' && env.VITE_CONTENT_ENDPOINT) {
+    return createHttpContentStorage({ endpoint: env.VITE_CONTENT_ENDPOINT });
+  }
+
+  return createLocalContentStorage();
+};
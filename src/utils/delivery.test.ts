@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { deliveryConfig, type DeliveryConfig } from '@/data/delivery';
+import { checkDelivery, getDeliveryCharges, getDistanceKm } from '@/utils/delivery';
+
+const origin = { latitude: 12.7904, longitude: 78.7166 };
+
+const config: DeliveryConfig = {
+  origin,
+  rings: [
+    { id: 'town', name: 'Town', maxDistanceKm: 3, fee: 0, minOrder: 200, etaMinutes: { min: 30, max: 45 } },
+    { id: 'outskirts', name: 'Outskirts', maxDistanceKm: 8, fee: 40, minOrder: 300, etaMinutes: { min: 45, max: 60 } },
+  ],
+  pincodes: [
+    { pincode: '635802', area: 'Ambur', ringId: 'town' },
+    { pincode: '635814', area: 'Ambur North', ringId: 'outskirts' },
+  ],
+};
+
+// One degree of latitude is the same length everywhere on the sphere
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+const north = (km: number) => ({ kind: 'location' as const, latitude: origin.latitude + km / KM_PER_DEGREE, longitude: origin.longitude });
+
+const ringOf = (km: number) => {
+  const check = checkDelivery(north(km), config);
+  return check.status === 'available' ? check.ring.id : check.status;
+};
+
+describe('getDistanceKm', () => {
+  it('is zero between a point and itself', () => {
+    expect(getDistanceKm(origin, origin)).toBe(0);
+  });
+
+  it('measures along the meridian', () => {
+    expect(getDistanceKm(origin, north(5))).toBeCloseTo(5, 6);
+  });
+
+  it('shortens degrees of longitude away from the equator', () => {
+    const east = { latitude: origin.latitude, longitude: origin.longitude + 1 };
+    const distance = getDistanceKm(origin, east);
+
+    expect(distance).toBeLessThan(KM_PER_DEGREE);
+    expect(distance).toBeCloseTo(KM_PER_DEGREE * Math.cos((origin.latitude * Math.PI) / 180), 1);
+  });
+
+  it('is the same both ways', () => {
+    const pernambut = { latitude: 12.9394, longitude: 78.7188 };
+
+    expect(getDistanceKm(origin, pernambut)).toBeCloseTo(getDistanceKm(pernambut, origin), 9);
+  });
+});
+
+describe('checkDelivery', () => {
+  it('keeps a ring edge inside that ring', () => {
+    expect(ringOf(2.99)).toBe('town');
+    expect(ringOf(3.01)).toBe('outskirts');
+    expect(ringOf(7.99)).toBe('outskirts');
+    expect(ringOf(8.01)).toBe('out-of-area');
+  });
+
+  it('gives the distance for a shared location, in or out of area', () => {
+    expect(checkDelivery(north(1), config)).toMatchObject({ status: 'available', distanceKm: expect.closeTo(1, 6) });
+    expect(checkDelivery(north(20), config)).toMatchObject({ status: 'out-of-area', distanceKm: expect.closeTo(20, 6) });
+  });
+
+  it('looks pincodes up in the list, ignoring spaces', () => {
+    expect(checkDelivery({ kind: 'pincode', pincode: '635 814' }, config)).toMatchObject({
+      status: 'available',
+      ring: { id: 'outskirts' },
+      area: 'Ambur North',
+    });
+  });
+
+  it('tells an unserved pincode from a mistyped one', () => {
+    expect(checkDelivery({ kind: 'pincode', pincode: '600001' }, config)).toEqual({ status: 'out-of-area' });
+    expect(checkDelivery({ kind: 'pincode', pincode: '63580' }, config)).toEqual({ status: 'invalid-pincode' });
+    expect(checkDelivery({ kind: 'pincode', pincode: '035802' }, config)).toEqual({ status: 'invalid-pincode' });
+  });
+
+  it('places every listed pincode in a ring of the shipped config', () => {
+    for (const { pincode } of deliveryConfig.pincodes) {
+      expect(checkDelivery({ kind: 'pincode', pincode }).status).toBe('available');
+    }
+  });
+});
+
+describe('getDeliveryCharges', () => {
+  const [town, outskirts] = config.rings;
+
+  it('delivers free in town once the minimum order is met', () => {
+    expect(getDeliveryCharges(town, 199)).toEqual({ fee: 0, minOrder: 200, shortBy: 1 });
+    expect(getDeliveryCharges(town, 200)).toEqual({ fee: 0, minOrder: 200, shortBy: 0 });
+  });
+
+  it("charges the ring's fee further out, whatever the order", () => {
+    expect(getDeliveryCharges(outskirts, 120)).toEqual({ fee: 40, minOrder: 300, shortBy: 180 });
+    expect(getDeliveryCharges(outskirts, 1500)).toEqual({ fee: 40, minOrder: 300, shortBy: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Delivery Zone Checks
+ * Pure helpers that place a pincode or a shared location in one of the
+ * delivery rings from src/data/delivery.ts and work out what delivery costs
+ * for an order.
+ */
+
+import {
+  deliveryConfig,
+  type Coordinates,
+  type DeliveryConfig,
+  type DeliveryRing,
+} from '@/data/delivery';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Where the customer wants the order delivered, as entered in the cart
+export type DeliveryLocation =
+  | { kind: 'pincode'; pincode: string }
+  | ({ kind: 'location' } & Coordinates);
+
+export type DeliveryCheck =
+  | { status: 'available'; ring: DeliveryRing; area?: string; distanceKm?: number }
+  | { status: 'out-of-area'; distanceKm?: number }
+  | { status: 'invalid-pincode' };
+
+export interface DeliveryCharges {
+  fee: number;
+  minOrder: number;
+  shortBy: number; // ₹ still needed to reach the minimum order; 0 once met
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance; road distance is usually a little longer
+export const getDistanceKm = (from: Coordinates, to: Coordinates) => {
+  const latitudeDelta = toRadians(to.latitude - from.latitude);
+  const longitudeDelta = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// The nearest ring that reaches this far, if any
+export const getRingForDistance = (distanceKm: number, config: DeliveryConfig = deliveryConfig) =>
+  config.rings.find(ring => distanceKm <= ring.maxDistanceKm);
+
+// "635 802" -> "635802"
+export const normalizePincode = (pincode: string) => pincode.replace(/\s+/g, '');
+
+export const isValidPincode = (pincode: string) => /^[1-9]\d{5}$/.test(normalizePincode(pincode));
+
+export const checkDelivery = (
+  location: DeliveryLocation,
+  config: DeliveryConfig = deliveryConfig
+): DeliveryCheck => {
+  if (location.kind === 'pincode') {
+    const pincode = normalizePincode(location.pincode);
+    if (!isValidPincode(pincode)) return { status: 'invalid-pincode' };
+    const entry = config.pincodes.find(candidate => candidate.pincode === pincode);
+    const ring = entry && config.rings.find(candidate => candidate.id === entry.ringId);
+    return ring ? { status: 'available', ring, area: entry.area } : { status: 'out-of-area' };
+  }
+
+  const distanceKm = getDistanceKm(config.origin, location);
+  const ring = getRingForDistance(distanceKm, config);
+  return ring ? { status: 'available', ring, distanceKm } : { status: 'out-of-area', distanceKm };
+};
+
+// `orderTotal` is what the customer pays for the food, after offers
+export const getDeliveryCharges = (ring: DeliveryRing, orderTotal: number): DeliveryCharges => ({
+  fee: ring.fee,
+  minOrder: ring.minOrder,
+  shortBy: Math.max(0, ring.minOrder - orderTotal),
+});
+
+// "30-45 min"
+export const formatEta = (ring: DeliveryRing) => `${ring.etaMinutes.min}-${ring.etaMinutes.max} min`;
+
+// Text for the WhatsApp order; a shared location becomes a maps link
+export const describeDeliveryLocation = (location: DeliveryLocation, check: DeliveryCheck) => {
+  if (location.kind === 'pincode') {
+    const pincode = normalizePincode(location.pincode);
+    return check.status === 'available' && check.area ? `${check.area} (${pincode})` : pincode;
+  }
+  const latitude = location.latitude.toFixed(5);
+  const longitude = location.longitude.toFixed(5);
+  return `https://maps.google.com/?q=${latitude},${longitude}`;
+};
@@ -0,0 +1,161 @@
+/**
+ * Internationalisation
+ * Locale-prefixed paths, message lookup with {placeholder} interpolation and
+ * plural forms, ₹ and time formatting per locale, and localised views of the
+ * menu catalog. English is the fallback for any missing message or translation.
+ * Kept free of "@/" imports so build-time tooling can render every locale.
+ */
+
+import type { HeritagePhoto } from "../data/heritagePhotos";
+import type { MenuAddOn, MenuCategory, MenuItem, MenuVariant } from "../data/menu";
+import { DEFAULT_LOCALE, LOCALES, localeInfo, type Locale } from "../data/locales";
+import { menuTranslations } from "../data/menuTranslations";
+import { DAYS_OF_WEEK, type DayOfWeek } from "../data/openingHours";
+import type { Promotion } from "../data/promotions";
+import { en, type MessageKey, type Messages } from "../data/messages/en";
+import { hi } from "../data/messages/hi";
+import { ta } from "../data/messages/ta";
+
+export type MessageParams = Record<string, string | number>;
+
+// Message keys that come in .one/.other plural forms
+export type PluralBase = MessageKey extends infer Key
+  ? Key extends `${infer Base}.other` ? Base : never
+  : never;
+
+export interface RichTextSegment {
+  text: string;
+  tag?: "hl" | "strong";
+}
+
+const catalogs: Record<Locale, Messages> = { en, ta, hi };
+
+export const isLocale = (value: string): value is Locale =>
+  (LOCALES as readonly string[]).includes(value);
+
+// "/ta/menu/briyani" -> { locale: "ta", path: "/menu/briyani" }
+export const splitLocalePath = (pathname: string): { locale: Locale; path: string } => {
+  const [, first = "", ...rest] = pathname.split("/");
+  if (first !== DEFAULT_LOCALE && isLocale(first)) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname || "/" };
+};
+
+// Prefixes an unprefixed site path for the locale; English stays unprefixed
+export const localizePath = (path: string, locale: Locale) => {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+};
+
+const interpolate = (message: string, params: MessageParams = {}) =>
+  message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) =>
+  interpolate(catalogs[locale][key] || en[key], params);
+
+// Picks the .one/.other form for `count` and exposes it as {count}
+export const translatePlural = (locale: Locale, base: PluralBase, count: number, params: MessageParams = {}) => {
+  const form = new Intl.PluralRules(localeInfo[locale].intl).select(count) === "one" ? "one" : "other";
+  return translate(locale, `${base}.${form}` as MessageKey, { ...params, count });
+};
+
+// Indian grouping (₹1,25,000) in every locale, without paise
+export const formatLocalePrice = (amount: number, locale: Locale) =>
+  new Intl.NumberFormat(localeInfo[locale].intl, {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+// "6 PM" / "6:30 PM" for minutes since midnight (restaurant time), in the
+// locale's own wording
+export const formatLocaleTimeOfDay = (minuteOfDay: number, locale: Locale) =>
+  new Intl.DateTimeFormat(localeInfo[locale].intl, {
+    hour: "numeric",
+    minute: minuteOfDay % 60 === 0 ? undefined : "2-digit",
+    timeZone: "UTC",
+  }).format(Date.UTC(2000, 0, 1, 0, minuteOfDay));
+
+// 2000-01-02 was a Sunday, so day indexes line up with DAYS_OF_WEEK
+export const formatLocaleWeekday = (day: DayOfWeek, locale: Locale) =>
+  new Intl.DateTimeFormat(localeInfo[locale].intl, { weekday: "long", timeZone: "UTC" }).format(
+    Date.UTC(2000, 0, 2 + DAYS_OF_WEEK.indexOf(day))
+  );
+
+// Opening hours say "midnight" and "noon" rather than "12 am" and "12 pm";
+// closing at "24:00" is midnight too
+export const formatLocaleOpeningTime = (minuteOfDay: number, locale: Locale) => {
+  const minute = minuteOfDay % 1440;
+  if (minute === 0) return translate(locale, "hours.midnight");
+  if (minute === 720) return translate(locale, "hours.noon");
+  return formatLocaleTimeOfDay(minute, locale);
+};
+
+// "2026-10-04" -> "Oct 2026" in the locale's own words
+export const formatLocaleMonth = (date: string, locale: Locale) =>
+  new Intl.DateTimeFormat(localeInfo[locale].intl, { month: "short", year: "numeric", timeZone: "UTC" }).format(
+    new Date(`${date}T00:00:00Z`)
+  );
+
+// Splits "<hl>…</hl>" and "<strong>…</strong>" emphasis out of a message
+export const splitRichText = (message: string): RichTextSegment[] =>
+  message
+    .split(/(<(?:hl|strong)>.*?<\/(?:hl|strong)>)/g)
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^<(hl|strong)>(.*)<\/\1>$/);
+      return match ? { text: match[2], tag: match[1] as RichTextSegment["tag"] } : { text: part };
+    });
+
+export const localizeMenuCategory = (category: MenuCategory, locale: Locale): MenuCategory => {
+  const name = menuTranslations[locale]?.categories[category.id];
+  return name ? { ...category, name } : category;
+};
+
+export const localizeMenuVariant = (variant: MenuVariant, locale: Locale): MenuVariant => {
+  const name = menuTranslations[locale]?.variants[variant.id];
+  return name ? { ...variant, name } : variant;
+};
+
+export const localizeMenuAddOn = (addOn: MenuAddOn, locale: Locale): MenuAddOn => {
+  const name = menuTranslations[locale]?.addOns[addOn.id];
+  return name ? { ...addOn, name } : addOn;
+};
+
+// Ids, prices and the rest of the dish stay as in the catalog
+export const localizeMenuItem = (item: MenuItem, locale: Locale): MenuItem => {
+  const translations = menuTranslations[locale];
+  if (!translations) return item;
+  return {
+    ...item,
+    ...translations.items[item.id],
+    variants: item.variants.map((variant) => localizeMenuVariant(variant, locale)),
+  };
+};
+
+// Built-in photos keep their about.image.* translations while their English
+// caption and alt text are unchanged; edited or added photos show as written
+export const localizeHeritagePhoto = (photo: HeritagePhoto, locale: Locale): HeritagePhoto => {
+  const localizeText = (text: string, key: string) =>
+    key in en && en[key as MessageKey] === text ? translate(locale, key as MessageKey) : text;
+  return {
+    ...photo,
+    caption: localizeText(photo.caption, `about.image.${photo.id}`),
+    alt: localizeText(photo.alt, `about.image.${photo.id}Alt`),
+  };
+};
+
+// Built-in offers keep their promo.<id>.* translations while their English
+// title and description are unchanged, like the heritage photos
+export const localizePromotion = <P extends Promotion>(promotion: P, locale: Locale): P => {
+  const localizeText = (text: string, key: string) =>
+    key in en && en[key as MessageKey] === text ? translate(locale, key as MessageKey) : text;
+  return {
+    ...promotion,
+    title: localizeText(promotion.title, `promo.${promotion.id}.title`),
+    description: localizeText(promotion.description, `promo.${promotion.id}.description`),
+  };
+};
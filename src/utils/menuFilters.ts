@@ -0,0 +1,89 @@
+/**
+ * Menu Facets & Sorting
+ * Attribute filters (veg, non-spicy, popular, top rated, price range) that
+ * combine with each other and with the category/search filters, plus the
+ * sort orders offered on the menu grid.
+ */
+
+import type { MenuItem } from '@/data/menu';
+import { getDishRatingValue } from '@/utils/reviews';
+
+export const TOP_RATED_THRESHOLD = 4.5;
+
+export const MENU_FACETS = [
+  { id: 'veg', label: 'Veg only', emoji: '🥦', matches: (item: MenuItem) => item.isVeg },
+  { id: 'non-spicy', label: 'Non-spicy', emoji: '🧊', matches: (item: MenuItem) => item.spiceLevel === 0 },
+  { id: 'popular', label: 'Popular', emoji: '🔥', matches: (item: MenuItem) => item.isPopular },
+  { id: 'top-rated', label: `Rating ${TOP_RATED_THRESHOLD}+`, emoji: '⭐', matches: (item: MenuItem) => getDishRatingValue(item.id) >= TOP_RATED_THRESHOLD },
+] as const;
+
+export type MenuFacetId = (typeof MENU_FACETS)[number]['id'];
+
+export type PriceRange = [min: number, max: number];
+
+export interface MenuFilters {
+  facets: MenuFacetId[];
+  price: PriceRange | null; // null = any price
+}
+
+export const MENU_SORT_OPTIONS = [
+  { id: 'recommended', label: 'Recommended' },
+  { id: 'price-asc', label: 'Price: Low to High' },
+  { id: 'price-desc', label: 'Price: High to Low' },
+  { id: 'rating', label: 'Top Rated' },
+  { id: 'popularity', label: 'Most Popular' },
+] as const;
+
+export type MenuSortId = (typeof MENU_SORT_OPTIONS)[number]['id'];
+
+export const emptyMenuFilters: MenuFilters = { facets: [], price: null };
+
+export const isMenuFacetId = (value: string): value is MenuFacetId =>
+  MENU_FACETS.some(facet => facet.id === value);
+
+export const isMenuSortId = (value: string): value is MenuSortId =>
+  MENU_SORT_OPTIONS.some(option => option.id === value);
+
+export const getPriceBounds = (items: MenuItem[]): PriceRange => {
+  const prices = items.map(item => item.price);
+  return prices.length > 0 ? [Math.min(...prices), Math.max(...prices)] : [0, 0];
+};
+
+const matchesFacet = (item: MenuItem, id: MenuFacetId) =>
+  MENU_FACETS.find(facet => facet.id === id)?.matches(item) ?? true;
+
+const matchesPrice = (item: MenuItem, price: PriceRange | null) =>
+  !price || (item.price >= price[0] && item.price <= price[1]);
+
+export const matchesMenuFilters = (item: MenuItem, filters: MenuFilters) =>
+  filters.facets.every(id => matchesFacet(item, id)) && matchesPrice(item, filters.price);
+
+/**
+ * Live count for each facet: how many items would be shown with that facet
+ * switched on, given every other active filter. Active facets therefore show
+ * the current result count.
+ */
+export const getFacetCounts = (items: MenuItem[], filters: MenuFilters): Record<MenuFacetId, number> =>
+  Object.fromEntries(
+    MENU_FACETS.map(facet => {
+      const facets = filters.facets.includes(facet.id) ? filters.facets : [...filters.facets, facet.id];
+      return [facet.id, items.filter(item => matchesMenuFilters(item, { ...filters, facets })).length];
+    })
+  ) as Record<MenuFacetId, number>;
+
+export const countActiveFilters = (filters: MenuFilters) =>
+  filters.facets.length + (filters.price ? 1 : 0);
+
+// Stable sort; "recommended" keeps the incoming order (search relevance or catalog order)
+export const sortMenuEntries = <T extends { item: MenuItem }>(entries: T[], sort: MenuSortId): T[] => {
+  const compare: Record<MenuSortId, ((a: MenuItem, b: MenuItem) => number) | null> = {
+    'recommended': null,
+    'price-asc': (a, b) => a.price - b.price,
+    'price-desc': (a, b) => b.price - a.price,
+    'rating': (a, b) => getDishRatingValue(b.id) - getDishRatingValue(a.id),
+    'popularity': (a, b) =>
+      Number(b.isPopular) - Number(a.isPopular) || getDishRatingValue(b.id) - getDishRatingValue(a.id),
+  };
+  const comparator = compare[sort];
+  return comparator ? [...entries].sort((a, b) => comparator(a.item, b.item)) : entries;
+};
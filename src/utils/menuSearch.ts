@@ -0,0 +1,213 @@
+/**
+ * Menu Search
+ * Typo-tolerant search over the menu catalog. Words are folded through the
+ * synonym table and a light transliteration key (doubled letters, aspirated
+ * consonants, long vowels) before comparison, so "biriyani", "briyani" and
+ * "biryani" all find the same dishes. Dishes are indexed in the visitor's
+ * language, with the English names kept so romanised queries still match.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import { getMenuCategory, type MenuItem } from '@/data/menu';
+import { searchSynonyms } from '@/data/searchSynonyms';
+import { localizeMenuCategory, localizeMenuItem } from '@/utils/i18n';
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export type SearchField = 'name' | 'description';
+
+export interface MenuSearchResult {
+  item: MenuItem;
+  score: number;
+  highlights: Record<SearchField, MatchRange[]>;
+}
+
+interface IndexedWord {
+  field: SearchField | 'category' | 'englishName'; // only name and description are highlighted
+  start: number;
+  end: number;
+  normalized: string;
+  key: string;
+}
+
+const FIELD_WEIGHTS: Record<IndexedWord['field'], number> = {
+  name: 3,
+  englishName: 3,
+  category: 2,
+  description: 1,
+};
+
+// Strips accents per word so highlight offsets still line up with the original text
+const normalize = (value: string) =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const canonicalSpelling = new Map(
+  searchSynonyms.flatMap(group => group.map(word => [word, group[0]] as const))
+);
+
+// Phonetic key shared by query and catalog words: "gobhi" -> "gobi", "parota" -> "parotta"
+const transliterationKey = (word: string) =>
+  word
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/([bcdgjkpst])h/g, '$1')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 's')
+    .replace(/(.)\1+/g, '$1');
+
+const toKey = (word: string) => transliterationKey(canonicalSpelling.get(word) ?? word);
+
+const tokenize = (value: string) =>
+  Array.from(value.matchAll(/[\p{L}\p{M}\p{N}]+/gu), match => ({
+    normalized: normalize(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const allowedEdits = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+interface WordMatch {
+  quality: number;
+  // Length of the literal prefix typed so far, or undefined to highlight the whole word
+  prefixLength?: number;
+}
+
+const matchWord = (token: { normalized: string; key: string }, word: IndexedWord): WordMatch | null => {
+  if (word.key === token.key) return { quality: 1 };
+
+  const minPrefix = /^\d+$/.test(token.normalized) ? 1 : 2;
+  if (token.normalized.length >= minPrefix && word.normalized.startsWith(token.normalized)) {
+    return { quality: 0.8, prefixLength: token.normalized.length };
+  }
+  if (token.key.length >= minPrefix && word.key.startsWith(token.key)) {
+    return { quality: 0.7 };
+  }
+
+  // Typos rarely hit the first letter; requiring it keeps "tandori" away from "manchurian"
+  const edits = allowedEdits(token.key.length);
+  if (edits === 0 || token.key[0] !== word.key[0]) return null;
+  if (editDistance(token.key, word.key) <= edits) return { quality: 0.6 };
+  // Still typing: compare against the start of a longer word
+  if (word.key.length > token.key.length && editDistance(token.key, word.key.slice(0, token.key.length)) <= 1) {
+    return { quality: 0.4 };
+  }
+  return null;
+};
+
+// Offsets are into the localised name and description, the text the cards show
+const indexItem = (item: MenuItem, locale: Locale): IndexedWord[] => {
+  const localized = localizeMenuItem(item, locale);
+  const category = getMenuCategory(item.category);
+  const localizedCategory = category && localizeMenuCategory(category, locale);
+  const fields: [IndexedWord['field'], string][] = [
+    ['name', localized.name],
+    ['category', localizedCategory?.name ?? ''],
+    ['description', localized.description],
+  ];
+  if (locale !== DEFAULT_LOCALE) {
+    fields.push(['englishName', item.name], ['category', category?.name ?? '']);
+  }
+  return fields.flatMap(([field, text]) =>
+    tokenize(text).map(word => ({ field, ...word, key: toKey(word.normalized) }))
+  );
+};
+
+const indexCaches = new Map<Locale, WeakMap<MenuItem, IndexedWord[]>>();
+
+const getIndex = (item: MenuItem, locale: Locale) => {
+  let cache = indexCaches.get(locale);
+  if (!cache) {
+    cache = new WeakMap();
+    indexCaches.set(locale, cache);
+  }
+  let index = cache.get(item);
+  if (!index) {
+    index = indexItem(item, locale);
+    cache.set(item, index);
+  }
+  return index;
+};
+
+const mergeRanges = (ranges: MatchRange[]) =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+export const normalizeSearchQuery = (query: string) => query.trim().replace(/\s+/g, ' ');
+
+/**
+ * Every query word must match somewhere in the dish (name, category or
+ * description). Results are ranked by match quality, name hits first, and
+ * keep catalog order on ties. An empty query returns every item unranked.
+ * Results hold the catalog items; highlights are ranges in their
+ * `locale` name and description.
+ */
+export const searchMenu = (items: MenuItem[], query: string, locale: Locale = DEFAULT_LOCALE): MenuSearchResult[] => {
+  const tokens = tokenize(query).map(token => ({ ...token, key: toKey(token.normalized) }));
+  if (tokens.length === 0) {
+    return items.map(item => ({ item, score: 0, highlights: { name: [], description: [] } }));
+  }
+
+  return items
+    .flatMap((item, order) => {
+      const words = getIndex(item, locale);
+      const highlights: Record<SearchField, MatchRange[]> = { name: [], description: [] };
+      let score = 0;
+
+      for (const token of tokens) {
+        let best = 0;
+        for (const word of words) {
+          const match = matchWord(token, word);
+          if (!match) continue;
+          best = Math.max(best, match.quality * FIELD_WEIGHTS[word.field]);
+          if (word.field === 'name' || word.field === 'description') {
+            highlights[word.field].push({
+              start: word.start,
+              end: match.prefixLength ? word.start + match.prefixLength : word.end,
+            });
+          }
+        }
+        if (best === 0) return [];
+        score += best;
+      }
+
+      return [{
+        order,
+        result: {
+          item,
+          score,
+          highlights: { name: mergeRanges(highlights.name), description: mergeRanges(highlights.description) },
+        },
+      }];
+    })
+    .sort((a, b) => b.result.score - a.result.score || a.order - b.order)
+    .map(({ result }) => result);
+};
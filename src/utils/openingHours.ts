@@ -0,0 +1,190 @@
+/**
+ * Opening Hours Evaluation
+ * Resolves the schedule in src/data/openingHours.ts against an instant in
+ * time. All arithmetic happens in restaurant-local (Asia/Kolkata) minutes so
+ * the result is the same whatever the visitor's timezone.
+ */
+
+import {
+  DAYS_OF_WEEK,
+  openingSchedule,
+  type DayOfWeek,
+  type OpeningPeriod,
+  type OpeningSchedule,
+} from '@/data/openingHours';
+
+// Asia/Kolkata is UTC+05:30 all year round (no daylight saving)
+const IST_OFFSET_MINUTES = 330;
+const MINUTES_PER_DAY = 1440;
+const LOOKAHEAD_DAYS = 14;
+
+export interface OpeningInterval {
+  start: number; // restaurant-local minutes since the Unix epoch
+  end: number;
+  specialHoursName?: string;
+}
+
+// Message key for the status label, with the restaurant-local time and
+// weekday it mentions; useOpeningStatus words it in the visitor's language
+export interface OpeningStatusMessage {
+  key: 'hours.openUntil' | 'hours.opensAt' | 'hours.opensTomorrowAt' | 'hours.opensOnAt' | 'hours.closed';
+  minuteOfDay?: number; // {time}
+  day?: DayOfWeek; // {day}
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  closesAt?: Date;
+  opensAt?: Date;
+  /** e.g. "Open now · closes at midnight" or "Opens tomorrow at 10 AM" */
+  message: OpeningStatusMessage;
+  /** Name of the override in effect today, e.g. "Ramadan hours" */
+  specialHoursName?: string;
+}
+
+// One line of the weekly hours; `day` is unset when every day is the same
+export interface WeeklyHoursLine {
+  day?: DayOfWeek;
+  periods: OpeningPeriod[];
+}
+
+const toLocalMinutes = (date: Date) =>
+  Math.floor(date.getTime() / 60000) + IST_OFFSET_MINUTES;
+
+const fromLocalMinutes = (minutes: number) =>
+  new Date((minutes - IST_OFFSET_MINUTES) * 60000);
+
+export const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const dayKey = (dayIndex: number) =>
+  new Date(dayIndex * MINUTES_PER_DAY * 60000).toISOString().slice(0, 10);
+
+const dayOfWeek = (dayIndex: number): DayOfWeek =>
+  DAYS_OF_WEEK[new Date(dayIndex * MINUTES_PER_DAY * 60000).getUTCDay()];
+
+export const getRestaurantDate = (date: Date = new Date()) =>
+  dayKey(Math.floor(toLocalMinutes(date) / MINUTES_PER_DAY));
+
+// Minutes since restaurant-local midnight for the given instant
+export const getRestaurantMinuteOfDay = (date: Date = new Date()) =>
+  toLocalMinutes(date) % MINUTES_PER_DAY;
+
+export const addDaysToDate = (date: string, days: number) =>
+  dayKey(Math.round(Date.parse(`${date}T00:00:00Z`) / 86400000) + days);
+
+// Instant for a restaurant-local date and minute (minutes may exceed a day)
+export const restaurantTimeToDate = (date: string, minuteOfDay: number) =>
+  fromLocalMinutes(Math.round(Date.parse(`${date}T00:00:00Z`) / 60000) + minuteOfDay);
+
+// Later overrides win so a one-day festival can sit inside a longer season
+const findOverride = (schedule: OpeningSchedule, key: string) =>
+  [...schedule.overrides].reverse().find(override => override.from <= key && key <= override.to);
+
+export const getPeriodsForDate = (
+  date: string,
+  schedule: OpeningSchedule = openingSchedule
+): { periods: OpeningPeriod[]; specialHoursName?: string } => {
+  const override = findOverride(schedule, date);
+  if (override) {
+    return { periods: override.periods, specialHoursName: override.name };
+  }
+  const weekday = DAYS_OF_WEEK[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  return { periods: schedule.weekly[weekday] };
+};
+
+const getIntervalsForDay = (dayIndex: number, schedule: OpeningSchedule): OpeningInterval[] => {
+  const key = dayKey(dayIndex);
+  const override = findOverride(schedule, key);
+  const periods = override ? override.periods : schedule.weekly[dayOfWeek(dayIndex)];
+  const dayStart = dayIndex * MINUTES_PER_DAY;
+
+  return periods.map(period => {
+    const opens = parseTime(period.opens);
+    let closes = parseTime(period.closes);
+    if (closes <= opens) closes += MINUTES_PER_DAY;
+    return {
+      start: dayStart + opens,
+      end: dayStart + closes,
+      specialHoursName: override?.name,
+    };
+  });
+};
+
+export const formatTimeOfDay = (minutes: number) => {
+  const minuteOfDay = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  if (minuteOfDay === 0) return 'midnight';
+  if (minuteOfDay === 720) return 'noon';
+
+  const hours = Math.floor(minuteOfDay / 60);
+  const mins = minuteOfDay % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return mins === 0
+    ? `${displayHours} ${suffix}`
+    : `${displayHours}:${String(mins).padStart(2, '0')} ${suffix}`;
+};
+
+export const getOpeningStatus = (
+  now: Date = new Date(),
+  schedule: OpeningSchedule = openingSchedule
+): OpeningStatus => {
+  const nowMinutes = toLocalMinutes(now);
+  const today = Math.floor(nowMinutes / MINUTES_PER_DAY);
+  const specialHoursName = findOverride(schedule, dayKey(today))?.name;
+
+  // Start from yesterday so periods running past midnight are included
+  const intervals: OpeningInterval[] = [];
+  for (let day = today - 1; day <= today + LOOKAHEAD_DAYS; day++) {
+    intervals.push(...getIntervalsForDay(day, schedule));
+  }
+  intervals.sort((a, b) => a.start - b.start);
+
+  const current = intervals.find(interval => interval.start <= nowMinutes && nowMinutes < interval.end);
+  if (current) {
+    // Merge back-to-back periods so "10 AM – midnight" followed by "midnight – 2 AM" reads as one
+    let end = current.end;
+    for (const interval of intervals) {
+      if (interval.start <= end && interval.end > end) end = interval.end;
+    }
+    return {
+      isOpen: true,
+      closesAt: fromLocalMinutes(end),
+      message: { key: 'hours.openUntil', minuteOfDay: end % MINUTES_PER_DAY },
+      specialHoursName,
+    };
+  }
+
+  const next = intervals.find(interval => interval.start > nowMinutes);
+  if (!next) {
+    return { isOpen: false, message: { key: 'hours.closed' }, specialHoursName };
+  }
+
+  const openingDay = Math.floor(next.start / MINUTES_PER_DAY);
+  const minuteOfDay = next.start % MINUTES_PER_DAY;
+  const message: OpeningStatusMessage = openingDay === today
+    ? { key: 'hours.opensAt', minuteOfDay }
+    : openingDay === today + 1
+      ? { key: 'hours.opensTomorrowAt', minuteOfDay }
+      : { key: 'hours.opensOnAt', minuteOfDay, day: dayOfWeek(openingDay) };
+
+  return {
+    isOpen: false,
+    opensAt: fromLocalMinutes(next.start),
+    message,
+    specialHoursName,
+  };
+};
+
+// A single line when all days match ("Every day: 10 AM – midnight"),
+// otherwise one per day; worded by useWeeklyHours
+export const describeWeeklyHours = (schedule: OpeningSchedule = openingSchedule): WeeklyHoursLine[] => {
+  const byDay = DAYS_OF_WEEK.map(day => ({ day, periods: schedule.weekly[day] }));
+  const isSame = (periods: OpeningPeriod[]) => JSON.stringify(periods) === JSON.stringify(byDay[0].periods);
+  if (byDay.every(entry => isSame(entry.periods))) {
+    return [{ periods: byDay[0].periods }];
+  }
+  return byDay;
+};
@@ -0,0 +1,217 @@
+/**
+ * Order Utilities
+ * Pure helpers for resolving cart lines against the menu catalog, order
+ * reference numbers and composing the itemised WhatsApp order message.
+ * Offers and coupons are priced by src/utils/promotions.ts, packaging and GST
+ * by src/utils/pricing.ts.
+ */
+
+import {
+  getDefaultVariant,
+  getMenuAddOn,
+  getMenuItem,
+  type MenuAddOn,
+  type MenuItem,
+  type MenuVariant,
+} from '@/data/menu';
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import type { MessageKey } from '@/data/messages/en';
+import { absoluteUrl, restaurant } from '@/data/restaurant';
+import {
+  localizeMenuAddOn,
+  localizeMenuItem,
+  localizeMenuVariant,
+  translate,
+  type MessageParams,
+} from '@/utils/i18n';
+import { getRestaurantDate } from '@/utils/openingHours';
+import { calculateOrderCharges, describeTaxLines, formatExactPrice, formatRoundOff } from '@/utils/pricing';
+import { describeAppliedPromotion, type OrderPricing } from '@/utils/promotions';
+import { dishPath } from '@/utils/routes';
+
+export type Fulfilment = 'pickup' | 'delivery';
+
+// Pay when collecting or on delivery, or up front with a UPI app
+export type PaymentMethod = 'later' | 'upi';
+
+// One cart line per dish configuration: the same dish in a different
+// portion or with different add-ons is a separate line
+export interface CartEntry {
+  id: string;
+  variantId?: string;
+  addOnIds: string[];
+  quantity: number;
+}
+
+export type CartSelection = Omit<CartEntry, 'quantity'>;
+
+export interface CartLine {
+  key: string;
+  item: MenuItem;
+  variant?: MenuVariant;
+  addOns: MenuAddOn[];
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface OrderDetails {
+  customerName: string;
+  fulfilment: Fulfilment;
+  // Where to deliver ("Ambur (635802)" or a maps link) and the ring's fee
+  delivery?: { location: string; fee: number };
+  reference?: string; // from createOrderReference; staff match payments and follow-ups with it
+  payment?: PaymentMethod;
+}
+
+export const MAX_LINE_QUANTITY = 20;
+
+// No 0/O or 1/I, so a reference read out over the phone is unambiguous
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const REFERENCE_SUFFIX_LENGTH = 5;
+
+// "AB-261019-7K3QM": restaurant-local order date plus five random characters,
+// about 33 million a day. Redrawn when `isTaken` says this device already
+// used it (an earlier order still in the recent orders list).
+export const createOrderReference = (
+  now: Date = new Date(),
+  random: () => number = Math.random,
+  isTaken: (reference: string) => boolean = () => false
+): string => {
+  const date = getRestaurantDate(now).slice(2).replace(/-/g, '');
+  const suffix = Array.from(
+    { length: REFERENCE_SUFFIX_LENGTH },
+    () => REFERENCE_ALPHABET[Math.floor(random() * REFERENCE_ALPHABET.length)]
+  ).join('');
+  const reference = `AB-${date}-${suffix}`;
+  return isTaken(reference) ? createOrderReference(now, random, isTaken) : reference;
+};
+
+export const formatPrice = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export const getCartLineKey = ({ id, variantId, addOnIds }: CartSelection) =>
+  [id, variantId ?? '', [...addOnIds].sort().join('+')].join('|');
+
+// Fills in the default portion so "Add" on a card and the detail sheet agree
+export const normalizeSelection = (item: MenuItem, selection: Partial<CartSelection> = {}): CartSelection => ({
+  id: item.id,
+  variantId: item.variants.some(variant => variant.id === selection.variantId)
+    ? selection.variantId
+    : item.defaultVariant,
+  addOnIds: (selection.addOnIds ?? []).filter(addOnId => item.addOns.includes(addOnId)),
+});
+
+export const getUnitPrice = (item: MenuItem, variant: MenuVariant | undefined, addOns: MenuAddOn[]) =>
+  (variant?.price ?? item.price) + addOns.reduce((total, addOn) => total + addOn.price, 0);
+
+// Entries whose dish or portion no longer exists in the catalog are dropped
+// silently; add-ons the dish no longer offers are ignored
+export const getCartLines = (entries: CartEntry[]): CartLine[] =>
+  entries.flatMap(entry => {
+    const item = getMenuItem(entry.id);
+    if (!item || entry.quantity <= 0) return [];
+
+    const variant = entry.variantId
+      ? item.variants.find(v => v.id === entry.variantId)
+      : getDefaultVariant(item);
+    if (item.variants.length > 0 && !variant) return [];
+
+    const addOns = entry.addOnIds
+      .filter(addOnId => item.addOns.includes(addOnId))
+      .map(getMenuAddOn)
+      .filter((addOn): addOn is MenuAddOn => addOn !== undefined);
+    const unitPrice = getUnitPrice(item, variant, addOns);
+
+    return [{
+      key: getCartLineKey(entry),
+      item,
+      variant,
+      addOns,
+      quantity: entry.quantity,
+      unitPrice,
+      lineTotal: unitPrice * entry.quantity,
+    }];
+  });
+
+// "Mutton Briyani (Half)", in the locale's names where the menu has them
+export const describeLineItem = (line: Pick<CartLine, 'item' | 'variant'>, locale: Locale = DEFAULT_LOCALE) => {
+  const { name } = localizeMenuItem(line.item, locale);
+  return line.variant ? `${name} (${localizeMenuVariant(line.variant, locale).name})` : name;
+};
+
+export const getAddOnNames = (addOns: MenuAddOn[], locale: Locale = DEFAULT_LOCALE) =>
+  addOns.map(addOn => localizeMenuAddOn(addOn, locale).name);
+
+export const getSubtotal = (lines: CartLine[]) =>
+  lines.reduce((total, line) => total + line.lineTotal, 0);
+
+export const getItemCount = (entries: CartEntry[]) =>
+  entries.reduce((count, entry) => count + entry.quantity, 0);
+
+export const describeFulfilment = (fulfilment: Fulfilment, locale: Locale = DEFAULT_LOCALE) =>
+  translate(locale, fulfilment === 'delivery' ? 'order.delivery' : 'order.pickup');
+
+export const describePayment = ({ payment, fulfilment, reference }: Partial<OrderDetails>, locale: Locale = DEFAULT_LOCALE) => {
+  if (payment === 'upi') {
+    return reference
+      ? translate(locale, 'order.payUpiWithNote', { upiId: restaurant.upiId, reference })
+      : translate(locale, 'order.payUpi', { upiId: restaurant.upiId });
+  }
+  return translate(locale, fulfilment === 'delivery' ? 'order.payOnDelivery' : 'order.payAtPickup');
+};
+
+// Pass the order's pricing to list offer savings; the total to pay also
+// includes packaging, any delivery fee and GST (see src/utils/pricing.ts).
+// Written in the customer's language, dish names included.
+export const composeOrderMessage = (
+  lines: CartLine[],
+  details: OrderDetails,
+  pricing?: OrderPricing,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const itemLines = lines.flatMap((line, index) => [
+    `${index + 1}. ${describeLineItem(line, locale)} x ${line.quantity} = ${formatPrice(line.lineTotal)}`,
+    ...(line.addOns.length > 0 ? [`   ${t('order.addOns', { addOns: getAddOnNames(line.addOns, locale).join(', ') })}`] : []),
+  ]);
+
+  const discounts = pricing?.discounts ?? [];
+  const delivery = details.fulfilment === 'delivery' ? details.delivery : undefined;
+  const charges = calculateOrderCharges(lines, { discounts, deliveryFee: delivery?.fee });
+
+  return [
+    t('order.greeting', { restaurant: restaurant.name }),
+    ...(details.reference ? [t('order.referenceLine', { reference: details.reference })] : []),
+    '',
+    ...itemLines,
+    '',
+    `${t('order.subtotal')}: ${formatPrice(getSubtotal(lines))}`,
+    ...discounts.map(discount => `${describeAppliedPromotion(discount, locale)}: -${formatPrice(discount.amount)}`),
+    ...(charges.packaging > 0 ? [`${t('order.packaging')}: ${formatPrice(charges.packaging)}`] : []),
+    ...(delivery ? [`${t('order.deliveryFee')}: ${delivery.fee > 0 ? formatPrice(delivery.fee) : t('order.free')}`] : []),
+    ...describeTaxLines(charges, locale).map(tax => `${tax.label}: ${formatExactPrice(tax.amount)}`),
+    ...(charges.roundOff !== 0 ? [`${t('order.roundOff')}: ${formatRoundOff(charges.roundOff)}`] : []),
+    `${t('order.total')}: ${formatPrice(charges.total)}`,
+    t('order.name', { name: details.customerName.trim() }),
+    t('order.type', { type: describeFulfilment(details.fulfilment, locale) }),
+    ...(delivery ? [t('order.deliverTo', { location: delivery.location })] : []),
+    ...(details.payment ? [t('order.payment', { method: describePayment(details, locale) })] : []),
+  ].join('\n');
+};
+
+export const buildWhatsAppLink = (message: string) =>
+  `https://wa.me/${restaurant.whatsappNumber}?text=${encodeURIComponent(message)}`;
+
+// Share links have no recipient; WhatsApp asks which chat to send them to
+export const buildWhatsAppShareLink = (message: string) =>
+  `https://wa.me/?text=${encodeURIComponent(message)}`;
+
+// The link opens the menu with this dish's details already showing; pass a
+// locale-prefixed path to share the page in the reader's language
+export const composeDishShareMessage = (item: MenuItem, path = dishPath(item)) =>
+  [
+    `${item.name} at ${restaurant.name} - ${formatPrice(item.price)}`,
+    item.description,
+    absoluteUrl(path),
+  ].join('\n');
@@ -0,0 +1,162 @@
+/**
+ * Performance Budget Checks
+ * Compares the files a build ships with src/data/performanceBudgets.ts and
+ * formats the report the budget plugin in vite.config.ts prints. Reading the
+ * files is left to the plugin, so this stays free of Node APIs. Kept free of
+ * "@/" imports for the same reason as src/utils/seo.ts.
+ */
+
+import type { BudgetMeasure, FileBudget, PerformanceBudgets } from "../data/performanceBudgets";
+
+export interface BuiltFile {
+  path: string; // relative to dist/, e.g. "assets/index-3f2a1c.js"
+  bytes: number;
+  gzipBytes?: number; // only known for emitted chunks and assets
+  isEntry?: boolean;
+}
+
+export type BudgetStatus = "ok" | "over" | "missing";
+
+export interface BudgetResult {
+  label: string;
+  path: string; // the budget's pattern when nothing matched
+  size: number; // bytes, or faces for the font budget
+  limit: number;
+  measure: BudgetMeasure | "faces";
+  status: BudgetStatus;
+  required: boolean;
+  deployOnly: boolean; // missing is only a failure in a strict build
+}
+
+const KB = 1024;
+
+const matchesBudget = (budget: FileBudget, file: BuiltFile) =>
+  budget.match.test(file.path) && (budget.entry === undefined || budget.entry === Boolean(file.isEntry));
+
+const checkFileBudget = (budget: FileBudget, files: BuiltFile[]): BudgetResult[] => {
+  const matched = files.filter((file) => matchesBudget(budget, file));
+  const missing = budget.expected
+    .filter((path) => !matched.some((file) => file.path === path))
+    .map(
+      (path): BudgetResult => ({
+        label: budget.label,
+        path,
+        size: 0,
+        limit: (budget.overrides[path] ?? budget.maxKb) * KB,
+        measure: budget.measure,
+        status: "missing",
+        required: true,
+        deployOnly: budget.deployOnly,
+      })
+    );
+  if (matched.length === 0 && missing.length === 0) {
+    return [
+      {
+        label: budget.label,
+        path: String(budget.match),
+        size: 0,
+        limit: budget.maxKb * KB,
+        measure: budget.measure,
+        status: "missing",
+        required: budget.required,
+        deployOnly: budget.deployOnly,
+      },
+    ];
+  }
+  return [
+    ...matched.map((file): BudgetResult => {
+      const size = budget.measure === "gzip" ? file.gzipBytes ?? file.bytes : file.bytes;
+      const limit = (budget.overrides[file.path] ?? budget.maxKb) * KB;
+      return {
+        label: budget.label,
+        path: file.path,
+        size,
+        limit,
+        measure: budget.measure,
+        status: size > limit ? "over" : "ok",
+        required: budget.required,
+        deployOnly: budget.deployOnly,
+      };
+    }),
+    ...missing,
+  ];
+};
+
+// Distinct family/weight/style combinations in Google Fonts css2 URLs, e.g.
+// "family=Poppins:ital,wght@0,400;1,400" is two faces and "family=Spirax" one
+export const countGoogleFontFaces = (sources: string[]) => {
+  const faces = new Set<string>();
+  sources.forEach((source) => {
+    const urls = source.replace(/&amp;/g, "&").match(/https:\/\/fonts\.googleapis\.com\/css2\?[^"')\s]+/g) ?? [];
+    urls.forEach((url) => {
+      new URL(url).searchParams.getAll("family").forEach((family) => {
+        const [name, axes] = family.split(":");
+        const variants = axes?.split("@")[1]?.split(";") ?? ["regular"];
+        variants.forEach((variant) => faces.add(`${name}:${variant}`));
+      });
+    });
+  });
+  return faces.size;
+};
+
+export const checkPerformanceBudgets = (
+  files: BuiltFile[],
+  fontSources: string[],
+  budgets: PerformanceBudgets
+): BudgetResult[] => {
+  const fontFaces = countGoogleFontFaces(fontSources);
+  return [
+    ...budgets.files.flatMap((budget) => checkFileBudget(budget, files)),
+    {
+      label: "Google Fonts",
+      path: "font faces requested",
+      size: fontFaces,
+      limit: budgets.fontFaces,
+      measure: "faces",
+      status: fontFaces > budgets.fontFaces ? "over" : "ok",
+      required: true,
+      deployOnly: false,
+    },
+  ];
+};
+
+const isMissingRequired = (result: BudgetResult) => result.status === "missing" && result.required;
+
+// Results that fail the build: files over budget and required files missing.
+// Deploy-only files missing from a checkout fail only when `strict`.
+export const getBudgetFailures = (results: BudgetResult[], strict = false) =>
+  results.filter(
+    (result) => result.status === "over" || (isMissingRequired(result) && (strict || !result.deployOnly))
+  );
+
+// Deploy-only files missing from a non-strict build, reported but let through
+export const getBudgetWarnings = (results: BudgetResult[], strict = false) =>
+  strict ? [] : results.filter((result) => isMissingRequired(result) && result.deployOnly);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= KB * KB ? `${(bytes / KB / KB).toFixed(2)} MB` : `${(bytes / KB).toFixed(1)} KB`;
+
+const formatAmount = (result: BudgetResult, amount: number) =>
+  result.measure === "faces" ? String(amount) : formatBytes(amount);
+
+const STATUS_MARKS: Record<BudgetStatus, string> = { ok: "✓", over: "✗", missing: "-" };
+
+export const formatBudgetReport = (results: BudgetResult[], strict = false) => {
+  const labelWidth = Math.max(...results.map((result) => result.label.length));
+  const pathWidth = Math.max(...results.map((result) => result.path.length));
+  const lines = results.map((result) => {
+    const usage =
+      result.status === "missing"
+        ? result.required
+          ? result.deployOnly && !strict
+            ? "not found, added by the deploy"
+            : "required but not found"
+          : "not found, skipped"
+        : `${formatAmount(result, result.size)} of ${formatAmount(result, result.limit)}` +
+          (result.measure === "gzip" ? " gzipped" : "");
+    return `  ${STATUS_MARKS[result.status]} ${result.label.padEnd(labelWidth)}  ${result.path.padEnd(pathWidth)}  ${usage}`;
+  });
+  const failures = getBudgetFailures(results, strict).length;
+  const summary = failures === 0 ? "all within budget" : `${failures} over budget or missing`;
+  return [`Performance budgets: ${summary}`, ...lines].join("\n");
+};
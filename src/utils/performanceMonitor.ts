@@ -1,47 +1,5 @@
-// Performance monitoring and optimization utilities
-
-export const measurePerformance = () => {
-  if (typeof window === 'undefined') return;
-
-  // Web Vitals monitoring
-  const observer = new PerformanceObserver((list) => {
-    for (const entry of list.getEntries()) {
-      // Log to console in development
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`${entry.name}: ${entry.startTime.toFixed(2)}ms`);
-      }
-      
-      // You can send these metrics to analytics
-      if (entry.entryType === 'largest-contentful-paint') {
-        console.log('LCP:', entry.startTime);
-      }
-      
-      if (entry.entryType === 'first-input') {
-        const fid = entry.processingStart - entry.startTime;
-        console.log('FID:', fid);
-      }
-      
-      if (entry.entryType === 'layout-shift') {
-        console.log('CLS:', entry.value);
-      }
-    }
-  });
-
-  // Observe different metrics
-  observer.observe({ entryTypes: ['largest-contentful-paint', 'first-input', 'layout-shift'] });
-  
-  // Measure Time to Interactive
-  if ('PerformanceObserver' in window) {
-    const paintObserver = new PerformanceObserver((list) => {
-      for (const entry of list.getEntries()) {
-        if (entry.name === 'first-contentful-paint') {
-          console.log('FCP:', entry.startTime);
-        }
-      }
-    });
-    paintObserver.observe({ entryTypes: ['paint'] });
-  }
-};
+// Performance monitoring and optimization utilities. Web Vitals are measured
+// and reported by src/utils/webVitals.ts.
 
 // Device detection utilities
 export const getDeviceInfo = () => {
@@ -180,7 +138,6 @@ const isElementInViewport = (el: HTMLElement) => {
 };
 
 export default {
-  measurePerformance,
   getDeviceInfo,
   getOptimizedImageSrc,
   createLazyLoadObserver,
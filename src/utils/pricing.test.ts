@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuItem } from '@/data/menu';
+import type { TaxSettings } from '@/data/tax';
+import type { CartLine } from '@/utils/order';
+import { allocateProportionally, calculateOrderCharges } from '@/utils/pricing';
+import type { AppliedPromotion } from '@/utils/promotions';
+
+const inclusive: TaxSettings = { gstRate: 5, pricesIncludeTax: true };
+const exclusive: TaxSettings = { gstRate: 5, pricesIncludeTax: false };
+
+const line = (
+  key: string,
+  price: number,
+  quantity = 1,
+  item: Partial<Pick<MenuItem, 'packagingCharge' | 'taxRate'>> = {}
+): CartLine => ({
+  key,
+  item: { id: key, name: key, price, ...item } as MenuItem,
+  addOns: [],
+  quantity,
+  unitPrice: price,
+  lineTotal: price * quantity,
+});
+
+const discount = (amount: number, lineKeys: string[] = []): AppliedPromotion => ({
+  promotion: { id: 'test-offer' } as AppliedPromotion['promotion'],
+  amount,
+  times: 1,
+  lineKeys,
+});
+
+describe('allocateProportionally', () => {
+  it('splits in proportion to the weights', () => {
+    expect(allocateProportionally(1000, [300, 100])).toEqual([750, 250]);
+  });
+
+  it('hands leftover paise to the largest remainders, earlier lines first on ties', () => {
+    expect(allocateProportionally(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateProportionally(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  it('always adds up to the total', () => {
+    const parts = allocateProportionally(9999, [13, 7, 29, 1]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(9999);
+  });
+
+  it('gives nothing when there is nothing to weigh against', () => {
+    expect(allocateProportionally(500, [0, 0])).toEqual([0, 0]);
+    expect(allocateProportionally(500, [])).toEqual([]);
+  });
+});
+
+describe('calculateOrderCharges', () => {
+  it('takes GST out of GST-inclusive prices', () => {
+    const charges = calculateOrderCharges([line('briyani', 250)], { settings: inclusive });
+
+    expect(charges.taxes).toEqual([{ rate: 5, taxableValue: 238.1, cgst: 5.95, sgst: 5.95 }]);
+    expect(charges.tax).toBe(11.9);
+    expect(charges.pricesIncludeTax).toBe(true);
+    expect(charges.total).toBe(250);
+    expect(charges.roundOff).toBe(0);
+  });
+
+  it('adds GST on top of GST-exclusive prices', () => {
+    const charges = calculateOrderCharges([line('briyani', 200)], { settings: exclusive });
+
+    expect(charges.taxes).toEqual([{ rate: 5, taxableValue: 200, cgst: 5, sgst: 5 }]);
+    expect(charges.pricesIncludeTax).toBe(false);
+    expect(charges.total).toBe(210);
+  });
+
+  it('works in paise and rounds the total to the rupee with a round-off line', () => {
+    const up = calculateOrderCharges([line('briyani', 199)], { settings: exclusive });
+    expect(up.tax).toBe(9.95);
+    expect(up.total).toBe(209);
+    expect(up.roundOff).toBe(0.05);
+
+    const down = calculateOrderCharges([line('briyani', 205)], { settings: exclusive });
+    expect(down.tax).toBe(10.25);
+    expect(down.total).toBe(215);
+    expect(down.roundOff).toBe(-0.25);
+  });
+
+  it('splits GST into CGST and SGST, giving CGST the odd paisa', () => {
+    const charges = calculateOrderCharges([line('briyani', 205)], { settings: exclusive });
+
+    expect(charges.taxes[0].cgst).toBe(5.13);
+    expect(charges.taxes[0].sgst).toBe(5.12);
+  });
+
+  it('keeps one tax entry per rate, lowest first', () => {
+    const charges = calculateOrderCharges(
+      [line('soft-drink', 100, 1, { taxRate: 18 }), line('briyani', 100)],
+      { settings: exclusive }
+    );
+
+    expect(charges.taxes.map(entry => entry.rate)).toEqual([5, 18]);
+    expect(charges.tax).toBe(23);
+  });
+
+  it('charges packaging per portion, taxed at the dish rate', () => {
+    const charges = calculateOrderCharges(
+      [line('briyani', 100, 2, { packagingCharge: 10 }), line('soft-drink', 100, 1, { packagingCharge: 5, taxRate: 18 })],
+      { settings: exclusive }
+    );
+
+    expect(charges.packaging).toBe(25);
+    expect(charges.taxes).toEqual([
+      { rate: 5, taxableValue: 220, cgst: 5.5, sgst: 5.5 },
+      { rate: 18, taxableValue: 105, cgst: 9.45, sgst: 9.45 },
+    ]);
+    expect(charges.total).toBe(355);
+    expect(charges.roundOff).toBe(0.1);
+  });
+
+  it('taxes the delivery fee at the restaurant rate', () => {
+    const charges = calculateOrderCharges([line('soft-drink', 100, 1, { taxRate: 12 })], {
+      deliveryFee: 40,
+      settings: exclusive,
+    });
+
+    expect(charges.deliveryFee).toBe(40);
+    expect(charges.taxes).toEqual([
+      { rate: 5, taxableValue: 40, cgst: 1, sgst: 1 },
+      { rate: 12, taxableValue: 100, cgst: 6, sgst: 6 },
+    ]);
+    expect(charges.total).toBe(154);
+  });
+
+  it('leaves a GST-inclusive delivery fee as charged', () => {
+    const charges = calculateOrderCharges([line('briyani', 250)], { deliveryFee: 30, settings: inclusive });
+
+    expect(charges.taxes).toEqual([{ rate: 5, taxableValue: 266.67, cgst: 6.67, sgst: 6.66 }]);
+    expect(charges.total).toBe(280);
+    expect(charges.roundOff).toBe(0);
+  });
+
+  it('spreads an order-wide offer over every line in proportion to its price', () => {
+    const charges = calculateOrderCharges(
+      [line('briyani', 200), line('soft-drink', 100, 1, { taxRate: 18 })],
+      { discounts: [discount(30)], settings: exclusive }
+    );
+
+    expect(charges.itemsTotal).toBe(270);
+    expect(charges.taxes).toEqual([
+      { rate: 5, taxableValue: 180, cgst: 4.5, sgst: 4.5 },
+      { rate: 18, taxableValue: 90, cgst: 8.1, sgst: 8.1 },
+    ]);
+  });
+
+  it('takes dish offers off their own lines before spreading order-wide offers', () => {
+    const charges = calculateOrderCharges(
+      [line('briyani', 200), line('soft-drink', 100, 1, { taxRate: 18 })],
+      { discounts: [discount(30), discount(50, ['briyani'])], settings: exclusive }
+    );
+
+    // 150 and 100 left, then 30 off in proportion: 18 and 12
+    expect(charges.itemsTotal).toBe(220);
+    expect(charges.taxes).toEqual([
+      { rate: 5, taxableValue: 132, cgst: 3.3, sgst: 3.3 },
+      { rate: 18, taxableValue: 88, cgst: 7.92, sgst: 7.92 },
+    ]);
+    expect(charges.total).toBe(242);
+    expect(charges.roundOff).toBe(-0.44);
+  });
+
+  it('never takes a line below zero', () => {
+    const charges = calculateOrderCharges([line('briyani', 200), line('raita', 50)], {
+      discounts: [discount(300, ['briyani'])],
+      settings: exclusive,
+    });
+
+    expect(charges.itemsTotal).toBe(50);
+    expect(charges.taxes).toEqual([{ rate: 5, taxableValue: 50, cgst: 1.25, sgst: 1.25 }]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Order Charges
+ * Turns a priced cart (src/utils/promotions.ts) into what the customer pays:
+ * packaging, GST and the delivery fee, rounded to the rupee.
+ *
+ * - Amounts are worked out in paise and only rounded to the rupee at the end,
+ *   shown as a "Round off" line like a printed bill.
+ * - Offer savings are spread over the dishes they apply to in proportion to
+ *   their price (order-wide offers over the whole cart), so each dish is taxed
+ *   on what is actually charged for it.
+ * - Every order from the site is takeaway (pickup or delivery), so dishes'
+ *   packaging charges always apply and are taxed at the dish's rate.
+ * - The delivery fee is part of the same supply and taxed at the restaurant
+ *   rate.
+ * - GST is split equally into CGST and SGST, per rate.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import { taxSettings as defaultTaxSettings, type TaxSettings } from '@/data/tax';
+import { translate } from '@/utils/i18n';
+import type { CartLine } from '@/utils/order';
+import type { AppliedPromotion } from '@/utils/promotions';
+
+export interface TaxBreakdown {
+  rate: number; // GST %
+  taxableValue: number; // ₹, before GST
+  cgst: number; // ₹
+  sgst: number; // ₹
+}
+
+export interface OrderCharges {
+  itemsTotal: number; // ₹, dishes after offers
+  packaging: number; // ₹
+  deliveryFee: number; // ₹
+  taxes: TaxBreakdown[]; // one per rate, lowest first
+  tax: number; // ₹, all GST
+  pricesIncludeTax: boolean; // whether `tax` is already in the amounts above
+  roundOff: number; // ₹, between -0.50 and 0.50
+  total: number; // ₹, whole rupees
+}
+
+export interface ChargeOptions {
+  discounts?: AppliedPromotion[];
+  deliveryFee?: number; // ₹; leave out for pickup
+  settings?: TaxSettings;
+}
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+
+// Splits `total` paise across `weights` in proportion, handing leftover paise
+// to the largest remainders so the parts always add up to `total`
+export const allocateProportionally = (total: number, weights: number[]) => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map(weight => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      parts[index] += 1;
+      leftover -= 1;
+    });
+  return parts;
+};
+
+// What each line is charged after offers, in paise. Dish offers come off the
+// lines they used; order-wide offers off what's left of every line.
+const getNetLineAmounts = (lines: CartLine[], discounts: AppliedPromotion[]) => {
+  const net = lines.map(line => toPaise(line.lineTotal));
+  const apply = (discount: AppliedPromotion, indexes: number[]) => {
+    const shares = allocateProportionally(toPaise(discount.amount), indexes.map(index => net[index]));
+    indexes.forEach((index, position) => {
+      net[index] = Math.max(0, net[index] - shares[position]);
+    });
+  };
+
+  const allIndexes = lines.map((_, index) => index);
+  discounts
+    .filter(discount => discount.lineKeys.length > 0)
+    .forEach(discount => apply(discount, allIndexes.filter(index => discount.lineKeys.includes(lines[index].key))));
+  discounts
+    .filter(discount => discount.lineKeys.length === 0)
+    .forEach(discount => apply(discount, allIndexes));
+  return net;
+};
+
+// GST in paise on an amount in paise at `rate` %
+const getTax = (amount: number, rate: number, pricesIncludeTax: boolean) =>
+  Math.round(pricesIncludeTax ? (amount * rate) / (100 + rate) : (amount * rate) / 100);
+
+export const calculateOrderCharges = (
+  lines: CartLine[],
+  { discounts = [], deliveryFee = 0, settings = defaultTaxSettings }: ChargeOptions = {}
+): OrderCharges => {
+  const net = getNetLineAmounts(lines, discounts);
+  const packaging = lines.map(line => toPaise((line.item.packagingCharge ?? 0) * line.quantity));
+  const delivery = toPaise(deliveryFee);
+
+  // Charged amounts (GST-inclusive or not, as the prices are) by rate
+  const byRate = new Map<number, number>();
+  const addAmount = (rate: number, amount: number) => byRate.set(rate, (byRate.get(rate) ?? 0) + amount);
+  lines.forEach((line, index) => addAmount(line.item.taxRate ?? settings.gstRate, net[index] + packaging[index]));
+  if (delivery > 0) addAmount(settings.gstRate, delivery);
+
+  const taxes = [...byRate.entries()]
+    .filter(([rate, amount]) => rate > 0 && amount > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([rate, amount]) => {
+      const tax = getTax(amount, rate, settings.pricesIncludeTax);
+      const cgst = Math.ceil(tax / 2);
+      return {
+        rate,
+        taxableValue: settings.pricesIncludeTax ? amount - tax : amount,
+        cgst,
+        sgst: tax - cgst,
+      };
+    });
+
+  const itemsTotal = net.reduce((sum, amount) => sum + amount, 0);
+  const packagingTotal = packaging.reduce((sum, amount) => sum + amount, 0);
+  const tax = taxes.reduce((sum, entry) => sum + entry.cgst + entry.sgst, 0);
+  const exact = itemsTotal + packagingTotal + delivery + (settings.pricesIncludeTax ? 0 : tax);
+  const total = Math.round(exact / 100) * 100;
+
+  return {
+    itemsTotal: toRupees(itemsTotal),
+    packaging: toRupees(packagingTotal),
+    deliveryFee: toRupees(delivery),
+    taxes: taxes.map(entry => ({
+      rate: entry.rate,
+      taxableValue: toRupees(entry.taxableValue),
+      cgst: toRupees(entry.cgst),
+      sgst: toRupees(entry.sgst),
+    })),
+    tax: toRupees(tax),
+    pricesIncludeTax: settings.pricesIncludeTax,
+    roundOff: toRupees(total - exact),
+    total: toRupees(total),
+  };
+};
+
+// "₹12.50": tax lines and round-off carry paise, unlike menu prices
+export const formatExactPrice = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// "+₹0.40" / "-₹0.40"
+export const formatRoundOff = (amount: number) => `${amount < 0 ? '-' : '+'}${formatExactPrice(Math.abs(amount))}`;
+
+// "CGST 2.5%" and "SGST 2.5%" per rate, marked "incl." when prices include
+// them. Takes a saved receipt as well as fresh charges.
+export const describeTaxLines = (
+  { taxes, pricesIncludeTax }: { taxes?: Partial<TaxBreakdown>[]; pricesIncludeTax?: boolean },
+  locale: Locale = DEFAULT_LOCALE
+) =>
+  (taxes ?? []).flatMap(({ rate, cgst, sgst }) => {
+    const key = pricesIncludeTax ? 'order.taxIncluded' : 'order.tax';
+    return [
+      { label: translate(locale, key, { tax: 'CGST', rate: rate / 2 }), amount: cgst },
+      { label: translate(locale, key, { tax: 'SGST', rate: rate / 2 }), amount: sgst },
+    ];
+  });
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { MenuItem } from '@/data/menu';
+import type { Promotion } from '@/data/promotions';
+import type { CartLine } from '@/utils/order';
+import { isPromotionActive, normalizeCouponCode, priceOrder } from '@/utils/promotions';
+
+// Monday 19 October 2026, 13:00 in Ambur (UTC+5:30)
+const mondayLunch = new Date('2026-10-19T07:30:00Z');
+
+const line = (key: string, price: number, quantity = 1, category = 'main-course'): CartLine => ({
+  key,
+  item: { id: key, name: key, price, category } as MenuItem,
+  addOns: [],
+  quantity,
+  unitPrice: price,
+  lineTotal: price * quantity,
+});
+
+const flatOff = (id: string, amount: number, extra: Partial<Promotion> = {}) =>
+  ({ id, type: 'flat-off', title: id, description: id, amount, ...extra }) as Promotion;
+
+const percentOff = (id: string, percent: number, extra: Partial<Promotion> = {}) =>
+  ({ id, type: 'percent-off', title: id, description: id, percent, ...extra }) as Promotion;
+
+describe('normalizeCouponCode', () => {
+  it('drops spaces and capitalises', () => {
+    expect(normalizeCouponCode(' first 50 ')).toBe('FIRST50');
+  });
+});
+
+describe('isPromotionActive', () => {
+  const lunch = flatOff('lunch', 50, { times: [{ opens: '12:00', closes: '15:00' }] });
+
+  it('reads time windows in restaurant time', () => {
+    expect(isPromotionActive(lunch, new Date('2026-10-19T06:29:00Z'))).toBe(false); // 11:59
+    expect(isPromotionActive(lunch, new Date('2026-10-19T06:30:00Z'))).toBe(true); // 12:00
+    expect(isPromotionActive(lunch, new Date('2026-10-19T09:29:00Z'))).toBe(true); // 14:59
+    expect(isPromotionActive(lunch, new Date('2026-10-19T09:30:00Z'))).toBe(false); // 15:00
+  });
+
+  it('runs windows that close after midnight into the next morning', () => {
+    const lateNight = flatOff('late', 50, { times: [{ opens: '22:00', closes: '02:00' }] });
+
+    expect(isPromotionActive(lateNight, new Date('2026-10-19T17:00:00Z'))).toBe(true); // 22:30
+    expect(isPromotionActive(lateNight, new Date('2026-10-19T20:00:00Z'))).toBe(true); // 01:30
+    expect(isPromotionActive(lateNight, new Date('2026-10-19T21:00:00Z'))).toBe(false); // 02:30
+  });
+
+  it('takes the weekday in Ambur, not UTC', () => {
+    const tuesday = flatOff('tuesday', 50, { days: ['tuesday'] });
+
+    // Still Monday in UTC, already 00:30 on Tuesday in Ambur
+    expect(isPromotionActive(tuesday, new Date('2026-10-19T19:00:00Z'))).toBe(true);
+    expect(isPromotionActive(tuesday, new Date('2026-10-19T18:29:00Z'))).toBe(false);
+  });
+
+  it('includes both ends of the date range, in restaurant time', () => {
+    const festival = flatOff('festival', 50, { validFrom: '2026-11-06', validTo: '2026-11-10' });
+
+    expect(isPromotionActive(festival, new Date('2026-11-05T18:29:00Z'))).toBe(false); // 23:59 on the 5th
+    expect(isPromotionActive(festival, new Date('2026-11-05T18:30:00Z'))).toBe(true); // midnight on the 6th
+    expect(isPromotionActive(festival, new Date('2026-11-10T18:29:00Z'))).toBe(true); // 23:59 on the 10th
+    expect(isPromotionActive(festival, new Date('2026-11-10T18:30:00Z'))).toBe(false);
+  });
+});
+
+describe('priceOrder', () => {
+  it('applies nothing when no offer qualifies', () => {
+    const pricing = priceOrder([line('briyani', 250)], { now: mondayLunch, promotions: [] });
+
+    expect(pricing).toEqual({ subtotal: 250, discounts: [], savings: 0, total: 250, coupon: { status: 'none' } });
+  });
+
+  it('needs the minimum order before discounts', () => {
+    const promotions = [flatOff('over-400', 50, { minSubtotal: 400 })];
+
+    expect(priceOrder([line('briyani', 399)], { now: mondayLunch, promotions }).savings).toBe(0);
+    expect(priceOrder([line('briyani', 400)], { now: mondayLunch, promotions }).savings).toBe(50);
+  });
+
+  it('says how much more a coupon needs', () => {
+    const promotions = [flatOff('first-order', 50, { code: 'FIRST50', minSubtotal: 400 })];
+    const pricing = priceOrder([line('briyani', 250)], { couponCode: 'first50', now: mondayLunch, promotions });
+
+    expect(pricing.discounts).toEqual([]);
+    expect(pricing.coupon).toEqual({ status: 'not-eligible', code: 'FIRST50', promotion: promotions[0], shortBy: 150 });
+  });
+
+  it("doesn't give a shortfall for a coupon outside its dates", () => {
+    const promotions = [flatOff('festival', 50, { code: 'DIWALI', minSubtotal: 400, validTo: '2026-10-01' })];
+    const pricing = priceOrder([line('briyani', 250)], { couponCode: 'DIWALI', now: mondayLunch, promotions });
+
+    expect(pricing.coupon).toMatchObject({ status: 'not-eligible', shortBy: undefined });
+  });
+
+  it('reports codes that match no offer', () => {
+    const pricing = priceOrder([line('briyani', 250)], { couponCode: 'NOPE', now: mondayLunch, promotions: [] });
+
+    expect(pricing.coupon).toEqual({ status: 'unknown', code: 'NOPE' });
+  });
+
+  it('leaves coupon-only offers alone until the code is entered', () => {
+    const promotions = [flatOff('first-order', 50, { code: 'FIRST50' })];
+
+    expect(priceOrder([line('briyani', 250)], { now: mondayLunch, promotions }).savings).toBe(0);
+    expect(priceOrder([line('briyani', 250)], { couponCode: 'FIRST50', now: mondayLunch, promotions }).savings).toBe(50);
+  });
+
+  it('applies one order-wide offer: the coupon over any automatic one', () => {
+    const promotions = [percentOff('big-automatic', 20), flatOff('first-order', 50, { code: 'FIRST50' })];
+    const pricing = priceOrder([line('briyani', 500)], { couponCode: 'FIRST50', now: mondayLunch, promotions });
+
+    expect(pricing.discounts.map(discount => discount.promotion.id)).toEqual(['first-order']);
+    expect(pricing.savings).toBe(50);
+    expect(pricing.coupon).toEqual({ status: 'applied', code: 'FIRST50' });
+  });
+
+  it('picks the automatic order-wide offer that saves the most', () => {
+    const promotions = [flatOff('flat', 60), percentOff('percent', 10)];
+
+    expect(priceOrder([line('briyani', 500)], { now: mondayLunch, promotions }).discounts[0].promotion.id).toBe('flat');
+    expect(priceOrder([line('briyani', 800)], { now: mondayLunch, promotions }).discounts[0].promotion.id).toBe('percent');
+  });
+
+  it('caps percentage offers at their maximum discount', () => {
+    const promotions = [percentOff('festival', 10, { maxDiscount: 150 })];
+
+    expect(priceOrder([line('feast', 1200)], { now: mondayLunch, promotions }).savings).toBe(120);
+    expect(priceOrder([line('feast', 2000)], { now: mondayLunch, promotions }).savings).toBe(150);
+  });
+
+  it('never takes more off than the order is worth', () => {
+    const pricing = priceOrder([line('tea', 30)], { now: mondayLunch, promotions: [flatOff('flat', 50)] });
+
+    expect(pricing.savings).toBe(30);
+    expect(pricing.total).toBe(0);
+  });
+
+  it('rounds savings to whole rupees', () => {
+    const pricing = priceOrder([line('briyani', 255)], { now: mondayLunch, promotions: [percentOff('percent', 15)] });
+
+    expect(pricing.savings).toBe(38);
+  });
+
+  it('works order-wide offers out on what dish offers leave', () => {
+    const promotions = [
+      percentOff('starters', 50, { appliesTo: { categoryIds: ['appetizers'] } }),
+      percentOff('order', 10),
+    ];
+    const pricing = priceOrder([line('chicken-65', 200, 1, 'appetizers'), line('briyani', 300)], {
+      now: mondayLunch,
+      promotions,
+    });
+
+    expect(pricing.discounts.map(({ promotion, amount, lineKeys }) => ({ id: promotion.id, amount, lineKeys }))).toEqual([
+      { id: 'starters', amount: 100, lineKeys: ['chicken-65'] },
+      { id: 'order', amount: 40, lineKeys: [] },
+    ]);
+    expect(pricing.total).toBe(360);
+  });
+
+  it('counts each portion towards one dish offer at most', () => {
+    const promotions = [
+      { id: 'three-for-two', type: 'buy-x-get-y', title: '3 for 2', description: '3 for 2',
+        buy: { itemIds: ['parotta'], quantity: 2 }, get: { itemIds: ['parotta'], quantity: 1 } },
+      percentOff('parotta-half', 50, { appliesTo: { itemIds: ['parotta'] } }),
+    ] as Promotion[];
+    const pricing = priceOrder([line('parotta', 20, 4)], { now: mondayLunch, promotions });
+
+    // Three go to the 3-for-2, the fourth gets half off
+    expect(pricing.discounts.map(({ promotion, amount }) => [promotion.id, amount])).toEqual([
+      ['three-for-two', 20],
+      ['parotta-half', 10],
+    ]);
+  });
+
+  it('only applies a combo when it saves money', () => {
+    const combo = (price: number) =>
+      ({ id: 'feast', type: 'combo', title: 'Feast', description: 'Feast', price,
+        items: [{ itemId: 'briyani', quantity: 2 }, { itemId: 'chicken-65', quantity: 1 }] }) as Promotion;
+    const lines = [line('briyani', 180, 2), line('chicken-65', 120)];
+
+    expect(priceOrder(lines, { now: mondayLunch, promotions: [combo(399)] }).savings).toBe(81);
+    expect(priceOrder(lines, { now: mondayLunch, promotions: [combo(480)] }).savings).toBe(0);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Promotion Engine
+ * Prices a cart against src/data/promotions.ts. Evaluation is deterministic:
+ *
+ * 1. Dish-level offers (combos, buy-X-get-Y, percent-off with appliesTo) run
+ *    in list order. Each portion in the cart counts towards one offer at
+ *    most, and pricier portions are matched first.
+ * 2. One order-wide offer (flat-off, percent-off without appliesTo) then
+ *    applies to what's left: an entered coupon if it qualifies, otherwise
+ *    the automatic offer that saves the most.
+ *
+ * Offers discount the dish or portion price; add-ons are always charged in
+ * full. Savings are rounded to whole rupees.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import type { MenuItem } from '@/data/menu';
+import { DAYS_OF_WEEK } from '@/data/openingHours';
+import {
+  promotions as allPromotions,
+  type BuyXGetYPromotion,
+  type ComboPromotion,
+  type DishScope,
+  type PercentOffPromotion,
+  type Promotion,
+  type PromotionBannerPlacement,
+} from '@/data/promotions';
+import { localizePromotion, translate } from '@/utils/i18n';
+import { getRestaurantDate, getRestaurantMinuteOfDay, parseTime } from '@/utils/openingHours';
+import type { CartLine } from '@/utils/order';
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  amount: number; // ₹ saved
+  times: number; // how many combos or buy-X-get-Y sets; 1 otherwise
+  lineKeys: string[]; // cart lines the offer used; empty for order-wide offers
+}
+
+export type CouponStatus =
+  | { status: 'none' }
+  | { status: 'applied'; code: string }
+  | { status: 'unknown'; code: string }
+  // Known code that doesn't apply right now; shortBy is set when only the
+  // minimum order stands in the way
+  | { status: 'not-eligible'; code: string; promotion: Promotion; shortBy?: number };
+
+export interface OrderPricing {
+  subtotal: number;
+  discounts: AppliedPromotion[];
+  savings: number;
+  total: number;
+  coupon: CouponStatus;
+}
+
+export interface PriceOrderOptions {
+  couponCode?: string;
+  now?: Date;
+  promotions?: Promotion[];
+}
+
+// One portion of a cart line
+interface Unit {
+  line: CartLine;
+  price: number;
+  used: boolean;
+}
+
+// "first50 " -> "FIRST50"
+export const normalizeCouponCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+const isWithinTimes = (promotion: Promotion, minute: number) =>
+  !promotion.times ||
+  promotion.times.some(period => {
+    const opens = parseTime(period.opens);
+    const closes = parseTime(period.closes);
+    return closes > opens ? opens <= minute && minute < closes : minute >= opens || minute < closes;
+  });
+
+// Whether the offer runs at this instant, leaving the cart aside
+export const isPromotionActive = (promotion: Promotion, now: Date = new Date()) => {
+  const today = getRestaurantDate(now);
+  const weekday = DAYS_OF_WEEK[new Date(`${today}T00:00:00Z`).getUTCDay()];
+  return (
+    (!promotion.validFrom || promotion.validFrom <= today) &&
+    (!promotion.validTo || today <= promotion.validTo) &&
+    (!promotion.days || promotion.days.includes(weekday)) &&
+    isWithinTimes(promotion, getRestaurantMinuteOfDay(now))
+  );
+};
+
+// Automatic offers running now that advertise in the given spot
+export const getBannerPromotions = (
+  placement: PromotionBannerPlacement,
+  now: Date = new Date(),
+  promotions: Promotion[] = allPromotions
+) =>
+  promotions.filter(promotion => promotion.banners?.includes(placement) && isPromotionActive(promotion, now));
+
+const inScope = (scope: DishScope | undefined, item: MenuItem) =>
+  !scope ||
+  (!scope.itemIds && !scope.categoryIds) ||
+  Boolean(scope.itemIds?.includes(item.id) || scope.categoryIds?.includes(item.category));
+
+const takeUnits = (units: Unit[], count: number, matches: (unit: Unit) => boolean, cheapestFirst = false) => {
+  const candidates = units.filter(unit => !unit.used && matches(unit));
+  if (cheapestFirst) candidates.reverse();
+  return candidates.length >= count ? candidates.slice(0, count) : null;
+};
+
+const markUsed = (units: Unit[], lineKeys: Set<string>) =>
+  units.forEach(unit => {
+    unit.used = true;
+    lineKeys.add(unit.line.key);
+  });
+
+const sumPrices = (units: Unit[]) => units.reduce((total, unit) => total + unit.price, 0);
+
+const applyCombo = (promotion: ComboPromotion, units: Unit[]) => {
+  const lineKeys = new Set<string>();
+  let amount = 0;
+  let times = 0;
+  for (;;) {
+    const picked: Unit[] = [];
+    for (const component of promotion.items) {
+      const found = takeUnits(units, component.quantity, unit =>
+        !picked.includes(unit) &&
+        unit.line.item.id === component.itemId &&
+        unit.line.variant?.id === (component.variantId ?? unit.line.item.defaultVariant)
+      );
+      if (!found) break;
+      picked.push(...found);
+    }
+    const setSize = promotion.items.reduce((total, component) => total + component.quantity, 0);
+    if (picked.length < setSize || sumPrices(picked) <= promotion.price) break;
+    amount += sumPrices(picked) - promotion.price;
+    times += 1;
+    markUsed(picked, lineKeys);
+  }
+  return { amount, times, lineKeys };
+};
+
+const applyBuyXGetY = (promotion: BuyXGetYPromotion, units: Unit[]) => {
+  const lineKeys = new Set<string>();
+  let amount = 0;
+  let times = 0;
+  for (;;) {
+    const bought = takeUnits(units, promotion.buy.quantity, unit => inScope(promotion.buy, unit.line.item));
+    if (!bought) break;
+    const discounted = takeUnits(
+      units,
+      promotion.get.quantity,
+      unit => !bought.includes(unit) && inScope(promotion.get, unit.line.item),
+      true
+    );
+    if (!discounted) break;
+    amount += (sumPrices(discounted) * (promotion.percent ?? 100)) / 100;
+    times += 1;
+    markUsed([...bought, ...discounted], lineKeys);
+  }
+  return { amount, times, lineKeys };
+};
+
+const applyDishPercentOff = (promotion: PercentOffPromotion, units: Unit[]) => {
+  const lineKeys = new Set<string>();
+  const covered = units.filter(unit => !unit.used && inScope(promotion.appliesTo, unit.line.item));
+  const amount = (sumPrices(covered) * promotion.percent) / 100;
+  markUsed(covered, lineKeys);
+  return { amount: Math.min(amount, promotion.maxDiscount ?? Infinity), times: 1, lineKeys };
+};
+
+// Null for order-wide offers, which apply once the dish-level ones are done
+const applyDishPromotion = (promotion: Promotion, units: Unit[]) => {
+  switch (promotion.type) {
+    case 'combo':
+      return applyCombo(promotion, units);
+    case 'buy-x-get-y':
+      return applyBuyXGetY(promotion, units);
+    case 'percent-off':
+      return promotion.appliesTo ? applyDishPercentOff(promotion, units) : null;
+    default:
+      return null;
+  }
+};
+
+const isOrderWide = (promotion: Promotion) =>
+  promotion.type === 'flat-off' || (promotion.type === 'percent-off' && !promotion.appliesTo);
+
+const getOrderWideAmount = (promotion: Promotion, remaining: number) => {
+  if (promotion.type === 'flat-off') return Math.min(promotion.amount, remaining);
+  if (promotion.type === 'percent-off') {
+    return Math.min(Math.round((remaining * promotion.percent) / 100), promotion.maxDiscount ?? Infinity);
+  }
+  return 0;
+};
+
+export const priceOrder = (
+  lines: CartLine[],
+  { couponCode = '', now = new Date(), promotions = allPromotions }: PriceOrderOptions = {}
+): OrderPricing => {
+  const subtotal = lines.reduce((total, line) => total + line.lineTotal, 0);
+  const code = normalizeCouponCode(couponCode);
+  const qualifies = (promotion: Promotion) =>
+    (!promotion.code || promotion.code === code) &&
+    (!promotion.minSubtotal || subtotal >= promotion.minSubtotal) &&
+    isPromotionActive(promotion, now);
+  const eligible = promotions.filter(qualifies);
+
+  // Pricier portions first; ties keep cart order
+  const units: Unit[] = lines
+    .flatMap(line => Array.from({ length: line.quantity }, () => ({
+      line,
+      price: line.variant?.price ?? line.item.price,
+      used: false,
+    })))
+    .map((unit, index) => ({ unit, index }))
+    .sort((a, b) => b.unit.price - a.unit.price || a.index - b.index)
+    .map(({ unit }) => unit);
+
+  const discounts: AppliedPromotion[] = [];
+  for (const promotion of eligible) {
+    const result = applyDishPromotion(promotion, units);
+    const amount = result ? Math.round(result.amount) : 0;
+    if (result && amount > 0) {
+      discounts.push({ promotion, amount, times: result.times, lineKeys: [...result.lineKeys] });
+    }
+  }
+
+  const remaining = subtotal - discounts.reduce((total, discount) => total + discount.amount, 0);
+  const orderWide = eligible
+    .filter(isOrderWide)
+    .map(promotion => ({ promotion, amount: getOrderWideAmount(promotion, remaining) }))
+    .filter(candidate => candidate.amount > 0);
+  const chosen = orderWide.find(candidate => candidate.promotion.code) ??
+    orderWide.reduce<(typeof orderWide)[number] | undefined>(
+      (best, candidate) => (!best || candidate.amount > best.amount ? candidate : best),
+      undefined
+    );
+  if (chosen) discounts.push({ ...chosen, times: 1, lineKeys: [] });
+
+  const savings = discounts.reduce((total, discount) => total + discount.amount, 0);
+
+  let coupon: CouponStatus = { status: 'none' };
+  if (code) {
+    const promotion = promotions.find(candidate => candidate.code === code);
+    if (!promotion) {
+      coupon = { status: 'unknown', code };
+    } else if (discounts.some(discount => discount.promotion === promotion)) {
+      coupon = { status: 'applied', code };
+    } else {
+      const shortBy = promotion.minSubtotal && subtotal < promotion.minSubtotal && isPromotionActive(promotion, now)
+        ? promotion.minSubtotal - subtotal
+        : undefined;
+      coupon = { status: 'not-eligible', code, promotion, shortBy };
+    }
+  }
+
+  return { subtotal, discounts, savings, total: subtotal - savings, coupon };
+};
+
+// "Briyani Feast x 2" for repeated sets
+export const describeAppliedPromotion = ({ promotion, times }: AppliedPromotion, locale: Locale = DEFAULT_LOCALE) => {
+  const { title: localTitle, code } = localizePromotion(promotion, locale);
+  const title = code ? translate(locale, 'promo.withCode', { title: localTitle, code }) : localTitle;
+  return times > 1 ? translate(locale, 'promo.repeated', { title, times }) : title;
+};
@@ -0,0 +1,101 @@
+/**
+ * Installable App
+ * Web app manifest and the service worker's precache list. The SEO plugin's
+ * sibling in vite.config.ts emits both at build time, so they track the menu
+ * catalog and the hashed bundle. Kept free of "@/" imports for that reason.
+ */
+
+import { menuItems } from "../data/menu";
+import { restaurant } from "../data/restaurant";
+
+export const MANIFEST_PATH = "/manifest.webmanifest";
+export const SERVICE_WORKER_PATH = "/sw.js";
+
+// Client-rendered copy of index.html written by scripts/prerender.mjs; it can
+// render any route, so the service worker serves it for uncached pages offline
+export const APP_SHELL_PATH = "/404.html";
+
+// Square icons made from public/assets/logo.png (522x478, so not usable as
+// is). The maskable ones keep the logo inside the central safe zone on the
+// theme colour, so launchers can crop them to any shape; iOS gets one of
+// those too, as it fills transparent corners with black.
+export const APP_ICONS = [
+  { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+  { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+  { src: "/icons/icon-maskable-192.png", sizes: "192x192", type: "image/png", purpose: "maskable" },
+  { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+];
+
+export const APPLE_TOUCH_ICON_PATH = "/icons/icon-maskable-192.png";
+
+// Matches the `dark` colour in tailwind.config.ts
+const THEME_COLOR = "#0E0E0E";
+
+// Placeholders in src/sw.js filled in by buildServiceWorker
+const PRECACHE_PLACEHOLDER = "self.__PRECACHE_MANIFEST__";
+const VERSION_PLACEHOLDER = "self.__CACHE_VERSION__";
+const APP_SHELL_PLACEHOLDER = "self.__APP_SHELL__";
+
+export interface PrecacheOptions {
+  // Emitted bundle file names, e.g. "assets/index-3f2a1c.js"
+  bundleFiles: string[];
+  // Stylesheet URLs from index.html (Google Fonts)
+  stylesheets?: string[];
+}
+
+export const buildWebManifest = () => ({
+  name: restaurant.name,
+  short_name: "Ambur Briyani",
+  description: restaurant.description,
+  lang: "en",
+  start_url: "/",
+  scope: "/",
+  display: "standalone",
+  orientation: "portrait",
+  background_color: THEME_COLOR,
+  theme_color: THEME_COLOR,
+  categories: ["food", "shopping"],
+  icons: APP_ICONS,
+});
+
+export const buildPrecacheUrls = ({ bundleFiles, stylesheets = [] }: PrecacheOptions): string[] => {
+  const scripts = bundleFiles
+    .filter((file) => /\.(?:js|css)$/.test(file))
+    .map((file) => `/${file}`);
+  const images = menuItems.map((item) => item.image);
+
+  return [
+    ...new Set([
+      "/",
+      APP_SHELL_PATH,
+      MANIFEST_PATH,
+      restaurant.logo,
+      "/assets/TEXTLOGO.png",
+      ...APP_ICONS.map((icon) => icon.src),
+      ...scripts,
+      ...stylesheets,
+      ...images,
+    ]),
+  ];
+};
+
+// Short stable hash so the cache name changes whenever the precache list does
+const hashUrls = (urls: string[]) => {
+  let hash = 5381;
+  for (const char of urls.join("\n")) {
+    hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+export const buildServiceWorker = (source: string, precacheUrls: string[]): string => {
+  for (const placeholder of [PRECACHE_PLACEHOLDER, VERSION_PLACEHOLDER, APP_SHELL_PLACEHOLDER]) {
+    if (!source.includes(placeholder)) {
+      throw new Error(`src/sw.js is missing ${placeholder}`);
+    }
+  }
+  return source
+    .replace(PRECACHE_PLACEHOLDER, JSON.stringify(precacheUrls))
+    .replace(VERSION_PLACEHOLDER, JSON.stringify(hashUrls(precacheUrls)))
+    .replace(APP_SHELL_PLACEHOLDER, JSON.stringify(APP_SHELL_PATH));
+};
@@ -0,0 +1,107 @@
+/**
+ * Order Receipts
+ * A snapshot of an order as it was sent: names and prices are copied out of
+ * the catalog, so a receipt still reads the same after the menu changes.
+ * Receipts are kept on the customer's device (src/hooks/useRecentOrders.ts)
+ * and exported as an image or PDF by src/utils/receiptExport.ts.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_LOCALE, localeInfo, type Locale } from '@/data/locales';
+import { RESTAURANT_TIME_ZONE } from '@/data/openingHours';
+import { describeLineItem, getAddOnNames, getSubtotal, type CartLine, type OrderDetails } from '@/utils/order';
+import { calculateOrderCharges } from '@/utils/pricing';
+import { describeAppliedPromotion, type OrderPricing } from '@/utils/promotions';
+
+const amountSchema = z.number().min(0);
+
+export const receiptSchema = z.object({
+  reference: z.string().min(1),
+  placedAt: z.string().datetime(),
+  customerName: z.string(),
+  fulfilment: z.enum(['pickup', 'delivery']),
+  deliverTo: z.string().optional(),
+  payment: z.enum(['later', 'upi']),
+  lines: z.array(
+    z.object({
+      name: z.string(), // with the portion, "Mutton Briyani (Half)"
+      addOns: z.array(z.string()),
+      quantity: z.number().int().min(1),
+      unitPrice: amountSchema,
+      lineTotal: amountSchema,
+    })
+  ),
+  subtotal: amountSchema,
+  discounts: z.array(z.object({ label: z.string(), amount: amountSchema })),
+  packaging: amountSchema.default(0), // receipts saved before packaging and GST have none
+  deliveryFee: amountSchema.optional(), // only on delivery orders; 0 is free delivery
+  taxes: z
+    .array(
+      z.object({
+        rate: z.number().min(0),
+        taxableValue: amountSchema,
+        cgst: amountSchema,
+        sgst: amountSchema,
+      })
+    )
+    .default([]),
+  pricesIncludeTax: z.boolean().default(true),
+  roundOff: z.number().default(0),
+  total: amountSchema,
+});
+
+export type Receipt = z.infer<typeof receiptSchema>;
+
+type ReceiptDetails = OrderDetails & { reference: string };
+
+// Same figures as the WhatsApp message composed from these arguments. Dish,
+// portion, add-on and offer names are saved in the language the order was
+// placed in.
+export const createReceipt = (
+  lines: CartLine[],
+  details: ReceiptDetails,
+  pricing?: OrderPricing,
+  placedAt: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): Receipt => {
+  const delivery = details.fulfilment === 'delivery' ? details.delivery : undefined;
+  const discounts = pricing?.discounts ?? [];
+  const charges = calculateOrderCharges(lines, { discounts, deliveryFee: delivery?.fee });
+  return {
+    reference: details.reference,
+    placedAt: placedAt.toISOString(),
+    customerName: details.customerName.trim(),
+    fulfilment: details.fulfilment,
+    deliverTo: delivery?.location,
+    payment: details.payment ?? 'later',
+    lines: lines.map(line => ({
+      name: describeLineItem(line, locale),
+      addOns: getAddOnNames(line.addOns, locale),
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      lineTotal: line.lineTotal,
+    })),
+    subtotal: getSubtotal(lines),
+    discounts: discounts.map(discount => ({
+      label: describeAppliedPromotion(discount, locale),
+      amount: discount.amount,
+    })),
+    packaging: charges.packaging,
+    deliveryFee: delivery?.fee,
+    taxes: charges.taxes,
+    pricesIncludeTax: charges.pricesIncludeTax,
+    roundOff: charges.roundOff,
+    total: charges.total,
+  };
+};
+
+// "19 Oct 2026, 8:15 pm" in the restaurant's time, wherever the customer is
+export const formatReceiptDate = (placedAt: string, locale: Locale = DEFAULT_LOCALE) =>
+  new Date(placedAt).toLocaleString(localeInfo[locale].intl, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: RESTAURANT_TIME_ZONE,
+  });
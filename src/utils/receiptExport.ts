@@ -0,0 +1,257 @@
+/**
+ * Receipt Export
+ * Draws a receipt onto a canvas in the browser and saves it as a PNG, or as
+ * a one-page PDF wrapping the same picture. Nothing is sent to a server.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/data/locales';
+import type { MessageKey } from '@/data/messages/en';
+import { restaurant } from '@/data/restaurant';
+import { translate, type MessageParams } from '@/utils/i18n';
+import { describeFulfilment, describePayment, formatPrice } from '@/utils/order';
+import { describeTaxLines, formatExactPrice, formatRoundOff } from '@/utils/pricing';
+import { formatReceiptDate, type Receipt } from '@/utils/receipt';
+
+interface TextStyle {
+  size: number; // px
+  weight: number;
+  color: string;
+  family?: 'serif';
+}
+
+type Row =
+  | { kind: 'text'; text: string; right?: string; style: TextStyle; align?: 'center'; spaceBefore?: number }
+  | { kind: 'divider' };
+
+const WIDTH = 420; // CSS px; drawn at twice that for sharp text
+const SCALE = 2;
+const PADDING = 28;
+const LINE_HEIGHT = 1.45;
+const DIVIDER_SPACE = 14;
+
+const SANS = 'Poppins, system-ui, sans-serif';
+const SERIF = '"Playfair Display", Georgia, serif';
+
+const styles = {
+  title: { size: 22, weight: 700, color: '#111', family: 'serif' },
+  body: { size: 13, weight: 400, color: '#111' },
+  strong: { size: 13, weight: 600, color: '#111' },
+  muted: { size: 11, weight: 400, color: '#666' },
+  saving: { size: 13, weight: 400, color: '#15803d' },
+  total: { size: 16, weight: 700, color: '#111' },
+} satisfies Record<string, TextStyle>;
+
+const toFont = ({ size, weight, family }: TextStyle) => `${weight} ${size}px ${family === 'serif' ? SERIF : SANS}`;
+
+const buildRows = (receipt: Receipt, locale: Locale): Row[] => {
+  const text = (value: string, style: TextStyle, extra: Partial<Extract<Row, { kind: 'text' }>> = {}): Row => ({
+    kind: 'text',
+    text: value,
+    style,
+    ...extra,
+  });
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const { address } = restaurant;
+
+  return [
+    text(restaurant.name, styles.title, { align: 'center' }),
+    text(`${address.streetAddress}, ${address.addressLocality} ${address.postalCode}`, styles.muted, { align: 'center' }),
+    text(restaurant.telephone, styles.muted, { align: 'center' }),
+    { kind: 'divider' },
+    text(t('order.reference', { reference: receipt.reference }), styles.strong),
+    text(formatReceiptDate(receipt.placedAt, locale), styles.muted),
+    text(t('order.name', { name: receipt.customerName }), styles.body, { spaceBefore: 4 }),
+    text(t('order.type', { type: describeFulfilment(receipt.fulfilment, locale) }), styles.body),
+    ...(receipt.deliverTo ? [text(t('order.deliverTo', { location: receipt.deliverTo }), styles.body)] : []),
+    text(t('order.payment', { method: describePayment(receipt, locale) }), styles.body),
+    { kind: 'divider' },
+    ...receipt.lines.flatMap((line, index) => [
+      text(`${line.quantity} × ${line.name}`, styles.body, { right: formatPrice(line.lineTotal), spaceBefore: index > 0 ? 6 : 0 }),
+      ...(line.addOns.length > 0 ? [text(`+ ${line.addOns.join(', ')}`, styles.muted)] : []),
+      ...(line.quantity > 1 ? [text(t('order.each', { price: formatPrice(line.unitPrice) }), styles.muted)] : []),
+    ]),
+    { kind: 'divider' },
+    text(t('order.subtotal'), styles.body, { right: formatPrice(receipt.subtotal) }),
+    ...receipt.discounts.map(discount => text(discount.label, styles.saving, { right: `-${formatPrice(discount.amount)}` })),
+    ...(receipt.packaging > 0 ? [text(t('order.packaging'), styles.body, { right: formatPrice(receipt.packaging) })] : []),
+    ...(receipt.deliveryFee !== undefined
+      ? [text(t('order.deliveryFee'), styles.body, { right: receipt.deliveryFee > 0 ? formatPrice(receipt.deliveryFee) : t('order.free') })]
+      : []),
+    ...describeTaxLines(receipt, locale).map(tax => text(tax.label, styles.muted, { right: formatExactPrice(tax.amount) })),
+    ...(receipt.roundOff !== 0 ? [text(t('order.roundOff'), styles.muted, { right: formatRoundOff(receipt.roundOff) })] : []),
+    text(t('order.total'), styles.total, { right: formatPrice(receipt.total), spaceBefore: 4 }),
+    { kind: 'divider' },
+    text(t('order.thanks'), styles.muted, { align: 'center' }),
+  ];
+};
+
+// Greedy word wrap; a single word wider than the line is left to overflow
+const wrapText = (context: CanvasRenderingContext2D, value: string, maxWidth: number) => {
+  const wrapped: string[] = [];
+  let current = '';
+  for (const word of value.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && context.measureText(candidate).width > maxWidth) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  return [...wrapped, current];
+};
+
+// Lays the rows out once to size the canvas, then draws them
+export const renderReceiptCanvas = (receipt: Receipt, locale: Locale = DEFAULT_LOCALE) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  const contentWidth = WIDTH - PADDING * 2;
+  const laidOut = buildRows(receipt, locale).map(row => {
+    if (row.kind === 'divider') return { row, lines: [] as string[], height: DIVIDER_SPACE * 2 };
+    context.font = toFont(row.style);
+    const rightWidth = row.right ? context.measureText(row.right).width + 12 : 0;
+    const lines = wrapText(context, row.text, contentWidth - rightWidth);
+    return { row, lines, height: (row.spaceBefore ?? 0) + lines.length * row.style.size * LINE_HEIGHT };
+  });
+  const height = PADDING * 2 + laidOut.reduce((total, { height }) => total + height, 0);
+
+  // Resizing resets the context, so styles are set after this
+  canvas.width = WIDTH * SCALE;
+  canvas.height = Math.ceil(height * SCALE);
+  context.scale(SCALE, SCALE);
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, WIDTH, height);
+  context.textBaseline = 'top';
+
+  let y = PADDING;
+  for (const { row, lines, height: rowHeight } of laidOut) {
+    if (row.kind === 'divider') {
+      context.strokeStyle = '#bbb';
+      context.setLineDash([4, 3]);
+      context.beginPath();
+      context.moveTo(PADDING, y + DIVIDER_SPACE);
+      context.lineTo(WIDTH - PADDING, y + DIVIDER_SPACE);
+      context.stroke();
+    } else {
+      const lineHeight = row.style.size * LINE_HEIGHT;
+      const top = y + (row.spaceBefore ?? 0);
+      context.font = toFont(row.style);
+      context.fillStyle = row.style.color;
+      lines.forEach((line, index) => {
+        const x = row.align === 'center' ? (WIDTH - context.measureText(line).width) / 2 : PADDING;
+        context.fillText(line, x, top + index * lineHeight);
+      });
+      if (row.right) {
+        context.fillText(row.right, WIDTH - PADDING - context.measureText(row.right).width, top);
+      }
+    }
+    y += rowHeight;
+  }
+
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Couldn't encode the receipt as ${type}`))), type, quality);
+  });
+
+const latin1 = (value: string) => Uint8Array.from(value, character => character.charCodeAt(0));
+
+// A one-page PDF whose page is the JPEG, sized to the picture at 96 dpi.
+// PDF readers decode JPEG natively (DCTDecode), so no re-encoding is needed.
+export const buildImagePdf = (jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, scale = SCALE) => {
+  const pageWidth = ((pixelWidth / scale) * 0.75).toFixed(2);
+  const pageHeight = ((pixelHeight / scale) * 0.75).toFixed(2);
+  const contents = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  const push = (part: Uint8Array) => {
+    parts.push(part);
+    length += part.length;
+  };
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    push(latin1(`${offsets.length} 0 obj\n${body}\n`));
+    if (stream) {
+      push(latin1('stream\n'));
+      push(stream);
+      push(latin1('\nendstream\n'));
+    }
+    push(latin1('endobj\n'));
+  };
+
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>'
+  );
+  object(
+    `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+    jpeg
+  );
+  object(`<< /Length ${contents.length} >>`, latin1(contents));
+
+  const xrefOffset = length;
+  push(latin1([
+    'xref',
+    `0 ${offsets.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${offsets.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(xrefOffset),
+    '%%EOF',
+    '',
+  ].join('\n')));
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+// Canvas text falls back silently to a system font while web fonts load
+const renderWhenFontsReady = async (receipt: Receipt, locale: Locale) => {
+  await document.fonts?.ready;
+  return renderReceiptCanvas(receipt, locale);
+};
+
+export const renderReceiptPng = async (receipt: Receipt, locale: Locale = DEFAULT_LOCALE) =>
+  canvasToBlob(await renderWhenFontsReady(receipt, locale), 'image/png');
+
+export const renderReceiptPdf = async (receipt: Receipt, locale: Locale = DEFAULT_LOCALE) => {
+  const canvas = await renderWhenFontsReady(receipt, locale);
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  return buildImagePdf(jpeg, canvas.width, canvas.height);
+};
+
+export const receiptFileName = (receipt: Receipt, extension: 'png' | 'pdf') =>
+  `${restaurant.name.replace(/\s+/g, '-')}-${receipt.reference}.${extension}`;
+
+// Used for both the PNG and the PDF. The click only starts the download, so
+// the URL is revoked on a later task; revoking it straight away can cancel it.
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Hands the receipt image to the share sheet (WhatsApp, Messages, …) where
+// the browser can share files. False means it can't; offer a download instead.
+export const shareReceiptImage = async (receipt: Receipt, locale: Locale = DEFAULT_LOCALE) => {
+  const file = new File([await renderReceiptPng(receipt, locale)], receiptFileName(receipt, 'png'), { type: 'image/png' });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+  const title = `${restaurant.name} · ${translate(locale, 'order.reference', { reference: receipt.reference })}`;
+  await navigator.share({ files: [file], title });
+  return true;
+};
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { defaultOpeningSchedule, setOpeningSchedule, type OpeningSchedule } from '@/data/openingHours';
+import {
+  createInMemoryReservationProvider,
+  getSlotsForDate,
+  ReservationError,
+  type ReservationRequest,
+} from '@/utils/reservations';
+
+// Lunch, and a dinner service that runs past midnight
+const service = [
+  { opens: '12:00', closes: '15:00' },
+  { opens: '19:00', closes: '01:00' },
+];
+
+const schedule: OpeningSchedule = {
+  weekly: {
+    sunday: service,
+    monday: service,
+    tuesday: service,
+    wednesday: [],
+    thursday: service,
+    friday: service,
+    saturday: service,
+  },
+  overrides: [{ name: 'Diwali', from: '2026-11-08', to: '2026-11-08', periods: [{ opens: '18:00', closes: '22:00' }] }],
+};
+
+// Monday 19 October 2026 in Ambur (UTC+5:30)
+const at = (time: string) => new Date(`2026-10-19T${time}:00+05:30`);
+const today = '2026-10-19';
+const tomorrow = '2026-10-20';
+
+const minutes = (date: string, now: Date) => getSlotsForDate(date, now).map(slot => slot.minuteOfDay);
+const time = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3));
+
+beforeEach(() => setOpeningSchedule(schedule));
+afterEach(() => setOpeningSchedule(defaultOpeningSchedule));
+
+describe('getSlotsForDate', () => {
+  it('seats every half hour until an hour before closing', () => {
+    const slots = getSlotsForDate(tomorrow, at('09:00'));
+
+    expect(slots.slice(0, 5).map(slot => slot.label)).toEqual(['noon', '12:30 PM', '1 PM', '1:30 PM', '2 PM']);
+    expect(slots[5].label).toBe('7 PM');
+  });
+
+  it('carries the last seating past midnight on late nights', () => {
+    const slots = getSlotsForDate(tomorrow, at('09:00'));
+
+    expect(slots.at(-1)).toEqual({ date: tomorrow, minuteOfDay: 1440, label: 'midnight' });
+  });
+
+  it('needs an hour of notice for seatings today', () => {
+    expect(minutes(today, at('12:00'))[0]).toBe(time('13:00'));
+    expect(minutes(today, at('12:01'))[0]).toBe(time('13:30'));
+  });
+
+  it('has nothing left today once the last seating is under an hour away', () => {
+    expect(minutes(today, at('23:00'))).toEqual([time('24:00')]);
+    expect(minutes(today, at('23:01'))).toEqual([]);
+  });
+
+  it("doesn't apply the lead time to other days", () => {
+    expect(minutes(tomorrow, at('23:30'))[0]).toBe(time('12:00'));
+  });
+
+  it('follows closed days and special hours', () => {
+    expect(getSlotsForDate('2026-10-21', at('09:00'))).toEqual([]);
+    expect(minutes('2026-11-08', at('09:00'))).toEqual(
+      ['18:00', '18:30', '19:00', '19:30', '20:00', '20:30', '21:00'].map(time)
+    );
+  });
+});
+
+describe('createInMemoryReservationProvider', () => {
+  const request = (minuteOfDay: number, partySize: number, date = tomorrow): ReservationRequest => ({
+    date,
+    minuteOfDay,
+    partySize,
+    name: 'Asha',
+    phone: '+91 98765 43210',
+    specialRequests: [],
+  });
+
+  const provider = () => createInMemoryReservationProvider({ seatsPerSlot: 10, now: () => at('12:00') });
+
+  const unavailable = async (reservations: ReturnType<typeof provider>, partySize: number) =>
+    (await reservations.getAvailability(tomorrow, partySize)).filter(slot => !slot.available).map(slot => slot.minuteOfDay);
+
+  it('holds the table for every seating the booking overlaps', async () => {
+    const reservations = provider();
+    await reservations.reserve(request(time('19:30'), 8));
+
+    expect(await unavailable(reservations, 3)).toEqual([time('19:00'), time('19:30'), time('20:00'), time('20:30')]);
+    expect(await unavailable(reservations, 2)).toEqual([]);
+  });
+
+  it('fills a slot up to its seats, no further', async () => {
+    const reservations = provider();
+    await reservations.reserve(request(time('12:00'), 6));
+    await reservations.reserve(request(time('12:00'), 4));
+
+    await expect(reservations.reserve(request(time('12:30'), 1))).rejects.toThrow('just filled up');
+    await expect(reservations.reserve(request(time('13:30'), 10))).resolves.toMatchObject({ partySize: 10 });
+  });
+
+  it("doesn't book a seating inside the lead time or after the last one", async () => {
+    const reservations = provider();
+
+    await expect(reservations.reserve(request(time('12:30'), 2, today))).rejects.toBeInstanceOf(ReservationError);
+    await expect(reservations.reserve(request(time('14:30'), 2))).rejects.toThrow('no longer bookable');
+    await expect(reservations.reserve(request(time('13:00'), 2, today))).resolves.toMatchObject({ date: today });
+  });
+
+  it('takes online bookings for 1 to 12 guests', async () => {
+    const reservations = createInMemoryReservationProvider({ now: () => at('12:00') });
+
+    await expect(reservations.reserve(request(time('19:00'), 0))).rejects.toThrow('1 to 12 guests');
+    await expect(reservations.reserve(request(time('19:00'), 13))).rejects.toThrow('1 to 12 guests');
+    await expect(reservations.reserve(request(time('19:00'), 12))).resolves.toMatchObject({ partySize: 12 });
+  });
+
+  it('dates a midnight seating on the next calendar day', async () => {
+    const confirmation = await provider().reserve(request(time('24:00'), 2));
+
+    expect(confirmation.reference).toMatch(/^RSV-[A-Z2-9]{6}$/);
+    expect(confirmation.startsAt.toISOString()).toBe('2026-10-20T18:30:00.000Z');
+    expect(confirmation.endsAt.toISOString()).toBe('2026-10-20T20:00:00.000Z');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Table Reservations
+ * Slot generation from the opening-hours schedule, a pluggable availability
+ * provider (in-memory by default) and confirmation exports (WhatsApp, .ics).
+ */
+
+import { restaurant } from '@/data/restaurant';
+import {
+  addDaysToDate,
+  formatTimeOfDay,
+  getPeriodsForDate,
+  getRestaurantDate,
+  getRestaurantMinuteOfDay,
+  parseTime,
+  restaurantTimeToDate,
+} from '@/utils/openingHours';
+import { buildWhatsAppLink } from '@/utils/order';
+
+export const SLOT_INTERVAL_MINUTES = 30;
+export const SEATING_DURATION_MINUTES = 90;
+export const LAST_SEATING_BEFORE_CLOSE_MINUTES = 60;
+export const MIN_LEAD_TIME_MINUTES = 60;
+export const BOOKING_WINDOW_DAYS = 14;
+export const MAX_PARTY_SIZE = 12;
+
+export const SPECIAL_REQUESTS = [
+  { id: 'birthday', label: 'Birthday celebration' },
+  { id: 'high-chair', label: 'High chair' },
+  { id: 'wheelchair', label: 'Wheelchair access' },
+  { id: 'quiet-table', label: 'Quiet table' },
+] as const;
+
+export type SpecialRequestId = (typeof SPECIAL_REQUESTS)[number]['id'];
+
+export interface ReservationSlot {
+  date: string; // restaurant-local YYYY-MM-DD
+  minuteOfDay: number; // may exceed 1440 for seatings after midnight
+  label: string;
+}
+
+export interface SlotAvailability extends ReservationSlot {
+  available: boolean;
+}
+
+export interface ReservationRequest {
+  date: string;
+  minuteOfDay: number;
+  partySize: number;
+  name: string;
+  phone: string;
+  specialRequests: SpecialRequestId[];
+  notes?: string;
+}
+
+export interface ReservationConfirmation extends ReservationRequest {
+  reference: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface ReservationProvider {
+  getAvailability: (date: string, partySize: number) => Promise<SlotAvailability[]>;
+  reserve: (request: ReservationRequest) => Promise<ReservationConfirmation>;
+}
+
+export class ReservationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReservationError';
+  }
+}
+
+// Bookable dates (restaurant-local) within the booking window that have opening periods
+export const getBookableDates = (now: Date = new Date(), days: number = BOOKING_WINDOW_DAYS) => {
+  const today = getRestaurantDate(now);
+  return Array.from({ length: days }, (_, offset) => addDaysToDate(today, offset))
+    .filter(date => getSlotsForDate(date, now).length > 0);
+};
+
+// 30-minute seatings from opening until an hour before close, skipping the past
+export const getSlotsForDate = (date: string, now: Date = new Date()): ReservationSlot[] => {
+  const { periods } = getPeriodsForDate(date);
+  const isToday = date === getRestaurantDate(now);
+  const earliest = isToday ? getRestaurantMinuteOfDay(now) + MIN_LEAD_TIME_MINUTES : -Infinity;
+
+  return periods.flatMap(period => {
+    const opens = parseTime(period.opens);
+    let closes = parseTime(period.closes);
+    if (closes <= opens) closes += 1440;
+
+    const slots: ReservationSlot[] = [];
+    for (let minute = opens; minute <= closes - LAST_SEATING_BEFORE_CLOSE_MINUTES; minute += SLOT_INTERVAL_MINUTES) {
+      if (minute >= earliest) {
+        slots.push({ date, minuteOfDay: minute, label: formatTimeOfDay(minute) });
+      }
+    }
+    return slots;
+  });
+};
+
+export const generateReservationReference = (random: () => number = Math.random) => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  return `RSV-${Array.from({ length: 6 }, () => alphabet[Math.floor(random() * alphabet.length)]).join('')}`;
+};
+
+interface InMemoryProviderOptions {
+  seatsPerSlot?: number;
+  now?: () => Date;
+}
+
+// Tracks covers per seating in memory; a booking occupies every slot it overlaps
+export const createInMemoryReservationProvider = ({
+  seatsPerSlot = 40,
+  now = () => new Date(),
+}: InMemoryProviderOptions = {}): ReservationProvider => {
+  const booked = new Map<string, number>();
+  const slotKey = (date: string, minute: number) => `${date}@${minute}`;
+  const overlappingSlots = (minuteOfDay: number) =>
+    Array.from(
+      { length: SEATING_DURATION_MINUTES / SLOT_INTERVAL_MINUTES },
+      (_, index) => minuteOfDay + index * SLOT_INTERVAL_MINUTES
+    );
+  const hasRoom = (date: string, minuteOfDay: number, partySize: number) =>
+    overlappingSlots(minuteOfDay).every(minute => (booked.get(slotKey(date, minute)) ?? 0) + partySize <= seatsPerSlot);
+
+  return {
+    getAvailability: async (date, partySize) =>
+      getSlotsForDate(date, now()).map(slot => ({
+        ...slot,
+        available: hasRoom(date, slot.minuteOfDay, partySize),
+      })),
+
+    reserve: async request => {
+      const slot = getSlotsForDate(request.date, now()).find(s => s.minuteOfDay === request.minuteOfDay);
+      if (!slot) {
+        throw new ReservationError('That time is no longer bookable. Please pick another slot.');
+      }
+      if (request.partySize < 1 || request.partySize > MAX_PARTY_SIZE) {
+        throw new ReservationError(`Online bookings are for 1 to ${MAX_PARTY_SIZE} guests. Please call us for larger groups.`);
+      }
+      if (!hasRoom(request.date, request.minuteOfDay, request.partySize)) {
+        throw new ReservationError('Sorry, that slot has just filled up. Please pick another time.');
+      }
+
+      overlappingSlots(request.minuteOfDay).forEach(minute => {
+        const key = slotKey(request.date, minute);
+        booked.set(key, (booked.get(key) ?? 0) + request.partySize);
+      });
+
+      const startsAt = restaurantTimeToDate(request.date, request.minuteOfDay);
+      return {
+        ...request,
+        reference: generateReservationReference(),
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + SEATING_DURATION_MINUTES * 60000),
+      };
+    },
+  };
+};
+
+export const defaultReservationProvider = createInMemoryReservationProvider();
+
+export const formatReservationDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+
+const describeRequests = (ids: SpecialRequestId[]) =>
+  SPECIAL_REQUESTS.filter(request => ids.includes(request.id)).map(request => request.label);
+
+export const composeReservationMessage = (confirmation: ReservationConfirmation) => {
+  const requests = describeRequests(confirmation.specialRequests);
+  return [
+    `Hi ${restaurant.name}! I'd like to confirm a table reservation.`,
+    '',
+    `Reference: ${confirmation.reference}`,
+    `Date: ${formatReservationDate(confirmation.date)}`,
+    `Time: ${formatTimeOfDay(confirmation.minuteOfDay)}`,
+    `Guests: ${confirmation.partySize}`,
+    `Name: ${confirmation.name}`,
+    `Phone: ${confirmation.phone}`,
+    requests.length > 0 && `Requests: ${requests.join(', ')}`,
+    confirmation.notes && `Notes: ${confirmation.notes}`,
+  ]
+    .filter((line): line is string => typeof line === 'string')
+    .join('\n');
+};
+
+export const buildReservationWhatsAppLink = (confirmation: ReservationConfirmation) =>
+  buildWhatsAppLink(composeReservationMessage(confirmation));
+
+const toIcsTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// RFC 5545: lines longer than 75 octets are folded with CRLF + space (content here is ASCII)
+const foldIcsLine = (line: string) => {
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > 74) {
+    chunks.push(rest.slice(0, 74));
+    rest = rest.slice(74);
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n ');
+};
+
+export const buildReservationIcs = (confirmation: ReservationConfirmation, now: Date = new Date()) => {
+  const { streetAddress, addressLocality, addressRegion } = restaurant.address;
+  const requests = describeRequests(confirmation.specialRequests);
+  const description = [
+    `Reference: ${confirmation.reference}`,
+    `Guests: ${confirmation.partySize}`,
+    requests.length > 0 ? `Requests: ${requests.join(', ')}` : '',
+    `Call us: ${restaurant.telephone}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${restaurant.name}//Reservations//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${confirmation.reference}@${new URL(restaurant.siteUrl).hostname}`,
+    `DTSTAMP:${toIcsTimestamp(now)}`,
+    `DTSTART:${toIcsTimestamp(confirmation.startsAt)}`,
+    `DTEND:${toIcsTimestamp(confirmation.endsAt)}`,
+    `SUMMARY:${escapeIcsText(`Table for ${confirmation.partySize} at ${restaurant.name}`)}`,
+    `LOCATION:${escapeIcsText(`${streetAddress}, ${addressLocality}, ${addressRegion}`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+    '',
+  ].map(foldIcsLine).join('\r\n');
+};
+
+export const downloadReservationIcs = (confirmation: ReservationConfirmation) => {
+  const blob = new Blob([buildReservationIcs(confirmation)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${confirmation.reference}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after the click can cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
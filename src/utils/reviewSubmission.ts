@@ -0,0 +1,147 @@
+/**
+ * Review Submission Pipeline
+ * Validation for the "Write a Review" form and pluggable transports that
+ * hand a new review to the restaurant for moderation. Submitted reviews are
+ * always pending: nothing shows on the site or counts towards the ratings
+ * until staff approve it in the admin panel. The active transport is chosen
+ * from VITE_REVIEW_TRANSPORT at build time (WhatsApp by default).
+ */
+
+import { z } from 'zod';
+import { getMenuItem } from '@/data/menu';
+import { REVIEW_TEXT_MAX_LENGTH, type Review } from '@/data/reviews';
+import { restaurant } from '@/data/restaurant';
+import { slugify } from '@/utils/contentEditor';
+import { getRestaurantDate } from '@/utils/openingHours';
+import { buildWhatsAppLink } from '@/utils/order';
+
+export const REVIEW_TEXT_MIN_LENGTH = 10;
+
+export const reviewFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Please enter your name')
+    .max(60, 'Name must be 60 characters or fewer'),
+  rating: z
+    .number({ invalid_type_error: 'Choose a star rating' })
+    .int()
+    .min(1, 'Choose a star rating')
+    .max(5),
+  itemId: z.string(), // '' for the restaurant as a whole
+  text: z
+    .string()
+    .trim()
+    .min(REVIEW_TEXT_MIN_LENGTH, `Review must be at least ${REVIEW_TEXT_MIN_LENGTH} characters`)
+    .max(REVIEW_TEXT_MAX_LENGTH, `Review must be ${REVIEW_TEXT_MAX_LENGTH} characters or fewer`),
+  photo: z
+    .string()
+    .trim()
+    .url('Enter a link to the photo, starting with https://')
+    .or(z.literal('')),
+});
+
+export type ReviewFormValues = z.infer<typeof reviewFormSchema>;
+
+export interface ReviewTransport {
+  id: 'whatsapp' | 'http';
+  submit: (review: Review) => Promise<void>;
+}
+
+export class ReviewTransportError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ReviewTransportError';
+  }
+}
+
+// A pending review, dated in restaurant-local time
+export const toReviewSubmission = (values: ReviewFormValues, now: Date = new Date()): Review => ({
+  id: `${slugify(values.name)}-${now.getTime().toString(36)}`,
+  author: values.name,
+  rating: values.rating,
+  text: values.text,
+  itemId: values.itemId || undefined,
+  date: getRestaurantDate(now),
+  photo: values.photo || undefined,
+  status: 'pending',
+});
+
+const formatPlainText = (review: Review) => {
+  const dish = review.itemId ? getMenuItem(review.itemId)?.name ?? review.itemId : undefined;
+  return [
+    `Name: ${review.author}`,
+    `Rating: ${'★'.repeat(review.rating)}${'☆'.repeat(5 - review.rating)} (${review.rating}/5)`,
+    dish && `Dish: ${dish}`,
+    review.photo && `Photo: ${review.photo}`,
+    '',
+    review.text,
+  ]
+    .filter((line): line is string => typeof line === 'string')
+    .join('\n');
+};
+
+type OpenUrl = (url: string) => void;
+
+const openInNewTab: OpenUrl = url => {
+  window.open(url, '_blank', 'noopener,noreferrer');
+};
+
+// Sends the review to the restaurant's WhatsApp; staff add it from the admin
+// panel if it should go on the site
+export const createWhatsAppReviewTransport = (open: OpenUrl = openInNewTab): ReviewTransport => ({
+  id: 'whatsapp',
+  submit: async review => {
+    open(buildWhatsAppLink(`Hello ${restaurant.name}! Here is my review.\n\n${formatPlainText(review)}`));
+  },
+});
+
+interface HttpReviewTransportOptions {
+  endpoint: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+// POSTs the pending review as JSON. The endpoint is expected to add it to the
+// content draft, where it waits for approval in the admin panel.
+export const createHttpReviewTransport = ({
+  endpoint,
+  timeoutMs = 10000,
+  fetchImpl = (input, init) => fetch(input, init),
+}: HttpReviewTransportOptions): ReviewTransport => ({
+  id: 'http',
+  submit: async review => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(review),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new ReviewTransportError(`Review endpoint responded with ${response.status}`, response.status);
+      }
+    } catch (error) {
+      if (error instanceof ReviewTransportError) throw error;
+      throw new ReviewTransportError(
+        controller.signal.aborted ? 'Review endpoint timed out' : 'Could not reach the review endpoint'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+});
+
+export const getReviewTransport = (): ReviewTransport => {
+  const env = import.meta.env;
+
+  if (env.VITE_REVIEW_TRANSPORT === 'http' && env.VITE_REVIEW_ENDPOINT) {
+    return createHttpReviewTransport({ endpoint: env.VITE_REVIEW_ENDPOINT });
+  }
+
+  return createWhatsAppReviewTransport();
+};
@@ -0,0 +1,39 @@
+/**
+ * Review Ratings
+ * Star averages worked out from the approved reviews in src/data/reviews.ts,
+ * one per dish for the menu cards and sorting.
+ * Kept free of "@/" imports so build-time tooling can use the averages.
+ */
+
+import { reviews as allReviews, type Review } from "../data/reviews";
+
+export interface RatingSummary {
+  average: number; // stars, to one decimal place
+  count: number;
+}
+
+export const isPublishedReview = (review: Review) => review.status === "approved";
+
+// Approved reviews, newest first
+export const getPublishedReviews = (list: Review[] = allReviews) =>
+  list
+    .filter(isPublishedReview)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+
+// Null when nothing has been approved yet
+export const summarizeRatings = (list: Review[]): RatingSummary | null => {
+  const published = list.filter(isPublishedReview);
+  if (published.length === 0) return null;
+  const total = published.reduce((sum, review) => sum + review.rating, 0);
+  return { average: Math.round((total / published.length) * 10) / 10, count: published.length };
+};
+
+export const getDishRating = (itemId: string, list: Review[] = allReviews) =>
+  summarizeRatings(list.filter(review => review.itemId === itemId));
+
+// For sorting and filtering: dishes nobody has reviewed yet count as 0
+export const getDishRatingValue = (itemId: string, list: Review[] = allReviews) =>
+  getDishRating(itemId, list)?.average ?? 0;
+
+// 4.7 -> "4.7", 5 -> "5.0"
+export const formatRating = (average: number) => average.toFixed(1);
@@ -0,0 +1,158 @@
+/**
+ * Site Routes
+ * Path builders, route resolution and per-page meta for the deep-linkable
+ * sections, menu categories and dishes. Every route renders the same
+ * single-page layout scrolled to its section. Every route also exists under
+ * each non-English locale prefix (/ta/menu, /hi/about).
+ * Kept free of "@/" imports so build-time tooling can share the route list.
+ */
+
+import { getMenuCategory, getMenuItem, menuCategories, menuItems, type MenuCategory, type MenuItem } from "../data/menu";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "../data/locales";
+import { restaurant } from "../data/restaurant";
+import { localizeMenuCategory, localizeMenuItem, localizePath, splitLocalePath, translate } from "./i18n";
+
+export const SITE_SECTIONS = ["home", "about", "menu", "contact"] as const;
+
+export type SiteSection = (typeof SITE_SECTIONS)[number];
+
+const BASE_ROUTE_PATTERNS = [
+  "/",
+  "/about",
+  "/contact",
+  "/menu",
+  "/menu/:category",
+  "/menu/:category/:dishSlug",
+];
+
+// Registered with react-router in App.tsx, in matching order
+export const ROUTE_PATTERNS = LOCALES.flatMap((locale) =>
+  BASE_ROUTE_PATTERNS.map((pattern) => localizePath(pattern, locale))
+);
+
+export interface RouteParams {
+  category?: string;
+  dishSlug?: string;
+}
+
+export interface ResolvedRoute {
+  section: SiteSection;
+  locale?: Locale; // defaults to English
+  category?: MenuCategory;
+  item?: MenuItem;
+}
+
+export interface RouteMeta {
+  title: string;
+  description: string;
+  path: string;
+  locale: Locale;
+}
+
+export const sectionPath = (section: SiteSection) => (section === "home" ? "/" : `/${section}`);
+
+// "all" is the unfiltered menu at /menu
+export const menuPath = (categoryId = "all") =>
+  categoryId === "all" ? "/menu" : `/menu/${categoryId}`;
+
+// Dish slugs are the catalog ids, which are validated as URL-safe slugs
+export const dishPath = (item: Pick<MenuItem, "id" | "category">) => `/menu/${item.category}/${item.id}`;
+
+export const isSiteSection = (value: string): value is SiteSection =>
+  (SITE_SECTIONS as readonly string[]).includes(value);
+
+// Maps a matched pathname to its locale and section. The section comes from
+// the first path segment after the locale prefix; menu params must name a
+// real category, and a dish must belong to that category. Returns null for
+// anything that should 404.
+export const resolveRoute = (pathname: string, params: RouteParams = {}): ResolvedRoute | null => {
+  const { locale, path } = splitLocalePath(pathname);
+  const segment = path.split("/").filter(Boolean)[0] ?? "home";
+  if (!isSiteSection(segment)) return null;
+  if (segment !== "menu") return { section: segment, locale };
+
+  if (!params.category) return { section: "menu", locale };
+  const category = getMenuCategory(params.category);
+  if (!category) return null;
+
+  if (!params.dishSlug) return { section: "menu", locale, category };
+  const item = getMenuItem(params.dishSlug);
+  if (!item || item.category !== category.id) return null;
+
+  return { section: "menu", locale, category, item };
+};
+
+// The route's path without its locale prefix
+const unprefixedPath = ({ section, category, item }: ResolvedRoute) => {
+  if (item) return dishPath(item);
+  if (category) return menuPath(category.id);
+  return sectionPath(section);
+};
+
+// The same page in every locale, for hreflang alternates
+export const getRouteAlternates = (route: ResolvedRoute): { locale: Locale; path: string }[] =>
+  LOCALES.map((locale) => ({ locale, path: localizePath(unprefixedPath(route), locale) }));
+
+const truncate = (text: string, maxLength = 160) =>
+  text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`;
+
+const metaParams = {
+  restaurant: restaurant.name,
+  year: restaurant.foundingDate,
+  address: `${restaurant.address.streetAddress}, ${restaurant.address.addressLocality}`,
+};
+
+export const getRouteMeta = (route: ResolvedRoute): RouteMeta => {
+  const { section } = route;
+  const locale = route.locale ?? DEFAULT_LOCALE;
+  const category = route.category && localizeMenuCategory(route.category, locale);
+  const item = route.item && localizeMenuItem(route.item, locale);
+  const path = localizePath(unprefixedPath(route), locale);
+
+  if (item) {
+    return {
+      title: translate(locale, "meta.dish.title", {
+        ...metaParams,
+        dish: item.name,
+        category: category?.name ?? translate(locale, "nav.menu"),
+      }),
+      description: truncate(item.description),
+      path,
+      locale,
+    };
+  }
+
+  if (category) {
+    const names = menuItems
+      .filter((dish) => dish.category === category.id)
+      .map((dish) => localizeMenuItem(dish, locale).name);
+    return {
+      title: translate(locale, "meta.category.title", { ...metaParams, category: category.name }),
+      description: truncate(translate(locale, "meta.category.description", {
+        ...metaParams,
+        category: category.name,
+        dishes: names.join(", "),
+      })),
+      path,
+      locale,
+    };
+  }
+
+  return {
+    title: translate(locale, `meta.${section}.title`, metaParams),
+    description: translate(locale, `meta.${section}.description`, metaParams),
+    path,
+    locale,
+  };
+};
+
+// Every concrete route in every locale, in sitemap order
+export const listRoutes = (): ResolvedRoute[] =>
+  LOCALES.flatMap((locale) => [
+    ...SITE_SECTIONS.map((section) => ({ section, locale })),
+    ...menuCategories.map((category) => ({ section: "menu" as const, locale, category })),
+    ...menuItems.flatMap((item) => {
+      const category = getMenuCategory(item.category);
+      return category ? [{ section: "menu" as const, locale, category, item }] : [];
+    }),
+  ]);
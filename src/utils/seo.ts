@@ -0,0 +1,322 @@
+/**
+ * SEO Generators
+ * Builds the Restaurant JSON-LD, per-route <head> tags and sitemap.xml from
+ * the menu catalog, opening-hours schedule and route list.
+ * Runs at build time from vite.config.ts, so keep imports relative.
+ */
+
+import { menuCategories, menuItems, type MenuItem } from "../data/menu";
+import { absoluteUrl, restaurant } from "../data/restaurant";
+import { DAYS_OF_WEEK, openingSchedule, type OpeningPeriod } from "../data/openingHours";
+import { DEFAULT_LOCALE, localeInfo } from "../data/locales";
+import { localizeMenuCategory, localizeMenuItem, localizePath, translate } from "./i18n";
+import {
+  dishPath,
+  getRouteAlternates,
+  getRouteMeta,
+  listRoutes,
+  menuPath,
+  sectionPath,
+  type ResolvedRoute,
+} from "./routes";
+
+const schemaDay = (day: string) => `https://schema.org/${day.charAt(0).toUpperCase()}${day.slice(1)}`;
+
+// schema.org has no "24:00"; closing at midnight is conventionally written as 23:59
+const schemaTime = (time: string) => (time === "24:00" ? "23:59" : time);
+
+// Days sharing identical periods are grouped into one specification each
+export const buildOpeningHoursSpecification = (schedule = openingSchedule) => {
+  const groups = new Map<string, { periods: OpeningPeriod[]; days: string[] }>();
+  DAYS_OF_WEEK.forEach((day) => {
+    const periods = schedule.weekly[day];
+    const key = JSON.stringify(periods);
+    const group = groups.get(key) ?? { periods, days: [] };
+    group.days.push(schemaDay(day));
+    groups.set(key, group);
+  });
+
+  const weekly = [...groups.values()].flatMap(({ periods, days }) =>
+    periods.map((period) => ({
+      "@type": "OpeningHoursSpecification",
+      dayOfWeek: days,
+      opens: period.opens,
+      closes: schemaTime(period.closes),
+    }))
+  );
+
+  // A closed day is expressed as opens = closes = 00:00 for the date range
+  const special = schedule.overrides.flatMap((override) =>
+    (override.periods.length > 0 ? override.periods : [{ opens: "00:00", closes: "00:00" }]).map((period) => ({
+      "@type": "OpeningHoursSpecification",
+      name: override.name,
+      validFrom: override.from,
+      validThrough: override.to,
+      opens: period.opens,
+      closes: schemaTime(period.closes),
+    }))
+  );
+
+  return [...weekly, ...special];
+};
+
+const buildMenuItemSchema = (item: MenuItem) => ({
+  "@type": "MenuItem",
+  name: item.name,
+  description: item.description,
+  image: absoluteUrl(item.image),
+  suitableForDiet: item.isVeg ? "https://schema.org/VegetarianDiet" : undefined,
+  offers: item.variants.length > 0
+    ? item.variants.map((variant) => ({
+      "@type": "Offer",
+      name: variant.name,
+      price: String(variant.price),
+      priceCurrency: "INR",
+    }))
+    : {
+      "@type": "Offer",
+      price: String(item.price),
+      priceCurrency: "INR",
+    },
+});
+
+export const buildRestaurantJsonLd = () => ({
+  "@context": "https://schema.org",
+  "@type": "Restaurant",
+  name: restaurant.name,
+  description: restaurant.description,
+  url: restaurant.siteUrl,
+  telephone: restaurant.telephone,
+  servesCuisine: restaurant.servesCuisine,
+  priceRange: restaurant.priceRange,
+  image: absoluteUrl(restaurant.logo),
+  foundingDate: restaurant.foundingDate,
+  openingHoursSpecification: buildOpeningHoursSpecification(),
+  hasMenu: {
+    "@type": "Menu",
+    hasMenuSection: menuCategories.map((category) => ({
+      "@type": "MenuSection",
+      name: category.name,
+      hasMenuItem: menuItems
+        .filter((item) => item.category === category.id)
+        .map(buildMenuItemSchema),
+    })),
+  },
+  // No aggregateRating: the site's own testimonials aren't eligible for
+  // review snippets. Add one only from real, moderated reviews.
+});
+
+// Serialise for an inline <script>, guarding against "</script>" in any string
+export const serializeJsonLd = (data: unknown): string =>
+  JSON.stringify(data, null, 2).replace(/</g, "\\u003c");
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const buildBreadcrumbJsonLd = (route: ResolvedRoute) => {
+  const locale = route.locale ?? DEFAULT_LOCALE;
+  const crumbs = [
+    { name: restaurant.name, path: sectionPath("home") },
+    { name: translate(locale, "nav.menu"), path: sectionPath("menu") },
+    ...(route.category
+      ? [{ name: localizeMenuCategory(route.category, locale).name, path: menuPath(route.category.id) }]
+      : []),
+    ...(route.item ? [{ name: localizeMenuItem(route.item, locale).name, path: dishPath(route.item) }] : []),
+  ];
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: crumbs.map((crumb, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: crumb.name,
+      item: absoluteUrl(localizePath(crumb.path, locale)),
+    })),
+  };
+};
+
+// Route-specific JSON-LD; the Restaurant JSON-LD is on every page already
+export const buildRouteJsonLd = (route: ResolvedRoute): unknown[] => {
+  if (route.section !== "menu" || !route.category) return [];
+  const breadcrumbs = buildBreadcrumbJsonLd(route);
+  const item = route.item && localizeMenuItem(route.item, route.locale ?? DEFAULT_LOCALE);
+  return item
+    ? [breadcrumbs, { "@context": "https://schema.org", ...buildMenuItemSchema(item) }]
+    : [breadcrumbs];
+};
+
+// hreflang links to the page in every locale; x-default is the English page
+const buildAlternateLinks = (route: ResolvedRoute): string[] => {
+  const alternates = getRouteAlternates(route);
+  const fallback = alternates.find((alternate) => alternate.locale === DEFAULT_LOCALE);
+  return [
+    ...alternates.map(({ locale, path }) =>
+      `<link rel="alternate" hreflang="${locale}" href="${escapeXml(absoluteUrl(path))}" />`
+    ),
+    ...(fallback ? [`<link rel="alternate" hreflang="x-default" href="${escapeXml(absoluteUrl(fallback.path))}" />`] : []),
+  ];
+};
+
+// Title, description, canonical URL, hreflang alternates, Open Graph/Twitter
+// tags and JSON-LD for one route, as an HTML fragment for the document head
+export const buildHeadTags = (route: ResolvedRoute): string => {
+  const meta = getRouteMeta(route);
+  const locale = route.locale ?? DEFAULT_LOCALE;
+  const url = absoluteUrl(meta.path);
+  const image = absoluteUrl(route.item?.image ?? restaurant.logo);
+  const title = escapeXml(meta.title);
+  const description = escapeXml(meta.description);
+
+  return [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}" />`,
+    `<link rel="canonical" href="${escapeXml(url)}" />`,
+    ...buildAlternateLinks(route),
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:url" content="${escapeXml(url)}" />`,
+    `<meta property="og:image" content="${escapeXml(image)}" />`,
+    `<meta property="og:site_name" content="${escapeXml(restaurant.name)}" />`,
+    `<meta property="og:locale" content="${localeInfo[locale].intl.replace("-", "_")}" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<meta name="twitter:image" content="${escapeXml(image)}" />`,
+    ...buildRouteJsonLd(route).map(
+      (data) => `<script type="application/ld+json">${serializeJsonLd(data)}</script>`
+    ),
+  ].join("\n    ");
+};
+
+// The generated head block sits between these markers in index.html so the
+// prerender step can swap in each route's tags
+export const HEAD_START_MARKER = "<!--app-head-->";
+export const HEAD_END_MARKER = "<!--/app-head-->";
+
+export const replaceHeadTags = (html: string, tags: string): string => {
+  const start = html.indexOf(HEAD_START_MARKER);
+  const end = html.indexOf(HEAD_END_MARKER);
+  if (start === -1 || end < start) {
+    throw new Error(`index.html is missing the ${HEAD_START_MARKER} placeholder`);
+  }
+  return `${html.slice(0, start + HEAD_START_MARKER.length)}\n    ${tags}\n    ${html.slice(end)}`;
+};
+
+interface SitemapImage {
+  loc: string;
+  title: string;
+  caption: string;
+}
+
+interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
+
+interface SitemapEntry {
+  loc: string;
+  changefreq: "daily" | "weekly" | "monthly";
+  priority: number;
+  alternates?: SitemapAlternate[];
+  images?: SitemapImage[];
+}
+
+const menuItemImage = (item: MenuItem): SitemapImage => ({
+  loc: absoluteUrl(item.image),
+  title: item.name,
+  caption: item.description,
+});
+
+const sitemapEntry = (route: ResolvedRoute): SitemapEntry => {
+  const locale = route.locale ?? DEFAULT_LOCALE;
+  const page = {
+    loc: absoluteUrl(getRouteMeta(route).path),
+    alternates: getRouteAlternates(route).map(({ locale: hreflang, path }) => ({ hreflang, href: absoluteUrl(path) })),
+  };
+  const localizedImage = (item: MenuItem) => menuItemImage(localizeMenuItem(item, locale));
+
+  if (route.item) {
+    return { ...page, changefreq: "weekly", priority: 0.7, images: [localizedImage(route.item)] };
+  }
+  if (route.category) {
+    return { ...page, changefreq: "weekly", priority: 0.8 };
+  }
+
+  switch (route.section) {
+    case "home":
+      return {
+        ...page,
+        changefreq: "weekly",
+        priority: 1.0,
+        images: [
+          {
+            loc: absoluteUrl(restaurant.heroImage),
+            title: restaurant.name,
+            caption: `${translate(locale, "hero.title")} - ${translate(locale, "hero.subtitle")}`,
+          },
+          {
+            loc: absoluteUrl(restaurant.logo),
+            title: restaurant.name,
+            caption: `${restaurant.name} Logo`,
+          },
+        ],
+      };
+    case "menu":
+      return { ...page, changefreq: "weekly", priority: 0.9, images: menuItems.map(localizedImage) };
+    case "about":
+      return { ...page, changefreq: "monthly", priority: 0.6 };
+    case "contact":
+      return { ...page, changefreq: "monthly", priority: 0.7 };
+  }
+};
+
+// One entry per prerendered route and locale, so the sitemap never drifts
+// from the site
+export const buildSitemapEntries = (routes: ResolvedRoute[] = listRoutes()): SitemapEntry[] =>
+  routes.map(sitemapEntry);
+
+export const buildSitemapXml = (
+  entries: SitemapEntry[] = buildSitemapEntries(),
+  lastmod: string = new Date().toISOString().slice(0, 10)
+): string => {
+  const urls = entries.map((entry) => {
+    const images = (entry.images ?? []).map((image) => [
+      "    <image:image>",
+      `      <image:loc>${escapeXml(image.loc)}</image:loc>`,
+      `      <image:caption>${escapeXml(image.caption)}</image:caption>`,
+      `      <image:title>${escapeXml(image.title)}</image:title>`,
+      "    </image:image>",
+    ].join("\n"));
+    const alternates = (entry.alternates ?? []).map(
+      (alternate) =>
+        `    <xhtml:link rel="alternate" hreflang="${alternate.hreflang}" href="${escapeXml(alternate.href)}" />`
+    );
+
+    return [
+      "  <url>",
+      `    <loc>${escapeXml(entry.loc)}</loc>`,
+      `    <lastmod>${lastmod}</lastmod>`,
+      `    <changefreq>${entry.changefreq}</changefreq>`,
+      `    <priority>${entry.priority.toFixed(1)}</priority>`,
+      ...alternates,
+      ...images,
+      "  </url>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"',
+    '        xmlns:xhtml="http://www.w3.org/1999/xhtml"',
+    '        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,48 @@
+import { SERVICE_WORKER_PATH } from '@/utils/pwa';
+
+// Registers the build's service worker (src/sw.js). A new version installs
+// in the background and waits; `onUpdateReady` gets a callback that lets it
+// take over, after which the page reloads onto the new bundle.
+export const registerServiceWorker = (onUpdateReady: (applyUpdate: () => void) => void) => {
+  if (!('serviceWorker' in navigator)) return;
+
+  // The first install also claims the page; only an accepted update reloads
+  let updateAccepted = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!updateAccepted) return;
+    updateAccepted = false;
+    window.location.reload();
+  });
+
+  const promptFor = (worker: ServiceWorker) =>
+    onUpdateReady(() => {
+      updateAccepted = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+      // Only an update waits: the first install has no page to replace
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        promptFor(registration.waiting);
+      }
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+            promptFor(worker);
+          }
+        });
+      });
+    } catch {
+      // Unsupported context (private mode, file://); the site works without it
+    }
+  };
+
+  if (document.readyState === 'complete') {
+    register();
+  } else {
+    window.addEventListener('load', register, { once: true });
+  }
+};
@@ -0,0 +1,37 @@
+/**
+ * UPI Payments
+ * Builds the `upi://pay` intent from the NPCI UPI linking specification for
+ * paying an order up front. Phones hand the link to an installed UPI app;
+ * elsewhere the same link is shown as a QR code to scan with one.
+ */
+
+import { restaurant } from '@/data/restaurant';
+
+export interface UpiPaymentRequest {
+  amount: number; // ₹
+  reference: string; // order reference, so staff can match the payment
+  payeeVpa?: string;
+  payeeName?: string;
+}
+
+// Only the parameters UPI apps agree on for person-to-merchant payments
+// without a merchant code: payee, name, amount, currency and note
+export const buildUpiIntent = ({
+  amount,
+  reference,
+  payeeVpa = restaurant.upiId,
+  payeeName = restaurant.name,
+}: UpiPaymentRequest) => {
+  const params = [
+    ['pa', payeeVpa],
+    ['pn', payeeName],
+    ['am', amount.toFixed(2)],
+    ['cu', 'INR'],
+    ['tn', `Order ${reference}`],
+  ];
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+// UPI apps only exist for phones and tablets
+export const canOpenUpiApps = (userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent) =>
+  /Android|iPhone|iPad|iPod/i.test(userAgent);
@@ -3,6 +3,11 @@
  * Provides tools for video performance monitoring and optimization
  */
 
+import { VIDEO_QUALITIES, type VideoPoster, type VideoQuality, type VideoRendition } from '@/data/heroVideo';
+import { VIDEO_OPTIMIZATION_GUIDELINES } from '@/data/videoGuidelines';
+
+export { VIDEO_OPTIMIZATION_GUIDELINES };
+
 export interface VideoMetrics {
   loadTime: number;
   fileSize: number;
@@ -179,37 +184,6 @@ ${this.generateRecommendations(metrics)}
   }
 }
 
-/**
- * Video Optimization Recommendations
- */
-export const VIDEO_OPTIMIZATION_GUIDELINES = {
-  fileSize: {
-    mobile: 10, // MB
-    desktop: 20, // MB
-    maximum: 50 // MB
-  },
-  duration: {
-    recommended: 15, // seconds
-    maximum: 30 // seconds
-  },
-  resolution: {
-    mobile: '720p',
-    desktop: '1080p',
-    maximum: '1440p'
-  },
-  bitrate: {
-    low: 1, // Mbps
-    medium: 2.5, // Mbps
-    high: 5 // Mbps
-  },
-  formats: ['WebM', 'MP4'],
-  compression: {
-    codec: 'H.264',
-    profile: 'High',
-    level: '4.0'
-  }
-};
-
 /**
  * Utility function to check if video meets optimization guidelines
  */
@@ -314,3 +288,63 @@ export function getOptimalVideoConfig(
     }
   }
 }
+
+/**
+ * Connection speed as getOptimalVideoConfig expects it, from the Network
+ * Information API; "fast" where the browser doesn't expose it
+ */
+export function getConnectionSpeed(
+  connection = typeof navigator === 'undefined'
+    ? undefined
+    : (navigator as Navigator & { connection?: { effectiveType?: string; downlink?: number; saveData?: boolean } }).connection
+): 'slow' | 'medium' | 'fast' {
+  if (!connection) return 'fast';
+  const { effectiveType, downlink } = connection;
+  if (['slow-2g', '2g'].includes(effectiveType) || downlink < 0.5) return 'slow';
+  if (effectiveType === '3g' || downlink < 1.5) return 'medium';
+  return 'fast';
+}
+
+/**
+ * Next quality down, or undefined at the lowest
+ */
+export function getLowerQuality(quality: VideoQuality): VideoQuality | undefined {
+  return VIDEO_QUALITIES[VIDEO_QUALITIES.indexOf(quality) + 1];
+}
+
+/**
+ * First playable rendition at `quality`, falling back to lower qualities and
+ * then to the nearest higher one. Manifest order decides between formats of
+ * the same quality.
+ */
+export function selectRendition(
+  renditions: VideoRendition[],
+  quality: VideoQuality,
+  canPlayType: (type: string) => boolean
+): VideoRendition | undefined {
+  const index = VIDEO_QUALITIES.indexOf(quality);
+  return [...VIDEO_QUALITIES.slice(index), ...VIDEO_QUALITIES.slice(0, index).reverse()]
+    .map((candidate) => renditions.find((rendition) => rendition.quality === candidate && canPlayType(rendition.type)))
+    .find(Boolean);
+}
+
+/**
+ * Poster frame matching a rendition's quality
+ */
+export function selectPoster(posters: VideoPoster[], quality: VideoQuality): VideoPoster | undefined {
+  return posters.find((poster) => poster.quality === quality) ?? posters[0];
+}
+
+/**
+ * Menu labels such as "720p", from the tallest rendition of each quality
+ */
+export function getQualityLabels(renditions: VideoRendition[]): Record<VideoQuality, string> {
+  return Object.fromEntries(
+    VIDEO_QUALITIES.map((quality) => {
+      const heights = renditions
+        .filter((rendition) => rendition.quality === quality && rendition.height !== undefined)
+        .map((rendition) => rendition.height as number);
+      return [quality, heights.length > 0 ? `${Math.max(...heights)}p` : quality];
+    })
+  ) as Record<VideoQuality, string>;
+}
@@ -0,0 +1,251 @@
+/**
+ * Real-User Monitoring
+ * Core Web Vitals measured in visitors' browsers, following the definitions
+ * at https://web.dev/articles/vitals:
+ *
+ * - TTFB: navigation response start, from activation for prerendered pages
+ * - FCP and LCP: only paints before the page was first hidden count; LCP
+ *   stops updating at the first key press, click or tap
+ * - CLS: the largest session window of unexpected shifts (shifts under 1s
+ *   apart, a window at most 5s long)
+ * - INP: the longest interaction, ignoring one outlier per 50 interactions
+ *
+ * One report per page view is sent with navigator.sendBeacon when the page
+ * is hidden, holding every metric that changed since the last report (a tab
+ * can be hidden and come back). Reports follow a versioned schema so the
+ * collector can tell old clients apart; bump RUM_SCHEMA_VERSION on any
+ * breaking change. Page views are sampled by VITE_RUM_SAMPLE_RATE, and like
+ * the analytics events nothing is sent without the visitor's consent.
+ * scripts/rum-collector.mjs is a local collector for trying it out.
+ */
+
+import { getAnalyticsConsent, postBeacon } from '@/utils/analytics';
+import { getDeviceInfo } from '@/utils/performanceMonitor';
+
+export const RUM_SCHEMA_VERSION = 1;
+
+export const METRIC_NAMES = ['TTFB', 'FCP', 'LCP', 'CLS', 'INP'] as const;
+
+export type MetricName = (typeof METRIC_NAMES)[number];
+
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
+// Upper bounds of "good" and "needs improvement"; ms, except CLS
+export const METRIC_THRESHOLDS: Record<MetricName, [number, number]> = {
+  TTFB: [800, 1800],
+  FCP: [1800, 3000],
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+};
+
+export interface RumMetric {
+  name: MetricName;
+  value: number; // ms, except CLS (unitless)
+  rating: MetricRating;
+}
+
+export interface RumReport {
+  schemaVersion: typeof RUM_SCHEMA_VERSION;
+  pageViewId: string; // random per page load; groups a page view's reports
+  route: string; // path without the query string
+  navigationType: string; // "navigate", "reload", "back_forward" or "prerender"
+  connection: string; // effective type, e.g. "4g"; "unknown" where unsupported
+  device: {
+    mobile: boolean;
+    tablet: boolean;
+    memoryGb: number | null;
+    cpuCores: number | null;
+    saveData: boolean;
+  };
+  metrics: RumMetric[];
+  sentAt: number; // ms since the epoch
+}
+
+export interface RumOptions {
+  endpoint?: string;
+  sampleRate?: number; // percent of page views
+  send?: (report: RumReport) => void;
+}
+
+// Entry types missing from TypeScript's DOM library
+interface LayoutShift extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface InteractionTiming extends PerformanceEntry {
+  interactionId?: number;
+}
+
+const SESSION_GAP_MS = 1000;
+const SESSION_MAX_MS = 5000;
+const INP_CANDIDATES = 10; // enough for 500 interactions at one outlier per 50
+const INTERACTION_THRESHOLD_MS = 40; // shorter events can't decide INP
+
+export const rateMetric = (name: MetricName, value: number): MetricRating => {
+  const [good, poor] = METRIC_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+};
+
+// Largest total of shifts grouped into session windows
+export const computeCls = (shifts: Pick<LayoutShift, 'startTime' | 'value'>[]) => {
+  let largest = 0;
+  let current = 0;
+  let windowStart = 0;
+  let previous = 0;
+  shifts.forEach((shift, index) => {
+    const continues =
+      index > 0 && shift.startTime - previous < SESSION_GAP_MS && shift.startTime - windowStart < SESSION_MAX_MS;
+    if (continues) {
+      current += shift.value;
+    } else {
+      current = shift.value;
+      windowStart = shift.startTime;
+    }
+    previous = shift.startTime;
+    largest = Math.max(largest, current);
+  });
+  return largest;
+};
+
+// `longest` holds the longest interaction durations, longest first; one is
+// skipped for every 50 interactions on the page
+export const computeInp = (longest: number[], interactionCount: number) =>
+  longest.length === 0 ? undefined : longest[Math.min(longest.length - 1, Math.floor(interactionCount / 50))];
+
+const getRumConfig = (): RumOptions => {
+  const env = import.meta.env;
+  const sampleRate = Number(env.VITE_RUM_SAMPLE_RATE ?? 10);
+  return {
+    endpoint: env.VITE_RUM_ENDPOINT,
+    sampleRate: Number.isFinite(sampleRate) ? sampleRate : 10,
+  };
+};
+
+export const isRumEnabled = () => Boolean(import.meta.env.VITE_RUM_ENDPOINT);
+
+const observe = (type: string, callback: (entries: PerformanceEntry[]) => void, options: object = {}) => {
+  if (!PerformanceObserver.supportedEntryTypes?.includes(type)) return undefined;
+  const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+  observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+  return observer;
+};
+
+const createPageViewId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const getDeviceContext = (): Pick<RumReport, 'connection' | 'device'> => {
+  const info = getDeviceInfo();
+  return {
+    connection: String(info.connectionType),
+    device: {
+      mobile: info.isMobile,
+      tablet: info.isTablet,
+      memoryGb: typeof info.deviceMemory === 'number' ? info.deviceMemory : null,
+      cpuCores: typeof info.hardwareConcurrency === 'number' ? info.hardwareConcurrency : null,
+      saveData: Boolean(info.saveData),
+    },
+  };
+};
+
+let isStarted = false;
+
+// Starts measuring this page view; reports go to `endpoint`, or to the
+// console in development when none is configured
+export const startWebVitalsReporting = (options: RumOptions = {}) => {
+  if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined' || isStarted) return;
+  isStarted = true;
+
+  const { endpoint, sampleRate = 10, send } = { ...getRumConfig(), ...options };
+  const deliver =
+    send ??
+    (endpoint
+      ? (report: RumReport) => postBeacon(endpoint, report)
+      : import.meta.env.DEV
+        ? (report: RumReport) => console.info('[rum]', report)
+        : undefined);
+  if (!deliver || Math.random() * 100 >= sampleRate) return;
+
+  const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+  const activationStart = (navigation as PerformanceNavigationTiming & { activationStart?: number })?.activationStart ?? 0;
+  const fromActivation = (time: number) => Math.max(0, time - activationStart);
+
+  const values: Partial<Record<MetricName, number>> = {};
+  const reported: Partial<Record<MetricName, number>> = {};
+  let firstHiddenTime = document.visibilityState === 'hidden' ? 0 : Infinity;
+
+  if (navigation && navigation.responseStart > 0) {
+    values.TTFB = fromActivation(navigation.responseStart);
+  }
+
+  observe('paint', (entries) => {
+    const fcp = entries.find((entry) => entry.name === 'first-contentful-paint');
+    if (fcp && fcp.startTime < firstHiddenTime) values.FCP = fromActivation(fcp.startTime);
+  });
+
+  let isLcpFinal = false;
+  observe('largest-contentful-paint', (entries) => {
+    const last = entries[entries.length - 1];
+    if (!isLcpFinal && last && last.startTime < firstHiddenTime) values.LCP = fromActivation(last.startTime);
+  });
+  const finalizeLcp = () => {
+    isLcpFinal = true;
+  };
+  ['keydown', 'click', 'pointerdown'].forEach((type) =>
+    window.addEventListener(type, finalizeLcp, { once: true, capture: true })
+  );
+
+  const shifts: LayoutShift[] = [];
+  observe('layout-shift', (entries) => {
+    shifts.push(...(entries as LayoutShift[]).filter((entry) => !entry.hadRecentInput));
+    values.CLS = computeCls(shifts);
+  });
+
+  // Longest duration per interaction; one interaction fires several events
+  const interactions = new Map<number, number>();
+  const recordInteractions = (entries: PerformanceEntry[]) => {
+    (entries as InteractionTiming[]).forEach((entry) => {
+      if (!entry.interactionId) return;
+      interactions.set(entry.interactionId, Math.max(interactions.get(entry.interactionId) ?? 0, entry.duration));
+    });
+    const longest = [...interactions.values()].sort((a, b) => b - a).slice(0, INP_CANDIDATES);
+    const count = (performance as Performance & { interactionCount?: number }).interactionCount ?? interactions.size;
+    values.INP = computeInp(longest, count);
+  };
+  observe('event', recordInteractions, { durationThreshold: INTERACTION_THRESHOLD_MS });
+  observe('first-input', recordInteractions);
+
+  const pageViewId = createPageViewId();
+  const report = () => {
+    // Without consent nothing is marked as sent, so a later hide can still report
+    if (getAnalyticsConsent() !== 'granted') return;
+    const metrics = METRIC_NAMES.filter((name) => values[name] !== undefined && values[name] !== reported[name]).map(
+      (name): RumMetric => ({ name, value: Math.round(values[name] * 1000) / 1000, rating: rateMetric(name, values[name]) })
+    );
+    if (metrics.length === 0) return;
+    metrics.forEach((metric) => {
+      reported[metric.name] = values[metric.name];
+    });
+    deliver({
+      schemaVersion: RUM_SCHEMA_VERSION,
+      pageViewId,
+      route: window.location.pathname,
+      navigationType: activationStart > 0 ? 'prerender' : navigation?.type ?? 'navigate',
+      ...getDeviceContext(),
+      metrics,
+      sentAt: Date.now(),
+    });
+  };
+
+  const onHidden = () => {
+    firstHiddenTime = Math.min(firstHiddenTime, performance.now());
+    finalizeLcp();
+    report();
+  };
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') onHidden();
+  });
+  window.addEventListener('pagehide', onHidden);
+};
@@ -1 +1,22 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CONTACT_TRANSPORT?: 'whatsapp' | 'mailto' | 'http';
+  readonly VITE_CONTACT_ENDPOINT?: string;
+  readonly VITE_CONTACT_EMAIL?: string;
+  readonly VITE_REVIEW_TRANSPORT?: 'whatsapp' | 'http';
+  readonly VITE_REVIEW_ENDPOINT?: string;
+  readonly VITE_CONTENT_STORAGE?: 'local' | 'http';
+  readonly VITE_CONTENT_ENDPOINT?: string;
+  readonly VITE_ANALYTICS_SINK?: 'console' | 'beacon';
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+  readonly VITE_RUM_ENDPOINT?: string;
+  /** Percent of page views that report Web Vitals; defaults to 10 */
+  readonly VITE_RUM_SAMPLE_RATE?: string;
+  /** SHA-256 hex digest of the /admin password */
+  readonly VITE_ADMIN_PASSWORD_HASH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
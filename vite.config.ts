@@ -1,7 +1,189 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Logger, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
+import zlib from "zlib";
 import { componentTagger } from "lovable-tagger";
+import {
+  buildHeadTags,
+  buildRestaurantJsonLd,
+  buildSitemapXml,
+  replaceHeadTags,
+  serializeJsonLd,
+} from "./src/utils/seo";
+import {
+  APPLE_TOUCH_ICON_PATH,
+  MANIFEST_PATH,
+  SERVICE_WORKER_PATH,
+  buildPrecacheUrls,
+  buildServiceWorker,
+  buildWebManifest,
+} from "./src/utils/pwa";
+import { performanceBudgets } from "./src/data/performanceBudgets";
+import {
+  checkPerformanceBudgets,
+  formatBudgetReport,
+  getBudgetFailures,
+  getBudgetWarnings,
+  type BuiltFile,
+} from "./src/utils/performanceBudget";
+
+// Generates the Restaurant JSON-LD and sitemap.xml from the menu catalog.
+// The head placeholder gets the home page's tags; scripts/prerender.mjs
+// replaces them per route after the build.
+const seoPlugin = (): Plugin => {
+  let isSsrBuild = false;
+
+  return {
+    name: "ambur-seo",
+    configResolved(config) {
+      // The SSR build for prerendering shares this config but emits no sitemap
+      isSsrBuild = Boolean(config.build.ssr);
+    },
+    transformIndexHtml(html) {
+      return {
+        html: replaceHeadTags(html, buildHeadTags({ section: "home" })),
+        tags: [
+          {
+            tag: "script",
+            attrs: { type: "application/ld+json" },
+            children: serializeJsonLd(buildRestaurantJsonLd()),
+            injectTo: "head",
+          },
+        ],
+      };
+    },
+    configureServer(server) {
+      server.middlewares.use("/sitemap.xml", (_req, res) => {
+        res.setHeader("Content-Type", "application/xml");
+        res.end(buildSitemapXml());
+      });
+    },
+    generateBundle() {
+      if (isSsrBuild) return;
+      this.emitFile({
+        type: "asset",
+        fileName: "sitemap.xml",
+        source: buildSitemapXml(),
+      });
+    },
+  };
+};
+
+// Emits the web app manifest and the service worker (src/sw.js) with the
+// precache list for this build. The worker is only registered in production,
+// but the manifest is served in dev too so installability can be checked.
+const pwaPlugin = (): Plugin => {
+  let isSsrBuild = false;
+  let root = process.cwd();
+
+  const manifest = buildWebManifest();
+  const manifestJson = JSON.stringify(manifest, null, 2);
+
+  return {
+    name: "ambur-pwa",
+    configResolved(config) {
+      isSsrBuild = Boolean(config.build.ssr);
+      root = config.root;
+    },
+    transformIndexHtml() {
+      return [
+        { tag: "link", attrs: { rel: "manifest", href: MANIFEST_PATH }, injectTo: "head" },
+        { tag: "meta", attrs: { name: "theme-color", content: manifest.theme_color }, injectTo: "head" },
+        { tag: "link", attrs: { rel: "apple-touch-icon", href: APPLE_TOUCH_ICON_PATH }, injectTo: "head" },
+      ];
+    },
+    configureServer(server) {
+      server.middlewares.use(MANIFEST_PATH, (_req, res) => {
+        res.setHeader("Content-Type", "application/manifest+json");
+        res.end(manifestJson);
+      });
+    },
+    generateBundle(_options, bundle) {
+      if (isSsrBuild) return;
+      // Google Fonts stylesheets linked from index.html
+      const html = fs.readFileSync(path.join(root, "index.html"), "utf8");
+      const stylesheets = [...html.matchAll(/href="(https:\/\/fonts\.googleapis\.com\/css2[^"]*)"/g)].map(
+        (match) => match[1]
+      );
+      const precacheUrls = buildPrecacheUrls({ bundleFiles: Object.keys(bundle), stylesheets });
+
+      this.emitFile({ type: "asset", fileName: MANIFEST_PATH.slice(1), source: manifestJson });
+      this.emitFile({
+        type: "asset",
+        fileName: SERVICE_WORKER_PATH.slice(1),
+        source: buildServiceWorker(fs.readFileSync(path.join(root, "src/sw.js"), "utf8"), precacheUrls),
+      });
+    },
+  };
+};
+
+// Paths of every file under `dir`, relative to it with forward slashes
+const listFiles = (dir: string, prefix = ""): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relative = `${prefix}${entry.name}`;
+    return entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${relative}/`) : [relative];
+  });
+
+// Checks the client build against src/data/performanceBudgets.ts once it is
+// written: emitted chunks and assets, plus the files copied from public/.
+// Prints the report and fails the build when anything is over budget.
+// Deploy-only files (the hero video) missing from a checkout are a warning;
+// BUDGET_STRICT=1, set by the deploy, fails the build on those too.
+const budgetPlugin = (): Plugin => {
+  let isSsrBuild = false;
+  let publicDir = "";
+  let logger: Logger | undefined;
+
+  return {
+    name: "ambur-performance-budget",
+    apply: "build",
+    configResolved(config) {
+      isSsrBuild = Boolean(config.build.ssr);
+      publicDir = config.publicDir;
+      logger = config.logger;
+    },
+    writeBundle(_options, bundle) {
+      if (isSsrBuild) return;
+      const fontSources: string[] = [];
+      const emitted: BuiltFile[] = Object.values(bundle).map((output) => {
+        const source = output.type === "chunk" ? output.code : output.source;
+        if (/\.(html|css)$/.test(output.fileName) && typeof source === "string") fontSources.push(source);
+        return {
+          path: output.fileName,
+          bytes: Buffer.byteLength(source),
+          gzipBytes: zlib.gzipSync(source).length,
+          isEntry: output.type === "chunk" && output.isEntry,
+        };
+      });
+      const copied: BuiltFile[] =
+        publicDir && fs.existsSync(publicDir)
+          ? listFiles(publicDir).map((file) => ({ path: file, bytes: fs.statSync(path.join(publicDir, file)).size }))
+          : [];
+
+      const strict = process.env.BUDGET_STRICT === "1";
+      const results = checkPerformanceBudgets([...emitted, ...copied], fontSources, performanceBudgets);
+      logger?.info(`\n${formatBudgetReport(results, strict)}\n`);
+      const warnings = getBudgetWarnings(results, strict);
+      if (warnings.length > 0) {
+        logger?.warn(
+          `Deploy-only files not found: ${warnings.map((warning) => warning.path).join(", ")}. ` +
+            "The deploy adds them (`npm run video:transcode` writes the renditions); BUDGET_STRICT=1 makes this an error."
+        );
+      }
+      const failures = getBudgetFailures(results, strict);
+      if (failures.length > 0) {
+        this.error(
+          `Performance budget exceeded: ${failures
+            .map((failure) => (failure.status === "missing" ? `${failure.path} (missing)` : failure.path))
+            .join(", ")}. ` +
+            "Shrink the files, or raise the budget in src/data/performanceBudgets.ts if the growth is intended; " +
+            "`npm run video:transcode` writes the hero video files."
+        );
+      }
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +193,9 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    seoPlugin(),
+    pwaPlugin(),
+    budgetPlugin(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),